@@ -0,0 +1,211 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getBlockchainService, LEGACY_BACKEND } from '@/lib/blockchain'
+import { buildDriftReport, reverifyMetadataRow } from '@/lib/blockchain/drift'
+import { recordFromMetadataRow } from '@/lib/blockchain/records'
+import { logActivity, logTamperDetected } from '@/lib/audit'
+import { reverifyLimiter, checkRateLimit } from '@/lib/rate-limit'
+import type { BlockchainExplorerPage, BlockchainExplorerRecord, BlockchainReverifyResult } from '@/lib/types'
+
+const PAGE_SIZE = 10
+const REVERIFY_BATCH_SIZE = 25 // rows per bulk re-verify call
+const LISTING_COLUMNS =
+  'id, original_filename, created_at, blockchain_hash, blockchain_backend, blockchain_status, blockchain_tx_id, blockchain_network, blockchain_block_number, blockchain_proof'
+const REVERIFY_COLUMNS =
+  'id, created_at, blockchain_hash, blockchain_backend, blockchain_status, blockchain_tx_id, blockchain_network, blockchain_block_number, blockchain_proof'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// created_at as PostgREST returns it, e.g. 2026-10-19T12:34:56.123456+00:00
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?(?:Z|[+-]\d{2}:\d{2})$/
+
+// A row the ledger no longer backs is a tamper signal, whichever side changed
+async function auditReverify(userId: string, result: BlockchainReverifyResult) {
+  if (result.status === 'MISSING' || result.status === 'DRIFT') {
+    await logTamperDetected(userId, result.id, {
+      source: 'blockchain_reverify',
+      hash: result.hash,
+      backend: result.backend,
+      status: result.status,
+      drift: result.drift,
+    })
+  }
+}
+
+// Keyset cursor for bulk re-verification: created_at and id of the last row
+// checked. Rows are walked newest first, so uploads made between calls do
+// not shift the batches. Both values are checked against strict patterns
+// before they go into the PostgREST filter.
+function encodeCursor(row: { created_at: string; id: string }): string {
+  return Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url')
+}
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof createdAt !== 'string' || !TIMESTAMP_PATTERN.test(createdAt)) return null
+    if (Number.isNaN(Date.parse(createdAt))) return null
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null
+    return { createdAt, id }
+  } catch {
+    return null
+  }
+}
+
+// ==========================================
+// EXPLORER LISTING
+// ==========================================
+async function fetchListingPage(supabase: Awaited<ReturnType<typeof createClient>>, userId: string, page: number) {
+  const from = (page - 1) * PAGE_SIZE
+  return supabase
+    .from('metadata')
+    .select(LISTING_COLUMNS, { count: 'exact' })
+    .eq('user_id', userId)
+    .not('blockchain_hash', 'is', null)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(from, from + PAGE_SIZE - 1)
+}
+
+export async function getBlockchainRecords(
+  page = 1,
+): Promise<{ success: boolean; error?: string } & Partial<BlockchainExplorerPage>> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { success: false, error: 'Not authenticated' }
+
+    let current = Math.max(1, Math.floor(page) || 1)
+    let { data: rows, count, error } = await fetchListingPage(supabase, user.id, current)
+    // A page past the end (records deleted since it was shown) falls back to the last one
+    if (current > 1 && (error?.code === 'PGRST103' || (!error && rows?.length === 0))) {
+      current = Math.max(1, Math.ceil((count ?? 0) / PAGE_SIZE))
+      ;({ data: rows, count, error } = await fetchListingPage(supabase, user.id, current))
+    }
+    if (error) throw new Error(error.message)
+
+    // Confirmations need each ledger's height, asked once per backend on the page
+    const heads = new Map<string, number | undefined>()
+    const unavailableBackends: string[] = []
+    for (const row of rows ?? []) {
+      const backend: string = row.blockchain_backend || LEGACY_BACKEND
+      if (heads.has(backend) || unavailableBackends.includes(backend)) continue
+      try {
+        heads.set(backend, await getBlockchainService(backend).getHeadBlockNumber())
+      } catch (err) {
+        console.warn(`[BLOCKCHAIN] ${backend} backend unavailable for the explorer:`, err)
+        unavailableBackends.push(backend)
+      }
+    }
+
+    const records: BlockchainExplorerRecord[] = (rows ?? []).map((row) => {
+      const backend: string = row.blockchain_backend || LEGACY_BACKEND
+      return { ...recordFromMetadataRow(row, heads.get(backend)), backend }
+    })
+    return {
+      success: true,
+      records,
+      page: current,
+      pageSize: PAGE_SIZE,
+      total: count ?? records.length,
+      unavailableBackends,
+    }
+  } catch (error) {
+    console.error('Blockchain explorer error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to load records' }
+  }
+}
+
+// ==========================================
+// RE-VERIFICATION AGAINST THE LEDGER
+// ==========================================
+export async function reverifyBlockchainRecord(metadataId: string) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { success: false, error: 'Not authenticated' }
+
+    const { data: meta } = await supabase
+      .from('metadata')
+      .select(REVERIFY_COLUMNS)
+      .eq('id', metadataId)
+      .eq('user_id', user.id)
+      .not('blockchain_hash', 'is', null)
+      .maybeSingle()
+    if (!meta) return { success: false, error: 'Record not found or access denied' }
+
+    const result = await reverifyMetadataRow(meta)
+    await logActivity({
+      userId: user.id,
+      action: 'HASH_VERIFY',
+      resourceId: metadataId,
+      details: { hash: result.hash, status: result.status, drift: result.drift },
+    })
+    await auditReverify(user.id, result)
+
+    return { success: true, result }
+  } catch (error) {
+    console.error('Blockchain re-verify error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Re-verification failed' }
+  }
+}
+
+/**
+ * Re-verify the user's anchored records in batches of REVERIFY_BATCH_SIZE,
+ * one row at a time so a large vault does not flood the ledger, and report
+ * the rows that drifted. Pass back `nextCursor` for the next batch; it is
+ * null once every row has been checked.
+ */
+export async function reverifyAllBlockchainRecords(cursor?: string | null) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { success: false, error: 'Not authenticated' }
+
+    try {
+      await checkRateLimit(user.id, reverifyLimiter)
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Rate limit exceeded' }
+    }
+
+    const after = cursor ? decodeCursor(cursor) : null
+    if (cursor && !after) return { success: false, error: 'Invalid re-verification cursor' }
+
+    let query = supabase
+      .from('metadata')
+      .select(REVERIFY_COLUMNS)
+      .eq('user_id', user.id)
+      .not('blockchain_hash', 'is', null)
+    if (after) {
+      query = query.or(
+        `created_at.lt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.lt.${after.id})`,
+      )
+    }
+    // One row past the batch tells whether another batch follows
+    const { data: rows, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(REVERIFY_BATCH_SIZE + 1)
+    if (error) throw new Error(error.message)
+
+    const batch = (rows ?? []).slice(0, REVERIFY_BATCH_SIZE)
+    const results: BlockchainReverifyResult[] = []
+    for (const meta of batch) {
+      const result = await reverifyMetadataRow(meta)
+      await auditReverify(user.id, result)
+      results.push(result)
+    }
+    const nextCursor = (rows ?? []).length > REVERIFY_BATCH_SIZE ? encodeCursor(batch[batch.length - 1]) : null
+
+    const report = buildDriftReport(results)
+    await logActivity({
+      userId: user.id,
+      action: 'HASH_VERIFY',
+      details: { bulk: true, checked: report.checked, counts: report.counts, resumed: !!after, complete: !nextCursor },
+    })
+
+    return { success: true, report, nextCursor }
+  } catch (error) {
+    console.error('Blockchain bulk re-verify error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Re-verification failed' }
+  }
+}
@@ -0,0 +1,163 @@
+'use server'
+
+import crypto from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { CUSTODY_KEY_PROVIDER } from '@/lib/crypto'
+import {
+  getCustodyStatus,
+  listCustodianTasks,
+  openCustodyRequest,
+  submitCustodyShare,
+} from '@/lib/custody'
+import { logCustodyApproval, logCustodyRequest } from '@/lib/audit'
+
+const MIN_CUSTODIAN_KEY_BITS = 2048
+
+async function requireUser() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Authentication required')
+  return { supabase, user }
+}
+
+// Only the owner of a custody record may request or watch its recovery
+async function requireOwnedCustodyRecord(metadataId: string) {
+  const { supabase, user } = await requireUser()
+  const { data: meta } = await supabase
+    .from('metadata')
+    .select('id, key_provider, custody_threshold, status')
+    .eq('id', metadataId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!meta) throw new Error('File metadata not found or access denied')
+  if (meta.key_provider !== CUSTODY_KEY_PROVIDER) throw new Error('This file is not under custodian recovery')
+  return { user, meta }
+}
+
+// ==========================================
+// CUSTODIAN DIRECTORY
+// ==========================================
+export async function listCustodians() {
+  try {
+    await requireUser()
+    const admin = createAdminClient()
+    const { data, error } = await admin
+      .from('custodians')
+      .select('user_id, display_name')
+      .order('display_name', { ascending: true })
+    if (error) throw error
+    return {
+      success: true,
+      custodians: (data || []).map((c) => ({ id: c.user_id as string, displayName: c.display_name as string })),
+    }
+  } catch (error) {
+    return { success: false, error: 'Failed to load custodians', custodians: [] }
+  }
+}
+
+export async function getMyCustodianProfile() {
+  try {
+    const { user } = await requireUser()
+    const admin = createAdminClient()
+    const { data } = await admin
+      .from('custodians')
+      .select('display_name, updated_at')
+      .eq('user_id', user.id)
+      .maybeSingle()
+    return { success: true, registered: !!data, displayName: (data?.display_name as string) || null }
+  } catch (error) {
+    return { success: false, registered: false, displayName: null }
+  }
+}
+
+/**
+ * Register (or replace) the caller's custodian public key.
+ * Shares issued under a replaced key can no longer be unwrapped by the new one.
+ */
+export async function registerCustodian(displayName: string, publicKeyPem: string) {
+  try {
+    const { user } = await requireUser()
+    const name = displayName.trim()
+    if (!name || name.length > 100) return { success: false, error: 'Display name is required (max 100 characters)' }
+
+    let key
+    try {
+      key = crypto.createPublicKey(publicKeyPem)
+    } catch {
+      return { success: false, error: 'Public key must be a PEM-encoded RSA key' }
+    }
+    const bits = key.asymmetricKeyDetails?.modulusLength || 0
+    if (key.asymmetricKeyType !== 'rsa' || bits < MIN_CUSTODIAN_KEY_BITS) {
+      return { success: false, error: `Custodian keys must be RSA with at least ${MIN_CUSTODIAN_KEY_BITS} bits` }
+    }
+
+    const admin = createAdminClient()
+    const { error } = await admin.from('custodians').upsert({
+      user_id: user.id,
+      display_name: name,
+      public_key: key.export({ type: 'spki', format: 'pem' }).toString(),
+      updated_at: new Date().toISOString(),
+    })
+    if (error) throw error
+
+    return { success: true }
+  } catch (error) {
+    console.error('Custodian registration error:', error)
+    return { success: false, error: 'Failed to register custodian key' }
+  }
+}
+
+// ==========================================
+// OWNER: REQUEST + TRACK APPROVALS
+// ==========================================
+export async function requestCustodyRecovery(metadataId: string) {
+  try {
+    const { user, meta } = await requireOwnedCustodyRecord(metadataId)
+    if (meta.status !== 'ACTIVE') return { success: false, error: 'This file can no longer be recovered' }
+
+    const requestId = await openCustodyRequest(metadataId, user.id)
+    await logCustodyRequest(user.id, metadataId, requestId)
+    return { success: true, requestId }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to request recovery' }
+  }
+}
+
+export async function getCustodyRecoveryStatus(metadataId: string) {
+  try {
+    const { meta } = await requireOwnedCustodyRecord(metadataId)
+    const status = await getCustodyStatus(metadataId, meta.custody_threshold as number)
+    return { success: true, status }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to load approvals' }
+  }
+}
+
+// ==========================================
+// CUSTODIAN: PENDING TASKS + APPROVAL
+// ==========================================
+export async function getCustodianTasks() {
+  try {
+    const { user } = await requireUser()
+    return { success: true, tasks: await listCustodianTasks(user.id) }
+  } catch (error) {
+    return { success: false, error: 'Failed to load custody requests', tasks: [] }
+  }
+}
+
+/**
+ * Submit the caller's share for an open request. The share is unwrapped in
+ * the browser; the custodian's private key never reaches the server.
+ */
+export async function approveCustodyRequest(requestId: string, shareBase64: string) {
+  try {
+    const { user } = await requireUser()
+    const { metadataId, shareIndex } = await submitCustodyShare(requestId, user.id, shareBase64)
+    await logCustodyApproval(user.id, metadataId, requestId, shareIndex)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to submit share' }
+  }
+}
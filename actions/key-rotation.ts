@@ -0,0 +1,102 @@
+'use server'
+
+import { after } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getKeyWrapProvider } from '@/lib/key-wrap'
+import { runKeyRotationJob, UNWRAPPED_KEY_PROVIDERS } from '@/lib/key-rotation'
+import { logKeyRotation } from '@/lib/audit'
+
+async function requireAdmin() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Unauthorized')
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'ADMIN') throw new Error('Forbidden: Administrator privileges required')
+  return user
+}
+
+// ==========================================
+// START A MASTER KEY ROTATION (BACKGROUND)
+// ==========================================
+export async function startKeyRotation() {
+  try {
+    const user = await requireAdmin()
+    const provider = getKeyWrapProvider()
+    const toProvider = provider.name
+    const toKeyId = provider.activeKeyId()
+
+    const admin = createAdminClient()
+    const { data: job, error } = await admin
+      .from('workers')
+      .insert({
+        queue_name: 'crypto',
+        job_type: 'KEY_ROTATION',
+        payload: { to_provider: toProvider, to_key_id: toKeyId, actor_user_id: user.id },
+        status: 'PENDING',
+      })
+      .select('id')
+      .single()
+
+    if (error || !job) throw new Error(error?.message || 'Failed to enqueue rotation job')
+
+    await logKeyRotation(user.id, job.id, toProvider, toKeyId)
+
+    // Re-wrapping runs after the response is sent so the admin UI stays responsive
+    after(async () => {
+      try {
+        await runKeyRotationJob(job.id)
+      } catch (err) {
+        console.error('[KEY ROTATION] Job failed:', err)
+      }
+    })
+
+    return { success: true, jobId: job.id as string, toProvider, toKeyId }
+  } catch (error) {
+    console.error('Key Rotation Error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to start key rotation' }
+  }
+}
+
+// ==========================================
+// ROTATION PROGRESS (FOR THE ADMIN UI)
+// ==========================================
+export async function getKeyRotationStatus() {
+  try {
+    await requireAdmin()
+    const admin = createAdminClient()
+    const provider = getKeyWrapProvider()
+    const activeKeyId = provider.activeKeyId()
+
+    const { count: pending } = await admin
+      .from('metadata')
+      .select('*', { count: 'exact', head: true })
+      .or(`key_provider.neq.${provider.name},key_id.neq.${activeKeyId}`)
+      .neq('encrypted_key', 'SHREDDED')
+      .not('key_provider', 'in', `(${UNWRAPPED_KEY_PROVIDERS.join(',')})`)
+
+    const { data: lastJob } = await admin
+      .from('workers')
+      .select('id, status, payload, last_error, created_at, completed_at')
+      .eq('job_type', 'KEY_ROTATION')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return {
+      success: true,
+      activeProvider: provider.name,
+      activeKeyId,
+      pendingRows: pending || 0,
+      lastJob,
+    }
+  } catch (error) {
+    return { success: false, error: 'Failed to fetch key rotation status' }
+  }
+}
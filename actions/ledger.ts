@@ -0,0 +1,47 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getLocalLedger } from '@/lib/blockchain'
+
+async function requireAdmin() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Unauthorized')
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'ADMIN') throw new Error('Forbidden: Administrator privileges required')
+  return user
+}
+
+// ==========================================
+// FULL-CHAIN VALIDATION OF THE LOCAL LEDGER
+// ==========================================
+export async function validateLocalLedger() {
+  try {
+    const user = await requireAdmin()
+    const report = await getLocalLedger().validateLedger()
+
+    const supabase = await createClient()
+    await supabase.from('activity_logs').insert({
+      user_id: user.id,
+      action: 'ADMIN_ACTION',
+      details: {
+        event: 'LEDGER_VALIDATED',
+        valid: report.valid,
+        blocks: report.blocks,
+        entries: report.entries,
+        problems: report.problems.length,
+      },
+    })
+
+    return { success: true, report }
+  } catch (error) {
+    console.error('Ledger Validation Error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to validate the ledger' }
+  }
+}
@@ -1,24 +1,16 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
-import { decrypt, computeHash } from '@/lib/crypto'
-import { extract } from '@/lib/stego'
+import { CONTEXT_MISMATCH_ERROR } from '@/lib/crypto'
 import { getBlockchainService } from '@/lib/blockchain'
 import { recoveryLimiter, checkRateLimit } from '@/lib/rate-limit'
-import { logRecovery } from '@/lib/audit'
-import sharp from 'sharp'
-
-// VAPT: Import Enterprise AWS SDK
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3'
-
-// Initialize the strict IAM Client
-const s3Client = new S3Client({
-  region: process.env.AWS_REGION!,
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-  },
-})
+import { recoverCiphertext, recoverHiddenCiphertext, decryptionInputFor, custodyKeyFor } from '@/lib/recovery'
+import { fulfilCustodyRequest } from '@/lib/custody'
+import { runStegoJob } from '@/lib/stego-pool'
+import { isHiddenLocator, logHiddenPayloadEvent } from '@/lib/hidden-payload'
+import { issueReceipt } from '@/lib/receipts'
+import { logReceiptIssued, logRecovery } from '@/lib/audit'
+import type { VerificationReceipt } from '@/lib/types'
 
 interface RecoveryResult {
   success: boolean
@@ -26,10 +18,23 @@ interface RecoveryResult {
   originalFilename?: string
   mimeType?: string
   fileBase64?: string
+  clientEncrypted?: boolean // fileBase64 is a passphrase envelope to decrypt in the browser
   integrityVerified?: boolean
   blockchainVerified?: boolean
+  correctedSymbols?: number // stego frame bytes repaired by error correction
 }
 
+// Server-decrypted plaintext is returned base64-encoded in the action result,
+// so only small records are buffered here; larger ones are streamed by
+// /api/v1/vault/recover
+const MAX_BUFFERED_RECOVERY_BYTES = 10 * 1024 * 1024
+const STREAMING_RECOVERY_REQUIRED = 'This file is too large to recover here - recover it through /api/v1/vault/recover'
+
+/**
+ * Recover a record in one response. Zero-knowledge records return the sealed
+ * passphrase envelope for the browser to decrypt; server-decrypted records
+ * up to MAX_BUFFERED_RECOVERY_BYTES return the plaintext.
+ */
 export async function recoverFile(formData: FormData): Promise<RecoveryResult> {
   try {
     const supabase = await createClient()
@@ -47,131 +52,89 @@ export async function recoverFile(formData: FormData): Promise<RecoveryResult> {
       }
     }
 
-    const stegoFile = formData.get('stegoImage') as File | null
+    const stegoFiles = formData.getAll('stegoImage') as File[]
     const metadataId = formData.get('metadataId') as string | null
 
     if (!metadataId) {
       return { success: false, error: 'Metadata ID is required to recover the file' }
     }
 
-    const { data: meta, error: dbError } = await supabase
+    // Checked before extraction, so an oversized record costs no stego work here
+    const { data: record } = await supabase
       .from('metadata')
-      .select('*')
+      .select('client_encrypted, file_size')
       .eq('id', metadataId)
       .eq('user_id', user.id)
-      .single()
-
-    if (dbError || !meta) {
-      return { success: false, error: 'File metadata not found or access denied' }
-    }
-
-    if (meta.status === 'REVOKED' || meta.status === 'EXPIRED') {
-      return { success: false, error: 'This file has been revoked or shredded and cannot be recovered' }
-    }
-
-    let stegoBuffer: Buffer | null = null
-
-    // VAPT: Enterprise S3 Retrieval Pipeline
-    if (meta.stego_filename) {
-      try {
-        const command = new GetObjectCommand({
-          Bucket: process.env.AWS_S3_BUCKET_NAME!,
-          Key: meta.stego_filename, // This is now the exact S3 Key (e.g. user-id/stego_xxx.png)
-        })
-        
-        const s3Response = await s3Client.send(command)
-        
-        if (s3Response.Body) {
-          // Safely transform the AWS streaming body into a Node.js Buffer
-          const byteArray = await s3Response.Body.transformToByteArray()
-          stegoBuffer = Buffer.from(byteArray)
-        }
-      } catch (err) {
-        console.warn('Failed to download stego from AWS S3, falling back to manual upload:', err)
-      }
-    }
-
-    // Fallback if S3 fails or if it's an offline recovery
-    if (!stegoBuffer) {
-      if (!stegoFile) {
-        return { success: false, error: 'Stego image not provided and AWS vault copy unavailable' }
-      }
-      stegoBuffer = Buffer.from(await stegoFile.arrayBuffer())
+      .maybeSingle()
+    if (
+      record &&
+      !record.client_encrypted &&
+      (typeof record.file_size !== 'number' || record.file_size > MAX_BUFFERED_RECOVERY_BYTES)
+    ) {
+      return { success: false, error: STREAMING_RECOVERY_REQUIRED }
     }
 
-    const image = sharp(stegoBuffer)
-    const imageMetadata = await image.metadata()
-    const { width, height } = imageMetadata
-
-    if (!width || !height) {
-      return { success: false, error: 'Cannot read stego image dimensions' }
+    const recovered = await recoverCiphertext(supabase, user.id, metadataId, stegoFiles)
+    if (!recovered.success) {
+      return { success: false, error: recovered.error }
     }
 
-    const rawPixels = await image.raw().ensureAlpha().toBuffer()
+    const { meta, integrityVerified, blockchainVerified, correctedSymbols } = recovered
 
-    const { data: uploadLog } = await supabase
-      .from('activity_logs')
-      .select('details')
-      .eq('resource_id', metadataId)
-      .eq('action', 'UPLOAD')
-      .single()
-
-    if (!uploadLog?.details || !(uploadLog.details as Record<string, unknown>).stego_seed) {
-      return { success: false, error: 'Cannot find steganography seed for this file' }
-    }
-
-    const stegoSeed = (uploadLog.details as Record<string, string>).stego_seed
+    // Zero-knowledge records: hand back the envelope, the server holds no key
+    if (meta.client_encrypted) {
+      await logRecovery(user.id, metadataId, true, {
+        original_filename: meta.original_filename,
+        integrity_verified: integrityVerified,
+        blockchain_verified: blockchainVerified,
+        corrected_symbols: correctedSymbols,
+        client_encrypted: true,
+      })
 
-    let extractResult
-    try {
-      // Mathematically aligned with the PRNG engine
-      extractResult = extract(rawPixels, width, height, 4, stegoSeed)
-    } catch (error) {
       return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Steganographic extraction failed',
+        success: true,
+        originalFilename: meta.original_filename,
+        mimeType: meta.mime_type,
+        fileBase64: recovered.encryptedData.toString('base64'),
+        clientEncrypted: true,
+        integrityVerified,
+        blockchainVerified,
+        correctedSymbols,
       }
     }
 
-    if (!extractResult.integrityValid) {
-      return { success: false, error: 'CRC integrity check failed - data may be corrupted' }
-    }
-
-    const extractedHash = computeHash(extractResult.extractedData)
-    let blockchainVerified = false
-
-    if (meta.blockchain_hash) {
-      const blockchain = getBlockchainService()
-      const blockchainRecord = await blockchain.verifyHash(meta.blockchain_hash)
-      blockchainVerified = blockchainRecord !== null && blockchainRecord.hash === extractedHash
-    }
-
-    const integrityVerified = extractedHash === meta.integrity_hash
-
-    if (!integrityVerified) {
-      return {
-        success: false,
-        error: 'Integrity hash mismatch - encrypted data does not match stored hash',
-      }
+    // Custody records: M approved shares stand in for the wrapped key
+    let custody
+    try {
+      custody = await custodyKeyFor(meta)
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Custodian approval required' }
     }
 
     let decryptedData
     try {
-      decryptedData = decrypt({
-        encryptedData: extractResult.extractedData,
-        iv: meta.iv,
-        authTag: meta.auth_tag,
-        encryptedKey: meta.encrypted_key,
+      decryptedData = await runStegoJob('decrypt', {
+        ...decryptionInputFor(meta, recovered.encryptedData),
+        dataKey: custody?.dataKey,
       })
-    } catch {
+    } catch (error) {
+      if (error instanceof Error && error.message === CONTEXT_MISMATCH_ERROR) {
+        return { success: false, error: CONTEXT_MISMATCH_ERROR }
+      }
       return { success: false, error: 'Decryption failed - key or data mismatch' }
+    } finally {
+      custody?.dataKey.fill(0)
     }
 
+    if (custody) await fulfilCustodyRequest(custody.requestId)
+
     await logRecovery(user.id, metadataId, true, {
       original_filename: meta.original_filename,
       integrity_verified: integrityVerified,
       blockchain_verified: blockchainVerified,
+      corrected_symbols: correctedSymbols,
       data_length: decryptedData.length,
+      ...(custody ? { custody_request_id: custody.requestId } : {}),
     })
 
     return {
@@ -181,6 +144,7 @@ export async function recoverFile(formData: FormData): Promise<RecoveryResult> {
       fileBase64: decryptedData.toString('base64'),
       integrityVerified,
       blockchainVerified,
+      correctedSymbols,
     }
   } catch (error) {
     console.error('Recovery pipeline error:', error)
@@ -191,13 +155,80 @@ export async function recoverFile(formData: FormData): Promise<RecoveryResult> {
   }
 }
 
+/**
+ * Recover a deniable hidden payload from a decoy record's carrier. The sealed
+ * envelope is returned for the browser to decrypt with the hidden passphrase;
+ * the event is audited only in hidden_payload_logs.
+ */
+export async function recoverHiddenFile(formData: FormData): Promise<RecoveryResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    try {
+      await checkRateLimit(user.id, recoveryLimiter)
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Rate limit exceeded',
+      }
+    }
+
+    const stegoFiles = formData.getAll('stegoImage') as File[]
+    const metadataId = formData.get('metadataId') as string | null
+    const locator = formData.get('hiddenLocator')
+
+    if (!metadataId) {
+      return { success: false, error: 'Metadata ID is required to recover the file' }
+    }
+    if (!isHiddenLocator(locator)) {
+      return { success: false, error: 'Invalid hidden payload locator' }
+    }
+
+    const recovered = await recoverHiddenCiphertext(supabase, user.id, metadataId, locator, stegoFiles)
+    if (!recovered.success) {
+      return { success: false, error: recovered.error }
+    }
+
+    const { hidden, correctedSymbols } = recovered
+    await logHiddenPayloadEvent(hidden.id, 'RECOVERY', {
+      corrected_symbols: correctedSymbols,
+      data_length: recovered.encryptedData.length,
+    })
+
+    return {
+      success: true,
+      originalFilename: hidden.original_filename,
+      mimeType: hidden.mime_type,
+      fileBase64: recovered.encryptedData.toString('base64'),
+      clientEncrypted: true,
+      integrityVerified: true,
+      blockchainVerified: false,
+      correctedSymbols,
+    }
+  } catch (error) {
+    console.error('Hidden recovery pipeline error:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
 export async function verifyBlockchainHash(hash: string) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { verified: false, error: 'Not authenticated' }
 
-  const blockchain = getBlockchainService()
-  const record = await blockchain.verifyHash(hash)
+  // Ask the ledger the user's record was anchored to, with its inclusion
+  // proof if it was batched; unknown hashes go to the active ledger
+  const { data: anchored } = await supabase
+    .from('metadata')
+    .select('blockchain_backend, blockchain_status, blockchain_proof')
+    .eq('blockchain_hash', hash)
+    .maybeSingle()
+  const blockchain = getBlockchainService(anchored?.blockchain_backend)
+  const record = await blockchain.verifyHash(hash, anchored?.blockchain_proof)
 
   if (record) {
     await supabase.from('activity_logs').insert({
@@ -210,5 +241,35 @@ export async function verifyBlockchainHash(hash: string) {
   return {
     verified: !!record,
     record,
+    pending: anchored?.blockchain_status === 'PENDING' || anchored?.blockchain_status === 'BATCHING',
+  }
+}
+
+/**
+ * Signed receipt for one of the user's files, for a third party to check
+ * with /api/v1/verify or lib/receipt-verifier.ts
+ */
+export async function issueVerificationReceipt(
+  metadataId: string,
+): Promise<{ success: boolean; error?: string; receipt?: VerificationReceipt }> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return { success: false, error: 'Not authenticated' }
+
+    const { data: meta } = await supabase
+      .from('metadata')
+      .select('*')
+      .eq('id', metadataId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (!meta) return { success: false, error: 'File metadata not found or access denied' }
+
+    const receipt = await issueReceipt(supabase, meta)
+    await logReceiptIssued(user.id, metadataId, receipt.receiptId)
+    return { success: true, receipt }
+  } catch (error) {
+    console.error('Receipt issue error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to issue receipt' }
   }
 }
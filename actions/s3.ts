@@ -65,7 +65,7 @@ export async function getPresignedDownloadUrl(fileKey: string) {
       Bucket: process.env.AWS_S3_BUCKET_NAME!,
       Key: fileKey,
       // VAPT FIX: Force the browser to download the file instead of rendering it
-      ResponseContentDisposition: `attachment; filename="hsdc_stego_vault_image.png"`,
+      ResponseContentDisposition: `attachment; filename="hsdc_stego_vault_image.${fileKey.split('.').pop()}"`,
     })
 
     const signedUrl = await getSignedUrl(s3Client, command, { expiresIn: 60 })
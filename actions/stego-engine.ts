@@ -0,0 +1,32 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getStegoPoolMetrics } from '@/lib/stego-pool'
+
+async function requireAdmin() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Unauthorized')
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'ADMIN') throw new Error('Forbidden: Administrator privileges required')
+  return user
+}
+
+// ==========================================
+// STEGO WORKER POOL METRICS (FOR SIZING THE POOL)
+// ==========================================
+// Figures are per server process: each instance runs its own pool
+export async function getStegoEngineMetrics() {
+  try {
+    await requireAdmin()
+    return { success: true, metrics: getStegoPoolMetrics() }
+  } catch (error) {
+    return { success: false, error: 'Failed to fetch stego engine metrics' }
+  }
+}
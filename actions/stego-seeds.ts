@@ -0,0 +1,88 @@
+'use server'
+
+import { after } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runStegoSeedMigrationJob } from '@/lib/stego-seed'
+import { logStegoSeedMigration } from '@/lib/audit'
+
+async function requireAdmin() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Unauthorized')
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'ADMIN') throw new Error('Forbidden: Administrator privileges required')
+  return user
+}
+
+// ==========================================
+// MOVE LOG-STORED STEGO SEEDS OFF THE AUDIT TRAIL (BACKGROUND)
+// ==========================================
+export async function startStegoSeedMigration() {
+  try {
+    const user = await requireAdmin()
+    const admin = createAdminClient()
+
+    const { data: job, error } = await admin
+      .from('workers')
+      .insert({
+        queue_name: 'crypto',
+        job_type: 'STEGO_SEED_MIGRATION',
+        payload: { actor_user_id: user.id },
+        status: 'PENDING',
+      })
+      .select('id')
+      .single()
+
+    if (error || !job) throw new Error(error?.message || 'Failed to enqueue seed migration job')
+
+    await logStegoSeedMigration(user.id, job.id)
+
+    after(async () => {
+      try {
+        await runStegoSeedMigrationJob(job.id)
+      } catch (err) {
+        console.error('[STEGO SEED] Job failed:', err)
+      }
+    })
+
+    return { success: true, jobId: job.id as string }
+  } catch (error) {
+    console.error('Stego Seed Migration Error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to start seed migration' }
+  }
+}
+
+// ==========================================
+// MIGRATION PROGRESS (FOR THE ADMIN UI)
+// ==========================================
+export async function getStegoSeedMigrationStatus() {
+  try {
+    await requireAdmin()
+    const admin = createAdminClient()
+
+    const { count: pending } = await admin
+      .from('activity_logs')
+      .select('*', { count: 'exact', head: true })
+      .eq('action', 'UPLOAD')
+      .not('details->>stego_seed', 'is', null)
+
+    const { data: lastJob } = await admin
+      .from('workers')
+      .select('id, status, payload, last_error, created_at, completed_at')
+      .eq('job_type', 'STEGO_SEED_MIGRATION')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return { success: true, pendingSeeds: pending || 0, lastJob }
+  } catch (error) {
+    return { success: false, error: 'Failed to fetch seed migration status' }
+  }
+}
@@ -1,12 +1,38 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
-import { encrypt, computeHash, generateSecureId } from '@/lib/crypto'
-import { embed, calculateCapacity } from '@/lib/stego'
+import {
+  createEncryptionStream,
+  generateSecureId,
+  inspectPassphraseEnvelope,
+  PASSPHRASE_ALGORITHM,
+  PASSPHRASE_KEY_PROVIDER,
+} from '@/lib/crypto'
+import { segmentedCiphertextLength } from '@/lib/stream-crypto'
+import { calculateHiddenCapacity, ECC_LEVELS, type EccLevel } from '@/lib/stego'
+import { CARRIER_FORMATS, detectCarrierType } from '@/lib/carrier'
+import { MAX_SHARD_CARRIERS, shardPayloadSize, splitShards } from '@/lib/stego-shards'
+import { deriveStegoSeed, generateStegoSalt, getActiveStegoSeedKeyId } from '@/lib/stego-seed'
+import { normalizeStegoProfile } from '@/lib/stego-profile'
+import { POOLED_CRYPTO, runStegoJob } from '@/lib/stego-pool'
+import type { EmbeddedCarrier, PreparedCarrier } from '@/lib/stego-jobs'
 import { getBlockchainService } from '@/lib/blockchain'
 import { uploadLimiter, checkRateLimit } from '@/lib/rate-limit'
 import { logUpload } from '@/lib/audit'
-import sharp from 'sharp'
+import { loadCustodyPolicy, storeCustodyShares } from '@/lib/custody'
+import { isHiddenLocator, logHiddenPayloadEvent, storeHiddenPayload } from '@/lib/hidden-payload'
+import type {
+  CarrierPreview,
+  CarrierQualityMetrics,
+  CarrierType,
+  CustodyPolicy,
+  EncryptionResult,
+  StegoChannel,
+  StegoProfile,
+  StegoShardSet,
+} from '@/lib/types'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
 
 // VAPT: Import Enterprise AWS SDK
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3'
@@ -20,7 +46,9 @@ const s3Client = new S3Client({
   },
 })
 
-const MAX_FILE_SIZE = 50 * 1024 * 1024 // VAPT: Upgraded to 50MB for enterprise capacity
+// There is no fixed size cap: the secret must fit the carriers' capacity
+// (checked before encryption), and the request as a whole the server action
+// body limit in next.config.mjs
 
 // VAPT: Swapped base64 string for the secure S3 Key reference
 interface UploadResult {
@@ -30,6 +58,9 @@ interface UploadResult {
   blockchainTxId?: string
   integrityHash?: string
   s3Key?: string 
+  s3Keys?: string[] // every stego file of a multi-carrier set, in shard order
+  quality?: CarrierQualityMetrics // of the carrier the embedding changed most
+  preview?: CarrierPreview
 }
 
 export async function uploadAndProcess(formData: FormData): Promise<UploadResult> {
@@ -41,75 +72,259 @@ export async function uploadAndProcess(formData: FormData): Promise<UploadResult
     await checkRateLimit(user.id, uploadLimiter)
 
     const secretFile = formData.get('secretFile') as File
-    const carrierImage = formData.get('carrierImage') as File
-
-    if (!secretFile || !carrierImage) return { success: false, error: 'Files missing' }
-    if (secretFile.size > MAX_FILE_SIZE) return { success: false, error: 'File too large' }
-
-    const secretBuffer = Buffer.from(await secretFile.arrayBuffer())
-    const carrierBuffer = Buffer.from(await carrierImage.arrayBuffer())
-
-    // 1. Encrypt Payload
-    const encryptionResult = encrypt(secretBuffer)
-
-    // 2. Image Processing: Decode to RAW RGBA PIXELS
-    const image = sharp(carrierBuffer)
-    const metadata = await image.metadata()
-
-    if (!metadata.width || !metadata.height)
-      return { success: false, error: 'Invalid carrier image' }
-
-    // Extract raw pixels - THIS IS CRITICAL FOR THE PRNG ENGINE
-    const rawPixels = await image.raw().ensureAlpha().toBuffer()
-
-    // 3. Validate Capacity
-    const capacity = calculateCapacity(metadata.width, metadata.height, 4)
-    if (encryptionResult.encryptedData.length > capacity)
-      return { success: false, error: 'Carrier image too small' }
-
-    // 4. Steganography Embedding
-    const stegoSeed = `hsdc:${user.id}:${generateSecureId(8)}`
-
-    const {
-      stegoImageBuffer, 
-      capacityUsed,
-      capacityTotal,
-      pixelsModified,
-    } = await embed(
-      rawPixels,                      // Arg 1: imageData
-      metadata.width,                 // Arg 2: width
-      metadata.height,                // Arg 3: height
-      4,                              // Arg 4: channels (RGBA = 4)
-      encryptionResult.encryptedData, // Arg 5: payload
-      stegoSeed                       // Arg 6: seed
-    )
-
-    if (!stegoImageBuffer) return { success: false, error: 'Steganography failed' }
-
-    // 5. Rebuild Lossless PNG
-    const finalStegoImage = await sharp(stegoImageBuffer, {
-      raw: { width: metadata.width, height: metadata.height, channels: 4 },
-    })
-      .png({ compressionLevel: 0 })
-      .toBuffer()
+    // Several carriers split the ciphertext into shards, one per carrier
+    const carrierImages = formData.getAll('carrierImage') as File[]
+    const parityShards = formData.get('shardParity') === 'true' ? 1 : 0
+    // Zero-knowledge mode: secretFile is already a passphrase envelope sealed in the browser
+    const clientEncrypted = formData.get('encryptionMode') === 'client'
+    // M-of-N custody: the data key is split across the selected custodians
+    const custodianIds = formData.getAll('custodianIds').map(String).filter(Boolean)
+    // Deniable hidden payload: a second passphrase envelope sealed in the browser,
+    // found again by the locator derived from its passphrase
+    const hiddenFile = formData.get('hiddenFile') as File | null
+    const hiddenLocator = formData.get('hiddenLocator')
+    // Reed-Solomon redundancy inside the stego frame
+    const eccLevel = (formData.get('eccLevel') as string | null) || 'off'
+
+    if (!secretFile || carrierImages.length === 0) return { success: false, error: 'Files missing' }
+    if (carrierImages.length > MAX_SHARD_CARRIERS)
+      return { success: false, error: `At most ${MAX_SHARD_CARRIERS} carriers can share one file` }
+    if (parityShards && carrierImages.length < 2)
+      return { success: false, error: 'A parity shard needs at least two carriers' }
+    const sharded = carrierImages.length > 1
+    const dataShards = carrierImages.length - parityShards
+    if (!(eccLevel in ECC_LEVELS)) return { success: false, error: 'Invalid error correction level' }
+    const eccSymbols = ECC_LEVELS[eccLevel as EccLevel]
+
+    // Embedding profile - stored with the record so extraction repeats it
+    let profile: StegoProfile | undefined
+    if (formData.has('lsbDepth')) {
+      try {
+        profile = normalizeStegoProfile({
+          bitsPerChannel: Number(formData.get('lsbDepth')),
+          channels: formData.getAll('stegoChannels').map(String) as StegoChannel[],
+          density: Number(formData.get('stegoDensity')) / 100,
+          adaptive: formData.get('stegoAdaptive') === 'true',
+        })
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : 'Invalid embedding profile' }
+      }
+    }
+    if (clientEncrypted && custodianIds.length > 0)
+      return { success: false, error: 'Custodian recovery is not available in zero-knowledge mode' }
+
+    let custody: CustodyPolicy | undefined
+    if (custodianIds.length > 0) {
+      try {
+        custody = await loadCustodyPolicy(custodianIds, Number(formData.get('custodyThreshold')))
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : 'Invalid custodian selection' }
+      }
+    }
+
+    let hiddenPayload: Buffer | null = null
+    let hiddenPlaintextSize = 0
+    if (hiddenFile) {
+      if (!isHiddenLocator(hiddenLocator)) return { success: false, error: 'Invalid hidden payload locator' }
+      hiddenPayload = Buffer.from(await hiddenFile.arrayBuffer())
+      try {
+        hiddenPlaintextSize = inspectPassphraseEnvelope(hiddenPayload).plaintextLength
+      } catch {
+        return { success: false, error: 'Invalid hidden payload ciphertext' }
+      }
+    }
+
+    // 1. Carrier detection: JPEGs are embedded in their DCT coefficients and
+    // WAV recordings in their samples, each staying in its own format
+    const carriers: PreparedCarrier[] = []
+    for (const carrierImage of carrierImages) {
+      const buffer = Buffer.from(await carrierImage.arrayBuffer())
+      let type: CarrierType
+      try {
+        type = detectCarrierType(buffer)
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : 'Unsupported carrier' }
+      }
+      if (type !== 'image' && profile)
+        return { success: false, error: 'Embedding profiles apply to PNG, BMP and TIFF carriers only' }
+
+      carriers.push({ buffer, type, width: 0, height: 0, capacity: 0 })
+    }
+    if (hiddenPayload && (sharded || carriers[0].type !== 'image'))
+      return { success: false, error: 'A hidden payload needs a single PNG, BMP or TIFF carrier' }
+
+    // 2. Validate Capacity before touching the secret (dimensions and capacity
+    // are read on the stego worker pool)
+    // The record ID is fixed up front so the ciphertext can be bound to it
+    const metadataId = crypto.randomUUID()
+    for (const carrier of carriers) {
+      try {
+        const prepared = await runStegoJob('prepare', {
+          buffer: carrier.buffer,
+          type: carrier.type,
+          eccSymbols,
+          profile,
+          checkOpacity: !!profile?.channels.includes('a'),
+        })
+        Object.assign(carrier, { width: prepared.width, height: prepared.height, capacity: prepared.capacity })
+        // Alpha LSBs are only invisible where every pixel is fully opaque
+        if (!prepared.opaque)
+          return { success: false, error: 'Alpha channel embedding requires a fully opaque carrier' }
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : 'Invalid carrier image' }
+      }
+    }
+
+    // Every carrier of a set holds one equally sized shard
+    const capacityError = (ciphertextLength: number): string | null => {
+      if (!sharded) return ciphertextLength > carriers[0].capacity ? 'Carrier image too small' : null
+      const needed = shardPayloadSize(ciphertextLength, dataShards)
+      const smallest = Math.min(...carriers.map((c) => c.capacity))
+      return needed > smallest
+        ? `Carrier set too small - each carrier must hold ${needed} bytes, the smallest holds ${smallest}`
+        : null
+    }
+
+    let encryptionResult: EncryptionResult
+    let plaintextSize = secretFile.size
+
+    if (clientEncrypted) {
+      // 3. No server-side encryption - validate the envelope and embed it as-is
+      const encryptedData = Buffer.from(await secretFile.arrayBuffer())
+      let sealed
+      try {
+        sealed = inspectPassphraseEnvelope(encryptedData)
+      } catch {
+        return { success: false, error: 'Invalid client-side ciphertext' }
+      }
+      const tooSmall = capacityError(encryptedData.length)
+      if (tooSmall) return { success: false, error: tooSmall }
+
+      plaintextSize = sealed.plaintextLength
+      encryptionResult = {
+        encryptedData,
+        iv: sealed.iv,
+        authTag: sealed.authTag,
+        encryptedKey: 'CLIENT_HELD',
+        keyId: 'pbkdf2-sha256',
+        keyProvider: PASSPHRASE_KEY_PROVIDER,
+        algorithm: PASSPHRASE_ALGORITHM,
+      }
+    } else {
+      const encryptionSession = await createEncryptionStream({
+        context: { metadataId, userId: user.id, filename: secretFile.name },
+        custody,
+        executor: POOLED_CRYPTO,
+      })
+      const ciphertextLength = encryptionSession.headerLength + segmentedCiphertextLength(secretFile.size)
+      const tooSmall = capacityError(ciphertextLength)
+      if (tooSmall) return { success: false, error: tooSmall }
+
+      // 3. Encrypt Payload - streamed segment by segment, never held as plaintext.
+      // The ciphertext itself is held whole: it is embedded as one frame (or
+      // split into shards), so it is written once into a buffer of its known size
+      const encryptedData = Buffer.allocUnsafe(ciphertextLength)
+      let written = 0
+      await pipeline(
+        Readable.fromWeb(secretFile.stream() as import('stream/web').ReadableStream<Uint8Array>),
+        encryptionSession.stream,
+        async function (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            if (written + chunk.length > ciphertextLength) throw new Error('Ciphertext longer than expected')
+            written += chunk.copy(encryptedData, written)
+          }
+        },
+      )
+      if (written !== ciphertextLength) throw new Error('Ciphertext shorter than expected')
+      encryptionResult = {
+        ...encryptionSession,
+        encryptedData,
+        iv: encryptionSession.stream.noncePrefix.toString('hex'),
+        authTag: encryptionSession.stream.finalTag!,
+      }
+    }
+
+    // The hidden frame fits in whatever the decoy frame leaves free
+    if (hiddenPayload) {
+      const { width, height } = carriers[0]
+      const hiddenCapacity = calculateHiddenCapacity(width, height, 4, encryptionResult.encryptedData.length, {
+        eccSymbols,
+        profile,
+      })
+      if (hiddenPayload.length > hiddenCapacity)
+        return { success: false, error: 'Carrier image too small for the hidden payload' }
+    }
+
+    // 4. Steganography Embedding (4b. steganalysis self-check, 5. lossless PNG rebuild in embedCarrier)
+    const stegoSeedKeyId = getActiveStegoSeedKeyId()
+    const stegoSalt = generateStegoSalt()
+    const stegoSeed = deriveStegoSeed(metadataId, stegoSalt, stegoSeedKeyId)
+    // The hidden payload is its own record, with its own ID, salt and seed
+    const hiddenId = crypto.randomUUID()
+    const hiddenSalt = generateStegoSalt()
+    const hidden = hiddenPayload
+      ? { payload: hiddenPayload, seed: deriveStegoSeed(hiddenId, hiddenSalt, stegoSeedKeyId) }
+      : undefined
+
+    // A set embeds one shard per carrier, all under the record's seed
+    const shardSet = sharded ? splitShards(encryptionResult.encryptedData, dataShards, parityShards) : null
+    const payloads = shardSet?.shards ?? [encryptionResult.encryptedData]
+
+    const embedded: EmbeddedCarrier[] = []
+    for (const [i, carrier] of carriers.entries()) {
+      try {
+        // The cover is not needed again, so it moves to the worker rather than being copied
+        embedded.push(
+          await runStegoJob(
+            'embed',
+            { carrier, payload: payloads[i], seed: stegoSeed, eccSymbols, profile, hidden },
+            { transfer: [carrier.buffer] },
+          ),
+        )
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Steganography failed'
+        return { success: false, error: sharded ? `Carrier ${i + 1}: ${message}` : message }
+      }
+    }
+
+    const { stegoVersion } = embedded[0].embedResult
+    const capacityUsed = embedded.reduce((n, e) => n + e.embedResult.capacityUsed, 0)
+    const capacityTotal = embedded.reduce((n, e) => n + e.embedResult.capacityTotal, 0)
+    const pixelsModified = embedded.reduce((n, e) => n + e.embedResult.pixelsModified, 0)
+    // The record keeps the self-check of its most detectable carrier
+    let { steganalysis } = embedded[0]
+    for (const e of embedded) {
+      if (e.steganalysis.detectability > steganalysis.detectability) steganalysis = e.steganalysis
+    }
+    // ... and the quality of the carrier with the lowest PSNR, which is also the one previewed
+    const psnrOf = (q: CarrierQualityMetrics | null | undefined) => q?.psnr ?? Infinity
+    let weakest: EmbeddedCarrier | null = null
+    for (const e of embedded) {
+      if (e.quality && (!weakest || psnrOf(e.quality) < psnrOf(weakest.quality))) weakest = e
+    }
 
     // 6. Integrity & Blockchain
-    const integrityHash = computeHash(encryptionResult.encryptedData)
+    const integrityHash = await runStegoJob('hash', { data: encryptionResult.encryptedData })
+    // Named in verification receipts, so a stego image can be matched without extracting it
+    const stegoHashes = await Promise.all(embedded.map((e) => runStegoJob('hash', { data: e.stegoFile })))
     const blockchain = getBlockchainService()
     const blockchainRecord = await blockchain.storeHash(integrityHash, user.id)
 
     // VAPT: Tenant Isolation (WSTG-ATHZ-002) - Prepend user ID to S3 Key
-    const s3Key = `${user.id}/stego_${generateSecureId(8)}.png`
+    const s3Keys = carriers.map((c) => `${user.id}/stego_${generateSecureId(8)}.${CARRIER_FORMATS[c.type].extension}`)
+    const s3Key = s3Keys[0]
 
     // 7. Store securely in AWS S3 Enterprise Vault (Replaces Supabase Storage)
     try {
-      const command = new PutObjectCommand({
-        Bucket: process.env.AWS_S3_BUCKET_NAME!,
-        Key: s3Key,
-        Body: finalStegoImage,
-        ContentType: 'image/png',
-      })
-      await s3Client.send(command)
+      for (const [i, { stegoFile }] of embedded.entries()) {
+        const command = new PutObjectCommand({
+          Bucket: process.env.AWS_S3_BUCKET_NAME!,
+          Key: s3Keys[i],
+          Body: stegoFile,
+          ContentType: CARRIER_FORMATS[carriers[i].type].contentType,
+        })
+        await s3Client.send(command)
+      }
     } catch (s3Error) {
       console.error('AWS S3 Upload Error:', s3Error)
       return { success: false, error: 'Failed to stream payload to secure vault' }
@@ -119,17 +334,38 @@ export async function uploadAndProcess(formData: FormData): Promise<UploadResult
     const { data: metadataRow, error: dbError } = await supabase
       .from('metadata')
       .insert({
+        id: metadataId,
         user_id: user.id,
         original_filename: secretFile.name,
-        stego_filename: s3Key, // Store the exact S3 Key locator
-        file_size: secretFile.size,
+        stego_filename: s3Key, // Store the exact S3 Key locator (first shard of a set)
+        stego_shards: shardSet
+          ? ({ setId: shardSet.setId, dataShards, parityShards, keys: s3Keys } satisfies StegoShardSet)
+          : null,
+        file_size: plaintextSize,
         mime_type: secretFile.type || 'application/octet-stream',
         encryption_algo: encryptionResult.algorithm,
         iv: encryptionResult.iv,
         auth_tag: encryptionResult.authTag,
         encrypted_key: encryptionResult.encryptedKey,
+        key_id: encryptionResult.keyId,
+        key_provider: encryptionResult.keyProvider,
+        stego_salt: stegoSalt,
+        stego_seed_key_id: stegoSeedKeyId,
+        stego_version: stegoVersion,
+        stego_profile: profile ?? null,
+        steganalysis,
+        stego_quality: weakest?.quality ?? null,
+        stego_hashes: stegoHashes,
+        context_bound: !clientEncrypted,
+        client_encrypted: clientEncrypted,
+        custody_threshold: custody?.threshold ?? null,
         blockchain_hash: integrityHash,
-        blockchain_tx_id: blockchainRecord.txId,
+        blockchain_tx_id: blockchainRecord.txId || null, // set by the batcher for queued hashes
+        blockchain_backend: blockchain.name,
+        blockchain_network: blockchainRecord.network,
+        blockchain_block_number: blockchainRecord.blockNumber ?? null,
+        blockchain_status: blockchainRecord.status ?? 'ANCHORED',
+        blockchain_proof: blockchainRecord.proof ?? null,
         integrity_hash: integrityHash,
         status: 'ACTIVE',
       })
@@ -138,12 +374,63 @@ export async function uploadAndProcess(formData: FormData): Promise<UploadResult
 
     if (dbError) return { success: false, error: dbError.message }
 
-    // 9. Audit Logging (Saving Seed for Recovery)
-    await logUpload(user.id, metadataRow.id, secretFile.name, secretFile.size, {
+    // Without its shares a custody record could never be decrypted
+    if (encryptionResult.custodyShares) {
+      try {
+        await storeCustodyShares(metadataRow.id, encryptionResult.custodyShares)
+      } catch (err) {
+        console.error('Custody share storage error:', err)
+        await supabase.from('metadata').delete().eq('id', metadataRow.id)
+        return { success: false, error: 'Failed to distribute custodian shares' }
+      }
+    }
+
+    // Hidden payload: its record and audit entry stay out of the decoy owner's views
+    if (hiddenPayload && hiddenFile) {
+      try {
+        await storeHiddenPayload({
+          id: hiddenId,
+          decoyMetadataId: metadataRow.id,
+          locator: String(hiddenLocator),
+          originalFilename: hiddenFile.name,
+          mimeType: hiddenFile.type || 'application/octet-stream',
+          fileSize: hiddenPlaintextSize,
+          stegoSalt: hiddenSalt,
+          stegoSeedKeyId,
+          integrityHash: await runStegoJob('hash', { data: hiddenPayload }),
+        })
+      } catch (err) {
+        console.error('Hidden payload storage error:', err)
+        await supabase.from('metadata').delete().eq('id', metadataRow.id)
+        return { success: false, error: 'Failed to store the hidden payload' }
+      }
+      const { embedResult, combinedDetectability } = embedded[0]
+      await logHiddenPayloadEvent(hiddenId, 'UPLOAD', {
+        capacity_used: embedResult.hidden?.capacityUsed,
+        capacity_total: embedResult.hidden?.capacityTotal,
+        pixels_modified: embedResult.hidden?.pixelsModified,
+        ecc_symbols: eccSymbols,
+        detectability: combinedDetectability ?? null,
+        psnr: embedResult.quality?.psnr ?? null,
+        ssim: embedResult.quality?.ssim ?? null,
+      })
+    }
+
+    // 9. Audit Logging (the seed is re-derived at recovery, never logged)
+    await logUpload(user.id, metadataRow.id, secretFile.name, plaintextSize, {
       capacity_used: capacityUsed,
       capacity_total: capacityTotal,
       pixels_modified: pixelsModified,
-      stego_seed: stegoSeed 
+      ecc_symbols: eccSymbols,
+      carriers: carriers.length,
+      parity_shards: parityShards,
+      detectability: steganalysis.detectability,
+      psnr: weakest?.quality?.psnr ?? null,
+      ssim: weakest?.quality?.ssim ?? null,
+      client_encrypted: clientEncrypted,
+      custody: custody
+        ? { threshold: custody.threshold, custodians: custody.custodians.map((c) => c.id) }
+        : null,
     })
 
     // 10. Return strictly the S3 Key, never the massive binary
@@ -153,6 +440,10 @@ export async function uploadAndProcess(formData: FormData): Promise<UploadResult
       blockchainTxId: blockchainRecord.txId,
       integrityHash,
       s3Key,
+      s3Keys,
+      // The uploader sees the real image, hidden frame included
+      quality: weakest?.embedResult.quality,
+      preview: weakest?.preview ?? undefined,
     }
 
   } catch (err) {
@@ -1,5 +1,6 @@
 'use client'
 
+import { useState, useEffect, useCallback } from 'react'
 import {
   Card,
   CardContent,
@@ -8,7 +9,13 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Settings, Users, FileKey, Activity, Clock, AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { startKeyRotation, getKeyRotationStatus } from '@/actions/key-rotation'
+import { startStegoSeedMigration, getStegoSeedMigrationStatus } from '@/actions/stego-seeds'
+import { getStegoEngineMetrics } from '@/actions/stego-engine'
+import { validateLocalLedger } from '@/actions/ledger'
+import { Settings, Users, FileKey, Activity, Clock, AlertTriangle, KeyRound, Shuffle, Cpu, Link2 } from 'lucide-react'
+import type { LedgerValidationReport, StegoPoolMetrics } from '@/lib/types'
 
 interface AdminContentProps {
   totalUsers: number
@@ -16,11 +23,95 @@ interface AdminContentProps {
   recentLogs: Array<Record<string, unknown>>
 }
 
+interface KeyRotationStatus {
+  activeProvider?: string
+  activeKeyId?: string
+  pendingRows?: number
+  lastJob?: { id: string; status: string; last_error?: string | null } | null
+  error?: string
+}
+
+interface StegoSeedMigrationStatus {
+  pendingSeeds?: number
+  lastJob?: { id: string; status: string; last_error?: string | null } | null
+  error?: string
+}
+
 export function AdminContent({
   totalUsers,
   totalFiles,
   recentLogs,
 }: AdminContentProps) {
+  const [rotation, setRotation] = useState<KeyRotationStatus | null>(null)
+  const [rotating, setRotating] = useState(false)
+
+  const refreshRotation = useCallback(async () => {
+    const res = await getKeyRotationStatus()
+    setRotation(res.success ? res : { error: res.error })
+  }, [])
+
+  useEffect(() => {
+    refreshRotation()
+  }, [refreshRotation])
+
+  const handleRotate = useCallback(async () => {
+    setRotating(true)
+    try {
+      const res = await startKeyRotation()
+      if (!res.success) setRotation((prev) => ({ ...prev, error: res.error }))
+      await refreshRotation()
+    } finally {
+      setRotating(false)
+    }
+  }, [refreshRotation])
+
+  const [engine, setEngine] = useState<{ metrics?: StegoPoolMetrics; error?: string } | null>(null)
+
+  const refreshEngine = useCallback(async () => {
+    const res = await getStegoEngineMetrics()
+    setEngine(res.success ? { metrics: res.metrics } : { error: res.error })
+  }, [])
+
+  useEffect(() => {
+    refreshEngine()
+  }, [refreshEngine])
+
+  const [ledger, setLedger] = useState<{ report?: LedgerValidationReport; error?: string } | null>(null)
+  const [validatingLedger, setValidatingLedger] = useState(false)
+
+  const handleValidateLedger = useCallback(async () => {
+    setValidatingLedger(true)
+    try {
+      const res = await validateLocalLedger()
+      setLedger(res.success ? { report: res.report } : { error: res.error })
+    } finally {
+      setValidatingLedger(false)
+    }
+  }, [])
+
+  const [seedMigration, setSeedMigration] = useState<StegoSeedMigrationStatus | null>(null)
+  const [migratingSeeds, setMigratingSeeds] = useState(false)
+
+  const refreshSeedMigration = useCallback(async () => {
+    const res = await getStegoSeedMigrationStatus()
+    setSeedMigration(res.success ? res : { error: res.error })
+  }, [])
+
+  useEffect(() => {
+    refreshSeedMigration()
+  }, [refreshSeedMigration])
+
+  const handleMigrateSeeds = useCallback(async () => {
+    setMigratingSeeds(true)
+    try {
+      const res = await startStegoSeedMigration()
+      if (!res.success) setSeedMigration((prev) => ({ ...prev, error: res.error }))
+      await refreshSeedMigration()
+    } finally {
+      setMigratingSeeds(false)
+    }
+  }, [refreshSeedMigration])
+
   return (
     <div className="p-6 space-y-6">
       <div>
@@ -120,14 +211,188 @@ export function AdminContent({
         </CardContent>
       </Card>
 
+      {/* Master Key Rotation */}
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle className="text-sm text-card-foreground flex items-center gap-2">
+            <KeyRound className="h-4 w-4 text-primary" />
+            Master Key Rotation
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Re-wrap every stored AES key under the active provider and key
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1 text-xs font-mono text-muted-foreground">
+            <p><span className="text-card-foreground">Provider: </span>{rotation?.activeProvider ?? '...'}</p>
+            <p><span className="text-card-foreground">Active key: </span>{rotation?.activeKeyId ?? '...'}</p>
+            <p><span className="text-card-foreground">Rows on older keys: </span>{rotation?.pendingRows ?? '...'}</p>
+            {rotation?.lastJob && (
+              <p>
+                <span className="text-card-foreground">Last job: </span>
+                {rotation.lastJob.status}
+                {rotation.lastJob.last_error ? ` (${rotation.lastJob.last_error})` : ''}
+              </p>
+            )}
+          </div>
+          {rotation?.error && (
+            <p className="text-xs text-destructive">{rotation.error}</p>
+          )}
+          <Button
+            onClick={handleRotate}
+            disabled={rotating || rotation?.pendingRows === 0}
+            className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+          >
+            {rotating ? 'Starting...' : 'Re-wrap Keys'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Legacy Stego Seed Migration */}
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle className="text-sm text-card-foreground flex items-center gap-2">
+            <Shuffle className="h-4 w-4 text-primary" />
+            Stego Seed Migration
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Seal seeds of older uploads onto their records and remove them from the audit log
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1 text-xs font-mono text-muted-foreground">
+            <p><span className="text-card-foreground">Seeds still in logs: </span>{seedMigration?.pendingSeeds ?? '...'}</p>
+            {seedMigration?.lastJob && (
+              <p>
+                <span className="text-card-foreground">Last job: </span>
+                {seedMigration.lastJob.status}
+                {seedMigration.lastJob.last_error ? ` (${seedMigration.lastJob.last_error})` : ''}
+              </p>
+            )}
+          </div>
+          {seedMigration?.error && (
+            <p className="text-xs text-destructive">{seedMigration.error}</p>
+          )}
+          <Button
+            onClick={handleMigrateSeeds}
+            disabled={migratingSeeds || seedMigration?.pendingSeeds === 0}
+            className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+          >
+            {migratingSeeds ? 'Starting...' : 'Migrate Seeds'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Stego Worker Pool */}
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle className="text-sm text-card-foreground flex items-center gap-2">
+            <Cpu className="h-4 w-4 text-primary" />
+            Stego Engine
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Worker threads that embed, extract and encrypt off the request thread (this server instance)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {engine?.metrics && (
+            <div className="space-y-1 text-xs font-mono text-muted-foreground">
+              {engine.metrics.mode === 'degraded' && (
+                <p className="text-destructive">
+                  Degraded: {engine.metrics.workers} of {engine.metrics.configuredWorkers} threads running.{' '}
+                  {engine.metrics.degradedReason}
+                </p>
+              )}
+              <p>
+                <span className="text-card-foreground">Threads: </span>
+                {engine.metrics.workers === 0
+                  ? 'none (jobs run inline)'
+                  : `${engine.metrics.busy} of ${engine.metrics.workers} busy`}
+              </p>
+              <p>
+                <span className="text-card-foreground">Queue: </span>
+                {engine.metrics.queued} / {engine.metrics.queueLimit}
+              </p>
+              <p>
+                <span className="text-card-foreground">Wait (p50 / p95 / max): </span>
+                {engine.metrics.waitMs.p50} / {engine.metrics.waitMs.p95} / {engine.metrics.waitMs.max} ms
+              </p>
+              <p>
+                <span className="text-card-foreground">Run (p50 / p95 / max): </span>
+                {engine.metrics.runMs.p50} / {engine.metrics.runMs.p95} / {engine.metrics.runMs.max} ms
+              </p>
+              <p>
+                <span className="text-card-foreground">Jobs: </span>
+                {engine.metrics.completed} completed, {engine.metrics.failed} failed, {engine.metrics.rejected} refused
+                (queue full), {engine.metrics.timedOut} timed out, {engine.metrics.cancelled} cancelled
+              </p>
+            </div>
+          )}
+          {engine?.error && (
+            <p className="text-xs text-destructive">{engine.error}</p>
+          )}
+          <Button onClick={refreshEngine} variant="outline" className="w-full">
+            Refresh
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Local Ledger */}
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle className="text-sm text-card-foreground flex items-center gap-2">
+            <Link2 className="h-4 w-4 text-primary" />
+            Local Ledger
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Re-check every block from genesis: links, signatures and Merkle roots of the entries
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {ledger?.report && (
+            <div className="space-y-1 text-xs font-mono text-muted-foreground">
+              <p className="flex items-center gap-2">
+                <span className="text-card-foreground">Chain: </span>
+                {ledger.report.valid ? (
+                  <Badge variant="outline" className="border-accent/40 text-accent text-[10px]">intact</Badge>
+                ) : (
+                  <Badge variant="outline" className="border-destructive/40 text-destructive text-[10px]">tampered</Badge>
+                )}
+              </p>
+              <p>
+                <span className="text-card-foreground">Blocks / entries: </span>
+                {ledger.report.blocks} / {ledger.report.entries}
+              </p>
+              {ledger.report.tipHash && (
+                <p className="break-all">
+                  <span className="text-card-foreground">Tip: </span>
+                  {ledger.report.tipHash}
+                </p>
+              )}
+              {ledger.report.problems.map((p, i) => (
+                <p key={i} className="text-destructive">
+                  Block {p.height}: {p.problem}
+                </p>
+              ))}
+            </div>
+          )}
+          {ledger?.error && (
+            <p className="text-xs text-destructive">{ledger.error}</p>
+          )}
+          <Button onClick={handleValidateLedger} disabled={validatingLedger} variant="outline" className="w-full">
+            {validatingLedger ? 'Validating...' : 'Validate Chain'}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Phase 2 Notice */}
       <Card className="border-border bg-card">
         <CardContent className="pt-6">
           <div className="text-center space-y-2">
             <p className="text-sm text-card-foreground font-medium">Phase 2 Features Coming Soon</p>
             <p className="text-xs text-muted-foreground leading-relaxed max-w-md mx-auto">
-              Real blockchain integration (Polygon/Ethereum), user management,
-              file analytics, and advanced audit trails will be available in Phase 2.
+              User management, file analytics, and advanced audit trails will be
+              available in Phase 2.
             </p>
           </div>
         </CardContent>
@@ -0,0 +1,164 @@
+import { NextResponse, after } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createDecryptionStream, CONTEXT_MISMATCH_ERROR } from '@/lib/crypto'
+import { openPlaintextStream } from '@/lib/stream-crypto'
+import { recoveryLimiter, checkRateLimit } from '@/lib/rate-limit'
+import { recoverCiphertext, decryptionInputFor, custodyKeyFor } from '@/lib/recovery'
+import { fulfilCustodyRequest } from '@/lib/custody'
+import { logRecovery } from '@/lib/audit'
+import { POOLED_CRYPTO, runStegoJob } from '@/lib/stego-pool'
+
+function decryptionFailure(error: unknown) {
+  const message = error instanceof Error && error.message === CONTEXT_MISMATCH_ERROR
+    ? CONTEXT_MISMATCH_ERROR
+    : 'Decryption failed - key or data mismatch'
+  return NextResponse.json({ error: message }, { status: 422 })
+}
+
+function attachmentName(filename: string): string {
+  return encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16)}`)
+}
+
+/**
+ * Streaming recovery for the browser session.
+ * The only path that decrypts on the server: the plaintext is returned as a
+ * raw response body, never buffered whole or base64-encoded.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    try {
+      await checkRateLimit(user.id, recoveryLimiter)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Rate limit exceeded' },
+        { status: 429 },
+      )
+    }
+
+    const formData = await request.formData()
+    const stegoFiles = formData.getAll('stegoImage') as File[]
+    const metadataId = formData.get('metadataId') as string | null
+
+    if (!metadataId) {
+      return NextResponse.json({ error: 'Metadata ID is required to recover the file' }, { status: 400 })
+    }
+
+    // A client that disconnects cancels the extraction on the stego worker pool
+    const recovered = await recoverCiphertext(supabase, user.id, metadataId, stegoFiles, request.signal)
+    if (!recovered.success) {
+      return NextResponse.json({ error: recovered.error }, { status: 422 })
+    }
+
+    const { meta, integrityVerified, blockchainVerified, correctedSymbols } = recovered
+    const headers = {
+      'Content-Type': meta.mime_type || 'application/octet-stream',
+      'Content-Disposition': `attachment; filename*=UTF-8''${attachmentName(meta.original_filename)}`,
+      'Cache-Control': 'no-store',
+      'X-HSDC-Integrity-Verified': String(integrityVerified),
+      'X-HSDC-Blockchain-Verified': String(blockchainVerified),
+      'X-HSDC-Corrected-Symbols': String(correctedSymbols),
+    }
+
+    const auditDetails = {
+      original_filename: meta.original_filename,
+      integrity_verified: integrityVerified,
+      blockchain_verified: blockchainVerified,
+      corrected_symbols: correctedSymbols,
+      streamed: true,
+    }
+
+    // Zero-knowledge records are returned sealed; the browser decrypts them
+    if (meta.client_encrypted) {
+      await logRecovery(user.id, metadataId, true, {
+        ...auditDetails,
+        client_encrypted: true,
+        data_length: recovered.encryptedData.length,
+      })
+      return new Response(new Uint8Array(recovered.encryptedData), {
+        headers: { ...headers, 'X-HSDC-Client-Encrypted': 'true' },
+      })
+    }
+
+    // Custody records: M approved shares stand in for the wrapped key
+    let custody
+    try {
+      custody = await custodyKeyFor(meta)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Custodian approval required' },
+        { status: 403 },
+      )
+    }
+
+    const decryptionInput = { ...decryptionInputFor(meta, recovered.encryptedData), dataKey: custody?.dataKey }
+
+    let streaming
+    try {
+      streaming = await createDecryptionStream(decryptionInput, POOLED_CRYPTO)
+    } catch (error) {
+      custody?.dataKey.fill(0)
+      return decryptionFailure(error)
+    }
+
+    // Single-shot records must be authenticated as a whole before release
+    if (!streaming) {
+      let decryptedData
+      try {
+        decryptedData = await runStegoJob('decrypt', decryptionInput)
+      } catch (error) {
+        return decryptionFailure(error)
+      } finally {
+        custody?.dataKey.fill(0)
+      }
+
+      if (custody) await fulfilCustodyRequest(custody.requestId)
+
+      await logRecovery(user.id, metadataId, true, { ...auditDetails, data_length: decryptedData.length })
+      return new Response(new Uint8Array(decryptedData), { headers })
+    }
+
+    // The decryptor holds its own copy of the key
+    custody?.dataKey.fill(0)
+
+    const { decipher, body } = streaming
+    let dataLength = 0
+    let streamError: Error | null = null
+
+    // Nothing is committed until the first batch authenticates; a failure
+    // after that aborts the body so the client never sees a clean short file
+    let plaintext
+    try {
+      plaintext = await openPlaintextStream(decipher, body, {
+        onData: (chunk) => { dataLength += chunk.length },
+        onError: (err) => { streamError = err },
+      })
+    } catch (error) {
+      await logRecovery(user.id, metadataId, false, {
+        ...auditDetails,
+        error: 'Decryption failed - key or data mismatch',
+      })
+      return decryptionFailure(error)
+    }
+
+    // Record the outcome once the body has been fully sent (or aborted)
+    after(async () => {
+      if (custody && !streamError) await fulfilCustodyRequest(custody.requestId)
+      await logRecovery(user.id, metadataId, !streamError, {
+        ...auditDetails,
+        data_length: dataLength,
+        ...(streamError ? { error: 'Decryption failed - key or data mismatch' } : {}),
+      })
+    })
+
+    return new Response(plaintext, { headers })
+  } catch (error) {
+    console.error('Streaming recovery error:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server'
+import { getBlockchainService } from '@/lib/blockchain'
+import { getTrustedReceiptKeys } from '@/lib/receipts'
+import { verifyReceipt } from '@/lib/receipt-verifier'
+import { verifyLimiter, checkRateLimit } from '@/lib/rate-limit'
+import { MAX_SHARD_CARRIERS } from '@/lib/stego-shards'
+import type { BlockchainHashRecord, VerificationReceipt } from '@/lib/types'
+
+// Anonymous callers get a small budget for the receipt and every image together
+const MAX_REQUEST_BYTES = 5 * 1024 * 1024
+const REQUEST_TOO_LARGE = `Request too large - receipt and images may total at most ${MAX_REQUEST_BYTES / 1024 / 1024} MB`
+
+// The address the platform's edge saw. x-real-ip is set by the host (Vercel,
+// or a fronting nginx) and overrides anything the client sent; failing that,
+// the x-forwarded-for entry the nearest proxy appended. The leftmost entry is
+// whatever the client chose to send, so it is never used.
+function clientAddress(request: Request): string {
+  const realIp = request.headers.get('x-real-ip')?.trim()
+  if (realIp) return realIp
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  return forwarded[forwarded.length - 1] || 'unknown'
+}
+
+// The form body, read only up to `limit` bytes: Content-Length is checked
+// first, and a chunked or understated body is cut off once it passes the limit
+async function readLimitedForm(request: Request, limit: number): Promise<FormData | null> {
+  const declared = Number(request.headers.get('content-length'))
+  if (declared > limit) return null
+
+  const chunks: Uint8Array[] = []
+  let received = 0
+  if (request.body) {
+    const reader = request.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      received += value.length
+      if (received > limit) {
+        await reader.cancel()
+        return null
+      }
+      chunks.push(value)
+    }
+  }
+
+  const body = Buffer.concat(chunks)
+  return new Response(body, { headers: { 'Content-Type': request.headers.get('content-type') ?? '' } }).formData()
+}
+
+/**
+ * The public keys receipts are signed with, for verifiers to pin: `keyId` and
+ * `publicKey` name the current one, `keys` also lists the retired ones that
+ * older receipts carry
+ */
+export async function GET() {
+  try {
+    const keys = getTrustedReceiptKeys()
+    if (keys.length === 0) throw new Error('No receipt keys are configured')
+    // The current key, when one is configured, comes first
+    const current = process.env.HSDC_RECEIPT_SIGNING_KEY ? keys[0] : null
+    return NextResponse.json({
+      algorithm: 'Ed25519',
+      keyId: current?.keyId ?? null,
+      publicKey: current?.publicKeyPem ?? null,
+      keys: keys.map((key) => ({ keyId: key.keyId, publicKey: key.publicKeyPem })),
+    })
+  } catch (error) {
+    console.error('Receipt key error:', error)
+    return NextResponse.json({ error: 'Receipt signing is not configured' }, { status: 503 })
+  }
+}
+
+/**
+ * Public receipt check - no HSDC account needed.
+ * Multipart form: `receipt` (the receipt JSON, as text or a file) and up to
+ * MAX_SHARD_CARRIERS `stegoImage` files, MAX_REQUEST_BYTES in all. The
+ * offline checks of lib/receipt-verifier.ts run with this server's current
+ * and retired keys as the trusted ones; a receipt that passes them is then
+ * checked against the ledger it names, so a receipt outlives neither a
+ * revoked anchor nor a tampered ledger.
+ */
+export async function POST(request: Request) {
+  try {
+    try {
+      await checkRateLimit(`ip:${clientAddress(request)}`, verifyLimiter)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Rate limit exceeded' },
+        { status: 429 },
+      )
+    }
+
+    const formData = await readLimitedForm(request, MAX_REQUEST_BYTES)
+    if (!formData) {
+      return NextResponse.json({ error: REQUEST_TOO_LARGE }, { status: 413 })
+    }
+    const receiptField = formData.get('receipt')
+    let receipt: VerificationReceipt
+    try {
+      receipt = JSON.parse(typeof receiptField === 'string' ? receiptField : await (receiptField as File).text())
+    } catch {
+      return NextResponse.json({ error: 'A receipt JSON is required' }, { status: 400 })
+    }
+
+    const imageFiles = formData.getAll('stegoImage').filter((f): f is File => typeof f !== 'string')
+    if (imageFiles.length > MAX_SHARD_CARRIERS) {
+      return NextResponse.json({ error: `At most ${MAX_SHARD_CARRIERS} images can be checked` }, { status: 400 })
+    }
+    const images = await Promise.all(imageFiles.map(async (f) => Buffer.from(await f.arrayBuffer())))
+
+    const trustedKeys = getTrustedReceiptKeys().map((key) => key.publicKeyPem)
+    const result = verifyReceipt(receipt, { trustedKeys, images })
+
+    // Only a receipt this server signed names a ledger worth asking
+    let record: BlockchainHashRecord | null = null
+    if (result.trustedSigner && result.proofValid) {
+      const { anchor } = receipt
+      try {
+        record = await getBlockchainService(anchor.backend).verifyHash(receipt.integrityHash, anchor.proof)
+        if (!record?.verified) result.problems.push('The ledger does not confirm the anchor')
+        else if (record.txId !== anchor.txId) result.problems.push('The ledger holds the anchor under another transaction')
+      } catch (error) {
+        console.error('Receipt ledger check error:', error)
+        result.problems.push(`The ${anchor.backend} ledger could not be checked`)
+      }
+    }
+    const anchored = !!record?.verified && record.txId === receipt.anchor.txId
+
+    return NextResponse.json(
+      { ...result, valid: result.valid && anchored, anchored, ledgerRecord: record },
+      { headers: { 'Cache-Control': 'no-store' } },
+    )
+  } catch (error) {
+    console.error('Receipt verification error:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
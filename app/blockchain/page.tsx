@@ -12,7 +12,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { verifyBlockchainHash } from '@/actions/recover'
-import { Link2, Search, CheckCircle, XCircle, Shield } from 'lucide-react'
+import type { MerkleInclusionProof } from '@/lib/types'
+import { Link2, Search, CheckCircle, XCircle, Shield, Clock, GitMerge } from 'lucide-react'
+import { RecordExplorer, shortHash } from './record-explorer'
 
 export default function BlockchainPage() {
   const [hash, setHash] = useState('')
@@ -24,7 +26,10 @@ export default function BlockchainPage() {
       network: string
       timestamp: string
       hash: string
+      blockNumber?: number
+      proof?: MerkleInclusionProof
     } | null
+    pending?: boolean
     error?: string
   } | null>(null)
 
@@ -47,14 +52,14 @@ export default function BlockchainPage() {
   }, [hash])
 
   return (
-    <div className="p-6 max-w-2xl mx-auto space-y-6">
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
       <div>
         <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
           <Link2 className="h-5 w-5 text-primary" />
           Blockchain Verification
         </h1>
         <p className="text-sm text-muted-foreground mt-1">
-          Verify file integrity hashes against the blockchain ledger
+          Browse your anchored records and verify integrity hashes against the ledger
         </p>
       </div>
 
@@ -64,11 +69,12 @@ export default function BlockchainPage() {
           <div className="flex items-start gap-3">
             <Shield className="h-5 w-5 text-primary shrink-0 mt-0.5" />
             <div>
-              <p className="text-sm text-card-foreground font-medium">Mock Blockchain (Phase 1)</p>
+              <p className="text-sm text-card-foreground font-medium">Hash-Chained Ledger</p>
               <p className="text-xs text-muted-foreground leading-relaxed mt-1">
-                Currently using a mock blockchain service that stores hashes in Supabase.
-                Phase 2 will integrate real Polygon/Ethereum smart contracts for
-                on-chain hash storage and verification.
+                With the ledger backend, integrity hashes are appended to a local ledger of
+                signed blocks, each linked to the one before it, so editing any past entry
+                breaks the chain. Deployments with an EVM chain anchor batches in a hash
+                registry contract instead, verified by reading the contract state.
               </p>
             </div>
           </div>
@@ -102,13 +108,20 @@ export default function BlockchainPage() {
           </div>
 
           {result && (
-            <div className={`rounded-lg border p-4 ${result.verified ? 'border-accent/50 bg-accent/5' : 'border-destructive/50 bg-destructive/5'}`}>
+            <div className={`rounded-lg border p-4 ${result.verified ? 'border-accent/50 bg-accent/5' : result.pending ? 'border-yellow-500/50 bg-yellow-500/5' : 'border-destructive/50 bg-destructive/5'}`}>
               <div className="flex items-center gap-2 mb-3">
                 {result.verified ? (
                   <>
                     <CheckCircle className="h-5 w-5 text-accent" />
                     <span className="text-sm font-semibold text-accent">Hash Verified</span>
                   </>
+                ) : result.pending ? (
+                  <>
+                    <Clock className="h-5 w-5 text-yellow-500" />
+                    <span className="text-sm font-semibold text-yellow-500">
+                      Queued for the next anchoring batch
+                    </span>
+                  </>
                 ) : (
                   <>
                     <XCircle className="h-5 w-5 text-destructive" />
@@ -137,6 +150,45 @@ export default function BlockchainPage() {
                       {new Date(result.record.timestamp).toLocaleString()}
                     </span>
                   </div>
+                  {result.record.blockNumber !== undefined && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">Block:</span>
+                      <span className="text-card-foreground">{result.record.blockNumber}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {result.verified && result.record?.proof && (
+                <div className="mt-4 border-t border-border pt-3 space-y-2">
+                  <p className="text-xs font-medium text-card-foreground flex items-center gap-1.5">
+                    <GitMerge className="h-3.5 w-3.5 text-primary" />
+                    Merkle inclusion proof - leaf {result.record.proof.leafIndex + 1} of{' '}
+                    {result.record.proof.leafCount}
+                  </p>
+                  <ol className="space-y-1 text-[11px] font-mono">
+                    <li className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-[10px] w-14 justify-center">leaf</Badge>
+                      <span className="text-card-foreground">{shortHash(result.record.hash)}</span>
+                    </li>
+                    {result.record.proof.siblings.map((step, i) => (
+                      <li key={i} className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-[10px] w-14 justify-center border-primary/30 text-primary">
+                          {step.position}
+                        </Badge>
+                        <span className="text-muted-foreground">{shortHash(step.hash)}</span>
+                      </li>
+                    ))}
+                    <li className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-[10px] w-14 justify-center border-accent/40 text-accent">root</Badge>
+                      <span className="text-card-foreground">{shortHash(result.record.proof.root)}</span>
+                    </li>
+                  </ol>
+                  <p className="text-[11px] text-muted-foreground">
+                    Each step hashes the running node with its sibling on the given side; the
+                    result must equal the root anchored in transaction{' '}
+                    <span className="font-mono text-card-foreground break-all">{result.record.txId}</span>
+                  </p>
                 </div>
               )}
             </div>
@@ -144,6 +196,9 @@ export default function BlockchainPage() {
         </CardContent>
       </Card>
 
+      {/* Explorer */}
+      <RecordExplorer />
+
       {/* How it works */}
       <Card className="border-border bg-card">
         <CardHeader>
@@ -157,7 +212,10 @@ export default function BlockchainPage() {
             </div>
             <div className="flex items-start gap-3">
               <span className="text-primary font-mono font-bold">2.</span>
-              <p>This hash is stored on the blockchain with a unique transaction ID</p>
+              <p>
+                Hashes are batched into a Merkle tree whose root is anchored on the blockchain;
+                each file keeps the proof linking its hash to that root
+              </p>
             </div>
             <div className="flex items-start gap-3">
               <span className="text-primary font-mono font-bold">3.</span>
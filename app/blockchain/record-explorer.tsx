@@ -0,0 +1,297 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  getBlockchainRecords,
+  reverifyBlockchainRecord,
+  reverifyAllBlockchainRecords,
+} from '@/actions/blockchain'
+import type {
+  BlockchainDriftReport,
+  BlockchainExplorerPage,
+  BlockchainExplorerRecord,
+  BlockchainReverifyResult,
+  BlockchainReverifyStatus,
+} from '@/lib/types'
+import { AlertTriangle, ChevronLeft, ChevronRight, List, RefreshCw } from 'lucide-react'
+
+export function shortHash(hash: string): string {
+  return hash.length > 20 ? `${hash.slice(0, 10)}…${hash.slice(-8)}` : hash
+}
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  ANCHORED: { label: 'anchored', className: 'border-border text-muted-foreground' }, // not re-checked yet
+  PENDING: { label: 'queued', className: 'border-yellow-500/40 text-yellow-500' },
+  BATCHING: { label: 'queued', className: 'border-yellow-500/40 text-yellow-500' },
+  VERIFIED: { label: 'verified', className: 'border-accent/40 text-accent' },
+  UNVERIFIED: { label: 'unverified', className: 'border-yellow-500/40 text-yellow-500' },
+  MISSING: { label: 'missing', className: 'border-destructive/40 text-destructive' },
+  DRIFT: { label: 'drift', className: 'border-destructive/40 text-destructive' },
+  ERROR: { label: 'error', className: 'border-destructive/40 text-destructive' },
+}
+
+function StatusBadge({ record, checked }: { record: BlockchainExplorerRecord; checked?: BlockchainReverifyResult }) {
+  const style = STATUS_BADGES[checked?.status ?? record.status ?? 'ANCHORED']
+  return (
+    <Badge variant="outline" className={`text-[10px] ${style.className}`} title={checked?.error}>
+      {style.label}
+    </Badge>
+  )
+}
+
+function describeDrift(result: BlockchainReverifyResult): string {
+  if (result.status === 'MISSING') return 'recorded as anchored, but the ledger has no such anchor'
+  if (result.status === 'UNVERIFIED') return 'on the ledger, but not yet confirmed or failing its checks'
+  if (result.status === 'ERROR') return result.error || 'the ledger could not be reached'
+  return result.drift
+    .map((d) => `${d.field}: recorded ${d.recorded ?? 'nothing'}, ledger has ${d.onLedger}`)
+    .join('; ')
+}
+
+// Re-verify All runs in server-side batches; the report covers all of them
+function mergeReports(previous: BlockchainDriftReport | null, batch: BlockchainDriftReport): BlockchainDriftReport {
+  if (!previous) return batch
+  const counts = { ...previous.counts }
+  for (const [status, count] of Object.entries(batch.counts)) counts[status as BlockchainReverifyStatus] += count
+  return {
+    checked: previous.checked + batch.checked,
+    counts,
+    results: [...previous.results, ...batch.results],
+    checkedAt: batch.checkedAt,
+  }
+}
+
+/**
+ * The user's anchored records, with re-verification against the ledger each
+ * one was anchored to
+ */
+export function RecordExplorer() {
+  const [page, setPage] = useState(1)
+  const [listing, setListing] = useState<BlockchainExplorerPage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [checked, setChecked] = useState<Record<string, BlockchainReverifyResult>>({})
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+  const [checkingAll, setCheckingAll] = useState(false)
+  const [report, setReport] = useState<BlockchainDriftReport | null>(null)
+  const [resumeCursor, setResumeCursor] = useState<string | null>(null) // where a stopped run picks up
+
+  const refresh = useCallback(async () => {
+    const res = await getBlockchainRecords(page)
+    if (res.success && res.records) {
+      setListing(res as BlockchainExplorerPage)
+      setError(null)
+    } else {
+      setError(res.error || 'Failed to load records')
+    }
+  }, [page])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleReverify = useCallback(async (id: string) => {
+    setCheckingId(id)
+    try {
+      const res = await reverifyBlockchainRecord(id)
+      if (res.success && res.result) {
+        const result = res.result
+        setChecked((prev) => ({ ...prev, [id]: result }))
+      } else {
+        setError(res.error || 'Re-verification failed')
+      }
+    } finally {
+      setCheckingId(null)
+    }
+  }, [])
+
+  const handleReverifyAll = useCallback(async (resume: boolean) => {
+    setCheckingAll(true)
+    setError(null)
+    let cursor = resume ? resumeCursor : null
+    let merged = resume ? report : null
+    if (!resume) {
+      setReport(null)
+      setChecked({})
+    }
+    try {
+      do {
+        const res = await reverifyAllBlockchainRecords(cursor)
+        if (!res.success || !res.report) {
+          // Keep the batches done so far; Resume retries from this one
+          setResumeCursor(cursor ?? '')
+          setError(res.error || 'Re-verification failed')
+          return
+        }
+        const batch = res.report
+        merged = mergeReports(merged, batch)
+        setReport(merged)
+        setChecked((prev) => ({ ...prev, ...Object.fromEntries(batch.results.map((r) => [r.id, r])) }))
+        cursor = res.nextCursor ?? null
+      } while (cursor)
+      setResumeCursor(null)
+    } finally {
+      setCheckingAll(false)
+    }
+  }, [report, resumeCursor])
+
+  const filenames = new Map(listing?.records.map((r) => [r.id, r.filename]) ?? [])
+  const drifted = report?.results.filter((r) => r.status !== 'VERIFIED' && r.status !== 'PENDING') ?? []
+  const lastPage = listing ? Math.max(1, Math.ceil(listing.total / listing.pageSize)) : 1
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle className="text-sm text-card-foreground flex items-center gap-2">
+          <List className="h-4 w-4 text-primary" />
+          Anchored Records
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Every file you anchored, checked again on request against the ledger that holds it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {listing && listing.unavailableBackends.length > 0 && (
+          <p className="text-xs text-yellow-500">
+            Not configured on this server, so their records cannot be re-verified:{' '}
+            {listing.unavailableBackends.join(', ')}
+          </p>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead>Hash</TableHead>
+              <TableHead>TX ID</TableHead>
+              <TableHead>Network</TableHead>
+              <TableHead className="text-right">Block</TableHead>
+              <TableHead className="text-right">Confirmations</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {listing?.records.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-6">
+                  No anchored records yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              listing?.records.map((record) => {
+                const result = checked[record.id]
+                const confirmations = result?.confirmations ?? record.confirmations
+                return (
+                  <TableRow key={record.id}>
+                    <TableCell className="max-w-40 truncate text-card-foreground" title={record.filename}>
+                      {record.filename || '—'}
+                    </TableCell>
+                    <TableCell className="font-mono" title={record.hash}>{shortHash(record.hash)}</TableCell>
+                    <TableCell className="font-mono" title={record.txId || undefined}>
+                      {record.txId ? shortHash(record.txId) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="border-primary/30 text-primary text-[10px]">
+                        {record.network}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{record.blockNumber ?? '—'}</TableCell>
+                    <TableCell className="text-right font-mono">{confirmations ?? '—'}</TableCell>
+                    <TableCell>
+                      <StatusBadge record={record} checked={result} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        onClick={() => handleReverify(record.id)}
+                        disabled={checkingId === record.id || checkingAll}
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                      >
+                        <RefreshCw className={`h-3 w-3 ${checkingId === record.id ? 'animate-spin' : ''}`} />
+                        Re-verify
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => handleReverifyAll(false)}
+              disabled={checkingAll || !listing?.total}
+              variant="outline"
+              className="gap-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${checkingAll ? 'animate-spin' : ''}`} />
+              {checkingAll ? `Re-verifying... ${report?.checked ?? 0} of ${listing?.total ?? 0}` : 'Re-verify All'}
+            </Button>
+            {resumeCursor !== null && !checkingAll && (
+              <Button onClick={() => handleReverifyAll(true)} variant="ghost" className="text-xs">
+                Resume
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+              variant="ghost"
+              size="sm"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            Page {listing?.page ?? page} of {lastPage}
+            <Button
+              onClick={() => setPage((p) => Math.min(lastPage, p + 1))}
+              disabled={page >= lastPage}
+              variant="ghost"
+              size="sm"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {report && (
+          <div className={`rounded-lg border p-4 space-y-2 ${drifted.length > 0 ? 'border-destructive/50 bg-destructive/5' : 'border-accent/50 bg-accent/5'}`}>
+            <p className="text-xs font-medium text-card-foreground flex items-center gap-1.5">
+              {drifted.length > 0 && <AlertTriangle className="h-3.5 w-3.5 text-destructive" />}
+              Drift report - {report.checked} checked: {report.counts.VERIFIED} verified,{' '}
+              {report.counts.PENDING} queued, {report.counts.UNVERIFIED} unverified, {report.counts.DRIFT} drifted,{' '}
+              {report.counts.MISSING} missing, {report.counts.ERROR} failed
+            </p>
+            {drifted.map((result) => (
+              <p key={result.id} className="text-[11px] font-mono text-muted-foreground">
+                <span className="text-card-foreground">{filenames.get(result.id) || shortHash(result.hash)}</span>{' '}
+                ({result.backend}): {describeDrift(result)}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,6 +10,9 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import {
   Select,
   SelectContent,
@@ -19,16 +22,20 @@ import {
 } from '@/components/ui/select'
 import { FileUploader } from '@/components/file-uploader'
 import { ProgressIndicator } from '@/components/progress-indicator'
-import { recoverFile } from '@/actions/recover'
 import { getUserFiles } from '@/actions/upload'
+import { recoverHiddenFile } from '@/actions/recover'
+import { decryptWithPassphrase, deriveHiddenLocator } from '@/lib/client-crypto'
+import { CustodianPanel, CustodyApprovals } from '@/components/custodian-panel'
 import {
   Download,
+  EyeOff,
+  Plus,
   Shield,
   CheckCircle,
   AlertTriangle,
   XCircle,
 } from 'lucide-react'
-import type { RecoveryStage } from '@/lib/types'
+import type { RecoveryStage, StegoShardSet } from '@/lib/types'
 
 const RECOVERY_STAGES = [
   { key: 'extracting', label: 'Extract' },
@@ -43,11 +50,19 @@ interface FileRecord {
   status: string
   created_at: string
   stego_filename?: string | null
+  stego_shards?: StegoShardSet | null
+  client_encrypted?: boolean
+  key_provider?: string
 }
 
 export default function RecoveryPage() {
-  const [stegoImage, setStegoImage] = useState<File | null>(null)
+  // Shard sets accept several carriers; the vault copies are used first
+  const [stegoSlots, setStegoSlots] = useState<(File | null)[]>([null])
   const [selectedFileId, setSelectedFileId] = useState<string>('')
+  const [passphrase, setPassphrase] = useState('')
+  // Deniable second payload: found only by its own passphrase
+  const [hiddenMode, setHiddenMode] = useState(false)
+  const [hiddenPassphrase, setHiddenPassphrase] = useState('')
   const [files, setFiles] = useState<FileRecord[]>([])
   const [processing, setProcessing] = useState(false)
   const [stage, setStage] = useState<RecoveryStage>('extracting')
@@ -58,9 +73,10 @@ export default function RecoveryPage() {
     error?: string
     originalFilename?: string
     mimeType?: string
-    fileBase64?: string
+    downloadUrl?: string // object URL of the streamed plaintext
     integrityVerified?: boolean
     blockchainVerified?: boolean
+    correctedSymbols?: number
   } | null>(null)
 
   useEffect(() => {
@@ -74,15 +90,29 @@ export default function RecoveryPage() {
             status: file.status,
             created_at: file.created_at,
             stego_filename: (file as any).stego_filename || null,
+            stego_shards: file.stego_shards ?? null,
+            client_encrypted: file.client_encrypted === true,
+            key_provider: file.key_provider,
           })),
       )
     })
   }, [])
 
+  const selectedRecord = files.find((f) => f.id === selectedFileId)
+  const shardSet = selectedRecord?.stego_shards ?? null
+  const stegoImages = stegoSlots.filter((f): f is File => f !== null)
+  // Hidden payloads live beside single-carrier records only
+  const hiddenRecovery = hiddenMode && !shardSet
+
+  const setStegoSlot = useCallback((index: number, file: File | null) => {
+    setStegoSlots((current) => current.map((slot, i) => (i === index ? file : slot)))
+  }, [])
+
   const handleRecover = useCallback(async () => {
     if (!selectedFileId) return
 
     setProcessing(true)
+    if (result?.downloadUrl) URL.revokeObjectURL(result.downloadUrl)
     setResult(null)
 
     const stages: { stage: RecoveryStage; progress: number; message: string; delay: number }[] = [
@@ -99,28 +129,103 @@ export default function RecoveryPage() {
       }, s.delay)
     }
 
-    const selectedRecord = files.find((f) => f.id === selectedFileId)
-
     const formData = new FormData()
     formData.append('metadataId', selectedFileId)
-    // Only append stegoImage if user provided one AND server copy is not available
-    if (!selectedRecord?.stego_filename && stegoImage) {
-      formData.append('stegoImage', stegoImage)
+    // Only append stegoImage if user provided one AND server copy is not available.
+    // Shard sets always send them: they stand in for any shard missing from the vault.
+    if (!selectedRecord?.stego_filename || shardSet) {
+      for (const stegoImage of shardSet ? stegoImages : stegoImages.slice(0, 1)) {
+        formData.append('stegoImage', stegoImage)
+      }
+    }
+
+    if (hiddenRecovery) {
+      try {
+        formData.append('hiddenLocator', await deriveHiddenLocator(hiddenPassphrase))
+        const res = await recoverHiddenFile(formData)
+        if (!res.success || !res.fileBase64) {
+          setStage('error')
+          setProgress(0)
+          setMessage(res.error || 'Recovery failed. Please try again.')
+          setResult({ success: false, error: res.error || 'Recovery failed' })
+          return
+        }
+
+        // Hidden payloads are always sealed in the browser
+        setStage('decrypting')
+        setProgress(85)
+        setMessage('Decrypting in browser (PBKDF2 + AES-256-GCM)...')
+        const envelope = Uint8Array.from(atob(res.fileBase64), (c) => c.charCodeAt(0))
+        const blob = new Blob([await decryptWithPassphrase(envelope, hiddenPassphrase)], { type: res.mimeType })
+
+        setStage('complete')
+        setProgress(100)
+        setMessage('File recovered successfully')
+        setResult({
+          success: true,
+          originalFilename: res.originalFilename,
+          mimeType: res.mimeType,
+          downloadUrl: URL.createObjectURL(blob),
+          integrityVerified: res.integrityVerified,
+          blockchainVerified: res.blockchainVerified,
+          correctedSymbols: res.correctedSymbols,
+        })
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'Browser decryption failed'
+        setStage('error')
+        setProgress(0)
+        setMessage(error)
+        setResult({ success: false, error })
+      } finally {
+        setProcessing(false)
+      }
+      return
     }
 
     try {
-      const res = await recoverFile(formData)
-      if (res.success) {
+      // Streamed from the server segment by segment - no base64 round-trip
+      const res = await fetch('/api/v1/vault/recover', { method: 'POST', body: formData })
+      if (res.ok) {
+        let blob = await res.blob()
+
+        // Zero-knowledge records arrive sealed - decrypt with the passphrase locally
+        if (res.headers.get('X-HSDC-Client-Encrypted') === 'true') {
+          setStage('decrypting')
+          setProgress(85)
+          setMessage('Decrypting in browser (PBKDF2 + AES-256-GCM)...')
+          try {
+            const envelope = new Uint8Array(await blob.arrayBuffer())
+            blob = new Blob([await decryptWithPassphrase(envelope, passphrase)], { type: blob.type })
+          } catch (err) {
+            const error = err instanceof Error ? err.message : 'Browser decryption failed'
+            setStage('error')
+            setProgress(0)
+            setMessage(error)
+            setResult({ success: false, error })
+            return
+          }
+        }
+
         setStage('complete')
         setProgress(100)
         setMessage('File recovered successfully')
+        setResult({
+          success: true,
+          originalFilename: selectedRecord?.original_filename,
+          mimeType: res.headers.get('Content-Type') || undefined,
+          downloadUrl: URL.createObjectURL(blob),
+          integrityVerified: res.headers.get('X-HSDC-Integrity-Verified') === 'true',
+          blockchainVerified: res.headers.get('X-HSDC-Blockchain-Verified') === 'true',
+          correctedSymbols: Number(res.headers.get('X-HSDC-Corrected-Symbols') || 0),
+        })
       } else {
+        const { error } = await res.json().catch(() => ({ error: undefined }))
         setStage('error')
         setProgress(0)
         // Safe error message - no stack traces exposed
-        setMessage(res.error || 'Recovery failed. Please try again.')
+        setMessage(error || 'Recovery failed. Please try again.')
+        setResult({ success: false, error: error || 'Recovery failed' })
       }
-      setResult(res)
     } catch (err) {
       setStage('error')
       setProgress(0)
@@ -130,12 +235,12 @@ export default function RecoveryPage() {
     } finally {
       setProcessing(false)
     }
-  }, [stegoImage, selectedFileId])
+  }, [stegoImages, selectedFileId, selectedRecord, shardSet, result, passphrase, hiddenRecovery, hiddenPassphrase])
 
   const handleDownload = useCallback(() => {
-    if (!result?.fileBase64 || !result.originalFilename) return
+    if (!result?.downloadUrl || !result.originalFilename) return
     const link = document.createElement('a')
-    link.href = `data:${result.mimeType || 'application/octet-stream'};base64,${result.fileBase64}`
+    link.href = result.downloadUrl
     link.download = result.originalFilename
     link.click()
   }, [result])
@@ -180,15 +285,87 @@ export default function RecoveryPage() {
               </SelectContent>
             </Select>
           </div>
-          <FileUploader
-            label="Stego Image"
-            accept="image/png,image/bmp,image/tiff"
-            description="The stego image containing hidden data"
-            onFileSelect={setStegoImage}
-          />
+          {selectedRecord?.key_provider === 'custody' && (
+            <CustodyApprovals key={selectedRecord.id} metadataId={selectedRecord.id} />
+          )}
+          {selectedRecord?.client_encrypted && !hiddenRecovery && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-card-foreground">
+                Passphrase
+              </label>
+              <Input
+                type="password"
+                placeholder="Zero-knowledge passphrase"
+                autoComplete="current-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="bg-secondary border-border text-card-foreground"
+              />
+              <p className="text-xs text-muted-foreground">
+                This file was encrypted in the browser and is decrypted locally.
+              </p>
+            </div>
+          )}
+          {!shardSet && (
+            <div className="space-y-2 rounded-md border border-border p-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="hidden-mode" className="text-card-foreground">
+                  <EyeOff className="h-4 w-4 text-cyan-500" />
+                  Hidden payload
+                </Label>
+                <Switch id="hidden-mode" checked={hiddenMode} onCheckedChange={setHiddenMode} />
+              </div>
+              {hiddenMode && (
+                <Input
+                  type="password"
+                  placeholder="Hidden passphrase"
+                  autoComplete="off"
+                  value={hiddenPassphrase}
+                  onChange={(e) => setHiddenPassphrase(e.target.value)}
+                  className="bg-secondary border-border text-card-foreground"
+                />
+              )}
+            </div>
+          )}
+          {(shardSet ? stegoSlots : stegoSlots.slice(0, 1)).map((_, i) => (
+            <FileUploader
+              key={i}
+              label={shardSet ? `Stego Carrier ${i + 1}` : 'Stego Carrier'}
+              accept="image/png,image/bmp,image/tiff,image/jpeg,audio/wav,audio/x-wav"
+              description={
+                shardSet
+                  ? 'Any carrier of the set, in any order'
+                  : 'The stego image or WAV recording containing hidden data'
+              }
+              onFileSelect={(file) => setStegoSlot(i, file)}
+            />
+          ))}
+          {shardSet && (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                This file is split across {shardSet.keys.length} carriers
+                {shardSet.parityShards > 0 ? ' and survives the loss of any one of them' : ''}.
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={stegoSlots.length >= shardSet.keys.length}
+                onClick={() => setStegoSlots((current) => [...current, null])}
+              >
+                <Plus className="h-4 w-4" />
+                Add carrier
+              </Button>
+            </div>
+          )}
           <Button
             onClick={handleRecover}
-            disabled={!stegoImage || !selectedFileId || processing}
+            disabled={
+              stegoImages.length === 0 ||
+              !selectedFileId ||
+              processing ||
+              (hiddenRecovery ? !hiddenPassphrase : selectedRecord?.client_encrypted && !passphrase)
+            }
             className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
           >
             {processing ? 'Recovering...' : 'Extract & Decrypt'}
@@ -250,6 +427,14 @@ export default function RecoveryPage() {
                       <span className="text-xs text-muted-foreground">Not verified</span>
                     )}
                   </div>
+                  {!!result.correctedSymbols && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">Error correction:</span>
+                      <span className="text-xs text-card-foreground font-mono">
+                        {result.correctedSymbols} damaged byte(s) repaired
+                      </span>
+                    </div>
+                  )}
                 </div>
                 <Button
                   onClick={handleDownload}
@@ -270,6 +455,8 @@ export default function RecoveryPage() {
           </CardContent>
         </Card>
       )}
+
+      <CustodianPanel />
     </div>
   )
 }
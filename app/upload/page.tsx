@@ -1,14 +1,37 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
 import { FileUploader } from '@/components/file-uploader'
 import { ProgressIndicator } from '@/components/progress-indicator'
 import { uploadAndProcess } from '@/actions/upload'
 import { getPresignedDownloadUrl } from '@/actions/s3' // VAPT: Import the cryptographic notary
-import { Shield, Download, CheckCircle, AlertTriangle } from 'lucide-react'
-import type { UploadStage } from '@/lib/types'
+import { listCustodians } from '@/actions/custody'
+import { deriveHiddenLocator, encryptWithPassphrase, MIN_PASSPHRASE_LENGTH } from '@/lib/client-crypto'
+import { describeProfile, MAX_LSB_DEPTH, MIN_DENSITY, MIN_LSB_DEPTH } from '@/lib/stego-profile'
+import {
+  Shield,
+  Download,
+  CheckCircle,
+  AlertTriangle,
+  KeyRound,
+  Users,
+  ShieldCheck,
+  SlidersHorizontal,
+  Layers,
+  Plus,
+  Minus,
+  EyeOff,
+  ScanEye,
+} from 'lucide-react'
+import type { CarrierPreview, CarrierQualityMetrics, CarrierType, StegoChannel, UploadStage } from '@/lib/types'
 
 const UPLOAD_STAGES = [
   { key: 'validating', label: 'Validate' },
@@ -19,9 +42,91 @@ const UPLOAD_STAGES = [
   { key: 'complete', label: 'Done' },
 ]
 
+// Reed-Solomon parity per 255-byte block (see ECC_LEVELS in lib/stego.ts)
+const ECC_OPTIONS = [
+  { value: 'off', label: 'Off', parity: 0, detail: 'CRC only - any damaged pixel fails recovery' },
+  { value: 'low', label: 'Low (~6%)', parity: 16, detail: 'Repairs up to 8 bytes per block' },
+  { value: 'medium', label: 'Medium (~13%)', parity: 32, detail: 'Repairs up to 16 bytes per block' },
+  { value: 'high', label: 'High (~25%)', parity: 64, detail: 'Repairs up to 32 bytes per block' },
+]
+
+const STEGO_CHANNELS: { value: StegoChannel; label: string }[] = [
+  { value: 'r', label: 'R' },
+  { value: 'g', label: 'G' },
+  { value: 'b', label: 'B' },
+  { value: 'a', label: 'A (opaque carriers only)' },
+]
+
+// Accepted carrier MIME types and the embedding path each takes (see lib/carrier.ts)
+const CARRIER_TYPES: Record<string, CarrierType> = {
+  'image/png': 'image',
+  'image/bmp': 'image',
+  'image/tiff': 'image',
+  'image/jpeg': 'jpeg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/vnd.wave': 'wav',
+}
+
+const CARRIER_NOTES: Record<Exclude<CarrierType, 'image'>, string> = {
+  jpeg:
+    'JPEG carriers are embedded in their DCT coefficients with F5 matrix encoding and stay JPEGs. Progressive JPEGs are not supported.',
+  wav: 'WAV carriers hide one bit in the least significant bit of each PCM sample and stay WAV files.',
+}
+
+const EMBEDDING_MESSAGES: Record<CarrierType, string> = {
+  image: 'Embedding via LSB steganography...',
+  jpeg: 'Embedding in DCT coefficients (F5)...',
+  wav: 'Embedding in audio sample LSBs...',
+}
+
+// Carriers one file can be sharded across (see MAX_SHARD_CARRIERS in lib/stego-shards.ts)
+const MAX_CARRIERS = 16
+
+// Everything sent in one upload (see bodySizeLimit in next.config.mjs)
+const MAX_REQUEST_MB = 200
+const MAX_REQUEST_BYTES = MAX_REQUEST_MB * 1024 * 1024
+
+// Rule of thumb: above these, embedding changes are invisible to the eye
+const IMPERCEPTIBLE_PSNR = 40
+const IMPERCEPTIBLE_SSIM = 0.98
+
+const DETECTABILITY_STYLES = {
+  low: 'text-accent',
+  moderate: 'text-yellow-500',
+  high: 'text-destructive',
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
+
 export default function UploadPage() {
   const [secretFile, setSecretFile] = useState<File | null>(null)
-  const [carrierImage, setCarrierImage] = useState<File | null>(null)
+  // One slot per carrier; a second carrier turns the upload into a shard set
+  const [carrierSlots, setCarrierSlots] = useState<(File | null)[]>([null])
+  const [shardParity, setShardParity] = useState(false)
+  const [zeroKnowledge, setZeroKnowledge] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  // Deniable second payload, sealed under its own passphrase
+  const [hiddenEnabled, setHiddenEnabled] = useState(false)
+  const [hiddenFile, setHiddenFile] = useState<File | null>(null)
+  const [hiddenPassphrase, setHiddenPassphrase] = useState('')
+  const [confirmHiddenPassphrase, setConfirmHiddenPassphrase] = useState('')
+  const [custodyEnabled, setCustodyEnabled] = useState(false)
+  const [custodians, setCustodians] = useState<{ id: string; displayName: string }[]>([])
+  const [selectedCustodians, setSelectedCustodians] = useState<string[]>([])
+  const [custodyThreshold, setCustodyThreshold] = useState(2)
+  const [eccLevel, setEccLevel] = useState('off')
+  const [lsbDepth, setLsbDepth] = useState(2)
+  const [stegoChannels, setStegoChannels] = useState<StegoChannel[]>(['r', 'g', 'b'])
+  const [densityPercent, setDensityPercent] = useState(100)
+  const [adaptive, setAdaptive] = useState(false)
+  const [carrierSize, setCarrierSize] = useState<{ width: number; height: number } | null>(null)
   const [processing, setProcessing] = useState(false)
   const [stage, setStage] = useState<UploadStage>('validating')
   const [progress, setProgress] = useState(0)
@@ -30,28 +135,137 @@ export default function UploadPage() {
     success: boolean
     error?: string
     s3Key?: string // VAPT: Replaced base64 with S3 Key
+    s3Keys?: string[]
     integrityHash?: string
     blockchainTxId?: string
     metadataId?: string
+    quality?: CarrierQualityMetrics
+    preview?: CarrierPreview
   } | null>(null)
 
-  const validateFiles = useCallback((): string | null => {
-    const MAX_SIZE_MB = 50
-    const MAX_SIZE_BYTES = MAX_SIZE_MB * 1024 * 1024
+  useEffect(() => {
+    if (custodyEnabled && custodians.length === 0) {
+      listCustodians().then((res) => setCustodians(res.custodians))
+    }
+  }, [custodyEnabled, custodians.length])
+
+  const carriers = useMemo(() => carrierSlots.filter((c): c is File => c !== null), [carrierSlots])
+  const carrierImage = carriers[0] ?? null
+  const sharded = carriers.length > 1
+
+  // Carrier dimensions drive the capacity / detectability preview
+  useEffect(() => {
+    setCarrierSize(null)
+    if (!carrierImage) return
+    let cancelled = false
+    createImageBitmap(carrierImage)
+      .then((bitmap) => {
+        if (!cancelled) setCarrierSize({ width: bitmap.width, height: bitmap.height })
+        bitmap.close()
+      })
+      .catch(() => {
+        // Some formats (e.g. TIFF) cannot be decoded by every browser; the server still checks capacity
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [carrierImage])
 
+  const carrierTypes: (CarrierType | undefined)[] = carriers.map((carrier) => CARRIER_TYPES[carrier.type])
+  const nonImageType = carrierTypes.find((type): type is Exclude<CarrierType, 'image'> => type === 'jpeg' || type === 'wav')
+  // The LSB profile only applies when every carrier is a lossless image
+  const profileApplies = nonImageType === undefined
+
+  const tradeoff = useMemo(() => {
+    if (!carrierSize || !profileApplies || stegoChannels.length === 0) return null
+    const parity = ECC_OPTIONS.find((option) => option.value === eccLevel)?.parity ?? 0
+    // Error correction spends `parity` of every 255 frame bytes
+    const expansion = 255 / (255 - parity)
+    const profile = { bitsPerChannel: lsbDepth, channels: stegoChannels, density: densityPercent / 100, adaptive }
+    const described = describeProfile(
+      carrierSize.width,
+      carrierSize.height,
+      profile,
+      Math.ceil((secretFile?.size ?? 0) * expansion),
+    )
+    return { ...described, capacityBytes: Math.floor(described.capacityBytes / expansion) }
+  }, [carrierSize, profileApplies, stegoChannels, lsbDepth, densityPercent, adaptive, eccLevel, secretFile])
+
+  const toggleChannel = useCallback((channel: StegoChannel, checked: boolean) => {
+    setStegoChannels((current) => (checked ? [...current, channel] : current.filter((c) => c !== channel)))
+  }, [])
+
+  const toggleCustodian = useCallback((id: string, checked: boolean) => {
+    setSelectedCustodians((current) => (checked ? [...current, id] : current.filter((c) => c !== id)))
+  }, [])
+
+  const validateFiles = useCallback((): string | null => {
     if (!secretFile) return 'Please select a secret file'
-    if (!carrierImage) return 'Please select a carrier image'
+    if (carriers.length === 0) return 'Please select a carrier'
+
+    // Beyond this the secret is bounded only by the carriers' capacity
+    const requestSize = [secretFile, ...carriers, hiddenEnabled ? hiddenFile : null]
+      .reduce((total, file) => total + (file?.size ?? 0), 0)
+    if (requestSize > MAX_REQUEST_BYTES) return `Files together exceed the ${MAX_REQUEST_MB}MB upload limit`
 
-    if (secretFile.size > MAX_SIZE_BYTES) return `Secret file exceeds ${MAX_SIZE_MB}MB limit`
-    if (carrierImage.size > MAX_SIZE_BYTES) return `Carrier image exceeds ${MAX_SIZE_MB}MB limit`
+    if (carrierTypes.includes(undefined)) {
+      return 'Carrier must be a PNG, BMP, TIFF, or JPEG image, or a PCM WAV recording'
+    }
+
+    if (profileApplies && stegoChannels.length === 0) return 'Select at least one embedding channel'
+    if (hiddenEnabled) {
+      if (!hiddenFile) return 'Please select a hidden file'
+      if (sharded || !profileApplies) return 'A hidden payload needs a single PNG, BMP, or TIFF carrier'
+      if (hiddenPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+        return `Hidden passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+      }
+      if (hiddenPassphrase !== confirmHiddenPassphrase) return 'Hidden passphrases do not match'
+      if (zeroKnowledge && hiddenPassphrase === passphrase) {
+        return 'The hidden passphrase must differ from the zero-knowledge passphrase'
+      }
+    }
 
-    const validImageTypes = ['image/png', 'image/bmp', 'image/tiff']
-    if (!validImageTypes.includes(carrierImage.type)) {
-      return 'Carrier image must be PNG, BMP, or TIFF'
+    // The preview covers the first carrier only; a shard set is checked on upload
+    const embeddedSize = secretFile.size + (hiddenEnabled && hiddenFile ? hiddenFile.size : 0)
+    if (!sharded && tradeoff && embeddedSize > tradeoff.capacityBytes) {
+      return 'Carrier image is too small for this file with the selected embedding profile'
+    }
+
+    if (zeroKnowledge) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+      }
+      if (passphrase !== confirmPassphrase) return 'Passphrases do not match'
+    }
+
+    if (custodyEnabled) {
+      if (zeroKnowledge) return 'Custodian recovery is not available in zero-knowledge mode'
+      if (selectedCustodians.length < 2) return 'Select at least two custodians'
+      if (custodyThreshold < 2 || custodyThreshold > selectedCustodians.length) {
+        return `Approval threshold must be between 2 and ${selectedCustodians.length}`
+      }
     }
 
     return null
-  }, [secretFile, carrierImage])
+  }, [
+    secretFile,
+    carriers,
+    sharded,
+    hiddenEnabled,
+    hiddenFile,
+    hiddenPassphrase,
+    confirmHiddenPassphrase,
+    zeroKnowledge,
+    passphrase,
+    confirmPassphrase,
+    custodyEnabled,
+    selectedCustodians,
+    custodyThreshold,
+    carrierTypes,
+    profileApplies,
+    stegoChannels,
+    tradeoff,
+  ])
 
   const handleUpload = useCallback(async () => {
     const validationError = validateFiles()
@@ -60,15 +274,83 @@ export default function UploadPage() {
       return
     }
 
-    if (!secretFile || !carrierImage) return
+    if (!secretFile || carriers.length === 0) return
 
     setProcessing(true)
     setResult(null)
 
+    const formData = new FormData()
+    for (const carrier of carriers) formData.append('carrierImage', carrier)
+    if (sharded && shardParity) formData.append('shardParity', 'true')
+
+    if (zeroKnowledge) {
+      // Zero-knowledge mode: seal the file here so only ciphertext leaves the browser
+      setStage('encrypting')
+      setProgress(20)
+      setMessage('Encrypting in browser (PBKDF2 + AES-256-GCM)...')
+      try {
+        const sealed = await encryptWithPassphrase(await secretFile.arrayBuffer(), passphrase)
+        formData.append('secretFile', new File([sealed as BlobPart], secretFile.name, { type: secretFile.type }))
+        formData.append('encryptionMode', 'client')
+      } catch (err) {
+        setStage('error')
+        setProgress(0)
+        setMessage('Browser encryption failed.')
+        setResult({ success: false, error: 'Browser encryption failed' })
+        setProcessing(false)
+        return
+      }
+    } else {
+      formData.append('secretFile', secretFile)
+    }
+
+    if (hiddenEnabled && hiddenFile) {
+      // The hidden file is always sealed here; the server only sees its envelope and locator
+      setStage('encrypting')
+      setProgress(20)
+      setMessage('Sealing hidden payload in browser...')
+      try {
+        const sealed = await encryptWithPassphrase(await hiddenFile.arrayBuffer(), hiddenPassphrase)
+        formData.append('hiddenFile', new File([sealed as BlobPart], hiddenFile.name, { type: hiddenFile.type }))
+        formData.append('hiddenLocator', await deriveHiddenLocator(hiddenPassphrase))
+      } catch (err) {
+        setStage('error')
+        setProgress(0)
+        setMessage('Browser encryption failed.')
+        setResult({ success: false, error: 'Browser encryption failed' })
+        setProcessing(false)
+        return
+      }
+    }
+
+    if (custodyEnabled) {
+      for (const id of selectedCustodians) formData.append('custodianIds', id)
+      formData.append('custodyThreshold', String(custodyThreshold))
+    }
+    formData.append('eccLevel', eccLevel)
+    if (profileApplies) {
+      formData.append('lsbDepth', String(lsbDepth))
+      for (const channel of stegoChannels) formData.append('stegoChannels', channel)
+      formData.append('stegoDensity', String(densityPercent))
+      formData.append('stegoAdaptive', String(adaptive))
+    }
+
     const stages: { stage: UploadStage; progress: number; message: string; delay: number }[] = [
       { stage: 'validating', progress: 10, message: 'Validating file types and sizes...', delay: 0 },
-      { stage: 'encrypting', progress: 30, message: 'Encrypting with AES-256-GCM...', delay: 500 },
-      { stage: 'embedding', progress: 55, message: 'Embedding via LSB steganography...', delay: 1000 },
+      {
+        stage: 'encrypting',
+        progress: 30,
+        message: zeroKnowledge ? 'Sealed in browser - sending ciphertext only...' : 'Encrypting with AES-256-GCM...',
+        delay: 500,
+      },
+      {
+        stage: 'embedding',
+        progress: 55,
+        message: sharded
+          ? `Embedding shards in ${carriers.length} carriers...`
+          : EMBEDDING_MESSAGES[carrierTypes[0] ?? 'image'],
+        delay: 1000,
+      },
       { stage: 'hashing', progress: 75, message: 'Computing SHA-256 integrity hash...', delay: 1500 },
       { stage: 'storing', progress: 90, message: 'Streaming payload to AWS S3 Enterprise Vault...', delay: 2000 },
     ]
@@ -81,10 +363,6 @@ export default function UploadPage() {
       }, s.delay)
     }
 
-    const formData = new FormData()
-    formData.append('secretFile', secretFile)
-    formData.append('carrierImage', carrierImage)
-
     try {
       const res = await uploadAndProcess(formData)
       if (res.success) {
@@ -105,15 +383,38 @@ export default function UploadPage() {
     } finally {
       setProcessing(false)
     }
-  }, [secretFile, carrierImage])
+  }, [
+    secretFile,
+    carriers,
+    sharded,
+    shardParity,
+    hiddenEnabled,
+    hiddenFile,
+    hiddenPassphrase,
+    zeroKnowledge,
+    passphrase,
+    custodyEnabled,
+    selectedCustodians,
+    custodyThreshold,
+    eccLevel,
+    carrierTypes,
+    profileApplies,
+    lsbDepth,
+    stegoChannels,
+    densityPercent,
+    adaptive,
+    validateFiles,
+  ])
+
+  const setCarrierSlot = useCallback((index: number, file: File | null) => {
+    setCarrierSlots((current) => current.map((slot, i) => (i === index ? file : slot)))
+  }, [])
 
   // VAPT: Secure S3 Download Handler
-  const handleDownloadStego = useCallback(async () => {
-    if (!result?.s3Key) return
-    
+  const handleDownloadStego = useCallback(async (s3Key: string) => {
     try {
       setMessage('Generating secure AWS S3 ticket...')
-      const { success, signedUrl, error } = await getPresignedDownloadUrl(result.s3Key)
+      const { success, signedUrl, error } = await getPresignedDownloadUrl(s3Key)
       
       if (success && signedUrl) {
         // Redirect browser to download directly from S3 Edge
@@ -126,7 +427,7 @@ export default function UploadPage() {
       console.error(err)
       setMessage('Failed to connect to AWS S3.')
     }
-  }, [result])
+  }, [])
 
   return (
     <div className="p-6 max-w-2xl mx-auto space-y-6">
@@ -144,24 +445,302 @@ export default function UploadPage() {
         <CardHeader>
           <CardTitle className="text-sm text-card-foreground">Select Files</CardTitle>
           <CardDescription className="text-muted-foreground">
-            Choose a secret file and a carrier image (PNG, BMP, or TIFF)
+            Choose a secret file and a carrier (PNG, BMP, TIFF, or JPEG image, or WAV recording)
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <FileUploader
             label="Secret File"
-            description="PDF, TXT, JSON, images, ZIP (max 50MB)"
+            description="PDF, TXT, JSON, images, ZIP (must fit the carriers' capacity)"
+            maxSize={MAX_REQUEST_BYTES}
             onFileSelect={setSecretFile}
           />
-          <FileUploader
-            label="Carrier Image"
-            accept="image/png,image/bmp,image/tiff"
-            description="PNG, BMP, or TIFF (larger = more capacity)"
-            onFileSelect={setCarrierImage}
-          />
+          {carrierSlots.map((_, i) => (
+            <FileUploader
+              key={i}
+              label={carrierSlots.length > 1 ? `Carrier ${i + 1}` : 'Carrier'}
+              accept={Object.keys(CARRIER_TYPES).join(',')}
+              description="PNG, BMP, TIFF, baseline JPEG, or PCM WAV (larger = more capacity)"
+              maxSize={MAX_REQUEST_BYTES}
+              onFileSelect={(file) => setCarrierSlot(i, file)}
+            />
+          ))}
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-card-foreground">
+                <Layers className="h-4 w-4 text-cyan-500" />
+                Multi-carrier sharding
+              </Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={carrierSlots.length <= 1}
+                  onClick={() => setCarrierSlots((current) => current.slice(0, -1))}
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={carrierSlots.length >= MAX_CARRIERS}
+                  onClick={() => setCarrierSlots((current) => [...current, null])}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add carrier
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Files too large for one carrier are split into equal shards, one per carrier. Recovery needs every
+              carrier, in any order, unless a parity shard is added.
+            </p>
+            {carrierSlots.length > 1 && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="shard-parity" className="text-xs text-card-foreground font-normal">
+                  Parity shard (last carrier) - survive the loss of any one carrier
+                </Label>
+                <Switch id="shard-parity" checked={shardParity} onCheckedChange={setShardParity} />
+              </div>
+            )}
+          </div>
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="zero-knowledge" className="text-card-foreground">
+                <KeyRound className="h-4 w-4 text-cyan-500" />
+                Zero-knowledge mode
+              </Label>
+              <Switch id="zero-knowledge" checked={zeroKnowledge} onCheckedChange={setZeroKnowledge} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Encrypt in your browser with a passphrase. The server never sees the file or the key,
+              and the passphrase cannot be recovered if lost.
+            </p>
+            {zeroKnowledge && (
+              <div className="grid gap-2">
+                <Input
+                  type="password"
+                  placeholder={`Passphrase (min ${MIN_PASSPHRASE_LENGTH} characters)`}
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="bg-secondary border-border text-card-foreground"
+                />
+                <Input
+                  type="password"
+                  placeholder="Confirm passphrase"
+                  autoComplete="new-password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="bg-secondary border-border text-card-foreground"
+                />
+              </div>
+            )}
+          </div>
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="hidden-payload" className="text-card-foreground">
+                <EyeOff className="h-4 w-4 text-cyan-500" />
+                Deniable hidden payload
+              </Label>
+              <Switch id="hidden-payload" checked={hiddenEnabled} onCheckedChange={setHiddenEnabled} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Hide a second file, sealed in your browser under its own passphrase, in the pixels the first file
+              leaves free. Recovering the first file, your file list and your activity log show no trace of it.
+              Needs a single PNG, BMP, or TIFF carrier.
+            </p>
+            {hiddenEnabled && (
+              <div className="grid gap-2">
+                <FileUploader
+                  label="Hidden File"
+                  description="Embedded beside the secret file"
+                  maxSize={MAX_REQUEST_BYTES}
+                  onFileSelect={setHiddenFile}
+                />
+                <Input
+                  type="password"
+                  placeholder={`Hidden passphrase (min ${MIN_PASSPHRASE_LENGTH} characters)`}
+                  autoComplete="new-password"
+                  value={hiddenPassphrase}
+                  onChange={(e) => setHiddenPassphrase(e.target.value)}
+                  className="bg-secondary border-border text-card-foreground"
+                />
+                <Input
+                  type="password"
+                  placeholder="Confirm hidden passphrase"
+                  autoComplete="new-password"
+                  value={confirmHiddenPassphrase}
+                  onChange={(e) => setConfirmHiddenPassphrase(e.target.value)}
+                  className="bg-secondary border-border text-card-foreground"
+                />
+              </div>
+            )}
+          </div>
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="custody" className="text-card-foreground">
+                <Users className="h-4 w-4 text-cyan-500" />
+                Custodian recovery (M-of-N)
+              </Label>
+              <Switch
+                id="custody"
+                checked={custodyEnabled}
+                disabled={zeroKnowledge}
+                onCheckedChange={setCustodyEnabled}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Split the file key across named custodians. Recovery needs approval from the chosen number of them.
+            </p>
+            {custodyEnabled && !zeroKnowledge && (
+              <div className="space-y-2">
+                {custodians.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No custodians have registered a key yet.</p>
+                ) : (
+                  custodians.map((c) => (
+                    <Label key={c.id} className="text-xs text-card-foreground font-normal">
+                      <Checkbox
+                        checked={selectedCustodians.includes(c.id)}
+                        onCheckedChange={(checked) => toggleCustodian(c.id, checked === true)}
+                      />
+                      {c.displayName}
+                    </Label>
+                  ))
+                )}
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="custody-threshold" className="text-xs text-muted-foreground font-normal">
+                    Approvals required
+                  </Label>
+                  <Input
+                    id="custody-threshold"
+                    type="number"
+                    min={2}
+                    max={Math.max(2, selectedCustodians.length)}
+                    value={custodyThreshold}
+                    onChange={(e) => setCustodyThreshold(Number(e.target.value))}
+                    className="w-20 bg-secondary border-border text-card-foreground"
+                  />
+                  <span className="text-xs text-muted-foreground">of {selectedCustodians.length}</span>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="ecc-level" className="text-card-foreground">
+                <ShieldCheck className="h-4 w-4 text-cyan-500" />
+                Error correction
+              </Label>
+              <Select value={eccLevel} onValueChange={setEccLevel}>
+                <SelectTrigger id="ecc-level" className="w-40 bg-secondary border-border text-card-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ECC_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {ECC_OPTIONS.find((option) => option.value === eccLevel)?.detail}. Redundancy lets recovery
+              survive minor pixel damage at the cost of carrier capacity.
+            </p>
+          </div>
+          {profileApplies ? (
+            <div className="space-y-3 rounded-md border border-border p-3">
+              <Label className="text-card-foreground">
+                <SlidersHorizontal className="h-4 w-4 text-cyan-500" />
+                Embedding profile
+              </Label>
+              <div className="grid gap-3">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>LSB depth</span>
+                    <span className="font-mono">{lsbDepth} bit{lsbDepth > 1 ? 's' : ''} per channel</span>
+                  </div>
+                  <Slider
+                    min={MIN_LSB_DEPTH}
+                    max={MAX_LSB_DEPTH}
+                    step={1}
+                    value={[lsbDepth]}
+                    onValueChange={([value]) => setLsbDepth(value)}
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  {STEGO_CHANNELS.map((channel) => (
+                    <Label key={channel.value} className="text-xs text-card-foreground font-normal">
+                      <Checkbox
+                        checked={stegoChannels.includes(channel.value)}
+                        onCheckedChange={(checked) => toggleChannel(channel.value, checked === true)}
+                      />
+                      {channel.label}
+                    </Label>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Density cap</span>
+                    <span className="font-mono">
+                      {adaptive ? `most textured ${densityPercent}%` : `${densityPercent}% of pixels`}
+                    </span>
+                  </div>
+                  <Slider
+                    min={MIN_DENSITY * 100}
+                    max={100}
+                    step={5}
+                    value={[densityPercent]}
+                    onValueChange={([value]) => setDensityPercent(value)}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="adaptive" className="text-xs text-card-foreground font-normal">
+                    Content-adaptive (avoid flat regions)
+                  </Label>
+                  <Switch id="adaptive" checked={adaptive} onCheckedChange={setAdaptive} />
+                </div>
+              </div>
+              {tradeoff ? (
+                <div className="space-y-1 text-xs font-mono text-muted-foreground">
+                  <p>
+                    <span className="text-card-foreground">Capacity: </span>~{formatBytes(tradeoff.capacityBytes)}
+                    {secretFile ? ` (file: ${formatBytes(secretFile.size)})` : ''}
+                  </p>
+                  <p>
+                    <span className="text-card-foreground">Pixels modified: </span>
+                    {secretFile ? `~${Math.round(tradeoff.pixelsTouched * 100)}%` : '-'}
+                    {` · max change ±${tradeoff.maxChannelDelta} per channel`}
+                  </p>
+                  <p>
+                    <span className="text-card-foreground">Detectability: </span>
+                    <span className={DETECTABILITY_STYLES[tradeoff.detectability]}>{tradeoff.detectability}</span>
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Select a carrier image to see capacity against detectability for this profile.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2 rounded-md border border-border p-3">
+              <Label className="text-card-foreground">
+                <SlidersHorizontal className="h-4 w-4 text-cyan-500" />
+                Embedding profile
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {CARRIER_NOTES[nonImageType]} LSB depth and channels do not apply; capacity is checked on upload.
+              </p>
+            </div>
+          )}
           <Button
             onClick={handleUpload}
-            disabled={!secretFile || !carrierImage || processing}
+            disabled={!secretFile || carriers.length === 0 || processing}
             className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
           >
             {processing ? 'Processing...' : 'Encrypt & Embed'}
@@ -195,17 +774,83 @@ export default function UploadPage() {
                   <span className="font-semibold text-sm text-cyan-500">Secured in AWS S3 Vault</span>
                 </div>
                 <div className="space-y-2 text-xs font-mono text-muted-foreground">
-                  <p><span className="text-card-foreground">S3 Key: </span>{result.s3Key}</p>
+                  {(result.s3Keys ?? [result.s3Key]).map((key, i, keys) => (
+                    <p key={key}>
+                      <span className="text-card-foreground">{keys.length > 1 ? `S3 Key ${i + 1}: ` : 'S3 Key: '}</span>
+                      {key}
+                    </p>
+                  ))}
                   <p><span className="text-card-foreground">Hash: </span>{result.integrityHash?.slice(0, 32)}...</p>
-                  <p><span className="text-card-foreground">TX: </span>{result.blockchainTxId?.slice(0, 32)}...</p>
+                  <p>
+                    <span className="text-card-foreground">TX: </span>
+                    {result.blockchainTxId ? `${result.blockchainTxId.slice(0, 32)}...` : 'queued for the next anchoring batch'}
+                  </p>
                 </div>
-                <Button
-                  onClick={handleDownloadStego}
-                  className="w-full bg-slate-800 text-cyan-400 border border-cyan-800 hover:bg-slate-700 transition gap-2"
-                >
-                  <Download className="h-4 w-4" />
-                  Download from AWS S3
-                </Button>
+                {result.quality && (
+                  <div className="space-y-3 rounded-md border border-border p-3">
+                    <div className="flex items-center gap-2 text-sm text-card-foreground">
+                      <ScanEye className="h-4 w-4 text-cyan-500" />
+                      Carrier quality
+                      {(result.s3Keys?.length ?? 1) > 1 && (
+                        <span className="text-xs text-muted-foreground">(most changed carrier)</span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-xs font-mono">
+                      <p>
+                        <span className="text-muted-foreground">PSNR </span>
+                        <span className="text-card-foreground">
+                          {result.quality.psnr === null ? 'identical' : `${result.quality.psnr.toFixed(2)} dB`}
+                        </span>
+                      </p>
+                      <p>
+                        <span className="text-muted-foreground">SSIM </span>
+                        <span className="text-card-foreground">{result.quality.ssim.toFixed(4)}</span>
+                      </p>
+                      <p>
+                        <span className="text-muted-foreground">Max delta </span>
+                        <span className="text-card-foreground">{result.quality.maxDelta}</span>
+                      </p>
+                    </div>
+                    {result.preview && (
+                      <div className="grid grid-cols-3 gap-2">
+                        {(
+                          [
+                            ['Cover', result.preview.cover],
+                            ['Stego', result.preview.stego],
+                            ['Difference (amplified)', result.preview.heatmap],
+                          ] as const
+                        ).map(([caption, src]) => (
+                          <figure key={caption} className="space-y-1">
+                            <img
+                              src={src}
+                              alt={caption}
+                              className="w-full rounded border border-border bg-secondary"
+                              style={{ imageRendering: 'pixelated' }}
+                            />
+                            <figcaption className="text-center text-xs text-muted-foreground">{caption}</figcaption>
+                          </figure>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {(result.quality.psnr === null || result.quality.psnr >= IMPERCEPTIBLE_PSNR) &&
+                      result.quality.ssim >= IMPERCEPTIBLE_SSIM
+                        ? 'Changes are below what the eye can see. Red marks changed pixels, yellow the largest changes.'
+                        : `PSNR below ${IMPERCEPTIBLE_PSNR} dB or SSIM below ${IMPERCEPTIBLE_SSIM} may be visible - ` +
+                          'consider a larger carrier or a lower LSB depth before distributing it.'}
+                    </p>
+                  </div>
+                )}
+                {(result.s3Keys ?? (result.s3Key ? [result.s3Key] : [])).map((key, i, keys) => (
+                  <Button
+                    key={key}
+                    onClick={() => handleDownloadStego(key)}
+                    className="w-full bg-slate-800 text-cyan-400 border border-cyan-800 hover:bg-slate-700 transition gap-2"
+                  >
+                    <Download className="h-4 w-4" />
+                    {keys.length > 1 ? `Download carrier ${i + 1} from AWS S3` : 'Download from AWS S3'}
+                  </Button>
+                ))}
               </>
             ) : (
               <div className="flex items-center gap-2 text-destructive">
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  approveCustodyRequest,
+  getCustodianTasks,
+  getCustodyRecoveryStatus,
+  getMyCustodianProfile,
+  registerCustodian,
+  requestCustodyRecovery,
+} from '@/actions/custody'
+import { generateCustodianKeyPair, unwrapCustodyShare } from '@/lib/client-crypto'
+import type { CustodianTask, CustodyStatus } from '@/lib/types'
+import { Users, CheckCircle, Clock, KeyRound } from 'lucide-react'
+
+function downloadText(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/x-pem-file' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Owner view: approval progress for a custody record and a button to ask
+ * custodians for a new round of approvals
+ */
+export function CustodyApprovals({ metadataId }: { metadataId: string }) {
+  const [status, setStatus] = useState<CustodyStatus | null>(null)
+  const [error, setError] = useState('')
+  const [requesting, setRequesting] = useState(false)
+
+  const refresh = useCallback(async () => {
+    const res = await getCustodyRecoveryStatus(metadataId)
+    if (res.success && res.status) {
+      setStatus(res.status)
+      setError('')
+    } else {
+      setError(res.error || 'Failed to load approvals')
+    }
+  }, [metadataId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleRequest = async () => {
+    setRequesting(true)
+    const res = await requestCustodyRecovery(metadataId)
+    if (!res.success) setError(res.error || 'Failed to request recovery')
+    await refresh()
+    setRequesting(false)
+  }
+
+  if (error) return <p className="text-xs text-destructive">{error}</p>
+  if (!status) return <p className="text-xs text-muted-foreground">Loading custodian approvals...</p>
+
+  const approved = status.custodians.filter((c) => c.approvedAt).length
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-card-foreground flex items-center gap-2">
+          <Users className="h-4 w-4 text-cyan-500" />
+          Custodian approvals
+        </span>
+        <span className="text-xs font-mono text-muted-foreground">
+          {status.request ? `${approved} of ${status.threshold} required` : `${status.threshold} required`}
+        </span>
+      </div>
+      {status.request ? (
+        <ul className="space-y-1">
+          {status.custodians.map((c) => (
+            <li key={c.id} className="flex items-center justify-between text-xs">
+              <span className="text-card-foreground">{c.displayName}</span>
+              {c.approvedAt ? (
+                <span className="text-accent flex items-center gap-1">
+                  <CheckCircle className="h-3 w-3" /> Approved {new Date(c.approvedAt).toLocaleString()}
+                </span>
+              ) : (
+                <span className="text-muted-foreground flex items-center gap-1">
+                  <Clock className="h-3 w-3" /> Pending
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <Button
+          onClick={handleRequest}
+          disabled={requesting}
+          className="w-full bg-slate-800 text-cyan-400 border border-cyan-800 hover:bg-slate-700"
+        >
+          {requesting ? 'Requesting...' : 'Request Custodian Approval'}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Custodian view: key registration and pending approval requests.
+ * Shares are unwrapped in the browser with the custodian's private key.
+ */
+export function CustodianPanel() {
+  const [registered, setRegistered] = useState<boolean | null>(null)
+  const [displayName, setDisplayName] = useState('')
+  const [tasks, setTasks] = useState<CustodianTask[]>([])
+  const [privateKey, setPrivateKey] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const refresh = useCallback(async () => {
+    const profile = await getMyCustodianProfile()
+    setRegistered(profile.registered)
+    if (profile.registered) {
+      const res = await getCustodianTasks()
+      setTasks(res.tasks)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleRegister = async () => {
+    setBusy(true)
+    setMessage('')
+    try {
+      const { publicKeyPem, privateKeyPem } = await generateCustodianKeyPair()
+      const res = await registerCustodian(displayName, publicKeyPem)
+      if (!res.success) {
+        setMessage(res.error || 'Registration failed')
+        return
+      }
+      downloadText('hsdc-custodian-private-key.pem', privateKeyPem)
+      setMessage('Registered. Store the downloaded private key safely - it cannot be recovered.')
+      await refresh()
+    } catch (err) {
+      setMessage('Key generation failed in this browser')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleApprove = async (task: CustodianTask) => {
+    setBusy(true)
+    setMessage('')
+    try {
+      const share = await unwrapCustodyShare(task.wrappedShare, privateKey)
+      const res = await approveCustodyRequest(task.requestId, share)
+      setMessage(res.success ? `Approved recovery of ${task.originalFilename}` : res.error || 'Approval failed')
+      await refresh()
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Approval failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (registered === null) return null
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle className="text-sm text-card-foreground flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-cyan-500" />
+          Custodian Duties
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          {registered
+            ? 'Approve recovery requests for files you hold a key share for'
+            : 'Register as a custodian to hold key shares for M-of-N recovery'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!registered ? (
+          <div className="grid gap-2">
+            <Input
+              placeholder="Display name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="bg-secondary border-border text-card-foreground"
+            />
+            <Button
+              onClick={handleRegister}
+              disabled={busy || !displayName.trim()}
+              className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+            >
+              {busy ? 'Generating key...' : 'Generate Key & Register'}
+            </Button>
+          </div>
+        ) : tasks.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No recovery requests are waiting for you.</p>
+        ) : (
+          <>
+            <Textarea
+              placeholder="Paste your custodian private key (PEM) - it never leaves this browser"
+              value={privateKey}
+              onChange={(e) => setPrivateKey(e.target.value)}
+              className="bg-secondary border-border text-card-foreground font-mono text-xs h-24"
+            />
+            <ul className="space-y-2">
+              {tasks.map((task) => (
+                <li key={task.requestId} className="flex items-center justify-between gap-2">
+                  <div className="text-xs">
+                    <p className="font-mono text-card-foreground">{task.originalFilename}</p>
+                    <p className="text-muted-foreground">
+                      Requested {new Date(task.requestedAt).toLocaleString()} - share #{task.shareIndex}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleApprove(task)}
+                    disabled={busy || !privateKey}
+                    className="bg-accent text-accent-foreground hover:bg-accent/90"
+                  >
+                    Approve
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {message && <p className="text-xs font-mono text-muted-foreground">{message}</p>}
+      </CardContent>
+    </Card>
+  )
+}
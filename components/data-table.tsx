@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import { hideFile, cryptoShredFile } from '@/actions/lifecycle'
+import { issueVerificationReceipt } from '@/actions/recover'
 
 // Define the expected shape of our database row
 interface FileRecord {
@@ -37,6 +38,27 @@ export function CisoDataTable({ data }: { data: FileRecord[] }) {
     setLoadingId(null)
   }
 
+  // Signed receipt an auditor can check at /api/v1/verify without an account
+  const handleReceipt = async (id: string) => {
+    setLoadingId(id)
+    const result = await issueVerificationReceipt(id)
+    setLoadingId(null)
+    if (!result.success || !result.receipt) {
+      window.alert(result.error || 'Failed to issue receipt')
+      return
+    }
+
+    const blob = new Blob([JSON.stringify(result.receipt, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.setAttribute('download', `HSDC_Receipt_${result.receipt.integrityHash.slice(0, 16)}.json`)
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
   const handleShred = async (id: string) => {
     if (!window.confirm("WARNING: This will permanently destroy the cryptographic keys. The file will be unrecoverable. Proceed?")) return
     setLoadingId(id)
@@ -91,6 +113,13 @@ export function CisoDataTable({ data }: { data: FileRecord[] }) {
                     >
                       Hide
                     </button>
+                    <button 
+                      onClick={() => handleReceipt(file.id)}
+                      disabled={loadingId === file.id}
+                      className="text-cyan-400 hover:text-cyan-300 transition disabled:opacity-50"
+                    >
+                      Receipt
+                    </button>
                     <button 
                       onClick={() => handleShred(file.id)}
                       disabled={loadingId === file.id}
@@ -0,0 +1,11 @@
+/**
+ * Runs once when a server instance starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  // Anchor hashes queued before the restart instead of waiting for the batch
+  // timer, which serverless hosts never fire
+  const { drainEvmAnchors } = await import('@/lib/blockchain')
+  drainEvmAnchors().catch((err) => console.error('[BLOCKCHAIN] Startup anchoring failed:', err))
+}
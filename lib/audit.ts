@@ -25,6 +25,12 @@ export type AuditAction =
   | 'TAMPER_DETECTED'
   | 'RATE_LIMIT_EXCEEDED'
   | 'AUTH_FAILED'
+  | 'KEY_ROTATION'
+  | 'KEY_REWRAP'
+  | 'CUSTODY_REQUEST'
+  | 'CUSTODY_APPROVAL'
+  | 'STEGO_SEED_MIGRATION'
+  | 'RECEIPT_ISSUE'
 
 interface AuditLogOptions {
   userId: string
@@ -146,6 +152,113 @@ export async function logTamperDetected(
   })
 }
 
+/**
+ * Log the start of a master key rotation
+ */
+export async function logKeyRotation(
+  userId: string,
+  jobId: string,
+  toProvider: string,
+  toKeyId: string,
+): Promise<void> {
+  await logActivity({
+    userId,
+    action: 'KEY_ROTATION',
+    resourceId: jobId,
+    details: {
+      to_provider: toProvider,
+      to_key_id: toKeyId,
+    },
+  })
+}
+
+/**
+ * Log the start of a legacy stego seed migration job
+ */
+export async function logStegoSeedMigration(userId: string, jobId: string): Promise<void> {
+  await logActivity({
+    userId,
+    action: 'STEGO_SEED_MIGRATION',
+    resourceId: jobId,
+  })
+}
+
+/**
+ * Log a single AES key re-wrap performed by a rotation job
+ */
+export async function logKeyRewrap(
+  userId: string,
+  metadataId: string,
+  rewrap: {
+    fromProvider: string
+    fromKeyId: string
+    toProvider: string
+    toKeyId: string
+    jobId?: string
+  },
+): Promise<void> {
+  await logActivity({
+    userId,
+    action: 'KEY_REWRAP',
+    resourceId: metadataId,
+    details: {
+      from_provider: rewrap.fromProvider,
+      from_key_id: rewrap.fromKeyId,
+      to_provider: rewrap.toProvider,
+      to_key_id: rewrap.toKeyId,
+      job_id: rewrap.jobId || null,
+    },
+  })
+}
+
+/**
+ * Log a file owner asking custodians to approve recovery
+ */
+export async function logCustodyRequest(userId: string, metadataId: string, requestId: string): Promise<void> {
+  await logActivity({
+    userId,
+    action: 'CUSTODY_REQUEST',
+    resourceId: metadataId,
+    details: {
+      request_id: requestId,
+    },
+  })
+}
+
+/**
+ * Log a custodian submitting their key share for a recovery request
+ */
+export async function logCustodyApproval(
+  userId: string,
+  metadataId: string,
+  requestId: string,
+  shareIndex: number,
+): Promise<void> {
+  await logActivity({
+    userId,
+    action: 'CUSTODY_APPROVAL',
+    resourceId: metadataId,
+    details: {
+      request_id: requestId,
+      share_index: shareIndex,
+    },
+  })
+}
+
+/**
+ * Log a verification receipt being issued for a file
+ */
+export async function logReceiptIssued(userId: string, metadataId: string, receiptId: string): Promise<void> {
+  await logActivity({
+    userId,
+    action: 'RECEIPT_ISSUE',
+    resourceId: metadataId,
+    details: {
+      receipt_id: receiptId,
+    },
+  })
+}
+
 /**
  * Log rate limit exceeded
  */
@@ -0,0 +1,85 @@
+// ============================================
+// HSDC Blockchain Drift
+// Compares metadata rows with what their ledger holds now
+// ============================================
+import type {
+  BlockchainDrift,
+  BlockchainDriftReport,
+  BlockchainReverifyResult,
+  BlockchainReverifyStatus,
+  MetadataRow,
+} from '../types'
+import { getBlockchainService, LEGACY_BACKEND } from './index'
+
+// The columns re-verification reads, of a row that has a hash to look up
+export type ReverifiedMetadataRow = Pick<
+  MetadataRow,
+  | 'id'
+  | 'blockchain_backend'
+  | 'blockchain_status'
+  | 'blockchain_tx_id'
+  | 'blockchain_network'
+  | 'blockchain_block_number'
+  | 'blockchain_proof'
+> & { blockchain_hash: string }
+
+// Record field and the metadata column holding the same value
+const COMPARED_FIELDS = [
+  ['txId', 'blockchain_tx_id'],
+  ['network', 'blockchain_network'],
+  ['blockNumber', 'blockchain_block_number'],
+] as const
+
+/**
+ * Ask the row's ledger for its anchor again and report where the row and
+ * the ledger disagree. Queued rows are not looked up.
+ */
+export async function reverifyMetadataRow(meta: ReverifiedMetadataRow): Promise<BlockchainReverifyResult> {
+  const backend = meta.blockchain_backend || LEGACY_BACKEND
+  const result = { id: meta.id, hash: meta.blockchain_hash, backend, drift: [] as BlockchainDrift[] }
+  if (meta.blockchain_status === 'PENDING' || meta.blockchain_status === 'BATCHING') {
+    return { ...result, status: 'PENDING' }
+  }
+
+  let record
+  try {
+    record = await getBlockchainService(backend).verifyHash(meta.blockchain_hash, meta.blockchain_proof)
+  } catch (err) {
+    return { ...result, status: 'ERROR', error: err instanceof Error ? err.message : 'Ledger lookup failed' }
+  }
+  if (!record) return { ...result, status: 'MISSING' }
+
+  for (const [field, column] of COMPARED_FIELDS) {
+    const recorded = meta[column] ?? null
+    const onLedger = record[field] ?? null
+    if (onLedger !== null && recorded !== onLedger) result.drift.push({ field, recorded, onLedger })
+  }
+
+  return {
+    ...result,
+    status: result.drift.length > 0 ? 'DRIFT' : record.verified ? 'VERIFIED' : 'UNVERIFIED',
+    confirmations: record.confirmations,
+  }
+}
+
+/**
+ * Tally re-verification results
+ */
+export function buildDriftReport(results: BlockchainReverifyResult[]): BlockchainDriftReport {
+  const counts: Record<BlockchainReverifyStatus, number> = {
+    VERIFIED: 0,
+    UNVERIFIED: 0,
+    PENDING: 0,
+    MISSING: 0,
+    DRIFT: 0,
+    ERROR: 0,
+  }
+  for (const result of results) counts[result.status]++
+
+  return {
+    checked: results.length,
+    counts,
+    results,
+    checkedAt: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,318 @@
+// ============================================
+// HSDC EVM Blockchain Service
+// Anchors integrity hashes in the hash registry contract on an EVM chain
+// ============================================
+//
+// Uploads do not wait for the chain: storeHash() queues the hash, and a
+// periodic batcher anchors the Merkle root of everything queued in one
+// transaction. The queue is the metadata table itself (blockchain_status
+// PENDING), so nothing queued is lost on a restart, and rows are claimed
+// before they are batched so several server processes can run batchers.
+// The batch timer only fires in a long-lived server process; serverless
+// hosts drain the queue through /api/v1/cron/anchor instead, and every
+// server drains it once at startup (instrumentation.ts).
+import crypto from 'crypto'
+import { Contract, ContractFactory, JsonRpcProvider, NonceManager, Wallet } from 'ethers'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { BlockchainHashRecord, MerkleInclusionProof } from '../types'
+import type { IBlockchainService } from './service'
+import { decodeAnchor, HASH_REGISTRY_ABI, HASH_REGISTRY_BYTECODE } from './hash-registry'
+import { buildMerkleTree, merkleRootFromProof } from './merkle'
+
+const TX_TIMEOUT_MS = 120_000
+// A claimed batch that was not anchored by then (its process died) is batched again
+const CLAIM_TTL_MS = 10 * 60_000
+// Most batches one drain anchors, so a cron invocation stays within its time limit
+const DRAIN_MAX_BATCHES = 10
+const SHA256_HEX = /^[0-9a-f]{64}$/i
+
+interface EvmConfig {
+  rpcUrl: string
+  privateKey: string
+  registryAddress?: string // deploy a fresh registry when unset
+  confirmations: number
+  network?: string // label recorded with each anchor (default "evm-<chain id>")
+  batchIntervalMs: number
+  batchSize: number // most hashes under one root
+}
+
+export interface MerkleBatchSummary {
+  batchId: string
+  root: string
+  leafCount: number
+  txId: string
+  blockNumber: number
+}
+
+interface Registry {
+  contract: Contract
+  address: string
+  network: string
+}
+
+function toBytes32(hash: string): string {
+  if (!SHA256_HEX.test(hash)) throw new Error('Integrity hash must be 64 hex characters')
+  return `0x${hash.toLowerCase()}`
+}
+
+/**
+ * Hash registry on any EVM JSON-RPC node: a public chain, or Anvil / Hardhat
+ * for local testing (`anvil`, then HSDC_EVM_RPC_URL=http://127.0.0.1:8545
+ * with one of its funded dev keys).
+ *
+ * Each batch root is sent in a transaction that must reach the configured
+ * number of confirmations; verifyHash() recomputes the root from a file's
+ * proof and reads the contract state, so a record counts only while the
+ * chain still holds its root.
+ */
+export class EvmBlockchainService implements IBlockchainService {
+  readonly name = 'evm'
+  private readonly provider: JsonRpcProvider
+  private readonly signer: NonceManager
+  private registry: Promise<Registry> | null = null
+  private batching: Promise<MerkleBatchSummary | null> | null = null
+
+  constructor(private readonly config: EvmConfig) {
+    this.provider = new JsonRpcProvider(config.rpcUrl, undefined, { staticNetwork: true })
+    // Tracks nonces locally so transactions sent close together do not reuse one
+    this.signer = new NonceManager(new Wallet(config.privateKey, this.provider))
+
+    const timer = setInterval(() => {
+      this.anchorPendingHashes().catch((err) => console.error('[BLOCKCHAIN] Anchoring batch failed:', err))
+    }, config.batchIntervalMs)
+    timer.unref()
+  }
+
+  private connect(): Promise<Registry> {
+    if (!this.registry) {
+      this.registry = this.attach().catch((err) => {
+        this.registry = null // retry on the next call
+        throw err
+      })
+    }
+    return this.registry
+  }
+
+  private async attach(): Promise<Registry> {
+    const { chainId } = await this.provider.getNetwork()
+    const network = this.config.network || `evm-${chainId}`
+
+    let address = this.config.registryAddress
+    if (!address) {
+      const factory = new ContractFactory(HASH_REGISTRY_ABI, HASH_REGISTRY_BYTECODE, this.signer)
+      const deployed = await factory.deploy()
+      await deployed.deploymentTransaction()?.wait(this.config.confirmations, TX_TIMEOUT_MS)
+      address = await deployed.getAddress()
+      console.warn(
+        `[BLOCKCHAIN] Deployed hash registry at ${address} on ${network}. ` +
+          'Set HSDC_EVM_REGISTRY_ADDRESS to it, or anchors will not verify after a restart.',
+      )
+    } else if ((await this.provider.getCode(address)) === '0x') {
+      throw new Error(`No hash registry contract at ${address} on ${network}`)
+    }
+
+    const contract = new Contract(address, HASH_REGISTRY_ABI, this.signer)
+    const owner: string = await contract.owner()
+    if (owner.toLowerCase() !== (await this.signer.getAddress()).toLowerCase()) {
+      throw new Error(`Hash registry ${address} is owned by ${owner}, not the configured key`)
+    }
+    return { contract, address, network }
+  }
+
+  // The anchor as the chain holds it now, or null if the hash was never anchored
+  private async readAnchor({ contract, network }: Registry, hash: string): Promise<BlockchainHashRecord | null> {
+    const key = toBytes32(hash)
+    const anchor: bigint = await contract.anchors(key)
+    if (anchor === BigInt(0)) return null
+
+    const { blockNumber, timestamp } = decodeAnchor(anchor)
+    const [event] = await contract.queryFilter(contract.filters.HashAnchored(key), blockNumber, blockNumber)
+    // The provider caches the head briefly; the state just read is at least this recent
+    const head = Math.max(await this.provider.getBlockNumber(), blockNumber)
+    return {
+      id: event?.transactionHash ?? key,
+      hash,
+      txId: event?.transactionHash ?? '',
+      network,
+      timestamp: new Date(timestamp * 1000).toISOString(),
+      blockNumber,
+      confirmations: head - blockNumber + 1,
+      verified: head - blockNumber + 1 >= this.config.confirmations,
+    }
+  }
+
+  // Anchor one hash and wait for it to be confirmed; a hash that is already
+  // anchored keeps its original record
+  private async anchor(registry: Registry, hash: string): Promise<BlockchainHashRecord> {
+    const existing = await this.readAnchor(registry, hash)
+    if (existing) return existing
+
+    let receipt
+    try {
+      const tx = await registry.contract.anchor(toBytes32(hash))
+      receipt = await tx.wait(this.config.confirmations, TX_TIMEOUT_MS)
+    } catch (err) {
+      this.signer.reset() // the node may not have taken the nonce
+      throw err
+    }
+    if (!receipt || receipt.status !== 1) throw new Error('Hash anchoring transaction failed')
+
+    const block = await receipt.getBlock()
+    return {
+      id: receipt.hash,
+      hash,
+      txId: receipt.hash,
+      network: registry.network,
+      timestamp: new Date(block.timestamp * 1000).toISOString(),
+      blockNumber: receipt.blockNumber,
+      confirmations: this.config.confirmations, // at least; wait() returned once it had them
+      verified: true,
+    }
+  }
+
+  /**
+   * Queue a hash for the next batch. The caller records the PENDING status
+   * with the file; the batcher adds the proof once the root is anchored.
+   */
+  async storeHash(hash: string, userId: string): Promise<BlockchainHashRecord> {
+    toBytes32(hash) // reject malformed hashes now rather than in the batch
+
+    const supabase = await createClient()
+    await supabase.from('activity_logs').insert({
+      user_id: userId,
+      action: 'HASH_STORE',
+      details: { hash, network: this.name, queued: true },
+    })
+
+    return {
+      id: hash,
+      hash,
+      txId: '',
+      network: this.config.network || this.name, // the batcher records the chain's label
+      timestamp: new Date().toISOString(),
+      verified: false,
+      status: 'PENDING',
+    }
+  }
+
+  /**
+   * Check a hash against the registry. A batched hash needs its inclusion
+   * proof: the root it leads to must be anchored. Without a proof the hash
+   * itself must be (anchors from before batching). The record is unverified
+   * until its block has the configured number of confirmations.
+   */
+  async verifyHash(hash: string, proof?: MerkleInclusionProof | null): Promise<BlockchainHashRecord | null> {
+    if (!SHA256_HEX.test(hash)) return null
+    const registry = await this.connect()
+    if (!proof) return this.readAnchor(registry, hash)
+
+    if (merkleRootFromProof(hash.toLowerCase(), proof.siblings) !== proof.root) return null
+    const anchored = await this.readAnchor(registry, proof.root)
+    return anchored && { ...anchored, hash, proof }
+  }
+
+  /**
+   * Anchor the queued hashes as one batch, at most batchSize of them. Runs
+   * on a timer; a call while a batch is in flight joins that batch.
+   */
+  anchorPendingHashes(): Promise<MerkleBatchSummary | null> {
+    if (!this.batching) {
+      this.batching = this.anchorBatch().finally(() => {
+        this.batching = null
+      })
+    }
+    return this.batching
+  }
+
+  /**
+   * Anchor batches until nothing PENDING (or stale BATCHING) is left, at
+   * most maxBatches of them. What is left over waits for the next drain.
+   */
+  async drainPendingHashes(maxBatches = DRAIN_MAX_BATCHES): Promise<MerkleBatchSummary[]> {
+    const batches: MerkleBatchSummary[] = []
+    while (batches.length < maxBatches) {
+      const batch = await this.anchorPendingHashes()
+      if (!batch) break
+      batches.push(batch)
+    }
+    return batches
+  }
+
+  private async anchorBatch(): Promise<MerkleBatchSummary | null> {
+    const admin = createAdminClient()
+    const staleClaim = new Date(Date.now() - CLAIM_TTL_MS).toISOString()
+    const claimable = `blockchain_status.eq.PENDING,and(blockchain_status.eq.BATCHING,blockchain_claimed_at.lt.${staleClaim})`
+
+    const { data: queued, error } = await admin
+      .from('metadata')
+      .select('id')
+      .eq('blockchain_backend', this.name)
+      .or(claimable)
+      .order('created_at', { ascending: true })
+      .limit(this.config.batchSize)
+    if (error) throw new Error(error.message)
+    if (!queued || queued.length === 0) return null
+
+    // Claim the rows; a batcher in another process skips the ones claimed here
+    const batchId = crypto.randomUUID()
+    const { data: claimed, error: claimError } = await admin
+      .from('metadata')
+      .update({ blockchain_status: 'BATCHING', blockchain_batch_id: batchId, blockchain_claimed_at: new Date().toISOString() })
+      .in('id', queued.map((row) => row.id))
+      .or(claimable)
+      .select('id, blockchain_hash')
+    if (claimError) throw new Error(claimError.message)
+    if (!claimed || claimed.length === 0) return null
+
+    const tree = buildMerkleTree(claimed.map((row) => row.blockchain_hash as string))
+    let anchored: BlockchainHashRecord
+    try {
+      anchored = await this.anchor(await this.connect(), tree.root)
+    } catch (err) {
+      await admin
+        .from('metadata')
+        .update({ blockchain_status: 'PENDING', blockchain_batch_id: null, blockchain_claimed_at: null })
+        .eq('blockchain_batch_id', batchId)
+      throw err
+    }
+
+    for (const [leafIndex, row] of claimed.entries()) {
+      const proof: MerkleInclusionProof = {
+        batchId,
+        root: tree.root,
+        leafIndex,
+        leafCount: claimed.length,
+        siblings: tree.proofs[leafIndex],
+        txId: anchored.txId,
+        blockNumber: anchored.blockNumber ?? 0,
+        network: anchored.network,
+      }
+      await admin
+        .from('metadata')
+        .update({
+          blockchain_status: 'ANCHORED',
+          blockchain_tx_id: anchored.txId,
+          blockchain_network: anchored.network,
+          blockchain_block_number: anchored.blockNumber,
+          blockchain_proof: proof,
+        })
+        .eq('id', row.id)
+        .eq('blockchain_batch_id', batchId)
+    }
+
+    console.info(`[BLOCKCHAIN] Anchored ${claimed.length} hashes under root ${tree.root} in ${anchored.txId}`)
+    return {
+      batchId,
+      root: tree.root,
+      leafCount: claimed.length,
+      txId: anchored.txId,
+      blockNumber: anchored.blockNumber ?? 0,
+    }
+  }
+
+  // Listings still work, without confirmations, while the node is unreachable
+  async getHeadBlockNumber(): Promise<number | undefined> {
+    return this.provider.getBlockNumber().catch(() => undefined)
+  }
+}
@@ -0,0 +1,57 @@
+// ============================================
+// HSDC Hash Registry Contract
+// ABI and bytecode of the on-chain integrity hash registry
+// ============================================
+//
+// The contract is small enough to ship as hand-assembled bytecode, so no
+// Solidity toolchain is needed to deploy it. It behaves like:
+//
+//   contract HashRegistry {
+//     event HashAnchored(bytes32 indexed hash, address indexed registrar, uint256 anchor);
+//     address public owner;                       // the deployer; the only registrar
+//     mapping(bytes32 => uint256) public anchors; // (block number << 64) | block timestamp
+//
+//     function anchor(bytes32 hash) external {    // the first anchor of a hash is kept
+//       require(msg.sender == owner && hash != 0);
+//       if (anchors[hash] == 0) { anchors[hash] = ...; emit HashAnchored(hash, msg.sender, anchors[hash]); }
+//     }
+//   }
+//
+// except that an anchor is stored at the slot named by the hash itself
+// (owner sits in slot 0, hence the zero-hash check) and reading the zero
+// hash reverts. Assembly of the runtime code:
+//
+//   00 selector = calldata[0:4]; jump to anchor (0x29), anchors (0x7a) or owner (0x8c)
+//   24 fail:    REVERT(0, 0)
+//   29 anchor:  fail if CALLVALUE, CALLER != SLOAD(0) or hash == 0; STOP if SLOAD(hash) != 0
+//   44          SSTORE(hash, NUMBER << 64 | TIMESTAMP); LOG3(anchor, topic, hash, CALLER)
+//   7a anchors: fail if hash == 0; RETURN SLOAD(hash)
+//   8c owner:   RETURN SLOAD(0)
+
+export const HASH_REGISTRY_ABI = [
+  'event HashAnchored(bytes32 indexed hash, address indexed registrar, uint256 anchor)',
+  'function owner() view returns (address)',
+  'function anchors(bytes32 hash) view returns (uint256)',
+  'function anchor(bytes32 hash)',
+] as const
+
+// Constructor: SSTORE(0, CALLER), then return the 0x98-byte runtime above
+export const HASH_REGISTRY_BYTECODE =
+  '0x33600055609880600f6000396000f3' +
+  '60003560e01c8063eecdf927146029578063b01b6d5314607a5780638da5cb5b14608c57' +
+  '5b600080fd' +
+  '5b3460245760005433141560245760043580156024578054607857' +
+  '424360401b1780600052815533817fa5cbeb7570a6c7c834762f7c213557e60c453fd24203dd5f7d85864ff2738c3960206000a3' +
+  '5b00' +
+  '5b60043580156024575460005260206000f3' +
+  '5b60005460005260206000f3'
+
+/**
+ * Split an anchor word into the block that stored it and that block's time
+ */
+export function decodeAnchor(anchor: bigint): { blockNumber: number; timestamp: number } {
+  return {
+    blockNumber: Number(anchor >> BigInt(64)),
+    timestamp: Number(anchor & BigInt('0xffffffffffffffff')),
+  }
+}
@@ -0,0 +1,99 @@
+// ============================================
+// HSDC Blockchain Service Registry
+// ============================================
+import { getRequiredEnv } from '../env'
+import { MockBlockchainService } from './mock'
+import { EvmBlockchainService, type MerkleBatchSummary } from './evm'
+import { LedgerBlockchainService } from './ledger'
+import { createLedgerSigner, loadTrustedSigningKeys } from './signing'
+import type { IBlockchainService } from './service'
+
+export type { IBlockchainService } from './service'
+export type { LedgerBlockchainService } from './ledger'
+
+/**
+ * Backend recorded on rows anchored before backends were configurable
+ */
+export const LEGACY_BACKEND = 'mock'
+
+/**
+ * Backend new uploads use unless HSDC_BLOCKCHAIN_BACKEND says otherwise.
+ * Stays 'mock' until an operator opts in to 'ledger' or 'evm', which need
+ * keys configured first (see DEVELOPMENT.md).
+ */
+export const DEFAULT_BACKEND = 'mock'
+
+const _services = new Map<string, IBlockchainService>()
+
+const DEFAULT_BATCH_INTERVAL_MS = 60_000
+const DEFAULT_BATCH_SIZE = 256
+
+function envInteger(name: string, fallback: number, min: number): number {
+  const raw = process.env[name]
+  if (!raw) return fallback
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min) throw new Error(`${name} must be an integer of at least ${min}`)
+  return value
+}
+
+function createService(name: string): IBlockchainService {
+  switch (name) {
+    case 'mock':
+      return new MockBlockchainService()
+    case 'ledger': {
+      const signer = createLedgerSigner(getRequiredEnv('HSDC_LEDGER_SIGNING_KEY'))
+      return new LedgerBlockchainService(signer, loadTrustedSigningKeys('HSDC_LEDGER_TRUSTED_KEYS', signer))
+    }
+    case 'evm':
+      return new EvmBlockchainService({
+        rpcUrl: getRequiredEnv('HSDC_EVM_RPC_URL'),
+        privateKey: getRequiredEnv('HSDC_EVM_PRIVATE_KEY'),
+        registryAddress: process.env.HSDC_EVM_REGISTRY_ADDRESS,
+        confirmations: envInteger('HSDC_EVM_CONFIRMATIONS', 1, 1),
+        network: process.env.HSDC_EVM_NETWORK,
+        batchIntervalMs: envInteger('HSDC_EVM_BATCH_INTERVAL_MS', DEFAULT_BATCH_INTERVAL_MS, 1000),
+        batchSize: envInteger('HSDC_EVM_BATCH_SIZE', DEFAULT_BATCH_SIZE, 1),
+      })
+    default:
+      throw new Error(`Unknown blockchain backend "${name}"`)
+  }
+}
+
+/**
+ * Name of the backend new uploads are anchored with (HSDC_BLOCKCHAIN_BACKEND)
+ */
+export function getActiveBackendName(): string {
+  return process.env.HSDC_BLOCKCHAIN_BACKEND || DEFAULT_BACKEND
+}
+
+/**
+ * Get a blockchain service by backend name, defaulting to the active one.
+ * Verifying an existing row must pass its recorded backend, since a hash
+ * only exists on the ledger it was anchored to.
+ */
+export function getBlockchainService(name?: string | null): IBlockchainService {
+  const backendName = name || getActiveBackendName()
+  let service = _services.get(backendName)
+  if (!service) {
+    service = createService(backendName)
+    _services.set(backendName, service)
+  }
+  return service
+}
+
+/**
+ * Anchor everything queued for the EVM backend, whichever backend is active
+ * now. Called by /api/v1/cron/anchor and once at startup; does nothing when
+ * no EVM chain is configured.
+ */
+export async function drainEvmAnchors(): Promise<MerkleBatchSummary[]> {
+  if (!process.env.HSDC_EVM_RPC_URL) return []
+  return (getBlockchainService('evm') as EvmBlockchainService).drainPendingHashes()
+}
+
+/**
+ * The local ledger, for chain validation whichever backend is active
+ */
+export function getLocalLedger(): LedgerBlockchainService {
+  return getBlockchainService('ledger') as LedgerBlockchainService
+}
@@ -0,0 +1,363 @@
+// ============================================
+// HSDC Local Ledger
+// Append-only, hash-chained and signed blocks in the service database
+// ============================================
+//
+// Each block commits to the Merkle root of its entries (integrity hashes),
+// to the hash of the block before it and to its own timestamp, and the block
+// hash is signed with the server's Ed25519 key. Changing any entry changes
+// its block's Merkle root and so its block hash, which then no longer matches
+// the header, the signature or the next block's link: validateLedger() walks
+// the chain from genesis and reports where. The tables also refuse UPDATE
+// and DELETE (scripts/026_local_ledger.sql).
+//
+// Hashes stored close together share a block: storeHash() calls made while
+// a block is being appended wait and go into the next one.
+import crypto from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type {
+  BlockchainHashRecord,
+  LedgerValidationProblem,
+  LedgerValidationReport,
+  MerkleInclusionProof,
+} from '../types'
+import type { IBlockchainService } from './service'
+import type { LedgerSigner, SigningPublicKey } from './signing'
+import { buildMerkleTree, merkleRootFromProof, type MerkleTree } from './merkle'
+
+const NETWORK = 'local-ledger'
+const HEADER_VERSION = 'hsdc-ledger-v1'
+const GENESIS_PREV_HASH = '0'.repeat(64)
+const SHA256_HEX = /^[0-9a-f]{64}$/i
+const MAX_BLOCK_ENTRIES = 256
+const APPEND_ATTEMPTS = 5
+// Another writer appended first: unique height, or the tip moved under append_ledger_block()
+const RETRYABLE_ERRORS = new Set(['23505', '40001'])
+const BLOCK_PAGE = 200
+const ENTRY_PAGE = 1000
+const MAX_REPORTED_PROBLEMS = 50
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+interface LedgerBlockRow {
+  height: number
+  prev_hash: string
+  merkle_root: string
+  entry_count: number
+  created_at: string
+  block_hash: string
+  signature: string // base64 Ed25519 over the block hash bytes
+  signer_key_id: string
+}
+
+interface LedgerEntryRow {
+  block_height: number
+  entry_index: number
+  hash: string
+}
+
+interface QueuedEntry {
+  hash: string
+  userId: string
+  resolve: (record: BlockchainHashRecord) => void
+  reject: (error: Error) => void
+}
+
+// The timestamp enters as epoch milliseconds, so the database's own
+// timestamp format does not change the hash
+function blockHash(block: Pick<LedgerBlockRow, 'height' | 'prev_hash' | 'merkle_root' | 'created_at' | 'entry_count'>): string {
+  const header = [
+    HEADER_VERSION,
+    block.height,
+    block.prev_hash,
+    block.merkle_root,
+    Date.parse(block.created_at),
+    block.entry_count,
+  ].join('|')
+  return crypto.createHash('sha256').update(header).digest('hex')
+}
+
+function inclusionProof(block: LedgerBlockRow, tree: MerkleTree, leafIndex: number): MerkleInclusionProof {
+  return {
+    batchId: block.block_hash,
+    root: block.merkle_root,
+    leafIndex,
+    leafCount: block.entry_count,
+    siblings: tree.proofs[leafIndex],
+    txId: block.block_hash,
+    blockNumber: block.height,
+    network: NETWORK,
+  }
+}
+
+async function loadBlock(admin: AdminClient, height: number): Promise<LedgerBlockRow | null> {
+  const { data, error } = await admin.from('ledger_blocks').select('*').eq('height', height).maybeSingle()
+  if (error) throw new Error(error.message)
+  return data
+}
+
+// The newest block, or null on an empty ledger
+async function loadTip(admin: AdminClient): Promise<Pick<LedgerBlockRow, 'height' | 'block_hash'> | null> {
+  const { data, error } = await admin
+    .from('ledger_blocks')
+    .select('height, block_hash')
+    .order('height', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  return data
+}
+
+// Entries of blocks fromHeight..toHeight, by block, in entry order
+async function loadEntries(admin: AdminClient, fromHeight: number, toHeight: number): Promise<Map<number, LedgerEntryRow[]>> {
+  const byBlock = new Map<number, LedgerEntryRow[]>()
+  for (let offset = 0; ; offset += ENTRY_PAGE) {
+    const { data, error } = await admin
+      .from('ledger_entries')
+      .select('block_height, entry_index, hash')
+      .gte('block_height', fromHeight)
+      .lte('block_height', toHeight)
+      .order('block_height', { ascending: true })
+      .order('entry_index', { ascending: true })
+      .range(offset, offset + ENTRY_PAGE - 1)
+    if (error) throw new Error(error.message)
+
+    for (const row of data ?? []) {
+      const entries = byBlock.get(row.block_height) ?? []
+      entries.push(row)
+      byBlock.set(row.block_height, entries)
+    }
+    if (!data || data.length < ENTRY_PAGE) return byBlock
+  }
+}
+
+/**
+ * Integrity hashes chained into signed blocks in the service database.
+ * Used once HSDC_BLOCKCHAIN_BACKEND=ledger and a signing key are configured.
+ */
+export class LedgerBlockchainService implements IBlockchainService {
+  readonly name = 'ledger'
+  private queue: QueuedEntry[] = []
+  private draining = false
+
+  /**
+   * New blocks are signed by `signer`; existing blocks are checked against
+   * the key their signer_key_id names, which must be in `trustedKeys` (the
+   * signer's own key plus any retired ones)
+   */
+  constructor(
+    private readonly signer: LedgerSigner,
+    private readonly trustedKeys: Map<string, SigningPublicKey> = new Map([[signer.keyId, signer]]),
+  ) {}
+
+  // Everything wrong with one block, given the hash the block before it holds
+  private blockProblems(block: LedgerBlockRow, entries: LedgerEntryRow[], prevHash: string): string[] {
+    const problems: string[] = []
+    if (block.prev_hash !== prevHash) problems.push('does not link to the previous block')
+    if (blockHash(block) !== block.block_hash) problems.push('block hash does not match its header')
+    const signerKey = this.trustedKeys.get(block.signer_key_id)
+    if (!signerKey) {
+      problems.push(`signed by unknown key ${block.signer_key_id}`)
+    } else if (!signerKey.verify(Buffer.from(block.block_hash, 'hex'), block.signature)) {
+      problems.push('signature is invalid')
+    }
+
+    if (entries.length !== block.entry_count) {
+      problems.push(`holds ${entries.length} entries, header says ${block.entry_count}`)
+    } else if (entries.some((entry, i) => entry.entry_index !== i)) {
+      problems.push('entries are out of sequence')
+    } else if (buildMerkleTree(entries.map((entry) => entry.hash)).root !== block.merkle_root) {
+      problems.push('entries do not match the Merkle root')
+    }
+    return problems
+  }
+
+  /**
+   * Append the hash to the ledger, sharing a block with any hashes stored
+   * at the same time, and return its record with the inclusion proof
+   */
+  async storeHash(hash: string, userId: string): Promise<BlockchainHashRecord> {
+    if (!SHA256_HEX.test(hash)) throw new Error('Integrity hash must be 64 hex characters')
+
+    const record = await new Promise<BlockchainHashRecord>((resolve, reject) => {
+      this.queue.push({ hash: hash.toLowerCase(), userId, resolve, reject })
+      if (!this.draining) {
+        this.draining = true
+        setImmediate(() => void this.drain())
+      }
+    })
+
+    const supabase = await createClient()
+    await supabase.from('activity_logs').insert({
+      user_id: userId,
+      action: 'HASH_STORE',
+      details: { hash, txId: record.txId, network: NETWORK, blockNumber: record.blockNumber },
+    })
+
+    return record
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, MAX_BLOCK_ENTRIES)
+      try {
+        const { block, tree } = await this.appendBlock(batch)
+        batch.forEach((entry, leafIndex) =>
+          entry.resolve({
+            id: block.block_hash,
+            hash: entry.hash,
+            txId: block.block_hash,
+            network: NETWORK,
+            timestamp: block.created_at,
+            blockNumber: block.height,
+            verified: true,
+            status: 'ANCHORED',
+            proof: inclusionProof(block, tree, leafIndex),
+          }),
+        )
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Failed to append a ledger block')
+        batch.forEach((entry) => entry.reject(error))
+      }
+    }
+    this.draining = false
+  }
+
+  private async appendBlock(batch: QueuedEntry[]): Promise<{ block: LedgerBlockRow; tree: MerkleTree }> {
+    const admin = createAdminClient()
+    const tree = buildMerkleTree(batch.map((entry) => entry.hash))
+
+    for (let attempt = 1; ; attempt++) {
+      const tip = await loadTip(admin)
+
+      const header = {
+        height: tip ? tip.height + 1 : 0,
+        prev_hash: tip?.block_hash ?? GENESIS_PREV_HASH,
+        merkle_root: tree.root,
+        created_at: new Date().toISOString(),
+        entry_count: batch.length,
+      }
+      const hash = blockHash(header)
+      const block: LedgerBlockRow = {
+        ...header,
+        block_hash: hash,
+        signature: this.signer.sign(Buffer.from(hash, 'hex')),
+        signer_key_id: this.signer.keyId,
+      }
+
+      // Block and entries land in one transaction, and only on the current tip
+      const { error } = await admin.rpc('append_ledger_block', {
+        p_height: block.height,
+        p_prev_hash: block.prev_hash,
+        p_merkle_root: block.merkle_root,
+        p_created_at: block.created_at,
+        p_block_hash: block.block_hash,
+        p_signature: block.signature,
+        p_signer_key_id: block.signer_key_id,
+        p_entries: batch.map((entry) => ({ hash: entry.hash, user_id: entry.userId })),
+      })
+      if (!error) return { block, tree }
+      if (!RETRYABLE_ERRORS.has(error.code) || attempt >= APPEND_ATTEMPTS) throw new Error(error.message)
+    }
+  }
+
+  /**
+   * Find the hash in the ledger and check the block holding it: header,
+   * signature, Merkle root and link to the previous block. A given proof
+   * must lead to that block's root. The rest of the chain is checked by
+   * validateLedger().
+   */
+  async verifyHash(hash: string, proof?: MerkleInclusionProof | null): Promise<BlockchainHashRecord | null> {
+    if (!SHA256_HEX.test(hash)) return null
+    const leaf = hash.toLowerCase()
+    const admin = createAdminClient()
+
+    let query = admin.from('ledger_entries').select('block_height').eq('hash', leaf)
+    if (proof) query = query.eq('block_height', proof.blockNumber)
+    const { data: entry, error } = await query.order('block_height', { ascending: true }).limit(1).maybeSingle()
+    if (error) throw new Error(error.message)
+    if (!entry) return null
+
+    const height: number = entry.block_height
+    const block = await loadBlock(admin, height)
+    if (!block) return null
+    const previous = height > 0 ? await loadBlock(admin, height - 1) : null
+    const entries = (await loadEntries(admin, height, height)).get(height) ?? []
+    const tip = await loadTip(admin)
+
+    const problems = this.blockProblems(block, entries, previous?.block_hash ?? GENESIS_PREV_HASH)
+    if (proof && merkleRootFromProof(leaf, proof.siblings) !== block.merkle_root) {
+      problems.push('inclusion proof does not lead to the block root')
+    }
+    const hashes = entries.map((e) => e.hash)
+    const leafIndex = hashes.indexOf(leaf)
+
+    return {
+      id: block.block_hash,
+      hash,
+      txId: block.block_hash,
+      network: NETWORK,
+      timestamp: block.created_at,
+      blockNumber: height,
+      confirmations: tip ? tip.height - height + 1 : undefined,
+      verified: problems.length === 0,
+      status: 'ANCHORED',
+      proof: problems.length === 0 ? inclusionProof(block, buildMerkleTree(hashes), leafIndex) : undefined,
+    }
+  }
+
+  /**
+   * Walk every block from genesis and check each one against the block
+   * before it. Any edited, inserted or removed entry or block shows up as a
+   * problem at its height.
+   */
+  async validateLedger(): Promise<LedgerValidationReport> {
+    const admin = createAdminClient()
+    const problems: LedgerValidationProblem[] = []
+    const report = (height: number, problem: string) => {
+      if (problems.length < MAX_REPORTED_PROBLEMS) problems.push({ height, problem })
+    }
+
+    let blocks = 0
+    let entries = 0
+    let expectedHeight = 0
+    let prevHash = GENESIS_PREV_HASH
+    for (;;) {
+      const { data: page, error } = await admin
+        .from('ledger_blocks')
+        .select('*')
+        .order('height', { ascending: true })
+        .range(blocks, blocks + BLOCK_PAGE - 1)
+      if (error) throw new Error(error.message)
+      if (!page || page.length === 0) break
+
+      const pageEntries = await loadEntries(admin, page[0].height, page[page.length - 1].height)
+      for (const block of page as LedgerBlockRow[]) {
+        if (block.height !== expectedHeight) report(block.height, `blocks ${expectedHeight} to ${block.height - 1} are missing`)
+        const blockEntries = pageEntries.get(block.height) ?? []
+        for (const problem of this.blockProblems(block, blockEntries, prevHash)) report(block.height, problem)
+
+        // Continue from the stored hash, so one bad block is reported once
+        prevHash = block.block_hash
+        expectedHeight = block.height + 1
+        blocks++
+        entries += blockEntries.length
+      }
+    }
+
+    return {
+      valid: problems.length === 0,
+      blocks,
+      entries,
+      tipHash: blocks > 0 ? prevHash : null,
+      problems,
+      checkedAt: new Date().toISOString(),
+    }
+  }
+
+  async getHeadBlockNumber(): Promise<number | undefined> {
+    const tip = await loadTip(createAdminClient())
+    return tip?.height
+  }
+}
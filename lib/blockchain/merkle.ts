@@ -0,0 +1,72 @@
+// ============================================
+// HSDC Merkle Batches
+// One anchored root commits to every integrity hash in a batch
+// ============================================
+//
+// Leaves and interior nodes are SHA-256 with distinct prefixes (0x00 for a
+// leaf, 0x01 for a node, as in RFC 6962), so an interior node can never be
+// passed off as a leaf. A node without a partner moves up a level unchanged.
+// All hashes are lowercase hex without a 0x prefix, like integrity hashes.
+import crypto from 'crypto'
+import type { MerkleProofStep } from '../types'
+
+const LEAF_PREFIX = Buffer.from([0x00])
+const NODE_PREFIX = Buffer.from([0x01])
+
+function leafHash(hash: string): string {
+  return crypto.createHash('sha256').update(LEAF_PREFIX).update(Buffer.from(hash, 'hex')).digest('hex')
+}
+
+function nodeHash(left: string, right: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, 'hex'))
+    .update(Buffer.from(right, 'hex'))
+    .digest('hex')
+}
+
+export interface MerkleTree {
+  root: string
+  proofs: MerkleProofStep[][] // sibling path of each leaf, in input order
+}
+
+/**
+ * Build the tree over a batch of integrity hashes
+ */
+export function buildMerkleTree(hashes: string[]): MerkleTree {
+  if (hashes.length === 0) throw new Error('A Merkle batch needs at least one hash')
+
+  let level = hashes.map(leafHash)
+  // The node each leaf has reached on the current level
+  const position = hashes.map((_, i) => i)
+  const proofs: MerkleProofStep[][] = hashes.map(() => [])
+
+  while (level.length > 1) {
+    const next: string[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? nodeHash(level[i], level[i + 1]) : level[i])
+    }
+    for (let leaf = 0; leaf < hashes.length; leaf++) {
+      const index = position[leaf]
+      const sibling = index ^ 1
+      if (sibling < level.length) {
+        proofs[leaf].push({ hash: level[sibling], position: sibling < index ? 'left' : 'right' })
+      }
+      position[leaf] = index >> 1
+    }
+    level = next
+  }
+
+  return { root: level[0], proofs }
+}
+
+/**
+ * The root a sibling path leads to from an integrity hash
+ */
+export function merkleRootFromProof(hash: string, siblings: MerkleProofStep[]): string {
+  return siblings.reduce(
+    (node, step) => (step.position === 'left' ? nodeHash(step.hash, node) : nodeHash(node, step.hash)),
+    leafHash(hash),
+  )
+}
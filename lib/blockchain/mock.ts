@@ -1,29 +1,23 @@
 // ============================================
 // HSDC Mock Blockchain Layer
-// Interface-compatible mock for Phase 2 swap to real ethers.js
+// Default backend until a real one is configured, and the answer for records
+// anchored before the local ledger existed
 // ============================================
 import crypto from 'crypto'
 import { createClient } from '@/lib/supabase/server'
-import type { BlockchainHashRecord } from './types'
-
-/**
- * Interface for blockchain operations.
- * Phase 2 will implement this with ethers.js + Polygon/Ethereum.
- */
-export interface IBlockchainService {
-  storeHash(hash: string, userId: string): Promise<BlockchainHashRecord>
-  verifyHash(hash: string): Promise<BlockchainHashRecord | null>
-  getRecordsByUser(userId: string): Promise<BlockchainHashRecord[]>
-}
+import type { BlockchainHashRecord } from '../types'
+import type { IBlockchainService } from './service'
 
 /**
  * Mock Blockchain Service
  *
  * Stores hashes in Supabase metadata table to simulate blockchain behavior.
  * Generates deterministic mock transaction IDs and block numbers.
- * Will be replaced by real blockchain in Phase 2.
+ * Verification reads back the metadata row it wrote, so it proves nothing:
+ * deployments should opt in to the 'ledger' or 'evm' backend.
  */
 export class MockBlockchainService implements IBlockchainService {
+  readonly name = 'mock'
   private network = 'mock-polygon'
 
   /**
@@ -97,38 +91,8 @@ export class MockBlockchainService implements IBlockchainService {
     }
   }
 
-  /**
-   * Get all blockchain records for a user
-   */
-  async getRecordsByUser(userId: string): Promise<BlockchainHashRecord[]> {
-    const supabase = await createClient()
-
-    const { data } = await supabase
-      .from('metadata')
-      .select('*')
-      .eq('user_id', userId)
-      .not('blockchain_hash', 'is', null)
-      .order('created_at', { ascending: false })
-
-    if (!data) return []
-
-    return data.map((row) => ({
-      id: row.id,
-      hash: row.blockchain_hash,
-      txId: row.blockchain_tx_id,
-      network: row.blockchain_network,
-      timestamp: row.created_at,
-      verified: true,
-    }))
-  }
-}
-
-// Singleton for app usage
-let _blockchainService: IBlockchainService | null = null
-
-export function getBlockchainService(): IBlockchainService {
-  if (!_blockchainService) {
-    _blockchainService = new MockBlockchainService()
+  // Mock anchors are not in blocks
+  async getHeadBlockNumber(): Promise<number | undefined> {
+    return undefined
   }
-  return _blockchainService
 }
@@ -0,0 +1,40 @@
+// ============================================
+// HSDC Blockchain Records
+// A user's anchored files, read from their metadata rows
+// ============================================
+import type { BlockchainHashRecord, MetadataRow } from '../types'
+
+// The columns a listing reads, of a row with an anchored (or queued) hash
+export type ListedMetadataRow = Pick<
+  MetadataRow,
+  | 'id'
+  | 'original_filename'
+  | 'created_at'
+  | 'blockchain_status'
+  | 'blockchain_tx_id'
+  | 'blockchain_network'
+  | 'blockchain_block_number'
+  | 'blockchain_proof'
+> & { blockchain_hash: string }
+
+/**
+ * One metadata row as a record, counting confirmations from `head` when given
+ */
+export function recordFromMetadataRow(row: ListedMetadataRow, head?: number): BlockchainHashRecord {
+  return {
+    id: row.id,
+    hash: row.blockchain_hash,
+    txId: row.blockchain_tx_id ?? '', // set by the batcher for queued hashes
+    network: row.blockchain_network ?? '',
+    timestamp: row.created_at,
+    blockNumber: row.blockchain_block_number ?? undefined,
+    confirmations:
+      head !== undefined && row.blockchain_block_number != null
+        ? Math.max(head - row.blockchain_block_number + 1, 0)
+        : undefined,
+    filename: row.original_filename,
+    verified: row.blockchain_status === 'ANCHORED',
+    status: row.blockchain_status,
+    proof: row.blockchain_proof ?? undefined,
+  }
+}
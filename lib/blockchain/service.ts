@@ -0,0 +1,24 @@
+// ============================================
+// HSDC Blockchain Service Interface
+// ============================================
+import type { BlockchainHashRecord, MerkleInclusionProof } from '../types'
+
+/**
+ * Anchors integrity hashes on a ledger and checks them later.
+ * Implementations decide which ledger: the Supabase-backed mock or an
+ * EVM chain holding the hash registry contract.
+ *
+ * storeHash() may only queue the hash (the record's status is PENDING);
+ * verifyHash() then needs the inclusion proof recorded once it is anchored.
+ *
+ * Ledgers do not know users, so listing a user's records is not part of the
+ * interface: the explorer pages their metadata rows across every backend in
+ * one query (actions/blockchain.ts).
+ */
+export interface IBlockchainService {
+  readonly name: string
+  storeHash(hash: string, userId: string): Promise<BlockchainHashRecord>
+  verifyHash(hash: string, proof?: MerkleInclusionProof | null): Promise<BlockchainHashRecord | null>
+  // Current height, for confirmation counts; undefined when the ledger has none
+  getHeadBlockNumber(): Promise<number | undefined>
+}
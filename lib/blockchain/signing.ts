@@ -0,0 +1,71 @@
+// ============================================
+// HSDC Ledger Signing Key
+// Ed25519 keys the server signs ledger blocks and receipts with
+// ============================================
+//
+// Generate one with `openssl genpkey -algorithm ed25519` and set the PEM as
+// HSDC_LEDGER_SIGNING_KEY (or HSDC_RECEIPT_SIGNING_KEY). The key ID is
+// derived from the public key, so a block or receipt names the key that
+// signed it without any extra configuration.
+//
+// Rotating a key: set the new private key, and add the old public key to
+// HSDC_LEDGER_TRUSTED_KEYS (or HSDC_RECEIPT_TRUSTED_KEYS) so blocks and
+// receipts it signed still verify. Those variables hold one or more
+// concatenated public key PEMs.
+import crypto from 'crypto'
+
+export interface SigningPublicKey {
+  keyId: string // first 16 hex characters of the SHA-256 of the public key (SPKI DER)
+  publicKeyPem: string
+  verify(data: Buffer, signature: string): boolean
+}
+
+export interface LedgerSigner extends SigningPublicKey {
+  sign(data: Buffer): string // base64
+}
+
+const PUBLIC_KEY_PEM = /-----BEGIN PUBLIC KEY-----[\s\S]+?-----END PUBLIC KEY-----/g
+
+function signingPublicKey(publicKey: crypto.KeyObject): SigningPublicKey {
+  const spki = publicKey.export({ type: 'spki', format: 'der' })
+  return {
+    keyId: crypto.createHash('sha256').update(spki).digest('hex').slice(0, 16),
+    publicKeyPem: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    verify: (data, signature) => crypto.verify(null, data, publicKey, Buffer.from(signature, 'base64')),
+  }
+}
+
+/**
+ * Load a signing key from its PEM (literal "\n" sequences are accepted);
+ * keyName is the variable it came from, for the error message
+ */
+export function createLedgerSigner(privateKeyPem: string, keyName = 'HSDC_LEDGER_SIGNING_KEY'): LedgerSigner {
+  const privateKey = crypto.createPrivateKey(privateKeyPem.replace(/\\n/g, '\n'))
+  if (privateKey.asymmetricKeyType !== 'ed25519') throw new Error(`${keyName} must be an Ed25519 private key`)
+
+  return {
+    ...signingPublicKey(crypto.createPublicKey(privateKey)),
+    sign: (data) => crypto.sign(null, data, privateKey).toString('base64'),
+  }
+}
+
+/**
+ * Every public key whose signatures are accepted, by key ID: the current
+ * signer's plus the retired keys listed in the trustedKeysName variable
+ */
+export function loadTrustedSigningKeys(
+  trustedKeysName: string,
+  current?: SigningPublicKey | null,
+): Map<string, SigningPublicKey> {
+  const trusted = new Map<string, SigningPublicKey>()
+  if (current) trusted.set(current.keyId, current)
+
+  const pems = (process.env[trustedKeysName] || '').replace(/\\n/g, '\n').match(PUBLIC_KEY_PEM) ?? []
+  for (const pem of pems) {
+    const publicKey = crypto.createPublicKey(pem)
+    if (publicKey.asymmetricKeyType !== 'ed25519') throw new Error(`${trustedKeysName} must hold Ed25519 public keys`)
+    const key = signingPublicKey(publicKey)
+    if (!trusted.has(key.keyId)) trusted.set(key.keyId, key)
+  }
+  return trusted
+}
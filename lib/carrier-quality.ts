@@ -0,0 +1,138 @@
+// ============================================
+// HSDC Carrier Quality Metrics
+// PSNR, SSIM and maximum delta between a cover and its stego image
+// ============================================
+//
+// The figures describe what the embedding did to the picture: PSNR and SSIM
+// are computed on the colour channels, the maximum delta on every channel
+// (alpha included, since profiles may embed there). The difference heatmap
+// amplifies every change so a single flipped LSB stays visible.
+import type { CarrierQualityMetrics } from './types'
+
+const PEAK = 255
+const COLOUR_CHANNELS = 3
+// SSIM (Wang, Bovik, Sheikh & Simoncelli, 2004) over 8x8 luma windows
+const SSIM_WINDOW = 8
+const SSIM_STRIDE = 4
+const SSIM_C1 = (0.01 * PEAK) ** 2
+const SSIM_C2 = (0.03 * PEAK) ** 2
+// Heatmap colour: a change of one level is red, HEATMAP_GAIN levels more reach yellow
+const HEATMAP_GAIN = 64
+
+function round(value: number, places: number): number {
+  const scale = 10 ** places
+  return Math.round(value * scale) / scale
+}
+
+function luma(data: Buffer, index: number): number {
+  return 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2]
+}
+
+function meanSsim(cover: Buffer, stego: Buffer, width: number, height: number, channels: number): number {
+  // Carriers smaller than one window are compared as a single window
+  const windowWidth = Math.min(SSIM_WINDOW, width)
+  const windowHeight = Math.min(SSIM_WINDOW, height)
+  const samples = windowWidth * windowHeight
+
+  let total = 0
+  let windows = 0
+  for (let top = 0; top + windowHeight <= height; top += SSIM_STRIDE) {
+    for (let left = 0; left + windowWidth <= width; left += SSIM_STRIDE) {
+      let sumX = 0
+      let sumY = 0
+      let sumXX = 0
+      let sumYY = 0
+      let sumXY = 0
+      for (let y = top; y < top + windowHeight; y++) {
+        for (let x = left; x < left + windowWidth; x++) {
+          const index = (y * width + x) * channels
+          const a = luma(cover, index)
+          const b = luma(stego, index)
+          sumX += a
+          sumY += b
+          sumXX += a * a
+          sumYY += b * b
+          sumXY += a * b
+        }
+      }
+      const meanX = sumX / samples
+      const meanY = sumY / samples
+      const varX = sumXX / samples - meanX * meanX
+      const varY = sumYY / samples - meanY * meanY
+      const covariance = sumXY / samples - meanX * meanY
+      total +=
+        ((2 * meanX * meanY + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanX * meanX + meanY * meanY + SSIM_C1) * (varX + varY + SSIM_C2))
+      windows++
+    }
+  }
+  return windows ? total / windows : 1
+}
+
+/**
+ * Compare a cover with its stego image (both raw, same layout). PSNR is in
+ * dB and null when the two are identical; SSIM runs from 0 to 1.
+ */
+export function measureCarrierQuality(
+  cover: Buffer,
+  stego: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+): CarrierQualityMetrics {
+  let squaredError = 0
+  let maxDelta = 0
+  for (let i = 0; i < width * height * channels; i++) {
+    const delta = Math.abs(cover[i] - stego[i])
+    if (delta > maxDelta) maxDelta = delta
+    if (i % channels < COLOUR_CHANNELS) squaredError += delta * delta
+  }
+
+  const mse = squaredError / (width * height * Math.min(channels, COLOUR_CHANNELS))
+  return {
+    psnr: mse === 0 ? null : round(10 * Math.log10((PEAK * PEAK) / mse), 2),
+    ssim: round(meanSsim(cover, stego, width, height, channels), 6),
+    maxDelta,
+  }
+}
+
+/**
+ * Render the amplified difference as raw RGB, at most maxSide pixels on the
+ * long edge. Each output pixel keeps the largest change in the block it
+ * covers; unchanged blocks show the cover, darkened.
+ */
+export function renderDifferenceHeatmap(
+  cover: Buffer,
+  stego: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  maxSide: number,
+): { data: Buffer; width: number; height: number } {
+  const block = Math.max(1, Math.ceil(Math.max(width, height) / maxSide))
+  const outWidth = Math.ceil(width / block)
+  const outHeight = Math.ceil(height / block)
+  const data = Buffer.alloc(outWidth * outHeight * 3)
+
+  for (let row = 0; row < outHeight; row++) {
+    for (let col = 0; col < outWidth; col++) {
+      let delta = 0
+      for (let y = row * block; y < Math.min(height, (row + 1) * block); y++) {
+        for (let x = col * block; x < Math.min(width, (col + 1) * block); x++) {
+          const index = (y * width + x) * channels
+          for (let c = 0; c < channels; c++) delta = Math.max(delta, Math.abs(cover[index + c] - stego[index + c]))
+        }
+      }
+
+      const out = (row * outWidth + col) * 3
+      if (delta === 0) {
+        const shade = Math.round(luma(cover, (row * block * width + col * block) * channels) / 4)
+        data.fill(shade, out, out + 3)
+      } else {
+        data[out] = PEAK
+        data[out + 1] = Math.min(PEAK, (delta - 1) * HEATMAP_GAIN)
+      }
+    }
+  }
+  return { data, width: outWidth, height: outHeight }
+}
@@ -0,0 +1,25 @@
+// ============================================
+// HSDC Carrier Detection
+// Picks the embedding path for a carrier, and the extraction path at recovery
+// ============================================
+import { isJpeg } from './jpeg-dct'
+import { isFlac, isWav } from './wav'
+import type { CarrierType } from './types'
+
+// Stored object extension and content type of each kind of stego file
+export const CARRIER_FORMATS: Record<CarrierType, { extension: string; contentType: string }> = {
+  image: { extension: 'png', contentType: 'image/png' },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg' },
+  wav: { extension: 'wav', contentType: 'audio/wav' },
+}
+
+/**
+ * Detect the carrier type from the file signature. Anything that is not a
+ * JPEG or WAV is handed to sharp as a lossless image.
+ */
+export function detectCarrierType(data: Buffer): CarrierType {
+  if (isWav(data)) return 'wav'
+  if (isFlac(data)) throw new Error('FLAC carriers are not supported yet - convert the recording to PCM WAV')
+  if (isJpeg(data)) return 'jpeg'
+  return 'image'
+}
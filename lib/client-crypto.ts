@@ -0,0 +1,236 @@
+// ============================================
+// HSDC Browser Crypto (WebCrypto)
+// Zero-knowledge passphrase encryption, hidden payload locators and custodian share unwrapping
+// ============================================
+//
+// Passphrase output is a regular HSDC envelope (see lib/envelope.ts) so the server can
+// recognise and embed it without ever holding a key:
+//
+//   "HENV" || version(1) || suite = AES-256-GCM || flags = 0 || fieldsLength(u16 BE)
+//   KDF field = pbkdf2-sha256 || iterations(u32 BE) || salt(16)
+//   IV field  = 12 random bytes
+//   body      = ciphertext || tag(16)   (WebCrypto appends the tag)
+//
+// The whole header is the AES-GCM associated data. lib/envelope.ts uses
+// Node's Buffer, so the few bytes of encoding it needs are repeated here.
+
+export const PBKDF2_ITERATIONS = 600_000
+export const MIN_PASSPHRASE_LENGTH = 12
+
+const MAGIC = [0x48, 0x45, 0x4e, 0x56] // "HENV"
+const ENVELOPE_VERSION = 1
+const SUITE_AES_256_GCM = 0x01
+const FIELD_KDF = 0x01
+const FIELD_IV = 0x04
+const KDF_PBKDF2_SHA256 = 0x02
+const FIXED_HEADER_SIZE = 9
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+function field(type: number, value: Uint8Array): Uint8Array {
+  const out = new Uint8Array(3 + value.length)
+  out[0] = type
+  new DataView(out.buffer).setUint16(1, value.length)
+  out.set(value, 3)
+  return out
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+function encodeHeader(salt: Uint8Array, iterations: number, iv: Uint8Array): Uint8Array {
+  const kdf = new Uint8Array(5 + salt.length)
+  kdf[0] = KDF_PBKDF2_SHA256
+  new DataView(kdf.buffer).setUint32(1, iterations)
+  kdf.set(salt, 5)
+
+  const fields = concat([field(FIELD_KDF, kdf), field(FIELD_IV, iv)])
+  const fixed = new Uint8Array(FIXED_HEADER_SIZE)
+  fixed.set(MAGIC, 0)
+  fixed[4] = ENVELOPE_VERSION
+  fixed[5] = SUITE_AES_256_GCM
+  fixed[6] = 0
+  new DataView(fixed.buffer).setUint16(7, fields.length)
+  return concat([fixed, fields])
+}
+
+function parseHeader(data: Uint8Array) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (data.length < FIXED_HEADER_SIZE || MAGIC.some((b, i) => data[i] !== b)) {
+    throw new Error('Not a zero-knowledge envelope')
+  }
+  if (data[4] !== ENVELOPE_VERSION || data[5] !== SUITE_AES_256_GCM) {
+    throw new Error('Unsupported zero-knowledge envelope')
+  }
+
+  const headerEnd = FIXED_HEADER_SIZE + view.getUint16(7)
+  let salt: Uint8Array | null = null
+  let iterations = 0
+  let iv: Uint8Array | null = null
+
+  let offset = FIXED_HEADER_SIZE
+  while (offset < headerEnd) {
+    const type = data[offset]
+    const length = view.getUint16(offset + 1)
+    const value = data.subarray(offset + 3, offset + 3 + length)
+    offset += 3 + length
+    if (type === FIELD_KDF && value[0] === KDF_PBKDF2_SHA256) {
+      iterations = new DataView(value.buffer, value.byteOffset, value.byteLength).getUint32(1)
+      salt = value.slice(5)
+    } else if (type === FIELD_IV) {
+      iv = value.slice()
+    }
+  }
+
+  if (!salt || !iv || offset !== headerEnd) throw new Error('Malformed zero-knowledge envelope')
+  return { header: data.subarray(0, headerEnd), body: data.subarray(headerEnd), salt, iterations, iv }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/**
+ * Encrypt a file in the browser under a passphrase-derived key.
+ * Returns the complete envelope, ready to be sent for embedding.
+ */
+export async function encryptWithPassphrase(plaintext: ArrayBuffer, passphrase: string): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const header = encodeHeader(salt, PBKDF2_ITERATIONS, iv)
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource, additionalData: header as BufferSource, tagLength: 128 },
+    key,
+    plaintext,
+  )
+  return concat([header, new Uint8Array(ciphertext)])
+}
+
+/**
+ * Decrypt an envelope produced by encryptWithPassphrase.
+ * A wrong passphrase and a modified envelope both fail authentication.
+ */
+export async function decryptWithPassphrase(envelope: Uint8Array, passphrase: string): Promise<ArrayBuffer> {
+  const { header, body, salt, iterations, iv } = parseHeader(envelope)
+  const key = await deriveKey(passphrase, salt, iterations)
+  try {
+    return await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: iv as BufferSource, additionalData: header as BufferSource, tagLength: 128 },
+      key,
+      body as BufferSource,
+    )
+  } catch {
+    throw new Error('Wrong passphrase or corrupted data')
+  }
+}
+
+const HIDDEN_LOCATOR_SALT = 'hsdc-hidden-locator-v1'
+
+/**
+ * Locator of a deniable hidden payload (see lib/hidden-payload.ts): a PBKDF2
+ * derivation of its passphrase, sent to the server instead of the passphrase
+ */
+export async function deriveHiddenLocator(passphrase: string): Promise<string> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  )
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode(HIDDEN_LOCATOR_SALT) as BufferSource,
+      iterations: PBKDF2_ITERATIONS,
+    },
+    material,
+    256,
+  )
+  return Array.from(new Uint8Array(bits), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// ============================================
+// Custodian keys (M-of-N recovery, see lib/custody.ts)
+// ============================================
+
+function toPem(label: string, der: ArrayBuffer): string {
+  const base64 = btoa(String.fromCharCode(...new Uint8Array(der)))
+  const lines = base64.match(/.{1,64}/g) || []
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`
+}
+
+function fromPem(pem: string): ArrayBuffer {
+  const base64 = pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '').replace(/\s+/g, '')
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0))
+  return bytes.buffer
+}
+
+const CUSTODIAN_KEY_ALGORITHM = {
+  name: 'RSA-OAEP',
+  modulusLength: 3072,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+}
+
+/**
+ * Generate a custodian RSA-OAEP key pair. Only the public key is registered;
+ * the private key PEM is for the custodian to keep offline.
+ */
+export async function generateCustodianKeyPair(): Promise<{ publicKeyPem: string; privateKeyPem: string }> {
+  const pair = await crypto.subtle.generateKey(CUSTODIAN_KEY_ALGORITHM, true, ['encrypt', 'decrypt'])
+  return {
+    publicKeyPem: toPem('PUBLIC KEY', await crypto.subtle.exportKey('spki', pair.publicKey)),
+    privateKeyPem: toPem('PRIVATE KEY', await crypto.subtle.exportKey('pkcs8', pair.privateKey)),
+  }
+}
+
+/**
+ * Unwrap a custody share with the custodian's PKCS#8 private key.
+ * Returns the base64 share payload to submit for approval.
+ */
+export async function unwrapCustodyShare(wrappedShare: string, privateKeyPem: string): Promise<string> {
+  let key: CryptoKey
+  try {
+    key = await crypto.subtle.importKey(
+      'pkcs8',
+      fromPem(privateKeyPem),
+      { name: 'RSA-OAEP', hash: 'SHA-256' },
+      false,
+      ['decrypt'],
+    )
+  } catch {
+    throw new Error('Private key must be a PKCS#8 PEM RSA key')
+  }
+
+  try {
+    const wrapped = Uint8Array.from(atob(wrappedShare), (c) => c.charCodeAt(0))
+    const share = new Uint8Array(await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, key, wrapped))
+    return btoa(String.fromCharCode(...share))
+  } catch {
+    throw new Error('This private key cannot unwrap the share')
+  }
+}
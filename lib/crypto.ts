@@ -1,6 +1,6 @@
 // ============================================
 // HSDC Cryptographic Engine
-// AES-256-GCM Encryption + RSA-2048 Key Wrapping
+// Versioned AEAD Envelopes + Pluggable Data Key Wrapping
 // ============================================
 // Lightweight runtime declarations to satisfy TypeScript in the editor
 declare const process: { env: Record<string, string | undefined> }
@@ -11,24 +11,175 @@ declare type Buffer = any
 // Use require for the Node.js crypto module to avoid missing type declaration
 // errors in environments where `@types/node` isn't picked up by the editor.
 const crypto = require('crypto') as any
-import type { EncryptionResult, DecryptionInput } from './types'
+import type {
+  EncryptionResult,
+  DecryptionInput,
+  EncryptionContext,
+  KeyReference,
+  StreamEncryptionSession,
+  CustodyPolicy,
+  CustodyShare,
+} from './types'
+import {
+  SegmentEncryptStream,
+  SegmentDecryptStream,
+  openSegments,
+  sealSegments,
+  type SegmentBatchRunner,
+} from './stream-crypto'
+import { splitSecret } from './shamir'
+import {
+  CIPHER_SUITES,
+  ENVELOPE_VERSION,
+  encodeEnvelopeHeader,
+  envelopeAad,
+  parseEnvelope,
+  suiteCipher,
+  suiteLabel,
+  type CipherSuite,
+  type EnvelopeHeader,
+  type ParsedEnvelope,
+} from './envelope'
+import { LEGACY_KEY_ID } from './keyring'
+import { LEGACY_PROVIDER, getKeyWrapProvider } from './key-wrap'
 
 const AES_ALGO = 'aes-256-gcm' as const
-const AES_KEY_BYTES = 32
-const IV_BYTES = 12 // GCM recommended IV size
+const DATA_KEY_BYTES = 32 // AES-256 and ChaCha20-Poly1305 both take 256-bit keys
+const IV_BYTES = 12 // GCM / ChaCha20-Poly1305 nonce size
 const AUTH_TAG_LENGTH = 16
+const CONTEXT_HASH_BYTES = 16
 
-// RSA key pair for wrapping AES keys (stored in env vars or generated)
-function getRSAPublicKey(): string {
-  const key = process.env.HSDC_RSA_PUBLIC_KEY
-  if (key) return key.replace(/\\n/g, '\n')
-  throw new Error('HSDC_RSA_PUBLIC_KEY environment variable is not set')
+export const CONTEXT_MISMATCH_ERROR = 'Context mismatch - ciphertext does not belong to this record'
+
+// Zero-knowledge records: sealed in the browser under a passphrase-derived key
+// (lib/client-crypto.ts). The server stores this marker instead of a wrapped key.
+export const PASSPHRASE_KEY_PROVIDER = 'passphrase'
+export const PASSPHRASE_ALGORITHM = 'AES-256-GCM-PBKDF2'
+
+// M-of-N custody records: the data key only exists as custodian shares
+export const CUSTODY_KEY_PROVIDER = 'custody'
+const CLIENT_SIDE_ERROR = 'Passphrase-encrypted records can only be decrypted in the browser'
+
+interface EncryptOptions {
+  suite?: CipherSuite         // defaults to HSDC_CIPHER_SUITE, then AES-256-GCM
+  embedKeyMaterial?: boolean  // copy tag and wrapped key into the envelope header
+  context?: EncryptionContext // bind the ciphertext to its metadata record
+  custody?: CustodyPolicy     // split the data key across custodians instead of wrapping it
+  executor?: CryptoExecutor   // streaming only; defaults to INLINE_CRYPTO
+}
+
+export interface StoredDataKey {
+  wrappedKey: string // empty under custody
+  keyId: string
+  keyProvider: string
+  custodyShares?: CustodyShare[]
+}
+
+/**
+ * Where the CPU-bound steps of a streamed record run: key wrapping and
+ * unwrapping, and the per-segment AEAD. INLINE_CRYPTO runs them on the
+ * calling thread, POOLED_CRYPTO (lib/stego-pool.ts) on the worker pool.
+ */
+export interface CryptoExecutor {
+  storeDataKey(dataKey: Buffer, custody?: CustodyPolicy): Promise<StoredDataKey>
+  unwrapDataKey(key: KeyReference): Promise<Buffer>
+  sealSegments: SegmentBatchRunner
+  openSegments: SegmentBatchRunner
+}
+
+function resolveSuite(suite?: string): CipherSuite {
+  const name = suite || process.env.HSDC_CIPHER_SUITE || 'AES-256-GCM'
+  if (!Object.prototype.hasOwnProperty.call(CIPHER_SUITES, name)) {
+    throw new Error(`Unsupported cipher suite "${name}"`)
+  }
+  return name as CipherSuite
+}
+
+function shouldEmbedKeyMaterial(options: EncryptOptions): boolean {
+  return options.embedKeyMaterial ?? process.env.HSDC_ENVELOPE_EMBED_KEYS === 'true'
+}
+
+// Protect a fresh data key for storage: wrapped by the active provider, or
+// split into one RSA-OAEP wrapped Shamir share per custodian.
+async function storeDataKey(dataKey: Buffer, custody?: CustodyPolicy): Promise<StoredDataKey> {
+  if (!custody) {
+    const provider = getKeyWrapProvider()
+    const { wrappedKey, keyId } = await provider.wrap(dataKey)
+    return { wrappedKey, keyId, keyProvider: provider.name }
+  }
+
+  const { threshold, custodians } = custody
+  const shares = splitSecret(dataKey, threshold, custodians.length)
+  const custodyShares = custodians.map((custodian, i) => {
+    const payload = Buffer.concat([Buffer.from([shares[i].index]), shares[i].value])
+    const wrapped = crypto.publicEncrypt(
+      { key: custodian.publicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+      payload,
+    )
+    const share: CustodyShare = {
+      custodianId: custodian.id,
+      shareIndex: shares[i].index,
+      wrappedShare: wrapped.toString('base64'),
+      shareHash: crypto.createHash('sha256').update(payload).digest('hex'),
+    }
+    payload.fill(0)
+    shares[i].value.fill(0)
+    return share
+  })
+
+  return {
+    wrappedKey: '',
+    keyId: `${threshold}-of-${custodians.length}`,
+    keyProvider: CUSTODY_KEY_PROVIDER,
+    custodyShares,
+  }
+}
+
+// Canonical encoding of the record context. The filename is hashed so the
+// AAD has a fixed shape regardless of what the user named the file.
+function encodeContext(context: EncryptionContext, envelopeVersion: number): Buffer {
+  const field = (value: string) => {
+    const bytes = Buffer.from(value, 'utf8')
+    const length = Buffer.alloc(2)
+    length.writeUInt16BE(bytes.length, 0)
+    return Buffer.concat([length, bytes])
+  }
+  return Buffer.concat([
+    Buffer.from('hsdc-context', 'ascii'),
+    Buffer.from([envelopeVersion]),
+    field(context.metadataId),
+    field(context.userId),
+    crypto.createHash('sha256').update(context.filename, 'utf8').digest(),
+  ])
 }
 
-function getRSAPrivateKey(): string {
-  const key = process.env.HSDC_RSA_PRIVATE_KEY
-  if (key) return key.replace(/\\n/g, '\n')
-  throw new Error('HSDC_RSA_PRIVATE_KEY environment variable is not set')
+// The server never holds the key for a passphrase envelope
+function assertServerDecryptable(header: EnvelopeHeader): void {
+  if (header.kdf.id === 'pbkdf2-sha256') throw new Error(CLIENT_SIDE_ERROR)
+}
+
+function contextHash(encodedContext: Buffer): Buffer {
+  return crypto.createHash('sha256').update(encodedContext).digest().subarray(0, CONTEXT_HASH_BYTES)
+}
+
+// Full associated data for a parsed envelope: header bytes, plus the record
+// context when the envelope was bound to one. The header carries a short
+// hash of the context so a swapped row is reported as such, not as a
+// generic authentication failure.
+function resolveAad(envelope: ParsedEnvelope, input: DecryptionInput): Buffer {
+  const { header, aad } = envelope
+  if (!header.contextHash) {
+    if (input.requireContext) throw new Error(CONTEXT_MISMATCH_ERROR)
+    return aad
+  }
+
+  if (!input.context) throw new Error('Record context is required to decrypt this envelope')
+  const encodedContext = encodeContext(input.context, header.version)
+  const expected = contextHash(encodedContext)
+  if (expected.length !== header.contextHash.length || !crypto.timingSafeEqual(expected, header.contextHash)) {
+    throw new Error(CONTEXT_MISMATCH_ERROR)
+  }
+  return Buffer.concat([aad, encodedContext])
 }
 
 /**
@@ -44,56 +195,256 @@ export function generateRSAKeyPair(): { publicKey: string; privateKey: string }
 }
 
 /**
- * Encrypt data with AES-256-GCM and wrap the AES key with RSA-2048
+ * Check that ciphertext uploaded in zero-knowledge mode is a passphrase
+ * envelope. Only its shape can be checked - the key never leaves the browser.
+ */
+export function inspectPassphraseEnvelope(data: Buffer): { iv: string; authTag: string; plaintextLength: number } {
+  const envelope = parseEnvelope(data)
+  if (!envelope) throw new Error('Ciphertext is not an HSDC envelope')
+
+  const { header, body } = envelope
+  if (header.kdf.id !== 'pbkdf2-sha256' || header.suite !== 'AES-256-GCM' || header.segmented || !header.iv) {
+    throw new Error('Ciphertext is not a passphrase envelope')
+  }
+  if (header.iv.length !== IV_BYTES || body.length < AUTH_TAG_LENGTH) {
+    throw new Error('Malformed passphrase envelope')
+  }
+
+  return {
+    iv: header.iv.toString('hex'),
+    authTag: body.subarray(body.length - AUTH_TAG_LENGTH).toString('hex'),
+    plaintextLength: body.length - AUTH_TAG_LENGTH,
+  }
+}
+
+/**
+ * Encrypt data under a fresh data key and wrap the key with the active provider.
+ * Output is an envelope: self-describing header followed by the ciphertext.
  */
-export function encrypt(plainData: Buffer): EncryptionResult {
-  // Generate random AES-256 key
-  const aesKey = crypto.randomBytes(AES_KEY_BYTES)
+export async function encrypt(plainData: Buffer, options: EncryptOptions = {}): Promise<EncryptionResult> {
+  const suite = resolveSuite(options.suite)
+  const embedKeyMaterial = shouldEmbedKeyMaterial(options)
 
-  // Generate random IV
+  // Generate random data key and IV
+  const dataKey = crypto.randomBytes(DATA_KEY_BYTES)
   const iv = crypto.randomBytes(IV_BYTES)
 
-  // Encrypt with AES-256-GCM
-  const cipher = crypto.createCipheriv(AES_ALGO, aesKey, iv, {
+  // Wrap data key with the active key wrap provider (or split it across custodians)
+  const { wrappedKey, keyId, keyProvider, custodyShares } = await storeDataKey(dataKey, options.custody)
+
+  const encodedContext = options.context ? encodeContext(options.context, ENVELOPE_VERSION) : null
+
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    suite,
+    segmented: false,
+    kdf: { id: 'none' },
+    keyId,
+    keyProvider,
+    iv,
+    wrappedKey: embedKeyMaterial && wrappedKey ? Buffer.from(wrappedKey, 'base64') : undefined,
+    contextHash: encodedContext ? contextHash(encodedContext) : undefined,
+  }
+
+  // Encrypt with the suite's AEAD, authenticating the header and record context
+  const cipher = crypto.createCipheriv(suiteCipher(suite), dataKey, iv, {
     authTagLength: AUTH_TAG_LENGTH,
   })
+  const headerAad = envelopeAad(header)
+  cipher.setAAD(encodedContext ? Buffer.concat([headerAad, encodedContext]) : headerAad)
   const encrypted = Buffer.concat([cipher.update(plainData), cipher.final()])
   const authTag = cipher.getAuthTag()
+  dataKey.fill(0)
 
-  // Wrap AES key with RSA public key
-  const rsaPublicKey = getRSAPublicKey()
-  const wrappedKey = crypto.publicEncrypt(
-    {
-      key: rsaPublicKey,
-      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
-      oaepHash: 'sha256',
-    },
-    aesKey,
-  )
+  const envelopeHeader = encodeEnvelopeHeader({
+    ...header,
+    authTag: embedKeyMaterial ? authTag : undefined,
+  })
 
   return {
-    encryptedData: encrypted,
+    encryptedData: Buffer.concat([envelopeHeader, encrypted]),
     iv: iv.toString('hex'),
     authTag: authTag.toString('hex'),
-    encryptedKey: wrappedKey.toString('base64'),
-    algorithm: 'AES-256-GCM',
+    encryptedKey: wrappedKey,
+    keyId,
+    keyProvider,
+    algorithm: suiteLabel(suite, false),
+    custodyShares,
+  }
+}
+
+// Unwrap a data key with the provider and key it was wrapped under.
+// Rows written before key versioning carry neither.
+function unwrapDataKey(input: KeyReference): Promise<Buffer> {
+  return getKeyWrapProvider(input.keyProvider || LEGACY_PROVIDER).unwrap(
+    input.encryptedKey,
+    input.keyId || LEGACY_KEY_ID,
+  )
+}
+
+export const INLINE_CRYPTO: CryptoExecutor = {
+  storeDataKey,
+  unwrapDataKey,
+  sealSegments: async (batch) => sealSegments(batch),
+  openSegments: async (batch) => openSegments(batch),
+}
+
+// A data key rebuilt from custodian shares is used as-is; anything else is
+// unwrapped from the database or envelope copy
+async function dataKeyFor(
+  input: DecryptionInput,
+  header: EnvelopeHeader,
+  executor: CryptoExecutor = INLINE_CRYPTO,
+): Promise<Buffer> {
+  if (input.dataKey) return Buffer.from(input.dataKey)
+  if (header.keyProvider === CUSTODY_KEY_PROVIDER) {
+    throw new Error('Custodian approvals are required to decrypt this record')
+  }
+  return executor.unwrapDataKey(keyReferenceFor(input, header))
+}
+
+// Only the key fields: the rest of a DecryptionInput is the ciphertext, which
+// must not be copied to a worker just to unwrap its key
+function keyReference({ encryptedKey, keyId, keyProvider }: KeyReference): KeyReference {
+  return { encryptedKey, keyId, keyProvider }
+}
+
+// The database copy of the wrapped key wins: key rotation updates it, while
+// the copy embedded in the stego image can never change.
+function keyReferenceFor(input: KeyReference, header: EnvelopeHeader): KeyReference {
+  if (input.encryptedKey) return keyReference(input)
+  if (!header.wrappedKey) throw new Error('No wrapped key available for this envelope')
+  return {
+    encryptedKey: header.wrappedKey.toString('base64'),
+    keyId: header.keyId,
+    keyProvider: header.keyProvider,
   }
 }
 
 /**
- * Decrypt AES-256-GCM data using RSA-unwrapped key
+ * Start a streaming encryption under a fresh data key.
+ * Pipe plaintext through `stream`; the envelope header is emitted first and
+ * the final segment tag is readable from `stream.finalTag` once it finishes.
  */
-export function decrypt(input: DecryptionInput): Buffer {
-  // Unwrap AES key with RSA private key
-  const rsaPrivateKey = getRSAPrivateKey()
-  const aesKey = crypto.privateDecrypt(
-    {
-      key: rsaPrivateKey,
-      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
-      oaepHash: 'sha256',
-    },
-    Buffer.from(input.encryptedKey, 'base64'),
-  )
+export async function createEncryptionStream(options: EncryptOptions = {}): Promise<StreamEncryptionSession> {
+  const suite = resolveSuite(options.suite)
+  const executor = options.executor || INLINE_CRYPTO
+  const dataKey = crypto.randomBytes(DATA_KEY_BYTES)
+
+  const { wrappedKey, keyId, keyProvider, custodyShares } = await executor.storeDataKey(dataKey, options.custody)
+
+  const encodedContext = options.context ? encodeContext(options.context, ENVELOPE_VERSION) : null
+
+  // Segment tags live inside the stream, so only the wrapped key is optional here
+  const envelopeHeader = encodeEnvelopeHeader({
+    version: ENVELOPE_VERSION,
+    suite,
+    segmented: true,
+    kdf: { id: 'none' },
+    keyId,
+    keyProvider,
+    wrappedKey: shouldEmbedKeyMaterial(options) && wrappedKey ? Buffer.from(wrappedKey, 'base64') : undefined,
+    contextHash: encodedContext ? contextHash(encodedContext) : undefined,
+  })
+
+  const stream = new SegmentEncryptStream(dataKey, {
+    cipher: suiteCipher(suite),
+    aad: encodedContext ? Buffer.concat([envelopeHeader, encodedContext]) : envelopeHeader,
+    prelude: envelopeHeader,
+    runBatch: executor.sealSegments,
+  })
+
+  return {
+    stream,
+    headerLength: envelopeHeader.length,
+    encryptedKey: wrappedKey,
+    keyId,
+    keyProvider,
+    algorithm: suiteLabel(suite, true),
+    custodyShares,
+  }
+}
+
+/**
+ * Create a decrypting transform for a segmented record.
+ * Returns the transform plus the segment stream to feed it, or null when the
+ * record is single-shot and must go through decrypt() instead.
+ */
+export async function createDecryptionStream(
+  input: DecryptionInput,
+  executor: CryptoExecutor = INLINE_CRYPTO,
+): Promise<{ decipher: SegmentDecryptStream; body: Buffer } | null> {
+  const envelope = parseEnvelope(input.encryptedData)
+
+  if (!envelope) {
+    if (input.requireContext) throw new Error(CONTEXT_MISMATCH_ERROR)
+    // Pre-envelope segmented records are always AES-256-GCM
+    if (input.algorithm !== 'AES-256-GCM-STREAM') return null
+    return {
+      decipher: new SegmentDecryptStream(await executor.unwrapDataKey(keyReference(input)), { runBatch: executor.openSegments }),
+      body: input.encryptedData,
+    }
+  }
+
+  const { header, body } = envelope
+  assertServerDecryptable(header)
+  if (!header.segmented) return null
+
+  const aad = resolveAad(envelope, input)
+  const dataKey = await dataKeyFor(input, header, executor)
+  return {
+    decipher: new SegmentDecryptStream(dataKey, {
+      cipher: suiteCipher(header.suite),
+      aad,
+      runBatch: executor.openSegments,
+    }),
+    body,
+  }
+}
+
+/**
+ * Decrypt a record, dispatching on its envelope header.
+ * Ciphertext without an envelope goes through the legacy AES-256-GCM paths.
+ */
+export async function decrypt(input: DecryptionInput): Promise<Buffer> {
+  const streaming = await createDecryptionStream(input)
+  if (streaming) {
+    const { decipher, body } = streaming
+    const chunks: Buffer[] = []
+    return new Promise((resolve, reject) => {
+      decipher.on('data', (chunk: Buffer) => chunks.push(chunk))
+      decipher.on('end', () => resolve(Buffer.concat(chunks)))
+      decipher.on('error', reject)
+      decipher.end(body)
+    })
+  }
+
+  const envelope = parseEnvelope(input.encryptedData)
+  if (!envelope) {
+    if (input.requireContext) throw new Error(CONTEXT_MISMATCH_ERROR)
+    return decryptLegacy(input)
+  }
+
+  const { header, body } = envelope
+  const aad = resolveAad(envelope, input)
+  const dataKey = await dataKeyFor(input, header)
+  const iv = header.iv || Buffer.from(input.iv, 'hex')
+  const authTag = header.authTag || Buffer.from(input.authTag, 'hex')
+
+  const decipher = crypto.createDecipheriv(suiteCipher(header.suite), dataKey, iv, {
+    authTagLength: AUTH_TAG_LENGTH,
+  })
+  decipher.setAAD(aad)
+  decipher.setAuthTag(authTag)
+
+  const decrypted = Buffer.concat([decipher.update(body), decipher.final()])
+  dataKey.fill(0)
+  return decrypted
+}
+
+// Raw AES-256-GCM ciphertext with IV and tag held only in the database
+async function decryptLegacy(input: DecryptionInput): Promise<Buffer> {
+  const aesKey = await unwrapDataKey(input)
 
   const iv = Buffer.from(input.iv, 'hex')
   const authTag = Buffer.from(input.authTag, 'hex')
@@ -112,6 +463,25 @@ export function decrypt(input: DecryptionInput): Buffer {
   return decrypted
 }
 
+/**
+ * Re-wrap a stored AES key under a different key (and optionally a different
+ * provider). The AES key itself (and therefore the ciphertext) is unchanged.
+ */
+export async function rewrapKey(
+  encryptedKey: string,
+  from: { keyProvider?: string | null; keyId?: string | null },
+  to: { keyProvider?: string; keyId?: string } = {},
+): Promise<{ encryptedKey: string; keyId: string; keyProvider: string }> {
+  const aesKey = await getKeyWrapProvider(from.keyProvider || LEGACY_PROVIDER).unwrap(
+    encryptedKey,
+    from.keyId || LEGACY_KEY_ID,
+  )
+  const target = getKeyWrapProvider(to.keyProvider)
+  const { wrappedKey, keyId } = await target.wrap(aesKey, to.keyId)
+  aesKey.fill(0)
+  return { encryptedKey: wrappedKey, keyId, keyProvider: target.name }
+}
+
 /**
  * Compute SHA-256 hash of data for integrity verification
  */
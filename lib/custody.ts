@@ -0,0 +1,271 @@
+// ============================================
+// HSDC Custodian Recovery
+// M-of-N approval workflow over Shamir-split data keys
+// ============================================
+//
+// Upload:   the data key is split (lib/shamir.ts) and each share is wrapped
+//           for one custodian's RSA public key (custody_shares).
+// Request:  the file owner opens a custody_requests row.
+// Approve:  a custodian unwraps their share in the browser and submits it;
+//           it is checked against the stored hash and sealed under the
+//           server key wrap provider (custody_approvals).
+// Recover:  once `threshold` approvals exist the shares are combined, the
+//           file is decrypted and the request is marked FULFILLED, so every
+//           recovery needs a fresh round of approvals.
+import crypto from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getKeyWrapProvider } from './key-wrap'
+import { combineShares, MAX_SHARES } from './shamir'
+import type { CustodianTask, CustodyPolicy, CustodyShare, CustodyStatus } from './types'
+
+/**
+ * Resolve custodian IDs to their registered public keys
+ */
+export async function loadCustodyPolicy(custodianIds: string[], threshold: number): Promise<CustodyPolicy> {
+  const ids = Array.from(new Set(custodianIds))
+  if (ids.length < 2) throw new Error('Select at least two custodians')
+  if (ids.length > MAX_SHARES) throw new Error(`At most ${MAX_SHARES} custodians are supported`)
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > ids.length) {
+    throw new Error(`Approval threshold must be between 2 and ${ids.length}`)
+  }
+
+  const admin = createAdminClient()
+  const { data, error } = await admin
+    .from('custodians')
+    .select('user_id, public_key')
+    .in('user_id', ids)
+
+  if (error) throw new Error(`Failed to load custodians: ${error.message}`)
+  if (!data || data.length !== ids.length) throw new Error('One or more custodians are not registered')
+
+  return {
+    threshold,
+    custodians: data.map((row) => ({ id: row.user_id as string, publicKey: row.public_key as string })),
+  }
+}
+
+/**
+ * Persist the wrapped shares produced by encrypt() for a new record
+ */
+export async function storeCustodyShares(metadataId: string, shares: CustodyShare[]): Promise<void> {
+  const admin = createAdminClient()
+  const { error } = await admin.from('custody_shares').insert(
+    shares.map((share) => ({
+      metadata_id: metadataId,
+      custodian_id: share.custodianId,
+      share_index: share.shareIndex,
+      wrapped_share: share.wrappedShare,
+      share_hash: share.shareHash,
+    })),
+  )
+  if (error) throw new Error(`Failed to store custody shares: ${error.message}`)
+}
+
+/**
+ * Open a recovery request for a custody record, reusing one that is still open
+ */
+export async function openCustodyRequest(metadataId: string, requestedBy: string): Promise<string> {
+  const admin = createAdminClient()
+  const { data: existing } = await admin
+    .from('custody_requests')
+    .select('id')
+    .eq('metadata_id', metadataId)
+    .eq('status', 'OPEN')
+    .maybeSingle()
+  if (existing) return existing.id as string
+
+  const { data, error } = await admin
+    .from('custody_requests')
+    .insert({ metadata_id: metadataId, requested_by: requestedBy, status: 'OPEN' })
+    .select('id')
+    .single()
+  if (error || !data) throw new Error(error?.message || 'Failed to open custody request')
+  return data.id as string
+}
+
+/**
+ * Approval progress for a custody record, for the owner's recovery page
+ */
+export async function getCustodyStatus(metadataId: string, threshold: number): Promise<CustodyStatus> {
+  const admin = createAdminClient()
+
+  const { data: shares, error } = await admin
+    .from('custody_shares')
+    .select('custodian_id, share_index, custodians(display_name)')
+    .eq('metadata_id', metadataId)
+    .order('share_index', { ascending: true })
+  if (error) throw new Error(`Failed to load custody shares: ${error.message}`)
+
+  const { data: request } = await admin
+    .from('custody_requests')
+    .select('id, status, created_at')
+    .eq('metadata_id', metadataId)
+    .eq('status', 'OPEN')
+    .maybeSingle()
+
+  const approvals = new Map<string, string>()
+  if (request) {
+    const { data } = await admin
+      .from('custody_approvals')
+      .select('custodian_id, approved_at')
+      .eq('request_id', request.id)
+    for (const row of data || []) approvals.set(row.custodian_id as string, row.approved_at as string)
+  }
+
+  return {
+    threshold,
+    request: request
+      ? { id: request.id as string, status: request.status as string, createdAt: request.created_at as string }
+      : null,
+    custodians: (shares || []).map((row: Record<string, any>) => ({
+      id: row.custodian_id,
+      displayName: row.custodians?.display_name || 'Unknown custodian',
+      shareIndex: row.share_index,
+      approvedAt: approvals.get(row.custodian_id) || null,
+    })),
+  }
+}
+
+/**
+ * Open requests waiting on this custodian's share
+ */
+export async function listCustodianTasks(custodianId: string): Promise<CustodianTask[]> {
+  const admin = createAdminClient()
+
+  const { data: shares, error } = await admin
+    .from('custody_shares')
+    .select('metadata_id, share_index, wrapped_share, metadata(original_filename)')
+    .eq('custodian_id', custodianId)
+  if (error) throw new Error(`Failed to load custody shares: ${error.message}`)
+  if (!shares || shares.length === 0) return []
+
+  const { data: requests } = await admin
+    .from('custody_requests')
+    .select('id, metadata_id, created_at, custody_approvals(custodian_id)')
+    .in('metadata_id', shares.map((s) => s.metadata_id))
+    .eq('status', 'OPEN')
+
+  const tasks: CustodianTask[] = []
+  for (const request of (requests || []) as Record<string, any>[]) {
+    const approved = (request.custody_approvals || []).some((a: { custodian_id: string }) => a.custodian_id === custodianId)
+    if (approved) continue
+    const share = shares.find((s) => s.metadata_id === request.metadata_id) as Record<string, any>
+    tasks.push({
+      requestId: request.id,
+      metadataId: request.metadata_id,
+      originalFilename: share.metadata?.original_filename || 'Unknown file',
+      requestedAt: request.created_at,
+      shareIndex: share.share_index,
+      wrappedShare: share.wrapped_share,
+    })
+  }
+  return tasks
+}
+
+/**
+ * Accept a custodian's unwrapped share for an open request.
+ * The share is checked against the hash recorded at upload, then sealed under
+ * the server key wrap provider until the request is fulfilled.
+ */
+export async function submitCustodyShare(
+  requestId: string,
+  custodianId: string,
+  shareBase64: string,
+): Promise<{ metadataId: string; shareIndex: number }> {
+  const admin = createAdminClient()
+
+  const { data: request } = await admin
+    .from('custody_requests')
+    .select('id, metadata_id, status')
+    .eq('id', requestId)
+    .single()
+  if (!request || request.status !== 'OPEN') throw new Error('Custody request is not open')
+
+  const { data: share } = await admin
+    .from('custody_shares')
+    .select('share_index, share_hash')
+    .eq('metadata_id', request.metadata_id)
+    .eq('custodian_id', custodianId)
+    .single()
+  if (!share) throw new Error('You do not hold a share for this file')
+
+  const payload = Buffer.from(shareBase64, 'base64')
+  const hash = crypto.createHash('sha256').update(payload).digest()
+  const expected = Buffer.from(share.share_hash as string, 'hex')
+  if (payload[0] !== share.share_index || !crypto.timingSafeEqual(hash, expected)) {
+    throw new Error('Submitted share does not match the share issued to you')
+  }
+
+  const provider = getKeyWrapProvider()
+  const { wrappedKey, keyId } = await provider.wrap(payload)
+  payload.fill(0)
+
+  const { error } = await admin.from('custody_approvals').insert({
+    request_id: requestId,
+    custodian_id: custodianId,
+    share_index: share.share_index,
+    sealed_share: wrappedKey,
+    key_id: keyId,
+    key_provider: provider.name,
+  })
+  if (error) throw new Error(error.code === '23505' ? 'Share already submitted' : error.message)
+
+  return { metadataId: request.metadata_id as string, shareIndex: share.share_index as number }
+}
+
+/**
+ * Rebuild the data key of a custody record from the approvals on its open
+ * request. Throws with the approval count when the threshold is not met.
+ */
+export async function rebuildCustodyKey(
+  metadataId: string,
+  threshold: number,
+): Promise<{ dataKey: Buffer; requestId: string }> {
+  const admin = createAdminClient()
+
+  const { data: request } = await admin
+    .from('custody_requests')
+    .select('id')
+    .eq('metadata_id', metadataId)
+    .eq('status', 'OPEN')
+    .maybeSingle()
+  if (!request) throw new Error('Custodian approval is required - open a recovery request first')
+
+  const { data: approvals, error } = await admin
+    .from('custody_approvals')
+    .select('share_index, sealed_share, key_id, key_provider')
+    .eq('request_id', request.id)
+    .order('share_index', { ascending: true })
+  if (error) throw new Error(`Failed to load approvals: ${error.message}`)
+
+  const count = approvals?.length || 0
+  if (count < threshold) {
+    throw new Error(`Awaiting custodian approvals (${count} of ${threshold})`)
+  }
+
+  const shares = await Promise.all(
+    approvals!.slice(0, threshold).map(async (approval) => {
+      const payload = await getKeyWrapProvider(approval.key_provider as string).unwrap(
+        approval.sealed_share as string,
+        approval.key_id as string,
+      )
+      return { index: payload[0], value: payload.subarray(1) }
+    }),
+  )
+
+  const dataKey = combineShares(shares)
+  shares.forEach((share) => share.value.fill(0))
+  return { dataKey, requestId: request.id as string }
+}
+
+/**
+ * Close a request after a successful recovery and drop its sealed shares
+ */
+export async function fulfilCustodyRequest(requestId: string): Promise<void> {
+  const admin = createAdminClient()
+  await admin
+    .from('custody_requests')
+    .update({ status: 'FULFILLED', fulfilled_at: new Date().toISOString() })
+    .eq('id', requestId)
+  await admin.from('custody_approvals').update({ sealed_share: 'CONSUMED' }).eq('request_id', requestId)
+}
@@ -41,7 +41,31 @@ export function validateEnvironment(): EnvironmentValidationResult {
     errors.push('RSA_PUBLIC_KEY is not set')
   }
 
+  // Server secret(s) for HKDF stego seed derivation (lib/stego-seed.ts)
+  if (!process.env.HSDC_STEGO_SEED_KEY && !process.env.HSDC_STEGO_SEED_KEY_IDS) {
+    errors.push('HSDC_STEGO_SEED_KEY is not set')
+  }
+  if (process.env.HSDC_STEGO_SEED_KEY && !/^(?:[0-9a-f]{2}){32,}$/i.test(process.env.HSDC_STEGO_SEED_KEY)) {
+    errors.push('HSDC_STEGO_SEED_KEY must be a hex-encoded key of at least 32 bytes')
+  }
+
+  // Signing key of the local ledger (lib/blockchain/ledger.ts): required once
+  // an operator opts in with HSDC_BLOCKCHAIN_BACKEND=ledger
+  if (!process.env.HSDC_LEDGER_SIGNING_KEY) {
+    if (process.env.HSDC_BLOCKCHAIN_BACKEND === 'ledger') {
+      errors.push('HSDC_LEDGER_SIGNING_KEY is not set')
+    } else {
+      warnings.push('HSDC_LEDGER_SIGNING_KEY is not set - the local ledger cannot be used or validated')
+    }
+  }
+
   // Optional but recommended
+  if (process.env.HSDC_EVM_RPC_URL && !process.env.CRON_SECRET) {
+    warnings.push('CRON_SECRET is not set - /api/v1/cron/anchor is disabled and EVM batches rely on the in-process timer')
+  }
+  if (!process.env.HSDC_RECEIPT_SIGNING_KEY) {
+    warnings.push('HSDC_RECEIPT_SIGNING_KEY is not set - verification receipts cannot be issued')
+  }
   if (!process.env.NODE_ENV) {
     warnings.push('NODE_ENV is not explicitly set')
   }
@@ -0,0 +1,237 @@
+// ============================================
+// HSDC Envelope Format
+// Self-describing header in front of every ciphertext
+// ============================================
+//
+//   magic "HENV"(4) || version(1) || suite(1) || flags(1) || fieldsLength(u16 BE) || fields
+//   field = type(1) || length(u16 BE) || value
+//
+// The auth tag field, when present, is always the last field. Everything
+// before it is authenticated as AEAD associated data, so changing the suite,
+// key ID or any other header byte makes decryption fail.
+//
+// Ciphertext written before the envelope existed has no magic and is
+// decrypted through the legacy paths in lib/crypto.ts.
+import type { SegmentCipher } from './stream-crypto'
+
+export const ENVELOPE_MAGIC = Buffer.from('HENV', 'ascii')
+export const ENVELOPE_VERSION = 1
+
+const FIXED_HEADER_SIZE = ENVELOPE_MAGIC.length + 1 + 1 + 1 + 2
+const FLAG_SEGMENTED = 0x01
+
+export const CIPHER_SUITES = {
+  'AES-256-GCM': { id: 0x01, cipher: 'aes-256-gcm' },
+  'CHACHA20-POLY1305': { id: 0x02, cipher: 'chacha20-poly1305' },
+} as const satisfies Record<string, { id: number; cipher: SegmentCipher }>
+
+export type CipherSuite = keyof typeof CIPHER_SUITES
+
+const FIELD = {
+  KDF: 0x01,
+  KEY_ID: 0x02,
+  KEY_PROVIDER: 0x03,
+  IV: 0x04,
+  WRAPPED_KEY: 0x05,
+  CONTEXT_HASH: 0x06,
+  AUTH_TAG: 0xff, // must be last
+} as const
+
+const KDF_IDS = { none: 0x00, 'hkdf-sha256': 0x01, 'pbkdf2-sha256': 0x02 } as const
+
+export type KdfParams =
+  | { id: 'none' }
+  | { id: 'hkdf-sha256'; salt: Buffer; info: string }
+  | { id: 'pbkdf2-sha256'; salt: Buffer; iterations: number }
+
+export interface EnvelopeHeader {
+  version: number
+  suite: CipherSuite
+  segmented: boolean
+  kdf: KdfParams
+  keyId?: string
+  keyProvider?: string
+  iv?: Buffer
+  wrappedKey?: Buffer
+  contextHash?: Buffer // present when the record context is bound as extra AAD
+  authTag?: Buffer
+}
+
+export interface ParsedEnvelope {
+  header: EnvelopeHeader
+  aad: Buffer  // raw header bytes up to (excluding) the tag field
+  body: Buffer // ciphertext following the header
+}
+
+function encodeKdf(kdf: KdfParams): Buffer {
+  switch (kdf.id) {
+    case 'none':
+      return Buffer.from([KDF_IDS.none])
+    case 'hkdf-sha256': {
+      const info = Buffer.from(kdf.info, 'utf8')
+      return Buffer.concat([Buffer.from([KDF_IDS['hkdf-sha256'], kdf.salt.length]), kdf.salt, info])
+    }
+    case 'pbkdf2-sha256': {
+      const iterations = Buffer.alloc(4)
+      iterations.writeUInt32BE(kdf.iterations, 0)
+      return Buffer.concat([Buffer.from([KDF_IDS['pbkdf2-sha256']]), iterations, kdf.salt])
+    }
+  }
+}
+
+function decodeKdf(value: Buffer): KdfParams {
+  switch (value[0]) {
+    case KDF_IDS.none:
+      return { id: 'none' }
+    case KDF_IDS['hkdf-sha256']: {
+      const saltLength = value[1]
+      return {
+        id: 'hkdf-sha256',
+        salt: Buffer.from(value.subarray(2, 2 + saltLength)),
+        info: value.subarray(2 + saltLength).toString('utf8'),
+      }
+    }
+    case KDF_IDS['pbkdf2-sha256']:
+      return {
+        id: 'pbkdf2-sha256',
+        iterations: value.readUInt32BE(1),
+        salt: Buffer.from(value.subarray(5)),
+      }
+    default:
+      throw new Error(`Unknown envelope KDF id ${value[0]}`)
+  }
+}
+
+function encodeField(type: number, value: Buffer): Buffer {
+  if (value.length > 0xffff) throw new Error('Envelope field too large')
+  const prefix = Buffer.alloc(3)
+  prefix[0] = type
+  prefix.writeUInt16BE(value.length, 1)
+  return Buffer.concat([prefix, value])
+}
+
+/**
+ * Look up a cipher suite by its wire ID
+ */
+function suiteById(id: number): CipherSuite {
+  for (const [name, suite] of Object.entries(CIPHER_SUITES)) {
+    if (suite.id === id) return name as CipherSuite
+  }
+  throw new Error(`Unsupported envelope cipher suite 0x${id.toString(16)}`)
+}
+
+/**
+ * Node cipher name for a suite
+ */
+export function suiteCipher(suite: CipherSuite): SegmentCipher {
+  return CIPHER_SUITES[suite].cipher
+}
+
+/**
+ * Human-readable label stored in metadata.encryption_algo
+ */
+export function suiteLabel(suite: CipherSuite, segmented: boolean): string {
+  return segmented ? `${suite}-STREAM` : suite
+}
+
+/**
+ * Serialize an envelope header
+ */
+export function encodeEnvelopeHeader(header: EnvelopeHeader): Buffer {
+  const fields: Buffer[] = [encodeField(FIELD.KDF, encodeKdf(header.kdf))]
+  if (header.keyId) fields.push(encodeField(FIELD.KEY_ID, Buffer.from(header.keyId, 'utf8')))
+  if (header.keyProvider) fields.push(encodeField(FIELD.KEY_PROVIDER, Buffer.from(header.keyProvider, 'utf8')))
+  if (header.iv) fields.push(encodeField(FIELD.IV, header.iv))
+  if (header.wrappedKey) fields.push(encodeField(FIELD.WRAPPED_KEY, header.wrappedKey))
+  if (header.contextHash) fields.push(encodeField(FIELD.CONTEXT_HASH, header.contextHash))
+  if (header.authTag) fields.push(encodeField(FIELD.AUTH_TAG, header.authTag))
+
+  const body = Buffer.concat(fields)
+  if (body.length > 0xffff) throw new Error('Envelope header too large')
+
+  const fixed = Buffer.alloc(FIXED_HEADER_SIZE)
+  ENVELOPE_MAGIC.copy(fixed, 0)
+  fixed[4] = header.version
+  fixed[5] = CIPHER_SUITES[header.suite].id
+  fixed[6] = header.segmented ? FLAG_SEGMENTED : 0
+  fixed.writeUInt16BE(body.length, 7)
+  return Buffer.concat([fixed, body])
+}
+
+/**
+ * Header bytes that are authenticated as AEAD associated data.
+ * The tag is excluded because it is only known after encryption.
+ */
+export function envelopeAad(header: EnvelopeHeader): Buffer {
+  return encodeEnvelopeHeader({ ...header, authTag: undefined })
+}
+
+/**
+ * Whether the data starts with an envelope header
+ */
+export function hasEnvelope(data: Buffer): boolean {
+  return data.length >= FIXED_HEADER_SIZE && data.subarray(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC)
+}
+
+/**
+ * Split an envelope into header and body. Returns null for pre-envelope ciphertext.
+ */
+export function parseEnvelope(data: Buffer): ParsedEnvelope | null {
+  if (!hasEnvelope(data)) return null
+
+  const version = data[4]
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version ${version}`)
+  }
+
+  const suite = suiteById(data[5])
+  const flags = data[6]
+  const fieldsLength = data.readUInt16BE(7)
+  const headerEnd = FIXED_HEADER_SIZE + fieldsLength
+  if (data.length < headerEnd) throw new Error('Truncated envelope header')
+
+  const header: EnvelopeHeader = {
+    version,
+    suite,
+    segmented: (flags & FLAG_SEGMENTED) !== 0,
+    kdf: { id: 'none' },
+  }
+
+  let offset = FIXED_HEADER_SIZE
+  let aadEnd = headerEnd
+  while (offset < headerEnd) {
+    const fieldStart = offset
+    const type = data[offset]
+    const length = data.readUInt16BE(offset + 1)
+    const value = Buffer.from(data.subarray(offset + 3, offset + 3 + length))
+    offset += 3 + length
+    if (offset > headerEnd) throw new Error('Malformed envelope field')
+
+    switch (type) {
+      case FIELD.KDF: header.kdf = decodeKdf(value); break
+      case FIELD.KEY_ID: header.keyId = value.toString('utf8'); break
+      case FIELD.KEY_PROVIDER: header.keyProvider = value.toString('utf8'); break
+      case FIELD.IV: header.iv = value; break
+      case FIELD.WRAPPED_KEY: header.wrappedKey = value; break
+      case FIELD.CONTEXT_HASH: header.contextHash = value; break
+      case FIELD.AUTH_TAG:
+        if (offset !== headerEnd) throw new Error('Envelope auth tag must be the last field')
+        header.authTag = value
+        aadEnd = fieldStart
+        break
+      // Unknown fields from newer writers are skipped, not rejected
+      default: break
+    }
+  }
+
+  // Associated data is the raw header up to the tag field, with the
+  // length adjusted as if the tag had never been appended
+  const aad = Buffer.from(data.subarray(0, aadEnd))
+  aad.writeUInt16BE(aadEnd - FIXED_HEADER_SIZE, 7)
+
+  return {
+    header,
+    aad,
+    body: data.subarray(headerEnd),
+  }
+}
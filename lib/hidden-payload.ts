@@ -0,0 +1,116 @@
+// ============================================
+// HSDC Hidden Payloads
+// Records of deniable second frames, kept out of the decoy owner's views
+// ============================================
+//
+// A hidden payload shares a carrier with an ordinary (decoy) record; the
+// frame layout is described in lib/stego.ts. It is always a passphrase
+// envelope sealed in the browser, so the server holds no key for it.
+//
+// Its row and audit trail live in hidden_payloads / hidden_payload_logs,
+// which have no user ID and are read only through the service role. A row
+// is found by decoy record and locator - a PBKDF2 derivation of the hidden
+// passphrase computed in the browser (deriveHiddenLocator) - of which only
+// the SHA-256 is stored. The metadata row, the activity log and the
+// blockchain anchor of the decoy say nothing about it.
+import crypto from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+const LOCATOR_PATTERN = /^[0-9a-f]{64}$/
+
+export type HiddenPayloadAction = 'UPLOAD' | 'RECOVERY'
+
+export interface HiddenPayloadRecord {
+  id: string
+  decoyMetadataId: string
+  locator: string
+  originalFilename: string
+  mimeType: string
+  fileSize: number
+  stegoSalt: string
+  stegoSeedKeyId: string
+  integrityHash: string
+}
+
+// A hidden_payloads row as the database returns it
+export interface HiddenPayloadRow {
+  id: string
+  decoy_metadata_id: string
+  locator_hash: string
+  original_filename: string
+  mime_type: string
+  file_size: number
+  stego_salt: string
+  stego_seed_key_id: string | null // null for rows from before seed key IDs
+  integrity_hash: string
+  created_at: string
+}
+
+/**
+ * True for a well-formed locator (hex SHA-256 sized)
+ */
+export function isHiddenLocator(value: unknown): value is string {
+  return typeof value === 'string' && LOCATOR_PATTERN.test(value)
+}
+
+function locatorHash(locator: string): string {
+  return crypto.createHash('sha256').update(locator, 'utf8').digest('hex')
+}
+
+/**
+ * Persist the record of a hidden payload embedded beside `decoyMetadataId`
+ */
+export async function storeHiddenPayload(record: HiddenPayloadRecord): Promise<void> {
+  const admin = createAdminClient()
+  const { error } = await admin.from('hidden_payloads').insert({
+    id: record.id,
+    decoy_metadata_id: record.decoyMetadataId,
+    locator_hash: locatorHash(record.locator),
+    original_filename: record.originalFilename,
+    mime_type: record.mimeType,
+    file_size: record.fileSize,
+    stego_salt: record.stegoSalt,
+    stego_seed_key_id: record.stegoSeedKeyId,
+    integrity_hash: record.integrityHash,
+  })
+  if (error) throw new Error(`Failed to store hidden payload: ${error.message}`)
+}
+
+/**
+ * Hidden payload row for a decoy record and locator, or null. Callers check
+ * that the decoy record belongs to the requesting user first.
+ */
+export async function findHiddenPayload(
+  decoyMetadataId: string,
+  locator: string,
+): Promise<HiddenPayloadRow | null> {
+  const admin = createAdminClient()
+  const { data, error } = await admin
+    .from('hidden_payloads')
+    .select('*')
+    .eq('decoy_metadata_id', decoyMetadataId)
+    .eq('locator_hash', locatorHash(locator))
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load hidden payload: ${error.message}`)
+  return data
+}
+
+/**
+ * Audit a hidden payload event. Like logActivity(), never throws.
+ */
+export async function logHiddenPayloadEvent(
+  hiddenPayloadId: string,
+  action: HiddenPayloadAction,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  try {
+    const admin = createAdminClient()
+    const { error } = await admin
+      .from('hidden_payload_logs')
+      .insert({ hidden_payload_id: hiddenPayloadId, action, details })
+    if (error) console.error(`[HIDDEN AUDIT ERROR] Failed to log ${action}:`, error.message)
+  } catch (error) {
+    console.error('[HIDDEN AUDIT ERROR] Unexpected error:', error instanceof Error ? error.message : String(error))
+  }
+}
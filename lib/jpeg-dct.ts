@@ -0,0 +1,544 @@
+// ============================================
+// HSDC JPEG Coefficient Codec
+// Baseline Huffman JPEG <-> quantized DCT coefficients, with no IDCT
+// ============================================
+//
+// Decoding stops at the quantized coefficients and encoding starts from
+// them, so a decode/encode round trip reproduces the image exactly. Every
+// segment except the Huffman tables and the restart interval is copied
+// through unchanged; the output uses the typical tables of ITU-T T.81
+// Annex K.3 and no restart markers. Progressive, lossless, arithmetic-coded
+// and 12-bit JPEGs are refused.
+
+const SOI = 0xd8
+const EOI = 0xd9
+const SOS = 0xda
+const DHT = 0xc4
+const DRI = 0xdd
+const RST0 = 0xd0
+const RST7 = 0xd7
+const BASELINE_FRAMES = new Set([0xc0, 0xc1])
+const OTHER_FRAMES = new Set([0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf])
+
+export interface JpegComponent {
+  id: number
+  h: number
+  v: number
+  blocksPerLine: number // padded to whole MCUs
+  blocksPerColumn: number
+  visibleBlocksPerLine: number // blocks that cover image samples, always coded
+  visibleBlocksPerColumn: number
+  blockOffset: number // first block of this component in JpegImage.coefficients
+}
+
+export interface JpegImage {
+  width: number
+  height: number
+  components: JpegComponent[]
+  scans: number[][] // component indices of each scan, in file order
+  segments: Buffer[] // marker segments written back verbatim (APPn, COM, DQT, SOF)
+  coefficients: Int16Array // 64 per block in zigzag order, components back to back
+}
+
+interface HuffmanDecoder {
+  maxCode: Int32Array
+  valPtr: Int32Array
+  minCode: Int32Array
+  values: Uint8Array
+}
+
+interface HuffmanEncoder {
+  codes: Uint16Array
+  sizes: Uint8Array
+}
+
+interface HuffmanSpec {
+  bits: number[] // number of codes of each length 1-16
+  values: number[]
+}
+
+// ITU-T T.81 Annex K.3 typical tables
+const DC_LUMINANCE: HuffmanSpec = {
+  bits: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+const DC_CHROMINANCE: HuffmanSpec = {
+  bits: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+const AC_LUMINANCE: HuffmanSpec = {
+  bits: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  values: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71,
+    0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
+    0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37,
+    0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
+    0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83,
+    0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+}
+const AC_CHROMINANCE: HuffmanSpec = {
+  bits: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  values: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71, 0x13, 0x22,
+    0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1,
+    0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x35, 0x36,
+    0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58,
+    0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a,
+    0x82, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a,
+    0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba,
+    0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+}
+
+/**
+ * True when the buffer starts with a JPEG SOI marker
+ */
+export function isJpeg(data: Buffer): boolean {
+  return data.length > 3 && data[0] === 0xff && data[1] === SOI && data[2] === 0xff
+}
+
+// Canonical code assignment (T.81 Annex C)
+function canonicalCodes(spec: HuffmanSpec): { codes: number[]; sizes: number[] } {
+  const codes: number[] = []
+  const sizes: number[] = []
+  let code = 0
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.bits[length - 1]; i++) {
+      codes.push(code++)
+      sizes.push(length)
+    }
+    code <<= 1
+  }
+  return { codes, sizes }
+}
+
+// Decoding tables of T.81 F.2.2.3
+function huffmanDecoder(spec: HuffmanSpec): HuffmanDecoder {
+  const { codes } = canonicalCodes(spec)
+  const maxCode = new Int32Array(18).fill(-1)
+  const valPtr = new Int32Array(17)
+  const minCode = new Int32Array(17)
+  let k = 0
+  for (let length = 1; length <= 16; length++) {
+    const count = spec.bits[length - 1]
+    if (count === 0) continue
+    valPtr[length] = k
+    minCode[length] = codes[k]
+    k += count
+    maxCode[length] = codes[k - 1]
+  }
+  maxCode[17] = 0x7fffffff
+  return { maxCode, valPtr, minCode, values: Uint8Array.from(spec.values) }
+}
+
+function huffmanEncoder(spec: HuffmanSpec): HuffmanEncoder {
+  const { codes, sizes } = canonicalCodes(spec)
+  const table: HuffmanEncoder = { codes: new Uint16Array(256), sizes: new Uint8Array(256) }
+  spec.values.forEach((value, i) => {
+    table.codes[value] = codes[i]
+    table.sizes[value] = sizes[i]
+  })
+  return table
+}
+
+class BitReader {
+  private buffer = 0
+  private count = 0
+
+  constructor(
+    private readonly data: Buffer,
+    public offset: number,
+  ) {}
+
+  bit(): number {
+    if (this.count === 0) {
+      if (this.offset >= this.data.length) throw new Error('Unexpected end of JPEG data')
+      const byte = this.data[this.offset++]
+      if (byte === 0xff) {
+        if (this.data[this.offset] !== 0) throw new Error('Unexpected marker in JPEG scan')
+        this.offset++
+      }
+      this.buffer = byte
+      this.count = 8
+    }
+    this.count--
+    return (this.buffer >> this.count) & 1
+  }
+
+  bits(length: number): number {
+    let value = 0
+    for (let i = 0; i < length; i++) value = (value << 1) | this.bit()
+    return value
+  }
+
+  decode(table: HuffmanDecoder): number {
+    let code = this.bit()
+    let length = 1
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.bit()
+      if (++length > 16) throw new Error('Invalid Huffman code in JPEG scan')
+    }
+    return table.values[table.valPtr[length] + code - table.minCode[length]]
+  }
+
+  // Drop the partial byte and step over an RSTn marker (and any fill bytes before it)
+  restart() {
+    this.count = 0
+    while (this.data[this.offset] === 0xff && this.data[this.offset + 1] === 0xff) this.offset++
+    const marker = this.data[this.offset + 1]
+    if (this.data[this.offset] !== 0xff || marker < RST0 || marker > RST7) {
+      throw new Error('Missing restart marker in JPEG scan')
+    }
+    this.offset += 2
+  }
+}
+
+class BitWriter {
+  private chunks: Buffer[] = []
+  private chunk = Buffer.alloc(64 * 1024)
+  private length = 0
+  private buffer = 0
+  private count = 0
+
+  write(value: number, size: number) {
+    for (let i = size - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1)
+      if (++this.count === 8) {
+        this.byte(this.buffer)
+        if (this.buffer === 0xff) this.byte(0)
+        this.buffer = 0
+        this.count = 0
+      }
+    }
+  }
+
+  // Pad the last byte with 1-bits, as T.81 F.1.2.3 requires
+  finish(): Buffer {
+    if (this.count > 0) this.write(0x7f, 8 - this.count)
+    this.chunks.push(this.chunk.subarray(0, this.length))
+    return Buffer.concat(this.chunks)
+  }
+
+  private byte(value: number) {
+    if (this.length === this.chunk.length) {
+      this.chunks.push(this.chunk)
+      this.chunk = Buffer.alloc(this.chunk.length)
+      this.length = 0
+    }
+    this.chunk[this.length++] = value
+  }
+}
+
+function extend(value: number, size: number): number {
+  return value < 1 << (size - 1) ? value - (1 << size) + 1 : value
+}
+
+function magnitudeCategory(value: number): number {
+  let magnitude = Math.abs(value)
+  let size = 0
+  while (magnitude > 0) {
+    size++
+    magnitude >>= 1
+  }
+  return size
+}
+
+function segment(marker: number, body: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0])
+  header.writeUInt16BE(body.length + 2, 2)
+  return Buffer.concat([header, body])
+}
+
+function parseHuffmanTables(body: Buffer, tables: Map<number, HuffmanDecoder>) {
+  let offset = 0
+  while (offset < body.length) {
+    const classAndId = body[offset]
+    const bits = Array.from(body.subarray(offset + 1, offset + 17))
+    const count = bits.reduce((n, b) => n + b, 0)
+    const values = Array.from(body.subarray(offset + 17, offset + 17 + count))
+    tables.set(classAndId, huffmanDecoder({ bits, values }))
+    offset += 17 + count
+  }
+}
+
+function parseFrame(body: Buffer): Pick<JpegImage, 'width' | 'height' | 'components'> {
+  if (body[0] !== 8) throw new Error('Only 8-bit JPEGs are supported as carriers')
+  const height = body.readUInt16BE(1)
+  const width = body.readUInt16BE(3)
+  if (!width || !height) throw new Error('JPEG has no dimensions in its frame header')
+
+  const count = body[5]
+  const raw = Array.from({ length: count }, (_, i) => ({
+    id: body[6 + i * 3],
+    h: body[7 + i * 3] >> 4,
+    v: body[7 + i * 3] & 15,
+  }))
+  const maxH = Math.max(...raw.map((c) => c.h))
+  const maxV = Math.max(...raw.map((c) => c.v))
+  const mcusPerLine = Math.ceil(width / (8 * maxH))
+  const mcusPerColumn = Math.ceil(height / (8 * maxV))
+
+  let blockOffset = 0
+  const components = raw.map((c) => {
+    const component: JpegComponent = {
+      ...c,
+      blocksPerLine: mcusPerLine * c.h,
+      blocksPerColumn: mcusPerColumn * c.v,
+      visibleBlocksPerLine: Math.ceil(Math.ceil((width * c.h) / maxH) / 8),
+      visibleBlocksPerColumn: Math.ceil(Math.ceil((height * c.v) / maxV) / 8),
+      blockOffset,
+    }
+    blockOffset += component.blocksPerLine * component.blocksPerColumn
+    return component
+  })
+  return { width, height, components }
+}
+
+function decodeBlock(
+  reader: BitReader,
+  coefficients: Int16Array,
+  offset: number,
+  dc: HuffmanDecoder,
+  ac: HuffmanDecoder,
+  predictor: number,
+): number {
+  const dcSize = reader.decode(dc)
+  const value = predictor + (dcSize === 0 ? 0 : extend(reader.bits(dcSize), dcSize))
+  coefficients[offset] = value
+
+  for (let k = 1; k < 64; ) {
+    const rs = reader.decode(ac)
+    const run = rs >> 4
+    const size = rs & 15
+    if (size === 0) {
+      if (run !== 15) break // EOB
+      k += 16
+      continue
+    }
+    k += run
+    if (k > 63) throw new Error('Corrupt JPEG block')
+    coefficients[offset + k] = extend(reader.bits(size), size)
+    k++
+  }
+  return value
+}
+
+// Blocks of a scan in coding order: MCU by MCU when interleaved, otherwise
+// the component's own raster of visible blocks
+function scanBlocks(image: JpegImage, scan: number[], visit: (component: number, block: number) => void, onMcu: () => void) {
+  const components = scan.map((i) => image.components[i])
+  if (components.length === 1) {
+    const c = components[0]
+    for (let row = 0; row < c.visibleBlocksPerColumn; row++) {
+      for (let col = 0; col < c.visibleBlocksPerLine; col++) {
+        onMcu()
+        visit(scan[0], c.blockOffset + row * c.blocksPerLine + col)
+      }
+    }
+    return
+  }
+
+  const maxH = Math.max(...image.components.map((c) => c.h))
+  const maxV = Math.max(...image.components.map((c) => c.v))
+  const mcusPerLine = Math.ceil(image.width / (8 * maxH))
+  const mcusPerColumn = Math.ceil(image.height / (8 * maxV))
+  for (let mcuRow = 0; mcuRow < mcusPerColumn; mcuRow++) {
+    for (let mcuCol = 0; mcuCol < mcusPerLine; mcuCol++) {
+      onMcu()
+      components.forEach((c, i) => {
+        for (let v = 0; v < c.v; v++) {
+          for (let h = 0; h < c.h; h++) {
+            const row = mcuRow * c.v + v
+            const col = mcuCol * c.h + h
+            visit(scan[i], c.blockOffset + row * c.blocksPerLine + col)
+          }
+        }
+      })
+    }
+  }
+}
+
+/**
+ * Parse a baseline JPEG into its quantized DCT coefficients
+ */
+export function decodeJpeg(data: Buffer): JpegImage {
+  if (!isJpeg(data)) throw new Error('Not a JPEG image')
+
+  const tables = new Map<number, HuffmanDecoder>()
+  const segments: Buffer[] = []
+  let image: JpegImage | null = null
+  let restartInterval = 0
+  let offset = 2
+
+  while (offset < data.length) {
+    if (data[offset] !== 0xff) throw new Error('Corrupt JPEG marker structure')
+    const marker = data[offset + 1]
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === EOI) break
+
+    const length = data.readUInt16BE(offset + 2)
+    const body = data.subarray(offset + 4, offset + 2 + length)
+    const end = offset + 2 + length
+
+    if (OTHER_FRAMES.has(marker)) {
+      throw new Error('Only baseline JPEGs are supported as carriers (re-save without progressive encoding)')
+    }
+
+    if (marker === DHT) {
+      parseHuffmanTables(body, tables)
+      offset = end
+    } else if (marker === DRI) {
+      restartInterval = body.readUInt16BE(0)
+      offset = end
+    } else if (marker === SOS) {
+      if (!image) throw new Error('JPEG scan before frame header')
+      const count = body[0]
+      const scan: number[] = []
+      const decoders: { dc: HuffmanDecoder; ac: HuffmanDecoder }[] = []
+      for (let i = 0; i < count; i++) {
+        const index = image.components.findIndex((c) => c.id === body[1 + i * 2])
+        const dc = tables.get(body[2 + i * 2] >> 4)
+        const ac = tables.get(0x10 | (body[2 + i * 2] & 15))
+        if (index < 0 || !dc || !ac) throw new Error('JPEG scan references an undefined component or table')
+        scan.push(index)
+        decoders[index] = { dc, ac }
+      }
+      const ss = body[1 + count * 2]
+      const se = body[2 + count * 2]
+      if (ss !== 0 || se !== 63 || body[3 + count * 2] !== 0) throw new Error('Unsupported JPEG scan parameters')
+
+      const reader = new BitReader(data, end)
+      const predictors = new Array<number>(image.components.length).fill(0)
+      let mcus = 0
+      const coefficients = image.coefficients
+      scanBlocks(
+        image,
+        scan,
+        (component, block) => {
+          const { dc, ac } = decoders[component]
+          predictors[component] = decodeBlock(reader, coefficients, block * 64, dc, ac, predictors[component])
+        },
+        () => {
+          if (restartInterval > 0 && mcus > 0 && mcus % restartInterval === 0) {
+            reader.restart()
+            predictors.fill(0)
+          }
+          mcus++
+        },
+      )
+      image.scans.push(scan)
+
+      // Continue at the next marker after the entropy-coded data
+      offset = reader.offset
+      while (
+        offset < data.length - 1 &&
+        !(data[offset] === 0xff && data[offset + 1] !== 0 && (data[offset + 1] < RST0 || data[offset + 1] > RST7))
+      ) {
+        offset++
+      }
+    } else {
+      if (BASELINE_FRAMES.has(marker)) {
+        const frame = parseFrame(body)
+        const blocks = frame.components.reduce((n, c) => n + c.blocksPerLine * c.blocksPerColumn, 0)
+        image = { ...frame, scans: [], segments, coefficients: new Int16Array(blocks * 64) }
+      }
+      segments.push(data.subarray(offset, end))
+      offset = end
+    }
+  }
+
+  if (!image || image.scans.length === 0) throw new Error('JPEG contains no image data')
+  const scanned = new Set(image.scans.flat())
+  if (scanned.size !== image.components.length) throw new Error('Incomplete JPEG: a component has no scan')
+  return image
+}
+
+function huffmanTableSegment(): Buffer {
+  const specs: [number, HuffmanSpec][] = [
+    [0x00, DC_LUMINANCE],
+    [0x10, AC_LUMINANCE],
+    [0x01, DC_CHROMINANCE],
+    [0x11, AC_CHROMINANCE],
+  ]
+  return segment(
+    DHT,
+    Buffer.concat(specs.map(([classAndId, spec]) => Buffer.from([classAndId, ...spec.bits, ...spec.values]))),
+  )
+}
+
+function encodeBlock(
+  writer: BitWriter,
+  coefficients: Int16Array,
+  offset: number,
+  dc: HuffmanEncoder,
+  ac: HuffmanEncoder,
+  predictor: number,
+): number {
+  const diff = coefficients[offset] - predictor
+  const dcSize = magnitudeCategory(diff)
+  writer.write(dc.codes[dcSize], dc.sizes[dcSize])
+  if (dcSize > 0) writer.write(diff < 0 ? diff + (1 << dcSize) - 1 : diff, dcSize)
+
+  let run = 0
+  for (let k = 1; k < 64; k++) {
+    const value = coefficients[offset + k]
+    if (value === 0) {
+      run++
+      continue
+    }
+    for (; run > 15; run -= 16) writer.write(ac.codes[0xf0], ac.sizes[0xf0])
+    const size = magnitudeCategory(value)
+    const symbol = (run << 4) | size
+    writer.write(ac.codes[symbol], ac.sizes[symbol])
+    writer.write(value < 0 ? value + (1 << size) - 1 : value, size)
+    run = 0
+  }
+  if (run > 0) writer.write(ac.codes[0x00], ac.sizes[0x00])
+  return coefficients[offset]
+}
+
+/**
+ * Write a JPEG back out from (possibly modified) coefficients
+ */
+export function encodeJpeg(image: JpegImage): Buffer {
+  const luminance = { dc: huffmanEncoder(DC_LUMINANCE), ac: huffmanEncoder(AC_LUMINANCE) }
+  const chrominance = { dc: huffmanEncoder(DC_CHROMINANCE), ac: huffmanEncoder(AC_CHROMINANCE) }
+  const out: Buffer[] = [Buffer.from([0xff, SOI]), ...image.segments, huffmanTableSegment()]
+
+  for (const scan of image.scans) {
+    const header = Buffer.alloc(1 + scan.length * 2 + 3)
+    header[0] = scan.length
+    scan.forEach((index, i) => {
+      header[1 + i * 2] = image.components[index].id
+      header[2 + i * 2] = index === 0 ? 0x00 : 0x11
+    })
+    header[1 + scan.length * 2] = 0
+    header[2 + scan.length * 2] = 63
+    header[3 + scan.length * 2] = 0
+    out.push(segment(SOS, header))
+
+    const writer = new BitWriter()
+    const predictors = new Array<number>(image.components.length).fill(0)
+    scanBlocks(
+      image,
+      scan,
+      (component, block) => {
+        const { dc, ac } = component === 0 ? luminance : chrominance
+        predictors[component] = encodeBlock(writer, image.coefficients, block * 64, dc, ac, predictors[component])
+      },
+      () => {},
+    )
+    out.push(writer.finish())
+  }
+
+  out.push(Buffer.from([0xff, EOI]))
+  return Buffer.concat(out)
+}
@@ -0,0 +1,189 @@
+// ============================================
+// HSDC Master Key Rotation
+// Re-wraps every stored AES key under the active provider and key
+// ============================================
+import { createAdminClient } from '@/lib/supabase/admin'
+import { rewrapKey, CUSTODY_KEY_PROVIDER, PASSPHRASE_KEY_PROVIDER } from './crypto'
+import { LEGACY_KEY_ID } from './keyring'
+import { LEGACY_PROVIDER } from './key-wrap'
+import { logKeyRewrap } from './audit'
+
+const DEFAULT_BATCH_SIZE = 100
+
+// Rows whose data key the server never wraps: zero-knowledge and custody records
+export const UNWRAPPED_KEY_PROVIDERS = [PASSPHRASE_KEY_PROVIDER, CUSTODY_KEY_PROVIDER]
+
+export interface KeyRotationSummary {
+  toProvider: string
+  toKeyId: string
+  rewrapped: number
+  skipped: number
+  failed: number
+  failedIds: string[]
+}
+
+interface KeyRotationOptions {
+  actorUserId: string
+  toProvider: string
+  toKeyId: string
+  jobId?: string
+  batchSize?: number
+}
+
+/**
+ * Walk the metadata table in ID order and re-wrap each AES key that is not
+ * already under `toProvider`/`toKeyId`. Only the wrapped key columns change;
+ * the ciphertext embedded in the stego images stays valid.
+ *
+ * Each update is guarded on the old wrapped key so a concurrent rotation or
+ * crypto-shred of the same row is never overwritten.
+ */
+export async function rewrapAllKeys(options: KeyRotationOptions): Promise<KeyRotationSummary> {
+  const supabase = createAdminClient()
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE
+  const summary: KeyRotationSummary = {
+    toProvider: options.toProvider,
+    toKeyId: options.toKeyId,
+    rewrapped: 0,
+    skipped: 0,
+    failed: 0,
+    failedIds: [],
+  }
+
+  let cursor: string | null = null
+
+  for (;;) {
+    let query = supabase
+      .from('metadata')
+      .select('id, encrypted_key, key_id, key_provider, status')
+      .order('id', { ascending: true })
+      .limit(batchSize)
+    if (cursor) query = query.gt('id', cursor)
+
+    const { data: rows, error } = await query
+    if (error) throw new Error(`Failed to read metadata batch: ${error.message}`)
+    if (!rows || rows.length === 0) break
+
+    for (const row of rows) {
+      const fromKeyId: string = row.key_id || LEGACY_KEY_ID
+      const fromProvider: string = row.key_provider || LEGACY_PROVIDER
+      const alreadyCurrent = fromProvider === options.toProvider && fromKeyId === options.toKeyId
+
+      // Shredded rows have no key left to protect; unwrapped rows never had one
+      if (alreadyCurrent || row.encrypted_key === 'SHREDDED' || UNWRAPPED_KEY_PROVIDERS.includes(fromProvider)) {
+        summary.skipped++
+        continue
+      }
+
+      try {
+        const rewrapped = await rewrapKey(
+          row.encrypted_key,
+          { keyProvider: fromProvider, keyId: fromKeyId },
+          { keyProvider: options.toProvider, keyId: options.toKeyId },
+        )
+
+        const { data: updated, error: updateError } = await supabase
+          .from('metadata')
+          .update({
+            encrypted_key: rewrapped.encryptedKey,
+            key_id: rewrapped.keyId,
+            key_provider: rewrapped.keyProvider,
+          })
+          .eq('id', row.id)
+          .eq('encrypted_key', row.encrypted_key)
+          .select('id')
+
+        if (updateError) throw new Error(updateError.message)
+        if (!updated || updated.length === 0) {
+          // Row changed underneath us - leave it to the next run
+          summary.skipped++
+          continue
+        }
+
+        await logKeyRewrap(options.actorUserId, row.id, {
+          fromProvider,
+          fromKeyId,
+          toProvider: rewrapped.keyProvider,
+          toKeyId: rewrapped.keyId,
+          jobId: options.jobId,
+        })
+        summary.rewrapped++
+      } catch (err) {
+        console.error(`[KEY ROTATION] Failed to re-wrap ${row.id}:`, err instanceof Error ? err.message : err)
+        summary.failed++
+        summary.failedIds.push(row.id)
+      }
+    }
+
+    cursor = rows[rows.length - 1].id
+    if (rows.length < batchSize) break
+  }
+
+  return summary
+}
+
+/**
+ * Execute a KEY_ROTATION job from the `workers` table and record its outcome
+ */
+export async function runKeyRotationJob(jobId: string): Promise<KeyRotationSummary | null> {
+  const supabase = createAdminClient()
+
+  const { data: job, error } = await supabase
+    .from('workers')
+    .update({
+      status: 'RUNNING',
+      locked_at: new Date().toISOString(),
+      locked_by: 'key-rotation',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('status', 'PENDING')
+    .select('id, payload, attempts')
+    .single()
+
+  // Already picked up by another invocation
+  if (error || !job) return null
+
+  const payload = job.payload as {
+    to_provider: string
+    to_key_id: string
+    actor_user_id: string
+    batch_size?: number
+  }
+
+  try {
+    const summary = await rewrapAllKeys({
+      actorUserId: payload.actor_user_id,
+      toProvider: payload.to_provider,
+      toKeyId: payload.to_key_id,
+      jobId,
+      batchSize: payload.batch_size,
+    })
+
+    await supabase
+      .from('workers')
+      .update({
+        status: summary.failed > 0 ? 'FAILED' : 'COMPLETED',
+        attempts: (job.attempts || 0) + 1,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        payload: { ...payload, summary },
+        last_error: summary.failed > 0 ? `${summary.failed} key(s) could not be re-wrapped` : null,
+      })
+      .eq('id', jobId)
+
+    return summary
+  } catch (err) {
+    await supabase
+      .from('workers')
+      .update({
+        status: 'FAILED',
+        attempts: (job.attempts || 0) + 1,
+        failed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        last_error: err instanceof Error ? err.message : String(err),
+      })
+      .eq('id', jobId)
+    throw err
+  }
+}
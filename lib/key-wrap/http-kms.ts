@@ -0,0 +1,65 @@
+// ============================================
+// HTTP KMS Key Wrap Provider
+// Delegates wrap/unwrap to a remote key management service
+// ============================================
+import type { KeyWrapProvider, WrappedKey } from './provider'
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+interface HttpKmsConfig {
+  baseUrl: string
+  keyId: string
+  token?: string
+}
+
+/**
+ * Remote KMS over JSON/HTTP. The private key material never enters this process.
+ *
+ *   POST {baseUrl}/wrap   { keyId, plaintext }  -> { keyId, ciphertext }
+ *   POST {baseUrl}/unwrap { keyId, ciphertext } -> { plaintext }
+ *
+ * All binary fields are base64. `scripts/kms-dev-server.mjs` implements the
+ * same contract for local testing.
+ */
+export class HttpKmsKeyWrapProvider implements KeyWrapProvider {
+  readonly name = 'http-kms'
+
+  constructor(private readonly config: HttpKmsConfig) {}
+
+  activeKeyId(): string {
+    return this.config.keyId
+  }
+
+  private async call<T>(operation: 'wrap' | 'unwrap', body: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/${operation}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(`KMS ${operation} failed with HTTP ${response.status}`)
+    }
+    return (await response.json()) as T
+  }
+
+  async wrap(dataKey: Buffer, keyId: string = this.activeKeyId()): Promise<WrappedKey> {
+    const result = await this.call<{ keyId: string; ciphertext: string }>('wrap', {
+      keyId,
+      plaintext: dataKey.toString('base64'),
+    })
+    return { wrappedKey: result.ciphertext, keyId: result.keyId || keyId }
+  }
+
+  async unwrap(wrappedKey: string, keyId: string): Promise<Buffer> {
+    const result = await this.call<{ plaintext: string }>('unwrap', {
+      keyId,
+      ciphertext: wrappedKey,
+    })
+    return Buffer.from(result.plaintext, 'base64')
+  }
+}
@@ -0,0 +1,59 @@
+// ============================================
+// HSDC Key Wrap Provider Registry
+// ============================================
+import { getRequiredEnv } from '../env'
+import { LocalRsaKeyWrapProvider } from './local-rsa'
+import { SoftHsmKeyWrapProvider } from './soft-hsm'
+import { HttpKmsKeyWrapProvider } from './http-kms'
+import type { KeyWrapProvider } from './provider'
+
+export type { KeyWrapProvider, WrappedKey } from './provider'
+
+/**
+ * Provider recorded on rows written before providers were configurable
+ */
+export const LEGACY_PROVIDER = 'local-rsa'
+
+const _providers = new Map<string, KeyWrapProvider>()
+
+function createProvider(name: string): KeyWrapProvider {
+  switch (name) {
+    case 'local-rsa':
+      return new LocalRsaKeyWrapProvider()
+    case 'softhsm':
+      return new SoftHsmKeyWrapProvider(
+        getRequiredEnv('HSDC_SOFTHSM_PATH'),
+        getRequiredEnv('HSDC_SOFTHSM_PIN'),
+      )
+    case 'http-kms':
+      return new HttpKmsKeyWrapProvider({
+        baseUrl: getRequiredEnv('HSDC_KMS_URL'),
+        keyId: getRequiredEnv('HSDC_KMS_KEY_ID'),
+        token: process.env.HSDC_KMS_TOKEN,
+      })
+    default:
+      throw new Error(`Unknown key wrap provider "${name}"`)
+  }
+}
+
+/**
+ * Name of the provider new uploads are wrapped with (HSDC_KEY_PROVIDER)
+ */
+export function getActiveProviderName(): string {
+  return process.env.HSDC_KEY_PROVIDER || LEGACY_PROVIDER
+}
+
+/**
+ * Get a provider by name, defaulting to the configured active provider.
+ * Existing rows must pass their recorded provider so they keep decrypting
+ * after the active provider changes.
+ */
+export function getKeyWrapProvider(name?: string | null): KeyWrapProvider {
+  const providerName = name || getActiveProviderName()
+  let provider = _providers.get(providerName)
+  if (!provider) {
+    provider = createProvider(providerName)
+    _providers.set(providerName, provider)
+  }
+  return provider
+}
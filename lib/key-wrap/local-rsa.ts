@@ -0,0 +1,38 @@
+// ============================================
+// Local RSA Key Wrap Provider
+// RSA-2048 OAEP with keys held in the app process
+// ============================================
+import crypto from 'crypto'
+import { getActiveKeyId, getPublicKey, getPrivateKey } from '../keyring'
+import type { KeyWrapProvider, WrappedKey } from './provider'
+
+export class LocalRsaKeyWrapProvider implements KeyWrapProvider {
+  readonly name = 'local-rsa'
+
+  activeKeyId(): string {
+    return getActiveKeyId()
+  }
+
+  async wrap(dataKey: Buffer, keyId: string = this.activeKeyId()): Promise<WrappedKey> {
+    const wrapped = crypto.publicEncrypt(
+      {
+        key: getPublicKey(keyId),
+        padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: 'sha256',
+      },
+      dataKey,
+    )
+    return { wrappedKey: wrapped.toString('base64'), keyId }
+  }
+
+  async unwrap(wrappedKey: string, keyId: string): Promise<Buffer> {
+    return crypto.privateDecrypt(
+      {
+        key: getPrivateKey(keyId),
+        padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: 'sha256',
+      },
+      Buffer.from(wrappedKey, 'base64'),
+    )
+  }
+}
@@ -0,0 +1,20 @@
+// ============================================
+// HSDC Key Wrap Provider Interface
+// ============================================
+
+export interface WrappedKey {
+  wrappedKey: string // base64-encoded wrapped AES key
+  keyId: string      // provider-specific ID of the wrapping key
+}
+
+/**
+ * Wraps and unwraps per-file AES data keys.
+ * Implementations decide where the key-encryption key lives:
+ * in-process RSA, an on-disk software HSM, or a remote KMS.
+ */
+export interface KeyWrapProvider {
+  readonly name: string
+  activeKeyId(): string
+  wrap(dataKey: Buffer, keyId?: string): Promise<WrappedKey>
+  unwrap(wrappedKey: string, keyId: string): Promise<Buffer>
+}
@@ -0,0 +1,133 @@
+// ============================================
+// Software HSM Key Wrap Provider
+// AES-256 key-encryption keys sealed in a PIN-protected keystore file
+// ============================================
+import crypto from 'crypto'
+import fs from 'fs'
+import type { KeyWrapProvider, WrappedKey } from './provider'
+
+const KEYSTORE_VERSION = 1
+const KEK_BYTES = 32
+const IV_BYTES = 12
+const TAG_BYTES = 16
+const SCRYPT_PARAMS = { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }
+
+interface SealedKey {
+  iv: string
+  tag: string
+  material: string
+  createdAt: string
+}
+
+interface SoftHsmKeystore {
+  version: number
+  activeKeyId: string
+  salt: string
+  keys: Record<string, SealedKey>
+}
+
+function derivePinKey(pin: string, salt: string): Buffer {
+  return crypto.scryptSync(pin, Buffer.from(salt, 'hex'), KEK_BYTES, SCRYPT_PARAMS)
+}
+
+function readKeystore(path: string): SoftHsmKeystore {
+  const keystore = JSON.parse(fs.readFileSync(path, 'utf8')) as SoftHsmKeystore
+  if (keystore.version !== KEYSTORE_VERSION) {
+    throw new Error(`Unsupported soft HSM keystore version ${keystore.version}`)
+  }
+  return keystore
+}
+
+function sealKey(pinKey: Buffer, keyId: string, kek: Buffer): SealedKey {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv('aes-256-gcm', pinKey, iv, { authTagLength: TAG_BYTES })
+  cipher.setAAD(Buffer.from(keyId, 'utf8'))
+  const material = Buffer.concat([cipher.update(kek), cipher.final()])
+  return {
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    material: material.toString('hex'),
+    createdAt: new Date().toISOString(),
+  }
+}
+
+function unsealKey(pinKey: Buffer, keyId: string, sealed: SealedKey): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', pinKey, Buffer.from(sealed.iv, 'hex'), {
+    authTagLength: TAG_BYTES,
+  })
+  decipher.setAAD(Buffer.from(keyId, 'utf8'))
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'hex'))
+  return Buffer.concat([decipher.update(Buffer.from(sealed.material, 'hex')), decipher.final()])
+}
+
+/**
+ * Add a freshly generated KEK to a keystore, creating the file if needed.
+ * Used for initial provisioning and for rotating the soft HSM key.
+ */
+export function addSoftHsmKey(path: string, pin: string, keyId: string, makeActive: boolean = true): void {
+  const keystore: SoftHsmKeystore = fs.existsSync(path)
+    ? readKeystore(path)
+    : { version: KEYSTORE_VERSION, activeKeyId: keyId, salt: crypto.randomBytes(16).toString('hex'), keys: {} }
+
+  if (keystore.keys[keyId]) throw new Error(`Soft HSM key "${keyId}" already exists`)
+
+  const pinKey = derivePinKey(pin, keystore.salt)
+  keystore.keys[keyId] = sealKey(pinKey, keyId, crypto.randomBytes(KEK_BYTES))
+  if (makeActive) keystore.activeKeyId = keyId
+
+  fs.writeFileSync(path, JSON.stringify(keystore, null, 2), { mode: 0o600 })
+}
+
+/**
+ * File-backed software HSM.
+ * The keystore at HSDC_SOFTHSM_PATH holds AES-256 KEKs sealed under a key
+ * derived from HSDC_SOFTHSM_PIN; data keys are wrapped with AES-256-GCM
+ * (key ID bound as AAD) and the KEKs never leave this module.
+ */
+export class SoftHsmKeyWrapProvider implements KeyWrapProvider {
+  readonly name = 'softhsm'
+  private unlocked = new Map<string, Buffer>()
+
+  constructor(
+    private readonly path: string,
+    private readonly pin: string,
+  ) {}
+
+  activeKeyId(): string {
+    return readKeystore(this.path).activeKeyId
+  }
+
+  private getKek(keyId: string): Buffer {
+    const cached = this.unlocked.get(keyId)
+    if (cached) return cached
+
+    const keystore = readKeystore(this.path)
+    const sealed = keystore.keys[keyId]
+    if (!sealed) throw new Error(`Soft HSM key "${keyId}" not found`)
+
+    const kek = unsealKey(derivePinKey(this.pin, keystore.salt), keyId, sealed)
+    this.unlocked.set(keyId, kek)
+    return kek
+  }
+
+  async wrap(dataKey: Buffer, keyId: string = this.activeKeyId()): Promise<WrappedKey> {
+    const iv = crypto.randomBytes(IV_BYTES)
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKek(keyId), iv, { authTagLength: TAG_BYTES })
+    cipher.setAAD(Buffer.from(keyId, 'utf8'))
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()])
+    return {
+      wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), wrapped]).toString('base64'),
+      keyId,
+    }
+  }
+
+  async unwrap(wrappedKey: string, keyId: string): Promise<Buffer> {
+    const raw = Buffer.from(wrappedKey, 'base64')
+    const iv = raw.subarray(0, IV_BYTES)
+    const tag = raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES)
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getKek(keyId), iv, { authTagLength: TAG_BYTES })
+    decipher.setAAD(Buffer.from(keyId, 'utf8'))
+    decipher.setAuthTag(tag)
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()])
+  }
+}
@@ -0,0 +1,98 @@
+// ============================================
+// HSDC Master Keyring
+// Versioned RSA-2048 key pairs for AES key wrapping
+// ============================================
+declare const process: { env: Record<string, string | undefined> }
+
+/**
+ * Key ID assigned to the original single-key deployment
+ * (HSDC_RSA_PUBLIC_KEY / HSDC_RSA_PRIVATE_KEY) and to every
+ * metadata row written before key IDs existed.
+ */
+export const LEGACY_KEY_ID = 'v1'
+
+export interface MasterKey {
+  id: string
+  publicKey?: string  // PEM, required to wrap new keys
+  privateKey?: string // PEM, required to unwrap existing keys
+}
+
+function normalizePem(value: string | undefined): string | undefined {
+  return value ? value.replace(/\\n/g, '\n') : undefined
+}
+
+// "v2" -> "V2", "2026-q1" -> "2026_Q1"
+function envSuffix(keyId: string): string {
+  return keyId.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+}
+
+/**
+ * Load every configured master key.
+ *
+ * Keys are declared with HSDC_RSA_KEY_IDS (comma separated) and read from
+ * HSDC_RSA_PUBLIC_KEY_<ID> / HSDC_RSA_PRIVATE_KEY_<ID>. The unsuffixed legacy
+ * pair is always registered under LEGACY_KEY_ID unless explicitly overridden.
+ * Retired keys may ship without a public key; they can still decrypt.
+ */
+export function loadKeyring(): Map<string, MasterKey> {
+  const keyring = new Map<string, MasterKey>()
+
+  const legacyPublic = normalizePem(process.env.HSDC_RSA_PUBLIC_KEY)
+  const legacyPrivate = normalizePem(process.env.HSDC_RSA_PRIVATE_KEY)
+  if (legacyPublic || legacyPrivate) {
+    keyring.set(LEGACY_KEY_ID, {
+      id: LEGACY_KEY_ID,
+      publicKey: legacyPublic,
+      privateKey: legacyPrivate,
+    })
+  }
+
+  const declaredIds = (process.env.HSDC_RSA_KEY_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  for (const id of declaredIds) {
+    const suffix = envSuffix(id)
+    const publicKey = normalizePem(process.env[`HSDC_RSA_PUBLIC_KEY_${suffix}`])
+    const privateKey = normalizePem(process.env[`HSDC_RSA_PRIVATE_KEY_${suffix}`])
+    if (!publicKey && !privateKey) {
+      throw new Error(`Master key "${id}" is declared in HSDC_RSA_KEY_IDS but has no key material`)
+    }
+    keyring.set(id, { id, publicKey, privateKey })
+  }
+
+  return keyring
+}
+
+/**
+ * The key ID new uploads are wrapped with.
+ */
+export function getActiveKeyId(): string {
+  return process.env.HSDC_RSA_ACTIVE_KEY_ID || LEGACY_KEY_ID
+}
+
+/**
+ * Public key used to wrap AES keys under the given key ID
+ */
+export function getPublicKey(keyId: string = getActiveKeyId()): string {
+  const key = loadKeyring().get(keyId)
+  if (key?.publicKey) return key.publicKey
+  throw new Error(`No RSA public key configured for master key "${keyId}"`)
+}
+
+/**
+ * Private key used to unwrap AES keys stored under the given key ID
+ */
+export function getPrivateKey(keyId: string): string {
+  const key = loadKeyring().get(keyId)
+  if (key?.privateKey) return key.privateKey
+  throw new Error(`No RSA private key configured for master key "${keyId}"`)
+}
+
+/**
+ * All key IDs currently held by the keyring
+ */
+export function listKeyIds(): string[] {
+  return Array.from(loadKeyring().keys())
+}
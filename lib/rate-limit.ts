@@ -28,6 +28,22 @@ export const recoveryLimiter = new Ratelimit({
   prefix: 'hsdc:ratelimit:recovery',
 })
 
+// Create the public Verify Limiter (20 requests per 1 minute, keyed by client IP)
+export const verifyLimiter = new Ratelimit({
+  redis: redis,
+  limiter: Ratelimit.slidingWindow(20, '1 m'),
+  analytics: true,
+  prefix: 'hsdc:ratelimit:verify',
+})
+
+// Create the bulk Re-verify Limiter (6 batches per 1 minute): each batch asks the ledger about many rows
+export const reverifyLimiter = new Ratelimit({
+  redis: redis,
+  limiter: Ratelimit.slidingWindow(6, '1 m'),
+  analytics: true,
+  prefix: 'hsdc:ratelimit:reverify',
+})
+
 /**
  * Checks if a user has exceeded their rate limit.
  * Uses sliding window algorithm for accurate tracking.
@@ -0,0 +1,173 @@
+// ============================================
+// HSDC Receipt Verifier
+// Checks a verification receipt, and optionally stego images, offline
+// ============================================
+//
+// Needs nothing but Node's crypto module and the Merkle proof code, no
+// database, session or server secret, so an auditor can run it on a copy
+// of the receipt. It answers:
+//
+//   - was the receipt signed by the HSDC key the auditor trusts?
+//   - does the inclusion proof lead from the integrity hash to the value the
+//     receipt says was anchored?
+//   - is each supplied image one of the stego images the receipt covers?
+//
+// Whether the ledger still holds the anchored value is a separate, online
+// question: look it up on the chain, or POST the receipt to /api/v1/verify.
+import crypto from 'crypto'
+import { merkleRootFromProof } from './blockchain/merkle'
+import type { ReceiptVerificationResult, VerificationReceipt } from './types'
+
+const RECEIPT_DOMAIN = 'hsdc-receipt-v1\n'
+const SHA256_HEX = /^[0-9a-f]{64}$/
+
+/**
+ * JSON with object keys sorted at every level, the form receipts are signed in
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Bytes the receipt signature covers
+ */
+export function receiptSigningInput(receipt: Omit<VerificationReceipt, 'signature'>): Buffer {
+  const { signature: _, ...body } = receipt as VerificationReceipt
+  return Buffer.from(RECEIPT_DOMAIN + canonicalJson(body), 'utf8')
+}
+
+/**
+ * Key ID of an Ed25519 public key: first 16 hex characters of the SHA-256
+ * of its SPKI DER, as named in receipts and ledger blocks
+ */
+export function publicKeyId(publicKeyPem: string): string {
+  const spki = crypto.createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' })
+  return crypto.createHash('sha256').update(spki).digest('hex').slice(0, 16)
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function checkSignature(receipt: VerificationReceipt, problems: string[]): boolean {
+  const { signer, signature } = receipt
+  if (signer?.algorithm !== 'Ed25519' || typeof signer.publicKey !== 'string' || typeof signature !== 'string') {
+    problems.push('Receipt has no Ed25519 signature')
+    return false
+  }
+  try {
+    const publicKey = crypto.createPublicKey(signer.publicKey)
+    if (publicKey.asymmetricKeyType !== 'ed25519') {
+      problems.push('Receipt signer key is not Ed25519')
+      return false
+    }
+    if (publicKeyId(signer.publicKey) !== signer.keyId) {
+      problems.push('Receipt key ID does not match its public key')
+      return false
+    }
+    if (!crypto.verify(null, receiptSigningInput(receipt), publicKey, Buffer.from(signature, 'base64'))) {
+      problems.push('Receipt signature is invalid')
+      return false
+    }
+    return true
+  } catch {
+    problems.push('Receipt signer key is unreadable')
+    return false
+  }
+}
+
+function checkProof(receipt: VerificationReceipt, problems: string[]): string | null {
+  const { integrityHash, anchor } = receipt
+  if (typeof integrityHash !== 'string' || !SHA256_HEX.test(integrityHash)) {
+    problems.push('Integrity hash must be 64 lowercase hex characters')
+    return null
+  }
+  if (!anchor?.proof) return integrityHash
+
+  const { proof } = anchor
+  if (!Array.isArray(proof.siblings) || !proof.siblings.every((s) => SHA256_HEX.test(s?.hash))) {
+    problems.push('Inclusion proof is malformed')
+    return null
+  }
+  if (merkleRootFromProof(integrityHash, proof.siblings) !== proof.root) {
+    problems.push('Inclusion proof does not lead to the anchored root')
+    return null
+  }
+  if (proof.txId !== anchor.txId || proof.network !== anchor.network) {
+    problems.push('Inclusion proof names a different anchoring transaction')
+    return null
+  }
+  return proof.root
+}
+
+/**
+ * Check a receipt. With trustedKeys (SPKI PEMs, e.g. from GET /api/v1/verify)
+ * the signer must be one of them; without, a correct signature by any key
+ * passes and trustedSigner is false. Images are stego files as downloaded;
+ * each must be a carrier the receipt covers.
+ */
+export function verifyReceipt(
+  receipt: VerificationReceipt,
+  options: { trustedKeys?: string[]; images?: Buffer[] } = {},
+): ReceiptVerificationResult {
+  const problems: string[] = []
+  if (!receipt || typeof receipt !== 'object' || receipt.version !== 1) {
+    return {
+      valid: false,
+      signatureValid: false,
+      trustedSigner: false,
+      proofValid: false,
+      anchoredValue: '',
+      images: [],
+      problems: ['Not a version 1 HSDC receipt'],
+    }
+  }
+
+  const signatureValid = checkSignature(receipt, problems)
+
+  let trustedSigner = false
+  if (signatureValid && options.trustedKeys) {
+    const trustedIds = options.trustedKeys.flatMap((pem) => {
+      try {
+        return [publicKeyId(pem)]
+      } catch {
+        return []
+      }
+    })
+    trustedSigner = trustedIds.includes(receipt.signer.keyId)
+    if (!trustedSigner) problems.push(`Receipt was signed by untrusted key ${receipt.signer.keyId}`)
+  }
+
+  const anchoredValue = checkProof(receipt, problems)
+
+  const carriers = Array.isArray(receipt.carriers) ? receipt.carriers : []
+  const images = (options.images ?? []).map((image) => {
+    const digest = sha256(image)
+    const index = carriers.indexOf(digest)
+    return { sha256: digest, carrierIndex: index === -1 ? null : index }
+  })
+  for (const [i, image] of images.entries()) {
+    if (image.carrierIndex === null) problems.push(`Image ${i + 1} is not a stego image this receipt covers`)
+  }
+
+  return {
+    valid:
+      signatureValid &&
+      (!options.trustedKeys || trustedSigner) &&
+      anchoredValue !== null &&
+      images.every((image) => image.carrierIndex !== null),
+    signatureValid,
+    trustedSigner,
+    proofValid: anchoredValue !== null,
+    anchoredValue: anchoredValue ?? '',
+    images,
+    problems,
+  }
+}
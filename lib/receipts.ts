@@ -0,0 +1,110 @@
+// ============================================
+// HSDC Verification Receipts
+// Signed, portable proof that a file's integrity hash is anchored
+// ============================================
+//
+// A receipt carries everything a third party needs to check a file without
+// an HSDC account: the integrity hash, the SHA-256 of each stego image, the
+// anchoring transaction and inclusion proof, and an Ed25519 signature by
+// HSDC_RECEIPT_SIGNING_KEY. lib/receipt-verifier.ts checks it offline;
+// /api/v1/verify also asks the ledger whether the anchor still stands.
+// After a key rotation the old public key goes in HSDC_RECEIPT_TRUSTED_KEYS,
+// so receipts already handed out keep verifying.
+import crypto from 'crypto'
+import { getRequiredEnv } from './env'
+import { getBlockchainService, LEGACY_BACKEND } from './blockchain'
+import {
+  createLedgerSigner,
+  loadTrustedSigningKeys,
+  type LedgerSigner,
+  type SigningPublicKey,
+} from './blockchain/signing'
+import { receiptSigningInput } from './receipt-verifier'
+import { downloadStego } from './recovery'
+import { runStegoJob } from './stego-pool'
+import type { MetadataRow, VerificationReceipt } from './types'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+let _signer: LedgerSigner | null = null
+
+/**
+ * The key receipts are signed with; its public half is published by GET /api/v1/verify
+ */
+export function getReceiptSigner(): LedgerSigner {
+  if (!_signer) {
+    _signer = createLedgerSigner(getRequiredEnv('HSDC_RECEIPT_SIGNING_KEY'), 'HSDC_RECEIPT_SIGNING_KEY')
+  }
+  return _signer
+}
+
+/**
+ * Every key this server's receipts may be signed with: the current signing
+ * key (if configured) and the retired ones. Published by GET /api/v1/verify.
+ */
+export function getTrustedReceiptKeys(): SigningPublicKey[] {
+  const current = process.env.HSDC_RECEIPT_SIGNING_KEY ? getReceiptSigner() : null
+  return Array.from(loadTrustedSigningKeys('HSDC_RECEIPT_TRUSTED_KEYS', current).values())
+}
+
+// Digests of the record's stego images, in shard order. Rows from before
+// uploads recorded them are hashed from the vault copies once.
+async function carrierHashes(supabase: SupabaseServerClient, meta: MetadataRow): Promise<string[]> {
+  if (meta.stego_hashes && meta.stego_hashes.length > 0) return meta.stego_hashes
+
+  const keys = meta.stego_shards?.keys ?? (meta.stego_filename ? [meta.stego_filename] : [])
+  if (keys.length === 0) throw new Error('This record has no stored stego image')
+
+  const hashes: string[] = []
+  for (const key of keys) {
+    const stegoBuffer = await downloadStego(key)
+    if (!stegoBuffer) throw new Error('Stego images are unavailable from the vault')
+    hashes.push(await runStegoJob('hash', { data: stegoBuffer }))
+  }
+
+  await supabase.from('metadata').update({ stego_hashes: hashes }).eq('id', meta.id)
+  return hashes
+}
+
+/**
+ * Issue a signed receipt for a metadata row. The ledger is asked first, so a
+ * receipt is only ever signed for an anchor that verifies now.
+ */
+export async function issueReceipt(
+  supabase: SupabaseServerClient,
+  meta: MetadataRow,
+): Promise<VerificationReceipt> {
+  const { blockchain_hash: integrityHash } = meta
+  if (!integrityHash) throw new Error('This record has no blockchain anchor')
+  const backend = meta.blockchain_backend || LEGACY_BACKEND
+  if (backend === LEGACY_BACKEND) {
+    throw new Error('Records anchored by the legacy mock backend cannot be given a receipt')
+  }
+  if (meta.blockchain_status !== 'ANCHORED') {
+    throw new Error('This record is queued for anchoring - try again after the next batch')
+  }
+
+  const record = await getBlockchainService(backend).verifyHash(integrityHash, meta.blockchain_proof)
+  if (!record?.verified) throw new Error('The ledger does not confirm this record')
+
+  const signer = getReceiptSigner()
+  const body: Omit<VerificationReceipt, 'signature'> = {
+    version: 1,
+    receiptId: crypto.randomUUID(),
+    issuedAt: new Date().toISOString(),
+    integrityHash: integrityHash.toLowerCase(),
+    carriers: await carrierHashes(supabase, meta),
+    anchor: {
+      backend,
+      network: record.network,
+      txId: record.txId,
+      blockNumber: record.blockNumber ?? null,
+      timestamp: record.timestamp,
+      proof: meta.blockchain_proof ?? null,
+    },
+    signer: { algorithm: 'Ed25519', keyId: signer.keyId, publicKey: signer.publicKeyPem },
+  }
+
+  return { ...body, signature: signer.sign(receiptSigningInput(body)) }
+}
@@ -0,0 +1,324 @@
+// ============================================
+// HSDC Recovery Pipeline
+// Shared by the recoverFile server action (small records, buffered) and the
+// streaming download route
+// ============================================
+import { CUSTODY_KEY_PROVIDER } from './crypto'
+import { rebuildCustodyKey } from './custody'
+import type { DecryptionInput, MetadataRow, StegoExtractResult, StegoShardSet } from './types'
+import { STEGO_VERSION_LCG } from './stego'
+import { runStegoJob } from './stego-pool'
+import { joinShards, parseShard, type StegoShard } from './stego-shards'
+import { findHiddenPayload, type HiddenPayloadRow } from './hidden-payload'
+import { deriveStegoSeed, resolveStegoSeed, LEGACY_SEED_KEY_ID } from './stego-seed'
+import { normalizeStegoProfile } from './stego-profile'
+import { getBlockchainService } from './blockchain'
+import type { createClient } from '@/lib/supabase/server'
+
+// VAPT: Import Enterprise AWS SDK
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3'
+
+// Initialize the strict IAM Client
+const s3Client = new S3Client({
+  region: process.env.AWS_REGION!,
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+  },
+})
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+export type CiphertextRecoveryResult =
+  | { success: false; error: string }
+  | {
+      success: true
+      meta: MetadataRow
+      encryptedData: Buffer
+      integrityVerified: boolean
+      blockchainVerified: boolean
+      correctedSymbols: number // frame bytes repaired by Reed-Solomon
+    }
+
+export type HiddenRecoveryResult =
+  | { success: false; error: string }
+  | {
+      success: true
+      hidden: HiddenPayloadRow
+      encryptedData: Buffer       // passphrase envelope, decrypted in the browser
+      correctedSymbols: number
+    }
+
+// One answer for every hidden recovery failure, so a response never confirms
+// that a hidden frame exists
+const NO_HIDDEN_PAYLOAD = 'No hidden payload matches this passphrase'
+
+/**
+ * Decryption input for a recovered record. Context-bound rows must present
+ * context-bound ciphertext, so an older unbound ciphertext cannot be swapped in.
+ */
+export function decryptionInputFor(meta: MetadataRow, encryptedData: Buffer): DecryptionInput {
+  return {
+    encryptedData,
+    iv: meta.iv,
+    authTag: meta.auth_tag,
+    encryptedKey: meta.encrypted_key,
+    keyId: meta.key_id,
+    keyProvider: meta.key_provider,
+    algorithm: meta.encryption_algo,
+    context: {
+      metadataId: meta.id,
+      userId: meta.user_id,
+      filename: meta.original_filename,
+    },
+    requireContext: meta.context_bound === true,
+  }
+}
+
+/**
+ * For custody records, rebuild the data key from custodian approvals.
+ * Resolves to null for records whose key the server can unwrap itself.
+ */
+export async function custodyKeyFor(
+  meta: MetadataRow,
+): Promise<{ dataKey: Buffer; requestId: string } | null> {
+  if (meta.key_provider !== CUSTODY_KEY_PROVIDER) return null
+  if (meta.custody_threshold === null) throw new Error('Custody record has no approval threshold')
+  return rebuildCustodyKey(meta.id, meta.custody_threshold)
+}
+
+async function loadActiveRecord(
+  supabase: SupabaseServerClient,
+  userId: string,
+  metadataId: string,
+): Promise<{ success: false; error: string } | { success: true; meta: MetadataRow }> {
+  const { data: meta, error: dbError } = await supabase
+    .from('metadata')
+    .select('*')
+    .eq('id', metadataId)
+    .eq('user_id', userId)
+    .single()
+
+  if (dbError || !meta) {
+    return { success: false, error: 'File metadata not found or access denied' }
+  }
+
+  if (meta.status === 'REVOKED' || meta.status === 'EXPIRED') {
+    return { success: false, error: 'This file has been revoked or shredded and cannot be recovered' }
+  }
+  return { success: true, meta }
+}
+
+/**
+ * Vault copy of a stego image, or null when S3 cannot supply it
+ */
+export async function downloadStego(key: string): Promise<Buffer | null> {
+  try {
+    const command = new GetObjectCommand({
+      Bucket: process.env.AWS_S3_BUCKET_NAME!,
+      Key: key, // This is now the exact S3 Key (e.g. user-id/stego_xxx.png)
+    })
+
+    const s3Response = await s3Client.send(command)
+
+    // Safely transform the AWS streaming body into a Node.js Buffer
+    if (s3Response.Body) return Buffer.from(await s3Response.Body.transformToByteArray())
+  } catch (err) {
+    console.warn('Failed to download stego from AWS S3, falling back to manual upload:', err)
+  }
+  return null
+}
+
+/**
+ * Locate the stego image(s) for a metadata record, extract the embedded
+ * ciphertext and verify it against the stored integrity hash.
+ * Shards of a multi-carrier record are read from every stored carrier plus
+ * any supplied copies, in any order.
+ * Decryption is left to the caller so it can buffer or stream the plaintext.
+ * Extraction runs on the stego worker pool; `signal` cancels it.
+ */
+export async function recoverCiphertext(
+  supabase: SupabaseServerClient,
+  userId: string,
+  metadataId: string,
+  stegoFiles: File[],
+  signal?: AbortSignal,
+): Promise<CiphertextRecoveryResult> {
+  const record = await loadActiveRecord(supabase, userId, metadataId)
+  if (!record.success) return record
+  const { meta } = record
+
+  const shardSet: StegoShardSet | null = meta.stego_shards ?? null
+  const keys: string[] = shardSet?.keys ?? (meta.stego_filename ? [meta.stego_filename] : [])
+
+  // VAPT: Enterprise S3 Retrieval Pipeline
+  const stegoBuffers: Buffer[] = []
+  for (const key of keys) {
+    const stegoBuffer = await downloadStego(key)
+    if (stegoBuffer) stegoBuffers.push(stegoBuffer)
+  }
+
+  // Fallback if S3 fails or if it's an offline recovery. Supplied carriers
+  // stand in for any shards of a set missing from the vault.
+  if (shardSet || stegoBuffers.length === 0) {
+    for (const stegoFile of shardSet ? stegoFiles : stegoFiles.slice(0, 1)) {
+      stegoBuffers.push(Buffer.from(await stegoFile.arrayBuffer()))
+    }
+  }
+  if (stegoBuffers.length === 0) {
+    return { success: false, error: 'Stego image not provided and AWS vault copy unavailable' }
+  }
+
+  let stegoSeed: string | null
+  try {
+    stegoSeed = await resolveStegoSeed(supabase, meta)
+  } catch {
+    stegoSeed = null
+  }
+
+  if (!stegoSeed) {
+    return { success: false, error: 'Cannot find steganography seed for this file' }
+  }
+
+  // Mathematically aligned with the PRNG engine
+  // Rows from before the keyed shuffle carry no version and use the LCG order;
+  // rows without a profile were embedded with the legacy one
+  const version = meta.stego_version ?? STEGO_VERSION_LCG
+  const profile = normalizeStegoProfile(meta.stego_profile)
+
+  let extractedData: Buffer
+  let correctedSymbols = 0
+  if (!shardSet) {
+    let extractResult
+    try {
+      extractResult = await runStegoJob(
+        'extract',
+        { stegoBuffer: stegoBuffers[0], seed: stegoSeed, version, profile },
+        { signal, transfer: [stegoBuffers[0]] },
+      )
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Steganographic extraction failed',
+      }
+    }
+
+    if (!extractResult.integrityValid) {
+      return { success: false, error: 'CRC integrity check failed - data may be corrupted' }
+    }
+    extractedData = extractResult.extractedData
+    correctedSymbols = extractResult.correctedSymbols
+  } else {
+    // A damaged or foreign carrier only costs its shard; parity may cover it
+    const shards: StegoShard[] = []
+    for (const stegoBuffer of stegoBuffers) {
+      try {
+        const extractResult = await runStegoJob(
+          'extract',
+          { stegoBuffer, seed: stegoSeed, version, profile },
+          { signal, transfer: [stegoBuffer] },
+        )
+        if (!extractResult.integrityValid) continue
+        shards.push(parseShard(extractResult.extractedData))
+        correctedSymbols += extractResult.correctedSymbols
+      } catch {
+        continue
+      }
+    }
+
+    try {
+      extractedData = joinShards(shards, shardSet.setId)
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Shard reassembly failed' }
+    }
+  }
+
+  const extractedHash = await runStegoJob('hash', { data: extractedData }, { signal })
+  let blockchainVerified = false
+
+  if (meta.blockchain_hash) {
+    const blockchain = getBlockchainService(meta.blockchain_backend)
+    const blockchainRecord = await blockchain.verifyHash(meta.blockchain_hash, meta.blockchain_proof)
+    blockchainVerified = blockchainRecord !== null && blockchainRecord.verified && blockchainRecord.hash === extractedHash
+  }
+
+  const integrityVerified = extractedHash === meta.integrity_hash
+
+  if (!integrityVerified) {
+    return {
+      success: false,
+      error: 'Integrity hash mismatch - encrypted data does not match stored hash',
+    }
+  }
+
+  return {
+    success: true,
+    meta,
+    encryptedData: extractedData,
+    integrityVerified,
+    blockchainVerified,
+    correctedSymbols,
+  }
+}
+
+/**
+ * Extract the hidden payload embedded beside a decoy record the user owns.
+ * The locator comes from deriveHiddenLocator() in the browser. Hidden
+ * payloads are not anchored on the blockchain; the stored hash is checked.
+ */
+export async function recoverHiddenCiphertext(
+  supabase: SupabaseServerClient,
+  userId: string,
+  metadataId: string,
+  locator: string,
+  stegoFiles: File[],
+): Promise<HiddenRecoveryResult> {
+  const record = await loadActiveRecord(supabase, userId, metadataId)
+  if (!record.success) return record
+  const { meta } = record
+
+  const hidden = await findHiddenPayload(meta.id, locator)
+  if (!hidden) return { success: false, error: NO_HIDDEN_PAYLOAD }
+
+  let stegoBuffer = meta.stego_filename ? await downloadStego(meta.stego_filename) : null
+  if (!stegoBuffer) {
+    if (!stegoFiles[0]) {
+      return { success: false, error: 'Stego image not provided and AWS vault copy unavailable' }
+    }
+    stegoBuffer = Buffer.from(await stegoFiles[0].arrayBuffer())
+  }
+
+  let extractResult: StegoExtractResult
+  try {
+    const decoySeed = await resolveStegoSeed(supabase, meta)
+    if (!decoySeed) throw new Error(NO_HIDDEN_PAYLOAD)
+
+    extractResult = await runStegoJob(
+      'extractHidden',
+      {
+        stegoBuffer,
+        decoySeed,
+        hiddenSeed: deriveStegoSeed(hidden.id, hidden.stego_salt, hidden.stego_seed_key_id ?? LEGACY_SEED_KEY_ID),
+        version: meta.stego_version ?? STEGO_VERSION_LCG,
+        profile: normalizeStegoProfile(meta.stego_profile),
+      },
+      { transfer: [stegoBuffer] },
+    )
+  } catch {
+    return { success: false, error: NO_HIDDEN_PAYLOAD }
+  }
+
+  const extractedHash = extractResult.integrityValid
+    ? await runStegoJob('hash', { data: extractResult.extractedData })
+    : null
+  if (extractedHash !== hidden.integrity_hash) {
+    return { success: false, error: NO_HIDDEN_PAYLOAD }
+  }
+
+  return {
+    success: true,
+    hidden,
+    encryptedData: extractResult.extractedData,
+    correctedSymbols: extractResult.correctedSymbols,
+  }
+}
@@ -0,0 +1,202 @@
+// ============================================
+// HSDC Reed-Solomon Codec
+// RS(n, n - nsym) over GF(2^8) (x^8 + x^4 + x^3 + x^2 + 1, generator 2)
+// ============================================
+//
+// Systematic encoding: a codeword is the data followed by `nsym` parity
+// bytes, and any codeword shorter than 255 bytes is a shortened code. Up to
+// floor(nsym / 2) corrupted bytes per codeword are located with
+// Berlekamp-Massey and a Chien search, and repaired with Forney's algorithm.
+// Polynomials are byte arrays, highest degree first.
+
+export const MAX_CODEWORD = 255
+
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+
+// Log/antilog tables over generator 2; EXP is doubled so products need no modulo
+;(function buildTables() {
+  let x = 1
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x
+    LOG[x] = i
+    x <<= 1
+    if (x & 0x100) x ^= 0x11d
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255]
+})()
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0
+  return EXP[LOG[a] + LOG[b]]
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)')
+  if (a === 0) return 0
+  return EXP[LOG[a] + 255 - LOG[b]]
+}
+
+function pow(x: number, power: number): number {
+  return EXP[(((LOG[x] * power) % 255) + 255) % 255]
+}
+
+function inverse(x: number): number {
+  return EXP[255 - LOG[x]]
+}
+
+function polyScale(p: number[], x: number): number[] {
+  return p.map((coef) => mul(coef, x))
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+  const out = new Array<number>(Math.max(p.length, q.length)).fill(0)
+  for (let i = 0; i < p.length; i++) out[i + out.length - p.length] = p[i]
+  for (let i = 0; i < q.length; i++) out[i + out.length - q.length] ^= q[i]
+  return out
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+  const out = new Array<number>(p.length + q.length - 1).fill(0)
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) out[i + j] ^= mul(p[i], q[j])
+  }
+  return out
+}
+
+function polyEval(p: ArrayLike<number>, x: number): number {
+  let y = p[0]
+  for (let i = 1; i < p.length; i++) y = mul(y, x) ^ p[i]
+  return y
+}
+
+// Remainder of division by a monic polynomial
+function polyMod(dividend: number[], divisor: number[]): number[] {
+  const out = dividend.slice()
+  for (let i = 0; i < dividend.length - (divisor.length - 1); i++) {
+    const coef = out[i]
+    if (coef === 0) continue
+    for (let j = 1; j < divisor.length; j++) out[i + j] ^= mul(divisor[j], coef)
+  }
+  return out.slice(out.length - (divisor.length - 1))
+}
+
+const generators = new Map<number, number[]>()
+
+function generatorPoly(nsym: number): number[] {
+  let g = generators.get(nsym)
+  if (!g) {
+    g = [1]
+    for (let i = 0; i < nsym; i++) g = polyMul(g, [1, pow(2, i)])
+    generators.set(nsym, g)
+  }
+  return g
+}
+
+function assertParameters(dataLength: number, nsym: number) {
+  if (!Number.isInteger(nsym) || nsym < 2 || nsym % 2 !== 0) {
+    throw new Error('Reed-Solomon parity must be an even number of symbols')
+  }
+  if (dataLength < 1 || dataLength + nsym > MAX_CODEWORD) {
+    throw new Error(`Reed-Solomon codewords are limited to ${MAX_CODEWORD} bytes`)
+  }
+}
+
+/**
+ * Parity bytes for one codeword (data.length + nsym <= 255)
+ */
+export function rsEncode(data: Buffer, nsym: number): Buffer {
+  assertParameters(data.length, nsym)
+  const gen = generatorPoly(nsym)
+  const work = new Uint8Array(data.length + nsym)
+  work.set(data)
+  for (let i = 0; i < data.length; i++) {
+    const coef = work[i]
+    if (coef === 0) continue
+    for (let j = 1; j < gen.length; j++) work[i + j] ^= mul(gen[j], coef)
+  }
+  return Buffer.from(work.subarray(data.length))
+}
+
+// Leading zero keeps the indexing of the classic formulation (first consecutive root 0)
+function syndromes(codeword: Buffer, nsym: number): number[] {
+  const synd = [0]
+  for (let i = 0; i < nsym; i++) synd.push(polyEval(codeword, pow(2, i)))
+  return synd
+}
+
+function errorLocator(synd: number[], nsym: number): number[] {
+  let errLoc = [1]
+  let oldLoc = [1]
+  const shift = synd.length - nsym
+
+  for (let i = 0; i < nsym; i++) {
+    const k = i + shift
+    let delta = synd[k]
+    for (let j = 1; j < errLoc.length; j++) delta ^= mul(errLoc[errLoc.length - 1 - j], synd[k - j])
+    oldLoc = oldLoc.concat([0])
+    if (delta !== 0) {
+      if (oldLoc.length > errLoc.length) {
+        const newLoc = polyScale(oldLoc, delta)
+        oldLoc = polyScale(errLoc, inverse(delta))
+        errLoc = newLoc
+      }
+      errLoc = polyAdd(errLoc, polyScale(oldLoc, delta))
+    }
+  }
+
+  while (errLoc.length > 0 && errLoc[0] === 0) errLoc.shift()
+  if ((errLoc.length - 1) * 2 > nsym) throw new Error('Too many errors to correct')
+  return errLoc
+}
+
+// Chien search over the codeword positions
+function errorPositions(errLocReversed: number[], length: number): number[] {
+  const positions: number[] = []
+  for (let i = 0; i < length; i++) {
+    if (polyEval(errLocReversed, pow(2, i)) === 0) positions.push(length - 1 - i)
+  }
+  if (positions.length !== errLocReversed.length - 1) throw new Error('Could not locate errors')
+  return positions
+}
+
+// Forney: error magnitudes at the located positions
+function correctErrata(codeword: Uint8Array, synd: number[], positions: number[]) {
+  const coefPos = positions.map((p) => codeword.length - 1 - p)
+  let errataLoc = [1]
+  for (const i of coefPos) errataLoc = polyMul(errataLoc, polyAdd([1], [pow(2, i), 0]))
+
+  const reversedSynd = synd.slice().reverse()
+  const product = polyMul(reversedSynd, errataLoc)
+  const modulus = [1, ...new Array<number>(errataLoc.length).fill(0)]
+  const errEval = polyMod(product, modulus).reverse()
+
+  const X = coefPos.map((c) => pow(2, -(255 - c)))
+  X.forEach((Xi, i) => {
+    const XiInv = inverse(Xi)
+    let locPrime = 1
+    X.forEach((Xj, j) => {
+      if (j !== i) locPrime = mul(locPrime, 1 ^ mul(XiInv, Xj))
+    })
+    const y = mul(Xi, polyEval(errEval.slice().reverse(), XiInv))
+    codeword[positions[i]] ^= div(y, locPrime)
+  })
+}
+
+/**
+ * Repair a codeword (data || parity) in place and return the data part
+ * with the number of corrected bytes. Throws when the damage exceeds
+ * floor(nsym / 2) bytes.
+ */
+export function rsDecode(codeword: Buffer, nsym: number): { data: Buffer; corrected: number } {
+  assertParameters(codeword.length - nsym, nsym)
+  const synd = syndromes(codeword, nsym)
+  if (synd.every((s) => s === 0)) return { data: codeword.subarray(0, codeword.length - nsym), corrected: 0 }
+
+  const errLoc = errorLocator(synd, nsym)
+  const positions = errorPositions(errLoc.slice().reverse(), codeword.length)
+  correctErrata(codeword, synd, positions)
+
+  if (syndromes(codeword, nsym).some((s) => s !== 0)) throw new Error('Too many errors to correct')
+  return { data: codeword.subarray(0, codeword.length - nsym), corrected: positions.length }
+}
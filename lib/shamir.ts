@@ -0,0 +1,112 @@
+// ============================================
+// HSDC Shamir Secret Sharing
+// M-of-N byte-wise sharing over GF(2^8) (AES field, x^8 + x^4 + x^3 + x + 1)
+// ============================================
+//
+// Each secret byte is the constant term of its own random polynomial of
+// degree M-1. Share i holds the evaluation of every polynomial at x = i
+// (1..255), so any M shares rebuild the secret by Lagrange interpolation at
+// x = 0 and fewer than M reveal nothing about it.
+import crypto from 'crypto'
+
+export const MAX_SHARES = 255
+
+export interface SecretShare {
+  index: number // x coordinate, 1..255
+  value: Buffer // same length as the secret
+}
+
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+
+// Log/antilog tables over generator 3; EXP is doubled so products need no modulo
+;(function buildTables() {
+  let x = 1
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x
+    LOG[x] = i
+    // x *= 3 in GF(2^8)
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0)
+    x &= 0xff
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255]
+})()
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0
+  return EXP[LOG[a] + LOG[b]]
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)')
+  if (a === 0) return 0
+  return EXP[LOG[a] + 255 - LOG[b]]
+}
+
+/**
+ * Split a secret into `total` shares, any `threshold` of which rebuild it
+ */
+export function splitSecret(secret: Buffer, threshold: number, total: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(total)) throw new Error('Share counts must be integers')
+  if (threshold < 2) throw new Error('Threshold must be at least 2')
+  if (total < threshold) throw new Error('Total shares must be at least the threshold')
+  if (total > MAX_SHARES) throw new Error(`At most ${MAX_SHARES} shares are supported`)
+
+  const shares: SecretShare[] = []
+  for (let i = 1; i <= total; i++) shares.push({ index: i, value: Buffer.alloc(secret.length) })
+
+  const coefficients = Buffer.alloc(threshold)
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte]
+    crypto.randomFillSync(coefficients, 1)
+
+    for (const share of shares) {
+      // Horner evaluation at x = share.index
+      let y = 0
+      for (let c = threshold - 1; c >= 0; c--) y = mul(y, share.index) ^ coefficients[c]
+      share.value[byte] = y
+    }
+  }
+  coefficients.fill(0)
+
+  return shares
+}
+
+/**
+ * Rebuild a secret from at least `threshold` shares.
+ * Passing fewer shares than the threshold yields a wrong secret, not an error;
+ * callers enforce the threshold and authenticate the result (e.g. with AEAD).
+ */
+export function combineShares(shares: SecretShare[]): Buffer {
+  if (shares.length < 2) throw new Error('At least two shares are required')
+  const length = shares[0].value.length
+  const indexes = new Set<number>()
+  for (const share of shares) {
+    if (share.index < 1 || share.index > MAX_SHARES) throw new Error(`Invalid share index ${share.index}`)
+    if (indexes.has(share.index)) throw new Error(`Duplicate share index ${share.index}`)
+    if (share.value.length !== length) throw new Error('Shares have different lengths')
+    indexes.add(share.index)
+  }
+
+  // Lagrange basis polynomials evaluated at x = 0
+  const basis = shares.map((share, i) => {
+    let numerator = 1
+    let denominator = 1
+    shares.forEach((other, j) => {
+      if (i === j) return
+      numerator = mul(numerator, other.index)
+      denominator = mul(denominator, share.index ^ other.index)
+    })
+    return div(numerator, denominator)
+  })
+
+  const secret = Buffer.alloc(length)
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0
+    shares.forEach((share, i) => {
+      value ^= mul(share.value[byte], basis[i])
+    })
+    secret[byte] = value
+  }
+  return secret
+}
@@ -0,0 +1,417 @@
+// ============================================
+// HSDC Steganalysis Self-Check
+// Chi-square, RS and sample pair analysis of the cover and the stego output
+// ============================================
+//
+// All three detectors target LSB replacement, which every embedding profile
+// performs on bit 0 of pixels, and which WAV carriers perform on bit 0 of
+// their samples. Each runs blind on the cover and on the stego file: the
+// cover figure is the detector's false-alarm baseline for this carrier, and
+// the detectability of an upload is the largest rise any detector sees.
+//
+// JPEG carriers are embedded with F5, which shrinks DCT coefficients towards
+// zero rather than replacing their LSBs. They get the F5 histogram attack
+// (Fridrich, Goljan & Hogea), calibrated with the real cover: the estimate is
+// the share of non-zero coefficients the embedding changed.
+//
+// Uploads above HSDC_MAX_STEGO_DETECTABILITY (default 0.3) are refused.
+import { CHANNEL_OFFSETS } from './stego-profile'
+import { readWav } from './wav'
+import type { JpegImage } from './jpeg-dct'
+import type { DctHistogramEstimates, DetectorEstimates, SteganalysisResult, StegoChannel } from './types'
+
+// Larger carriers are analysed on evenly spaced rows
+const MAX_ANALYSED_PIXELS = 4_000_000
+const CHI_SQUARE_STEPS = 32
+const MIN_EXPECTED_COUNT = 5
+const RS_MASK = [0, 1, 1, 0]
+const DEFAULT_MAX_DETECTABILITY = 0.3
+// WAV samples are analysed in runs of consecutive samples, the rows of an image
+const AUDIO_RUN = 4096
+// Zigzag positions of the DCT modes (0,1), (1,0) and (1,1) the F5 attack reads
+const F5_MODES = [1, 2, 4]
+
+interface ChannelSamples {
+  values: Uint8Array | Uint16Array
+  levels: number // values run from 0 to levels - 1
+  width: number
+  rows: number
+}
+
+function channelSamples(
+  imageData: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  offset: number,
+): ChannelSamples {
+  const rowStep = Math.max(1, Math.ceil((width * height) / MAX_ANALYSED_PIXELS))
+  const rows = Math.ceil(height / rowStep)
+  const values = new Uint8Array(rows * width)
+  for (let r = 0; r < rows; r++) {
+    const rowBase = r * rowStep * width
+    for (let x = 0; x < width; x++) values[r * width + x] = imageData[(rowBase + x) * channels + offset]
+  }
+  return { values, levels: 256, width, rows }
+}
+
+// One channel of a PCM WAV file, as evenly spaced runs of samples shifted to
+// unsigned values. Containers wider than 16 bits are read as their low 16
+// bits, which keeps every LSB pair intact.
+function audioSamples(wav: Buffer, channel: number): ChannelSamples {
+  const { channels, bytesPerSample, dataOffset, sampleCount } = readWav(wav)
+  const frames = Math.floor(sampleCount / channels)
+  const width = Math.min(AUDIO_RUN, frames)
+  const available = width > 0 ? Math.floor(frames / width) : 0
+  const runStep = Math.max(1, Math.ceil((available * width) / MAX_ANALYSED_PIXELS))
+  const rows = Math.ceil(available / runStep)
+
+  const wide = bytesPerSample > 1
+  const values = wide ? new Uint16Array(rows * width) : new Uint8Array(rows * width)
+  for (let r = 0; r < rows; r++) {
+    for (let x = 0; x < width; x++) {
+      const offset = dataOffset + ((r * runStep * width + x) * channels + channel) * bytesPerSample
+      values[r * width + x] = wide ? wav.readInt16LE(offset) + 32768 : wav[offset]
+    }
+  }
+  return { values, levels: wide ? 65536 : 256, width, rows }
+}
+
+// ============================================
+// Chi-square attack (Westfeld & Pfitzmann)
+// ============================================
+
+const LANCZOS = [
+  76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2,
+  -0.5395239384953e-5,
+]
+
+function lnGamma(x: number): number {
+  let y = x
+  const base = x + 5.5
+  const tmp = base - (x + 0.5) * Math.log(base)
+  let series = 1.000000000190015
+  for (const c of LANCZOS) series += c / ++y
+  return -tmp + Math.log((2.5066282746310005 * series) / x)
+}
+
+// Upper regularised incomplete gamma function Q(a, x)
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1
+  const prefix = Math.exp(-x + a * Math.log(x) - lnGamma(a))
+
+  if (x < a + 1) {
+    let ap = a
+    let term = 1 / a
+    let sum = term
+    for (let n = 0; n < 1000 && Math.abs(term) > Math.abs(sum) * 1e-12; n++) {
+      term *= x / ++ap
+      sum += term
+    }
+    return Math.max(0, 1 - sum * prefix)
+  }
+
+  // Continued fraction (modified Lentz)
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny) d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-12) break
+  }
+  return prefix * h
+}
+
+// Probability that the pairs of values (2k, 2k+1) were equalised by embedding
+function chiSquarePValue({ values, levels }: ChannelSamples, start: number, end: number): number {
+  const histogram = new Float64Array(levels)
+  for (let i = start; i < end; i++) histogram[values[i]]++
+
+  let statistic = 0
+  let categories = 0
+  for (let k = 0; k < levels / 2; k++) {
+    const expected = (histogram[2 * k] + histogram[2 * k + 1]) / 2
+    if (expected < MIN_EXPECTED_COUNT) continue
+    statistic += (histogram[2 * k] - expected) ** 2 / expected
+    categories++
+  }
+  if (categories < 2) return 0
+  return gammaQ((categories - 1) / 2, statistic / 2)
+}
+
+// Westfeld's sequential test: the rate is the largest leading share of the
+// samples (raster order) whose pairs of values still look equalised
+function chiSquare(samples: ChannelSamples): { pValue: number; estimatedRate: number } {
+  const { length } = samples.values
+  let estimatedRate = 0
+  for (let step = 1; step <= CHI_SQUARE_STEPS; step++) {
+    const end = Math.floor((length * step) / CHI_SQUARE_STEPS)
+    if (chiSquarePValue(samples, 0, end) > 0.5) estimatedRate = step / CHI_SQUARE_STEPS
+  }
+  return { pValue: chiSquarePValue(samples, 0, length), estimatedRate }
+}
+
+// ============================================
+// RS analysis (Fridrich, Goljan & Du)
+// ============================================
+
+function shiftedFlip(x: number, levels: number): number {
+  const y = ((x + 1) ^ 1) - 1
+  return y < 0 || y >= levels ? x : y
+}
+
+function smoothness(g: number[]): number {
+  return Math.abs(g[1] - g[0]) + Math.abs(g[2] - g[1]) + Math.abs(g[3] - g[2])
+}
+
+// Regular and singular group shares under the mask M and its negative -M
+function rsGroups({ values, levels, width, rows }: ChannelSamples, flipAll: boolean) {
+  let regular = 0
+  let singular = 0
+  let regularNeg = 0
+  let singularNeg = 0
+  let groups = 0
+
+  for (let r = 0; r < rows; r++) {
+    for (let x = 0; x + 4 <= width; x += 4) {
+      const g: number[] = []
+      for (let i = 0; i < 4; i++) {
+        const v = values[r * width + x + i]
+        g.push(flipAll ? v ^ 1 : v)
+      }
+      const base = smoothness(g)
+      const positive = smoothness(g.map((v, i) => (RS_MASK[i] ? v ^ 1 : v)))
+      const negative = smoothness(g.map((v, i) => (RS_MASK[i] ? shiftedFlip(v, levels) : v)))
+
+      if (positive > base) regular++
+      else if (positive < base) singular++
+      if (negative > base) regularNeg++
+      else if (negative < base) singularNeg++
+      groups++
+    }
+  }
+
+  const n = Math.max(1, groups)
+  return { regular: regular / n, singular: singular / n, regularNeg: regularNeg / n, singularNeg: singularNeg / n }
+}
+
+function rsAnalysis(samples: ChannelSamples): number {
+  const observed = rsGroups(samples, false)
+  const flipped = rsGroups(samples, true)
+
+  const d0 = observed.regular - observed.singular
+  const d1 = flipped.regular - flipped.singular
+  const n0 = observed.regularNeg - observed.singularNeg
+  const n1 = flipped.regularNeg - flipped.singularNeg
+
+  const a = 2 * (d1 + d0)
+  const b = n0 - n1 - d1 - 3 * d0
+  const c = d0 - n0
+
+  let x: number
+  if (Math.abs(a) < 1e-12) {
+    x = b === 0 ? 0 : -c / b
+  } else {
+    const root = Math.sqrt(Math.max(0, b * b - 4 * a * c))
+    const x1 = (-b + root) / (2 * a)
+    const x2 = (-b - root) / (2 * a)
+    x = Math.abs(x1) < Math.abs(x2) ? x1 : x2
+  }
+  return clampRate(x / (x - 0.5))
+}
+
+// ============================================
+// Sample pair analysis (Dumitrescu, Wu & Wang)
+// ============================================
+//
+// Horizontal pairs (u, v) fall into trace sets C_m, m = floor(v/2) - floor(u/2),
+// which LSB flipping cannot change. In a cover, pairs with odd difference d
+// are as likely to start on an even value as on an odd one. Undoing a flip
+// probability q on each trace set turns that into a quadratic in q; the
+// embedding rate is 2q.
+function samplePairAnalysis({ values, width, rows }: ChannelSamples): number {
+  let qa = 0
+  let qb = 0
+  let qc = 0
+
+  // One trace-set term with sign s: target is pattern 01 or 10 of (u, v) LSBs
+  const term = (s: number, pattern: number, target: number) => {
+    const equalParity = pattern === 0 || pattern === 3 ? 1 : 0
+    const hit = pattern === target ? 1 : 0
+    qa += s
+    qb += s * (-equalParity - 2 * hit)
+    qc += s * hit
+  }
+
+  for (let r = 0; r < rows; r++) {
+    for (let x = 0; x + 1 < width; x++) {
+      const u = values[r * width + x]
+      const v = values[r * width + x + 1]
+      const m = (v >> 1) - (u >> 1)
+      const pattern = ((u & 1) << 1) | (v & 1)
+      // d = +(2k+1): u even (01 in C_k, k >= 0) vs u odd (10 in C_k, k >= 1)
+      if (m >= 0) term(1, pattern, 0b01)
+      if (m >= 1) term(-1, pattern, 0b10)
+      // d = -(2k+1): u odd (10 in C_-k, k >= 0) vs u even (01 in C_-k, k >= 1)
+      if (m <= 0) term(1, pattern, 0b10)
+      if (m <= -1) term(-1, pattern, 0b01)
+    }
+  }
+
+  let q: number
+  if (Math.abs(qa) < 1e-12) {
+    q = qb === 0 ? 0 : -qc / qb
+  } else {
+    const root = Math.sqrt(Math.max(0, qb * qb - 4 * qa * qc))
+    const q1 = (-qb + root) / (2 * qa)
+    const q2 = (-qb - root) / (2 * qa)
+    q = Math.abs(q1) < Math.abs(q2) ? q1 : q2
+  }
+  return clampRate(2 * q)
+}
+
+function clampRate(rate: number): number {
+  if (!Number.isFinite(rate)) return 0
+  return Math.min(1, Math.max(0, rate))
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+// All three detectors over each set of samples, keeping per detector the
+// highest estimate any of them produces
+function estimateLsbReplacement(channelSets: ChannelSamples[]): DetectorEstimates {
+  const estimates: DetectorEstimates = {
+    chiSquare: { pValue: 0, estimatedRate: 0 },
+    rs: { estimatedRate: 0 },
+    spa: { estimatedRate: 0 },
+  }
+
+  for (const samples of channelSets) {
+    const chi = chiSquare(samples)
+    estimates.chiSquare.pValue = Math.max(estimates.chiSquare.pValue, round(chi.pValue))
+    estimates.chiSquare.estimatedRate = Math.max(estimates.chiSquare.estimatedRate, round(chi.estimatedRate))
+    estimates.rs.estimatedRate = Math.max(estimates.rs.estimatedRate, round(rsAnalysis(samples)))
+    estimates.spa.estimatedRate = Math.max(estimates.spa.estimatedRate, round(samplePairAnalysis(samples)))
+  }
+  return estimates
+}
+
+function compareEstimates(before: DetectorEstimates, after: DetectorEstimates): SteganalysisResult {
+  const rise = (key: 'chiSquare' | 'rs' | 'spa') => Math.max(0, after[key].estimatedRate - before[key].estimatedRate)
+  return {
+    cover: before,
+    stego: after,
+    detectability: round(Math.max(rise('chiSquare'), rise('rs'), rise('spa'))),
+  }
+}
+
+/**
+ * Run all three detectors over the given channels and keep, per detector,
+ * the highest estimate any channel produces
+ */
+export function analyzeImage(
+  imageData: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  analysedChannels: StegoChannel[],
+): DetectorEstimates {
+  return estimateLsbReplacement(
+    analysedChannels.map((channel) => channelSamples(imageData, width, height, channels, CHANNEL_OFFSETS[channel])),
+  )
+}
+
+/**
+ * Compare cover and stego. Detectability is the largest rise in estimated
+ * embedding rate across the detectors, 0 (invisible) to 1.
+ */
+export function analyzeEmbedding(
+  cover: Buffer,
+  stego: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  analysedChannels: StegoChannel[],
+): SteganalysisResult {
+  return compareEstimates(
+    analyzeImage(cover, width, height, channels, analysedChannels),
+    analyzeImage(stego, width, height, channels, analysedChannels),
+  )
+}
+
+/**
+ * Compare a WAV cover and its stego file, every audio channel analysed
+ * separately, with the same detectors and detectability as images
+ */
+export function analyzeAudioEmbedding(cover: Buffer, stego: Buffer): SteganalysisResult {
+  const { channels } = readWav(cover)
+  const analyse = (wav: Buffer) =>
+    estimateLsbReplacement(Array.from({ length: channels }, (_, channel) => audioSamples(wav, channel)))
+  return compareEstimates(analyse(cover), analyse(stego))
+}
+
+// ============================================
+// F5 histogram attack (Fridrich, Goljan & Hogea)
+// ============================================
+//
+// F5 moves a changed coefficient one step towards zero, so a share beta of
+// the non-zero coefficients changed turns h(1) into (1 - beta) h(1) + beta h(2)
+// and adds beta h(1) to h(0). Given the cover histogram, beta is the least
+// squares fit of that model to the stego histogram, per low-frequency mode.
+
+// Counts of |coefficient| = 0, 1 and 2 in one DCT mode across every block
+function modeHistogram(jpeg: JpegImage, mode: number): [number, number, number] {
+  const histogram: [number, number, number] = [0, 0, 0]
+  for (let i = mode; i < jpeg.coefficients.length; i += 64) {
+    const magnitude = Math.abs(jpeg.coefficients[i])
+    if (magnitude <= 2) histogram[magnitude]++
+  }
+  return histogram
+}
+
+function f5ChangeRate(cover: JpegImage, stego: JpegImage): number {
+  let total = 0
+  for (const mode of F5_MODES) {
+    const [c0, c1, c2] = modeHistogram(cover, mode)
+    const [s0, s1] = modeHistogram(stego, mode)
+    const denominator = c1 * c1 + (c2 - c1) ** 2
+    total += denominator === 0 ? 0 : clampRate((c1 * (s0 - c0) + (s1 - c1) * (c2 - c1)) / denominator)
+  }
+  return total / F5_MODES.length
+}
+
+/**
+ * Compare a JPEG cover and its F5 stego file by their DCT coefficients.
+ * Detectability is the estimated share of non-zero coefficients changed.
+ */
+export function analyzeJpegEmbedding(cover: JpegImage, stego: JpegImage): SteganalysisResult {
+  // The cover is its own calibration reference, so its estimate is zero
+  const before: DctHistogramEstimates = { f5: { estimatedRate: 0 } }
+  const after: DctHistogramEstimates = { f5: { estimatedRate: round(f5ChangeRate(cover, stego)) } }
+  return { cover: before, stego: after, detectability: after.f5.estimatedRate }
+}
+
+/**
+ * Highest detectability the organisation accepts for an upload (0-1)
+ */
+export function maxStegoDetectability(): number {
+  const raw = process.env.HSDC_MAX_STEGO_DETECTABILITY
+  if (!raw) return DEFAULT_MAX_DETECTABILITY
+  const value = Number(raw)
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error('HSDC_MAX_STEGO_DETECTABILITY must be a number between 0 and 1')
+  }
+  return value
+}
@@ -0,0 +1,86 @@
+// ============================================
+// HSDC Audio Steganography
+// Sample LSB embedding in PCM WAV recordings
+// ============================================
+//
+// The frame (the same HSDC / HSDR format as image carriers) is written one
+// bit per sample into the least significant bit, with samples visited in the
+// keyed order used for pixels. At 16 bits per sample a flipped LSB is a
+// change of 1 in 65536, below the noise floor of any microphone.
+import { readWav, type WavInfo } from './wav'
+import { CURRENT_STEGO_VERSION, decodeFrame, encodeFrame, payloadCapacity, pixelOrderFor } from './stego'
+import type { StegoEmbedResult, StegoExtractResult, StegoVersion } from './types'
+
+function rawCapacity(wav: WavInfo): number {
+  return Math.floor(wav.sampleCount / 8)
+}
+
+/**
+ * Largest payload a WAV carrier can hold, the audio counterpart of calculateCapacity()
+ */
+export function calculateAudioCapacity(carrier: Buffer, eccSymbols = 0): number {
+  return payloadCapacity(rawCapacity(readWav(carrier)), eccSymbols)
+}
+
+/**
+ * Embed a payload into a WAV file and return the modified file
+ */
+export async function embedAudio(
+  carrier: Buffer,
+  payload: Buffer,
+  seed: string,
+  version: StegoVersion = CURRENT_STEGO_VERSION,
+  eccSymbols = 0,
+): Promise<StegoEmbedResult> {
+  const wav = readWav(carrier)
+  const capacity = payloadCapacity(rawCapacity(wav), eccSymbols)
+  if (payload.length > capacity) throw new Error(`Payload exceeds capacity`)
+
+  const frame = encodeFrame(payload, eccSymbols)
+  const order = pixelOrderFor(seed, version, wav.sampleCount)
+  const output = Buffer.from(carrier)
+
+  let samplesModified = 0
+  for (let position = 0; position < frame.length * 8; position++) {
+    const bit = (frame[position >> 3] >> (7 - (position & 7))) & 1
+    const offset = wav.dataOffset + order.at(position) * wav.bytesPerSample
+    if ((output[offset] & 1) !== bit) {
+      output[offset] ^= 1
+      samplesModified++
+    }
+  }
+
+  return {
+    stegoImageBuffer: output,
+    stegoVersion: version,
+    eccSymbols,
+    capacityUsed: payload.length,
+    capacityTotal: capacity,
+    pixelsModified: samplesModified, // samples changed
+  }
+}
+
+/**
+ * Recover the payload from a WAV file written by embedAudio()
+ */
+export function extractAudio(
+  carrier: Buffer,
+  seed: string,
+  version: StegoVersion = CURRENT_STEGO_VERSION,
+): StegoExtractResult {
+  const wav = readWav(carrier)
+  const order = pixelOrderFor(seed, version, wav.sampleCount)
+
+  let position = 0
+  const read = (length: number): Buffer => {
+    if (position + length * 8 > wav.sampleCount) throw new Error('Invalid payload length detected')
+    const out = Buffer.alloc(length)
+    for (let i = 0; i < length * 8; i++, position++) {
+      const bit = carrier[wav.dataOffset + order.at(position) * wav.bytesPerSample] & 1
+      out[i >> 3] |= bit << (7 - (i & 7))
+    }
+    return out
+  }
+
+  return decodeFrame(read, rawCapacity(wav))
+}
@@ -0,0 +1,348 @@
+// ============================================
+// HSDC Stego Jobs
+// The CPU-bound steps of upload and recovery, run by lib/stego-pool.ts
+// ============================================
+//
+// Each job takes one plain object and resolves to structured-clonable data,
+// so it runs the same on a worker thread (lib/stego-worker.ts) or inline.
+// Decoding, embedding, the steganalysis self-check, quality metrics and
+// hashing all happen here, as do key wrapping and the AEAD of encrypted
+// records (the crypto jobs below). Nothing in this module touches the
+// database or S3.
+import sharp from 'sharp'
+import { computeHash, decrypt, INLINE_CRYPTO } from './crypto'
+import {
+  calculateCapacity,
+  CURRENT_STEGO_VERSION,
+  embed,
+  extract,
+  extractHidden,
+  type HiddenFrameOptions,
+} from './stego'
+import { calculateJpegCapacity, embedJpeg, extractJpeg } from './stego-jpeg'
+import { calculateAudioCapacity, embedAudio, extractAudio } from './stego-audio'
+import { detectCarrierType } from './carrier'
+import { LEGACY_STEGO_PROFILE } from './stego-profile'
+import { decodeJpeg } from './jpeg-dct'
+import {
+  analyzeAudioEmbedding,
+  analyzeEmbedding,
+  analyzeJpegEmbedding,
+  maxStegoDetectability,
+} from './steganalysis'
+import { measureCarrierQuality, renderDifferenceHeatmap } from './carrier-quality'
+import type { SegmentBatch } from './stream-crypto'
+import type {
+  CarrierPreview,
+  CarrierQualityMetrics,
+  CarrierType,
+  CustodyPolicy,
+  DecryptionInput,
+  KeyReference,
+  SteganalysisResult,
+  StegoEmbedResult,
+  StegoExtractResult,
+  StegoProfile,
+  StegoVersion,
+} from './types'
+
+const PREVIEW_SIZE = 320 // long edge of the cover / stego / heatmap previews
+
+export interface PreparedCarrier {
+  buffer: Buffer
+  type: CarrierType
+  width: number  // 0 for WAV carriers
+  height: number
+  capacity: number
+}
+
+export interface EmbeddedCarrier {
+  stegoFile: Buffer
+  embedResult: StegoEmbedResult // stegoImageBuffer is the stego file, not raw pixels
+  // With a hidden frame, steganalysis and quality describe the decoy frame
+  // alone, as the record shows them; the stored file carries both frames
+  steganalysis: SteganalysisResult
+  combinedDetectability?: number // with a hidden frame: detectability of the stored file
+  quality: CarrierQualityMetrics | null // as recorded; embedResult.quality describes the stored file
+  preview: CarrierPreview | null
+}
+
+async function carrierPreview(cover: Buffer, stego: Buffer, width: number, height: number): Promise<CarrierPreview> {
+  const toDataUrl = (png: Buffer) => `data:image/png;base64,${png.toString('base64')}`
+  const thumbnail = async (pixels: Buffer) =>
+    toDataUrl(
+      await sharp(pixels, { raw: { width, height, channels: 4 } })
+        .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer(),
+    )
+  const heatmap = renderDifferenceHeatmap(cover, stego, width, height, 4, PREVIEW_SIZE)
+  return {
+    cover: await thumbnail(cover),
+    stego: await thumbnail(stego),
+    heatmap: toDataUrl(
+      await sharp(heatmap.data, { raw: { width: heatmap.width, height: heatmap.height, channels: 3 } })
+        .png()
+        .toBuffer(),
+    ),
+  }
+}
+
+/**
+ * Read a carrier's dimensions and capacity, and whether it is fully opaque
+ * when alpha embedding needs to know
+ */
+async function prepareCarrier(job: {
+  buffer: Buffer
+  type: CarrierType
+  eccSymbols: number
+  profile?: StegoProfile
+  checkOpacity: boolean
+}): Promise<{ width: number; height: number; capacity: number; opaque: boolean }> {
+  const { buffer, type, eccSymbols, profile } = job
+  if (type === 'wav') return { width: 0, height: 0, capacity: calculateAudioCapacity(buffer, eccSymbols), opaque: true }
+
+  // Image Processing: read dimensions for the pixel engine
+  const { width = 0, height = 0 } = await sharp(buffer).metadata()
+  if (!width || !height) throw new Error('Invalid carrier image')
+
+  const capacity =
+    type === 'jpeg'
+      ? calculateJpegCapacity(buffer, eccSymbols)
+      : calculateCapacity(width, height, 4, { eccSymbols, profile })
+  const opaque = job.checkOpacity ? (await sharp(buffer).stats()).isOpaque : true
+  return { width, height, capacity, opaque }
+}
+
+// Steganalysis self-check: refuse stego files the detectors can tell from the cover
+function assertUndetectable(steganalysis: SteganalysisResult, kind: string, remedy: string): void {
+  const maxDetectability = maxStegoDetectability()
+  if (steganalysis.detectability > maxDetectability) {
+    throw new Error(
+      `Stego ${kind} is too detectable (${Math.round(steganalysis.detectability * 100)}% estimated embedding rate, ` +
+        `limit ${Math.round(maxDetectability * 100)}%). ${remedy}`,
+    )
+  }
+}
+
+// Embed one payload into one carrier. JPEG and WAV carriers come back in their
+// own format, lossless images are rebuilt as PNG, and every carrier passes the
+// steganalysis self-check for its format. Only lossless images take a hidden frame.
+async function embedCarrier(job: {
+  carrier: PreparedCarrier
+  payload: Buffer
+  seed: string
+  eccSymbols: number
+  profile?: StegoProfile
+  hidden?: HiddenFrameOptions
+}): Promise<EmbeddedCarrier> {
+  const { carrier, payload, seed: stegoSeed, eccSymbols, profile, hidden } = job
+  if (carrier.type === 'jpeg') {
+    const embedResult = await embedJpeg(carrier.buffer, payload, stegoSeed, CURRENT_STEGO_VERSION, eccSymbols)
+    const steganalysis = analyzeJpegEmbedding(decodeJpeg(carrier.buffer), decodeJpeg(embedResult.stegoImageBuffer))
+    assertUndetectable(steganalysis, 'image', 'Use a larger or more detailed carrier image.')
+    // Quality is judged on the decoded pixels, as a viewer sees them
+    const { width, height } = carrier
+    const cover = await sharp(carrier.buffer).raw().ensureAlpha().toBuffer()
+    const stego = await sharp(embedResult.stegoImageBuffer).raw().ensureAlpha().toBuffer()
+    embedResult.quality = measureCarrierQuality(cover, stego, width, height, 4)
+    return {
+      stegoFile: embedResult.stegoImageBuffer,
+      embedResult,
+      steganalysis,
+      quality: embedResult.quality,
+      preview: await carrierPreview(cover, stego, width, height),
+    }
+  }
+  if (carrier.type === 'wav') {
+    const embedResult = await embedAudio(carrier.buffer, payload, stegoSeed, CURRENT_STEGO_VERSION, eccSymbols)
+    const steganalysis = analyzeAudioEmbedding(carrier.buffer, embedResult.stegoImageBuffer)
+    assertUndetectable(steganalysis, 'audio', 'Use a longer carrier recording.')
+    return { stegoFile: embedResult.stegoImageBuffer, embedResult, steganalysis, quality: null, preview: null }
+  }
+
+  const { width, height } = carrier
+  // Extract raw pixels - THIS IS CRITICAL FOR THE PRNG ENGINE
+  const rawPixels = await sharp(carrier.buffer).raw().ensureAlpha().toBuffer()
+
+  const embedResult = await embed(
+    rawPixels,                      // Arg 1: imageData
+    width,                          // Arg 2: width
+    height,                         // Arg 3: height
+    4,                              // Arg 4: channels (RGBA = 4)
+    payload,                        // Arg 5: payload
+    stegoSeed,                      // Arg 6: seed
+    CURRENT_STEGO_VERSION,          // Arg 7: pixel order version
+    { eccSymbols, profile, hidden }, // Arg 8: frame options
+  )
+
+  if (!embedResult.stegoImageBuffer) throw new Error('Steganography failed')
+
+  const channels = (profile ?? LEGACY_STEGO_PROFILE).channels
+  const steganalysis = analyzeEmbedding(
+    rawPixels,
+    embedResult.stegoImageBuffer,
+    width,
+    height,
+    4,
+    channels,
+  )
+  assertUndetectable(steganalysis, 'image', 'Use a larger carrier image or a lower LSB depth.')
+
+  // Rebuild Lossless PNG
+  const stegoFile = await sharp(embedResult.stegoImageBuffer, {
+    raw: { width, height, channels: 4 },
+  })
+    .png({ compressionLevel: 0 })
+    .toBuffer()
+  const preview = await carrierPreview(rawPixels, embedResult.stegoImageBuffer, width, height)
+  const { hidden: hiddenResult } = embedResult
+  if (!hiddenResult?.decoyImageBuffer) {
+    // Only the encoded file leaves the job, not the raw pixels
+    const encoded = { ...embedResult, stegoImageBuffer: stegoFile }
+    return { stegoFile, embedResult: encoded, steganalysis, quality: embedResult.quality ?? null, preview }
+  }
+
+  // The threshold applies to the stored file, but the decoy record keeps the
+  // figures of the decoy frame's own changes, so it does not hint at a second
+  // frame. They are measured on embed()'s decoy-only snapshot, not the file.
+  const { decoyImageBuffer, ...hiddenFigures } = hiddenResult
+  return {
+    stegoFile,
+    embedResult: { ...embedResult, stegoImageBuffer: stegoFile, hidden: hiddenFigures },
+    steganalysis: analyzeEmbedding(rawPixels, decoyImageBuffer, width, height, 4, channels),
+    combinedDetectability: steganalysis.detectability,
+    quality: measureCarrierQuality(rawPixels, decoyImageBuffer, width, height, 4),
+    preview,
+  }
+}
+
+async function decodePixels(stegoBuffer: Buffer): Promise<{ pixels: Buffer; width: number; height: number }> {
+  const image = sharp(stegoBuffer)
+  const { width, height } = await image.metadata()
+  if (!width || !height) throw new Error('Cannot read stego image dimensions')
+  return { pixels: await image.raw().ensureAlpha().toBuffer(), width, height }
+}
+
+// JPEG stego images carry the frame in their DCT coefficients and WAV files
+// in their samples; only lossless images are decoded to pixels
+async function extractCarrier(job: {
+  stegoBuffer: Buffer
+  seed: string
+  version: StegoVersion
+  profile: StegoProfile
+}): Promise<StegoExtractResult> {
+  const { stegoBuffer, seed, version, profile } = job
+  const carrierType: CarrierType = detectCarrierType(stegoBuffer)
+  if (carrierType === 'jpeg') return extractJpeg(stegoBuffer, seed, version)
+  if (carrierType === 'wav') return extractAudio(stegoBuffer, seed, version)
+
+  const { pixels, width, height } = await decodePixels(stegoBuffer)
+  return extract(pixels, width, height, 4, seed, version, profile)
+}
+
+// Hidden frames only ever sit in lossless images
+async function extractHiddenCarrier(job: {
+  stegoBuffer: Buffer
+  decoySeed: string
+  hiddenSeed: string
+  version: StegoVersion
+  profile: StegoProfile
+}): Promise<StegoExtractResult> {
+  const { stegoBuffer, decoySeed, hiddenSeed, version, profile } = job
+  if (detectCarrierType(stegoBuffer) !== 'image') throw new Error('Hidden frames need a lossless image')
+
+  const { pixels, width, height } = await decodePixels(stegoBuffer)
+  return extractHidden(pixels, width, height, 4, decoySeed, hiddenSeed, version, profile)
+}
+
+async function hashData(job: { data: Buffer }): Promise<string> {
+  return computeHash(job.data)
+}
+
+// ============================================
+// Crypto jobs
+// ============================================
+// Key providers read their configuration from the environment, which every
+// worker inherits, so a key wraps and unwraps the same on any thread. Inputs
+// are never zeroed here: run inline, they are the caller's own buffers.
+
+function storeDataKey(job: { dataKey: Buffer; custody?: CustodyPolicy }) {
+  return INLINE_CRYPTO.storeDataKey(job.dataKey, job.custody)
+}
+
+function unwrapDataKey(job: KeyReference): Promise<Buffer> {
+  return INLINE_CRYPTO.unwrapDataKey(job)
+}
+
+function sealSegments(job: SegmentBatch): Promise<Buffer> {
+  return INLINE_CRYPTO.sealSegments(job)
+}
+
+function openSegments(job: SegmentBatch): Promise<Buffer> {
+  return INLINE_CRYPTO.openSegments(job)
+}
+
+// Single-shot records, authenticated as a whole
+function decryptRecord(job: DecryptionInput): Promise<Buffer> {
+  return decrypt(job)
+}
+
+export const STEGO_JOBS = {
+  prepare: prepareCarrier,
+  embed: embedCarrier,
+  extract: extractCarrier,
+  extractHidden: extractHiddenCarrier,
+  hash: hashData,
+  storeDataKey,
+  unwrapDataKey,
+  sealSegments,
+  openSegments,
+  decrypt: decryptRecord,
+}
+
+export type StegoJobKind = keyof typeof STEGO_JOBS
+export type StegoJobInput<K extends StegoJobKind> = Parameters<(typeof STEGO_JOBS)[K]>[0]
+export type StegoJobOutput<K extends StegoJobKind> = Awaited<ReturnType<(typeof STEGO_JOBS)[K]>>
+
+// ============================================
+// Transport between threads
+// ============================================
+
+/**
+ * Structured cloning turns Buffers into plain Uint8Arrays; turn them back
+ */
+export function reviveBuffers<T>(value: T): T {
+  if (value instanceof Uint8Array) {
+    return (Buffer.isBuffer(value) ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength)) as T
+  }
+  if (Array.isArray(value)) return value.map(reviveBuffers) as T
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of Object.keys(record)) record[key] = reviveBuffers(record[key])
+  }
+  return value
+}
+
+/**
+ * The ArrayBuffers that can be moved rather than copied: only those a
+ * Buffer owns outright (never a slice of Node's shared allocation pool)
+ */
+export function transferList(buffers: Uint8Array[]): ArrayBuffer[] {
+  const list = new Set<ArrayBuffer>()
+  for (const buffer of buffers) {
+    if (buffer.buffer instanceof ArrayBuffer && buffer.byteOffset === 0 && buffer.byteLength === buffer.buffer.byteLength)
+      list.add(buffer.buffer)
+  }
+  return [...list]
+}
+
+/**
+ * Every Buffer inside a job result, for transferList()
+ */
+export function collectBuffers(value: unknown, found: Uint8Array[] = []): Uint8Array[] {
+  if (value instanceof Uint8Array) found.push(value)
+  else if (Array.isArray(value)) value.forEach((item) => collectBuffers(item, found))
+  else if (value && typeof value === 'object') Object.values(value).forEach((item) => collectBuffers(item, found))
+  return found
+}
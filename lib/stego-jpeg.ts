@@ -0,0 +1,242 @@
+// ============================================
+// HSDC JPEG Steganography
+// F5 matrix encoding in the quantized DCT coefficients of a baseline JPEG
+// ============================================
+//
+// The carrier is never decompressed to pixels: coefficients are read with
+// lib/jpeg-dct.ts, the frame (the same HSDC / HSDR format as lossless
+// carriers) is written into non-zero AC coefficients in keyed order, and the
+// JPEG is re-encoded from them, so the downloaded file extracts exactly.
+//
+// F5 (Westfeld, 2001): a coefficient's bit is its LSB, inverted for negative
+// values, and it is changed by moving the value one step towards zero.
+// (1, n, k) matrix encoding hides k bits in a group of n = 2^k - 1 non-zero
+// coefficients with at most one change. A coefficient that shrinks to zero
+// no longer carries anything, so its group is embedded again. The chosen k
+// is written first, one bit per coefficient.
+import { decodeJpeg, encodeJpeg, type JpegImage } from './jpeg-dct'
+import {
+  CURRENT_STEGO_VERSION,
+  decodeFrame,
+  encodeFrame,
+  payloadCapacity,
+  pixelOrderFor,
+  type PixelOrder,
+} from './stego'
+import type { StegoEmbedResult, StegoExtractResult, StegoVersion } from './types'
+
+const AC_PER_BLOCK = 63
+const K_BITS = 4
+const MAX_K = 7
+// Shrinkage is estimated; keep planning slightly below the expectation
+const CAPACITY_MARGIN = 0.97
+
+interface CoefficientStats {
+  nonZero: number
+  ones: number // coefficients of magnitude 1, which shrink to zero when changed
+}
+
+// Flat block indices of every block that covers image samples (MCU padding is
+// not always coded, so it never carries data)
+function codedBlocks(jpeg: JpegImage): Uint32Array {
+  const count = jpeg.components.reduce((n, c) => n + c.visibleBlocksPerLine * c.visibleBlocksPerColumn, 0)
+  const blocks = new Uint32Array(count)
+  let i = 0
+  for (const c of jpeg.components) {
+    for (let row = 0; row < c.visibleBlocksPerColumn; row++) {
+      for (let col = 0; col < c.visibleBlocksPerLine; col++) blocks[i++] = c.blockOffset + row * c.blocksPerLine + col
+    }
+  }
+  return blocks
+}
+
+function coefficientStats(jpeg: JpegImage, blocks: Uint32Array): CoefficientStats {
+  const stats: CoefficientStats = { nonZero: 0, ones: 0 }
+  for (const block of blocks) {
+    for (let k = 1; k < 64; k++) {
+      const value = jpeg.coefficients[block * 64 + k]
+      if (value === 0) continue
+      stats.nonZero++
+      if (value === 1 || value === -1) stats.ones++
+    }
+  }
+  return stats
+}
+
+// Expected frame bytes at matrix parameter k: a group needs a change with
+// probability n / (n + 1), and that change shrinks a coefficient to zero at
+// the rate of magnitude-1 coefficients
+function frameBytesAt(stats: CoefficientStats, k: number): number {
+  if (stats.nonZero === 0) return 0
+  const n = 2 ** k - 1
+  const headerCoefficients = 2 * K_BITS
+  const shrinkage = (n / (n + 1)) * (stats.ones / stats.nonZero)
+  const groups = ((stats.nonZero - headerCoefficients) * (1 - shrinkage)) / n
+  return Math.max(0, Math.floor((groups * k * CAPACITY_MARGIN) / 8))
+}
+
+function coefficientBit(value: number): number {
+  return value > 0 ? value & 1 : 1 - (value & 1)
+}
+
+// Walks the non-zero AC coefficients in keyed order
+class CoefficientCursor {
+  position = 0
+  private readonly length: number
+
+  constructor(
+    private readonly coefficients: Int16Array,
+    private readonly blocks: Uint32Array,
+    private readonly order: PixelOrder,
+  ) {
+    this.length = blocks.length * AC_PER_BLOCK
+  }
+
+  // Index into JpegImage.coefficients, or -1 once the carrier is exhausted
+  next(): number {
+    while (this.position < this.length) {
+      const slot = this.order.at(this.position++)
+      const index = this.blocks[Math.floor(slot / AC_PER_BLOCK)] * 64 + (slot % AC_PER_BLOCK) + 1
+      if (this.coefficients[index] !== 0) return index
+    }
+    return -1
+  }
+}
+
+// Hide `value` (k bits) in the next group of n coefficients; returns the changes made
+function embedGroup(cursor: CoefficientCursor, coefficients: Int16Array, n: number, value: number): number {
+  let changes = 0
+  for (;;) {
+    const start = cursor.position
+    const group: number[] = []
+    let hash = 0
+    for (let i = 0; i < n; i++) {
+      const index = cursor.next()
+      if (index < 0) throw new Error('Payload exceeds capacity')
+      group.push(index)
+      if (coefficientBit(coefficients[index])) hash ^= i + 1
+    }
+
+    const target = hash ^ value
+    if (target === 0) return changes
+
+    const index = group[target - 1]
+    coefficients[index] += coefficients[index] > 0 ? -1 : 1
+    changes++
+    if (coefficients[index] !== 0) return changes
+
+    // Shrinkage: the zeroed coefficient is skipped when the group is re-read
+    cursor.position = start
+  }
+}
+
+function extractGroup(cursor: CoefficientCursor, coefficients: Int16Array, n: number): number {
+  let hash = 0
+  for (let i = 0; i < n; i++) {
+    const index = cursor.next()
+    if (index < 0) throw new Error('No HSDC data found in this JPEG')
+    if (coefficientBit(coefficients[index])) hash ^= i + 1
+  }
+  return hash
+}
+
+function embeddingState(jpeg: JpegImage, seed: string, version: StegoVersion) {
+  const blocks = codedBlocks(jpeg)
+  const order = pixelOrderFor(seed, version, blocks.length * AC_PER_BLOCK)
+  return { blocks, cursor: new CoefficientCursor(jpeg.coefficients, blocks, order) }
+}
+
+/**
+ * Largest payload a JPEG carrier is expected to hold, the DCT counterpart of
+ * calculateCapacity(). Accepts the file or already decoded coefficients.
+ */
+export function calculateJpegCapacity(carrier: Buffer | JpegImage, eccSymbols = 0): number {
+  const jpeg = Buffer.isBuffer(carrier) ? decodeJpeg(carrier) : carrier
+  return payloadCapacity(frameBytesAt(coefficientStats(jpeg, codedBlocks(jpeg)), 1), eccSymbols)
+}
+
+/**
+ * Embed a payload into a baseline JPEG and return the re-encoded JPEG
+ */
+export async function embedJpeg(
+  carrier: Buffer,
+  payload: Buffer,
+  seed: string,
+  version: StegoVersion = CURRENT_STEGO_VERSION,
+  eccSymbols = 0,
+): Promise<StegoEmbedResult> {
+  const jpeg = decodeJpeg(carrier)
+  const capacity = calculateJpegCapacity(jpeg, eccSymbols)
+  if (payload.length > capacity) throw new Error(`Payload exceeds capacity`)
+
+  const frame = encodeFrame(payload, eccSymbols)
+  const { blocks, cursor } = embeddingState(jpeg, seed, version)
+  const stats = coefficientStats(jpeg, blocks)
+
+  // The largest k that still fits makes the fewest changes per embedded bit
+  let k = 1
+  while (k < MAX_K && frameBytesAt(stats, k + 1) >= frame.length) k++
+  const n = 2 ** k - 1
+
+  let coefficientsModified = 0
+  for (let bit = K_BITS - 1; bit >= 0; bit--) {
+    coefficientsModified += embedGroup(cursor, jpeg.coefficients, 1, (k >> bit) & 1)
+  }
+
+  const totalBits = frame.length * 8
+  for (let bit = 0; bit < totalBits; bit += k) {
+    let value = 0
+    for (let i = 0; i < k; i++) {
+      const position = bit + i
+      const b = position < totalBits ? (frame[position >> 3] >> (7 - (position & 7))) & 1 : 0
+      value = (value << 1) | b
+    }
+    coefficientsModified += embedGroup(cursor, jpeg.coefficients, n, value)
+  }
+
+  return {
+    stegoImageBuffer: encodeJpeg(jpeg),
+    stegoVersion: version,
+    eccSymbols,
+    capacityUsed: payload.length,
+    capacityTotal: capacity,
+    pixelsModified: coefficientsModified, // DCT coefficients changed
+  }
+}
+
+/**
+ * Recover the payload from a JPEG written by embedJpeg()
+ */
+export function extractJpeg(
+  carrier: Buffer,
+  seed: string,
+  version: StegoVersion = CURRENT_STEGO_VERSION,
+): StegoExtractResult {
+  const jpeg = decodeJpeg(carrier)
+  const { blocks, cursor } = embeddingState(jpeg, seed, version)
+
+  let k = 0
+  for (let i = 0; i < K_BITS; i++) k = (k << 1) | extractGroup(cursor, jpeg.coefficients, 1)
+  if (k < 1 || k > MAX_K) throw new Error('No HSDC data found in this JPEG (matrix header mismatch)')
+  const n = 2 ** k - 1
+
+  let bits = 0
+  let bitCount = 0
+  const read = (length: number): Buffer => {
+    const out = Buffer.alloc(length)
+    for (let i = 0; i < length; i++) {
+      while (bitCount < 8) {
+        bits = (bits << k) | extractGroup(cursor, jpeg.coefficients, n)
+        bitCount += k
+      }
+      bitCount -= 8
+      out[i] = (bits >> bitCount) & 0xff
+      bits &= (1 << bitCount) - 1
+    }
+    return out
+  }
+
+  // Without shrinkage every non-zero coefficient would carry data: an upper bound on the frame
+  const upperBound = Math.ceil((coefficientStats(jpeg, blocks).nonZero / n) * k / 8)
+  return decodeFrame(read, upperBound)
+}
@@ -0,0 +1,360 @@
+// ============================================
+// HSDC Stego Worker Pool
+// Runs lib/stego-jobs.ts on worker threads, off the request thread
+// ============================================
+//
+// Embedding, extraction and image decoding are synchronous CPU work: on the
+// request thread one large carrier stalls every other request. Jobs queue
+// here (bounded: a full queue refuses work rather than piling it up) and run
+// on a fixed set of worker threads. A job that overruns its timeout or is
+// cancelled mid-run has its worker terminated and replaced, since that is
+// the only way to stop synchronous work.
+//
+// Buffers the caller hands over in `transfer` are moved, not copied, and are
+// unusable afterwards. Encryption runs here too: POOLED_CRYPTO sends key
+// wrapping, key unwrapping and the AEAD of streamed records to the pool a
+// batch of segments at a time, so the request thread only moves bytes.
+//
+// Node cannot start a worker from TypeScript source and the Next.js build
+// does not emit one, so the worker is compiled on its own by
+// `npm run build:worker` (tsconfig.stego-worker.json, part of `npm run build`
+// and `npm run dev`). Without it the pool runs jobs inline and reports itself
+// degraded in its metrics.
+//
+// Configuration:
+//   HSDC_STEGO_WORKERS         threads (default: CPU cores - 1, at most 4; 0 runs jobs inline)
+//   HSDC_STEGO_QUEUE_LIMIT     jobs waiting for a thread (default 32)
+//   HSDC_STEGO_JOB_TIMEOUT_MS  run time per job (default 120000)
+//   HSDC_STEGO_WORKER_ENTRY    compiled worker (default: dist/stego-worker/stego-worker.js
+//                              under the working directory)
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Worker, type TransferListItem } from 'worker_threads'
+import {
+  reviveBuffers,
+  STEGO_JOBS,
+  transferList,
+  type StegoJobInput,
+  type StegoJobKind,
+  type StegoJobOutput,
+} from './stego-jobs'
+import type { CryptoExecutor } from './crypto'
+import type { LatencySummary, StegoPoolMetrics } from './types'
+
+const MAX_DEFAULT_WORKERS = 4
+const DEFAULT_QUEUE_LIMIT = 32
+const DEFAULT_JOB_TIMEOUT_MS = 120_000
+const LATENCY_SAMPLES = 256
+const DEFAULT_WORKER_ENTRY = path.join('dist', 'stego-worker', 'stego-worker.js')
+
+export const STEGO_POOL_BUSY = 'Stego engine is busy - try again shortly'
+export const STEGO_JOB_TIMEOUT = 'Stego processing timed out'
+export const STEGO_JOB_CANCELLED = 'Stego processing was cancelled'
+
+export interface StegoJobOptions {
+  signal?: AbortSignal
+  transfer?: Buffer[] // moved to the worker; the caller must not touch them again
+}
+
+interface PendingJob {
+  id: number
+  kind: StegoJobKind
+  input: unknown
+  transfer: Buffer[]
+  resolve: (output: unknown) => void
+  reject: (error: Error) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+  timer?: ReturnType<typeof setTimeout>
+  enqueuedAt: number
+  startedAt: number
+}
+
+interface WorkerSlot {
+  worker: Worker
+  ready: boolean // the worker has loaded the job modules
+  job: PendingJob | null
+}
+
+function envInteger(name: string, fallback: number, min: number): number {
+  const raw = process.env[name]
+  if (!raw) return fallback
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min) throw new Error(`${name} must be an integer of at least ${min}`)
+  return value
+}
+
+// Most recent samples in a ring buffer
+class LatencyWindow {
+  private readonly samples: number[] = []
+  private next = 0
+
+  record(ms: number): void {
+    if (this.samples.length < LATENCY_SAMPLES) this.samples.push(ms)
+    else this.samples[this.next] = ms
+    this.next = (this.next + 1) % LATENCY_SAMPLES
+  }
+
+  summary(): LatencySummary {
+    if (this.samples.length === 0) return { p50: 0, p95: 0, max: 0 }
+    const sorted = [...this.samples].sort((a, b) => a - b)
+    const at = (q: number) => Math.round(sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))])
+    return { p50: at(0.5), p95: at(0.95), max: Math.round(sorted[sorted.length - 1]) }
+  }
+}
+
+class StegoWorkerPool {
+  private readonly slots: WorkerSlot[] = []
+  private readonly queue: PendingJob[] = []
+  private readonly waitTimes = new LatencyWindow()
+  private readonly runTimes = new LatencyWindow()
+  private nextId = 1
+  private counters = { completed: 0, failed: 0, rejected: 0, timedOut: 0, cancelled: 0 }
+  private degradedReason: string | null = null // why fewer threads run than configured
+
+  constructor(
+    private readonly configuredWorkers: number,
+    private readonly queueLimit: number,
+    private readonly timeoutMs: number,
+    private readonly entry: string,
+  ) {
+    if (configuredWorkers > 0 && !fs.existsSync(entry)) {
+      this.degradedReason = `Worker script ${entry} not found - run npm run build:worker`
+      console.error(`[STEGO POOL] ${this.degradedReason}; jobs run inline on the request thread`)
+      return
+    }
+    for (let i = 0; i < configuredWorkers; i++) {
+      const slot: WorkerSlot = { worker: new Worker(this.entry), ready: false, job: null }
+      this.watch(slot)
+      this.slots.push(slot)
+    }
+  }
+
+  run<K extends StegoJobKind>(kind: K, input: StegoJobInput<K>, options: StegoJobOptions = {}): Promise<StegoJobOutput<K>> {
+    const { signal, transfer = [] } = options
+    if (signal?.aborted) {
+      this.counters.cancelled++
+      return Promise.reject(new Error(STEGO_JOB_CANCELLED))
+    }
+    if (this.queue.length >= this.queueLimit) {
+      this.counters.rejected++
+      return Promise.reject(new Error(STEGO_POOL_BUSY))
+    }
+
+    return new Promise<StegoJobOutput<K>>((resolve, reject) => {
+      const job: PendingJob = {
+        id: this.nextId++,
+        kind,
+        input,
+        transfer,
+        resolve: resolve as (output: unknown) => void,
+        reject,
+        signal,
+        enqueuedAt: performance.now(),
+        startedAt: 0,
+      }
+      if (signal) {
+        job.onAbort = () => this.cancel(job)
+        signal.addEventListener('abort', job.onAbort, { once: true })
+      }
+      if (this.slots.length === 0) {
+        void this.runInline(job)
+        return
+      }
+      this.queue.push(job)
+      this.dispatch()
+    })
+  }
+
+  metrics(): StegoPoolMetrics {
+    return {
+      mode: this.degradedReason ? 'degraded' : this.slots.length > 0 ? 'threads' : 'inline',
+      degradedReason: this.degradedReason,
+      configuredWorkers: this.configuredWorkers,
+      workers: this.slots.length,
+      busy: this.slots.filter((s) => s.job).length,
+      queued: this.queue.length,
+      queueLimit: this.queueLimit,
+      ...this.counters,
+      waitMs: this.waitTimes.summary(),
+      runMs: this.runTimes.summary(),
+    }
+  }
+
+  // Route the messages and failures of the slot's current thread
+  private watch(slot: WorkerSlot): void {
+    const { worker } = slot
+    worker.on('message', (message: { ready?: true; id: number; output?: unknown; error?: string }) => {
+      if (slot.worker !== worker) return
+      if (message.ready) {
+        slot.ready = true
+        this.dispatch()
+        return
+      }
+      const job = slot.job
+      if (!job || job.id !== message.id) return
+      slot.job = null
+      if (message.error === undefined) this.settle(job, null, reviveBuffers(message.output))
+      else this.settle(job, new Error(message.error))
+      this.dispatch()
+    })
+    const failed = (error: Error) => {
+      if (slot.worker !== worker) return
+      if (slot.ready) this.replace(slot, error)
+      else this.retire(slot, error)
+    }
+    worker.on('error', (err) => failed(err instanceof Error ? err : new Error('Stego worker crashed')))
+    worker.on('exit', () => failed(new Error('Stego worker exited')))
+    // After the listeners: a 'message' listener refs the worker again
+    worker.unref()
+  }
+
+  // Fail the slot's job (if any) and start a fresh thread in its place
+  private replace(slot: WorkerSlot, error: Error): void {
+    const { worker, job } = slot
+    slot.worker = new Worker(this.entry)
+    slot.ready = false
+    slot.job = null
+    this.watch(slot)
+    void worker.terminate()
+    if (job) this.settle(job, error)
+    this.dispatch()
+  }
+
+  // A thread that cannot even load the job modules would fail again on every
+  // respawn: drop the slot (it never had a job); with none left, jobs run inline
+  private retire(slot: WorkerSlot, error: Error): void {
+    const index = this.slots.indexOf(slot)
+    if (index < 0) return // 'error' and 'exit' both report the same failure
+    console.error('[STEGO POOL] Worker thread failed to start:', error)
+    this.degradedReason = `Worker thread failed to start: ${error.message}`
+    this.slots.splice(index, 1)
+    if (this.slots.length > 0) return
+    for (const queued of this.queue.splice(0)) void this.runInline(queued)
+  }
+
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (!slot.ready || slot.job) continue
+      const job = this.queue.shift()
+      if (!job) break
+
+      slot.job = job
+      job.startedAt = performance.now()
+      this.waitTimes.record(job.startedAt - job.enqueuedAt)
+      job.timer = setTimeout(() => {
+        this.counters.timedOut++
+        this.replace(slot, new Error(STEGO_JOB_TIMEOUT))
+      }, this.timeoutMs)
+
+      const message = { id: job.id, kind: job.kind, input: job.input }
+      try {
+        slot.worker.postMessage(message, transferList(job.transfer) as TransferListItem[])
+      } catch {
+        // Some buffers (e.g. native allocations) cannot be moved; copy them instead
+        slot.worker.postMessage(message)
+      }
+    }
+    this.holdProcess()
+  }
+
+  // Threads keep the process alive only while jobs are queued or running
+  private holdProcess(): void {
+    const active = this.queue.length > 0 || this.slots.some((s) => s.job)
+    for (const slot of this.slots) {
+      if (active) slot.worker.ref()
+      else slot.worker.unref()
+    }
+  }
+
+  private cancel(job: PendingJob): void {
+    const queued = this.queue.indexOf(job)
+    const slot = this.slots.find((s) => s.job === job)
+    if (queued < 0 && !slot) return
+
+    this.counters.cancelled++
+    if (slot) {
+      this.replace(slot, new Error(STEGO_JOB_CANCELLED))
+      return
+    }
+    this.queue.splice(queued, 1)
+    this.settle(job, new Error(STEGO_JOB_CANCELLED))
+    this.holdProcess()
+  }
+
+  // Without threads the job runs here; cancellation only applies before it starts
+  private async runInline(job: PendingJob): Promise<void> {
+    job.startedAt = performance.now()
+    this.waitTimes.record(0)
+    try {
+      const output = await (STEGO_JOBS[job.kind] as (input: unknown) => Promise<unknown>)(job.input)
+      this.settle(job, null, output)
+    } catch (err) {
+      this.settle(job, err instanceof Error ? err : new Error('Stego job failed'))
+    }
+  }
+
+  private settle(job: PendingJob, error: Error | null, output?: unknown): void {
+    if (job.timer) clearTimeout(job.timer)
+    if (job.signal && job.onAbort) job.signal.removeEventListener('abort', job.onAbort)
+    if (job.startedAt) this.runTimes.record(performance.now() - job.startedAt)
+
+    if (error) {
+      if (error.message !== STEGO_JOB_TIMEOUT && error.message !== STEGO_JOB_CANCELLED) this.counters.failed++
+      job.reject(error)
+    } else {
+      this.counters.completed++
+      job.resolve(output)
+    }
+  }
+}
+
+// One pool per server process, kept across dev-mode module reloads
+const globalForPool = globalThis as typeof globalThis & { hsdcStegoPool?: StegoWorkerPool }
+
+function getPool(): StegoWorkerPool {
+  if (!globalForPool.hsdcStegoPool) {
+    const defaultWorkers = Math.max(1, Math.min(MAX_DEFAULT_WORKERS, os.availableParallelism() - 1))
+    globalForPool.hsdcStegoPool = new StegoWorkerPool(
+      envInteger('HSDC_STEGO_WORKERS', defaultWorkers, 0),
+      envInteger('HSDC_STEGO_QUEUE_LIMIT', DEFAULT_QUEUE_LIMIT, 1),
+      envInteger('HSDC_STEGO_JOB_TIMEOUT_MS', DEFAULT_JOB_TIMEOUT_MS, 1),
+      path.resolve(process.env.HSDC_STEGO_WORKER_ENTRY || DEFAULT_WORKER_ENTRY),
+    )
+  }
+  return globalForPool.hsdcStegoPool
+}
+
+/**
+ * Run a stego job on the worker pool. Rejects with STEGO_POOL_BUSY when the
+ * queue is full, STEGO_JOB_TIMEOUT or STEGO_JOB_CANCELLED, or the job's own error.
+ */
+export function runStegoJob<K extends StegoJobKind>(
+  kind: K,
+  input: StegoJobInput<K>,
+  options?: StegoJobOptions,
+): Promise<StegoJobOutput<K>> {
+  return getPool().run(kind, input, options)
+}
+
+/**
+ * Key wrapping and segment AEAD on the pool, for createEncryptionStream and
+ * createDecryptionStream. Batches are stateless, so a slow download never
+ * holds a thread between them.
+ */
+export const POOLED_CRYPTO: CryptoExecutor = {
+  storeDataKey: (dataKey, custody) => runStegoJob('storeDataKey', { dataKey, custody }),
+  unwrapDataKey: (key) => runStegoJob('unwrapDataKey', key),
+  // The batch data is a fresh buffer the stream does not reuse; never the key
+  sealSegments: (batch) => runStegoJob('sealSegments', batch, { transfer: [batch.data] }),
+  openSegments: (batch) => runStegoJob('openSegments', batch, { transfer: [batch.data] }),
+}
+
+/**
+ * Queue depth, throughput and latency of this process's pool, for sizing it,
+ * and whether it is running degraded
+ */
+export function getStegoPoolMetrics(): StegoPoolMetrics {
+  return getPool().metrics()
+}
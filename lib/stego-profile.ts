@@ -0,0 +1,99 @@
+// ============================================
+// HSDC Embedding Profiles
+// LSB depth, channel selection, density cap and adaptive placement for one carrier
+// ============================================
+//
+// The profile is stored on the metadata record (metadata.stego_profile) so
+// extraction reads exactly the bits that were written. Records without one
+// were embedded with LEGACY_STEGO_PROFILE. This module has no Node imports,
+// so the upload page can show the same capacity figures the server enforces.
+import type { StegoChannel, StegoProfile } from './types'
+
+export const MIN_LSB_DEPTH = 1
+export const MAX_LSB_DEPTH = 4
+export const MIN_DENSITY = 0.05
+
+// Byte offset of each channel within an RGBA pixel
+export const CHANNEL_OFFSETS: Record<StegoChannel, number> = { r: 0, g: 1, b: 2, a: 3 }
+
+export const LEGACY_STEGO_PROFILE: StegoProfile = { bitsPerChannel: 2, channels: ['r', 'g', 'b'], density: 1 }
+
+/**
+ * Validate a profile (e.g. parsed from a form or a database row) and put
+ * its channels in canonical RGBA order
+ */
+export function normalizeStegoProfile(input: Partial<StegoProfile> | null | undefined): StegoProfile {
+  if (!input) return LEGACY_STEGO_PROFILE
+
+  const bitsPerChannel = Number(input.bitsPerChannel)
+  if (!Number.isInteger(bitsPerChannel) || bitsPerChannel < MIN_LSB_DEPTH || bitsPerChannel > MAX_LSB_DEPTH) {
+    throw new Error(`LSB depth must be between ${MIN_LSB_DEPTH} and ${MAX_LSB_DEPTH} bits`)
+  }
+
+  const requested = new Set(input.channels || [])
+  const channels = (Object.keys(CHANNEL_OFFSETS) as StegoChannel[]).filter((c) => requested.has(c))
+  if (channels.length === 0 || channels.length !== requested.size) {
+    throw new Error('Select one or more of the R, G, B and A channels')
+  }
+
+  const density = Number(input.density)
+  if (!Number.isFinite(density) || density < MIN_DENSITY || density > 1) {
+    throw new Error(`Density must be between ${MIN_DENSITY * 100}% and 100% of pixels`)
+  }
+
+  // Only written when set, so non-adaptive profiles keep their stored shape
+  return input.adaptive ? { bitsPerChannel, channels, density, adaptive: true } : { bitsPerChannel, channels, density }
+}
+
+/**
+ * Pixels the profile may touch (the first ones in the keyed pixel order)
+ */
+export function usablePixels(width: number, height: number, profile: StegoProfile): number {
+  return Math.floor(width * height * profile.density)
+}
+
+/**
+ * Frame bytes a carrier can hold under a profile, before frame overhead
+ */
+export function rawCapacityBytes(width: number, height: number, profile: StegoProfile): number {
+  const bits = usablePixels(width, height, profile) * profile.channels.length * profile.bitsPerChannel
+  return Math.floor(bits / 8)
+}
+
+export interface ProfileTradeoff {
+  capacityBytes: number
+  bitsPerPixel: number
+  maxChannelDelta: number // largest change to a single channel value
+  pixelsTouched: number // share of carrier pixels a payload of the given size modifies
+  detectability: 'low' | 'moderate' | 'high'
+}
+
+/**
+ * Capacity against detectability for the upload page. Detectability is a
+ * rough guide: deeper LSBs, alpha use and a high embedding rate each make
+ * statistical steganalysis easier; confining changes to texture makes it harder.
+ */
+export function describeProfile(
+  width: number,
+  height: number,
+  profile: StegoProfile,
+  payloadBytes = 0,
+): ProfileTradeoff {
+  const capacityBytes = rawCapacityBytes(width, height, profile)
+  const bitsPerPixel = profile.channels.length * profile.bitsPerChannel * profile.density
+  const pixelsNeeded = Math.ceil((payloadBytes * 8) / (profile.channels.length * profile.bitsPerChannel))
+  const pixelsTouched = width * height > 0 ? Math.min(1, pixelsNeeded / (width * height)) : 0
+
+  let score = profile.bitsPerChannel - 1
+  if (profile.channels.includes('a')) score++
+  if (pixelsTouched > 0.5) score++
+  if (profile.adaptive) score--
+
+  return {
+    capacityBytes,
+    bitsPerPixel,
+    maxChannelDelta: 2 ** profile.bitsPerChannel - 1,
+    pixelsTouched,
+    detectability: score <= 1 ? 'low' : score === 2 ? 'moderate' : 'high',
+  }
+}
@@ -0,0 +1,274 @@
+// ============================================
+// HSDC Stego Seed Derivation
+// HKDF-SHA256 pixel-order seeds - nothing secret is written to the audit log
+// ============================================
+//
+//   seed = HKDF-SHA256(ikm = seed key, salt = metadata.stego_salt,
+//                      info = "hsdc-stego-seed-v1:" || metadata.id)
+//
+// Seed keys are versioned like the master keyring (lib/keyring.ts): the key
+// a row was embedded under is named by metadata.stego_seed_key_id (null for
+// rows from before key IDs, which use LEGACY_SEED_KEY_ID). Keys are hex
+// encoded, at least 32 bytes: HSDC_STEGO_SEED_KEY is the legacy key, and
+// further keys are declared with HSDC_STEGO_SEED_KEY_IDS and read from
+// HSDC_STEGO_SEED_KEY_<ID>. HSDC_STEGO_SEED_ACTIVE_KEY_ID picks the key new
+// uploads use. A retired key must stay configured while rows name it, since
+// the pixel order of their stego images depends on it.
+//
+// Records embedded before derivation used a random seed kept in plaintext in
+// the UPLOAD activity log. The migration seals each of those seeds onto its
+// metadata row (metadata.legacy_stego_seed, AES-256-GCM under a key derived
+// from the same secret) and removes it from the log. The pixel order of
+// existing stego images - including copies users downloaded - is unchanged.
+import crypto from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { createClient } from '@/lib/supabase/server'
+import type { MetadataRow } from './types'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+const SEED_INFO = 'hsdc-stego-seed-v1'
+const LEGACY_SEAL_INFO = 'hsdc-legacy-stego-seed-v1'
+const SALT_BYTES = 16
+const SEED_BYTES = 32
+const IV_BYTES = 12
+const TAG_BYTES = 16
+const DEFAULT_BATCH_SIZE = 100
+const SEED_KEY_PATTERN = /^(?:[0-9a-f]{2}){32,}$/i
+
+/**
+ * Seed key ID of the unsuffixed HSDC_STEGO_SEED_KEY, and of every row
+ * written before seed key IDs existed
+ */
+export const LEGACY_SEED_KEY_ID = 'v1'
+
+export interface StegoSeedMigrationSummary {
+  migrated: number
+  skipped: number
+  failed: number
+}
+
+// "v2" -> "V2", "2026-q1" -> "2026_Q1"
+function envSuffix(keyId: string): string {
+  return keyId.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+}
+
+// Hex only, so a value can never decode two ways; shorter than 256 bits is refused
+function parseSeedKey(name: string, raw: string): Buffer {
+  if (!SEED_KEY_PATTERN.test(raw)) throw new Error(`${name} must be a hex-encoded key of at least 32 bytes`)
+  return Buffer.from(raw, 'hex')
+}
+
+function loadSeedKeyring(): Map<string, Buffer> {
+  const keyring = new Map<string, Buffer>()
+  if (process.env.HSDC_STEGO_SEED_KEY) {
+    keyring.set(LEGACY_SEED_KEY_ID, parseSeedKey('HSDC_STEGO_SEED_KEY', process.env.HSDC_STEGO_SEED_KEY))
+  }
+
+  const declaredIds = (process.env.HSDC_STEGO_SEED_KEY_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+  for (const id of declaredIds) {
+    const name = `HSDC_STEGO_SEED_KEY_${envSuffix(id)}`
+    const raw = process.env[name]
+    if (!raw) throw new Error(`Stego seed key "${id}" is declared in HSDC_STEGO_SEED_KEY_IDS but ${name} is not set`)
+    keyring.set(id, parseSeedKey(name, raw))
+  }
+  return keyring
+}
+
+/**
+ * The seed key ID new uploads are embedded under
+ */
+export function getActiveStegoSeedKeyId(): string {
+  return process.env.HSDC_STEGO_SEED_ACTIVE_KEY_ID || LEGACY_SEED_KEY_ID
+}
+
+function seedSecret(keyId: string): Buffer {
+  const secret = loadSeedKeyring().get(keyId)
+  if (!secret) throw new Error(`No stego seed key configured for key ID "${keyId}"`)
+  return secret
+}
+
+function hkdf(keyId: string, salt: Buffer, info: string, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', seedSecret(keyId), salt, info, length))
+}
+
+/**
+ * Fresh per-file salt, stored hex-encoded in metadata.stego_salt
+ */
+export function generateStegoSalt(): string {
+  return crypto.randomBytes(SALT_BYTES).toString('hex')
+}
+
+/**
+ * Pixel-order seed for a record, under the seed key it names
+ */
+export function deriveStegoSeed(metadataId: string, saltHex: string, keyId: string): string {
+  return hkdf(keyId, Buffer.from(saltHex, 'hex'), `${SEED_INFO}:${metadataId}`, SEED_BYTES).toString('hex')
+}
+
+function legacySealKey(keyId: string): Buffer {
+  return hkdf(keyId, Buffer.alloc(0), LEGACY_SEAL_INFO, 32)
+}
+
+/**
+ * Seal a log-era seed for storage on its metadata row (bound to the row ID)
+ */
+export function sealLegacySeed(metadataId: string, seed: string, keyId: string): string {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv('aes-256-gcm', legacySealKey(keyId), iv, { authTagLength: TAG_BYTES })
+  cipher.setAAD(Buffer.from(metadataId, 'utf8'))
+  const body = Buffer.concat([cipher.update(seed, 'utf8'), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), body]).toString('base64')
+}
+
+function openLegacySeed(metadataId: string, sealed: string, keyId: string): string {
+  const data = Buffer.from(sealed, 'base64')
+  const decipher = crypto.createDecipheriv('aes-256-gcm', legacySealKey(keyId), data.subarray(0, IV_BYTES), {
+    authTagLength: TAG_BYTES,
+  })
+  decipher.setAAD(Buffer.from(metadataId, 'utf8'))
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8')
+}
+
+/**
+ * Seed for a metadata row: derived, sealed legacy, or (for rows the migration
+ * has not reached yet) the legacy UPLOAD log entry. Null when none exists.
+ */
+export async function resolveStegoSeed(
+  supabase: SupabaseServerClient,
+  meta: Pick<MetadataRow, 'id' | 'stego_salt' | 'stego_seed_key_id' | 'legacy_stego_seed'>,
+): Promise<string | null> {
+  const keyId = meta.stego_seed_key_id ?? LEGACY_SEED_KEY_ID
+  if (meta.stego_salt) return deriveStegoSeed(meta.id, meta.stego_salt, keyId)
+  if (meta.legacy_stego_seed) return openLegacySeed(meta.id, meta.legacy_stego_seed, keyId)
+
+  const { data: uploadLog } = await supabase
+    .from('activity_logs')
+    .select('details')
+    .eq('resource_id', meta.id)
+    .eq('action', 'UPLOAD')
+    .maybeSingle()
+
+  const seed = (uploadLog?.details as Record<string, unknown> | null)?.stego_seed
+  return typeof seed === 'string' ? seed : null
+}
+
+/**
+ * Move every log-stored seed onto its metadata row and strip it from the log.
+ * Safe to re-run: rows that already have a salt or sealed seed are left alone.
+ */
+export async function migrateLegacyStegoSeeds(batchSize = DEFAULT_BATCH_SIZE): Promise<StegoSeedMigrationSummary> {
+  const supabase = createAdminClient()
+  const summary: StegoSeedMigrationSummary = { migrated: 0, skipped: 0, failed: 0 }
+  const keyId = getActiveStegoSeedKeyId()
+
+  // Walk the logs by ID; rows that fail keep their seed and can be retried
+  let cursor: string | null = null
+  for (;;) {
+    let query = supabase
+      .from('activity_logs')
+      .select('id, resource_id, details')
+      .eq('action', 'UPLOAD')
+      .not('details->>stego_seed', 'is', null)
+      .order('id', { ascending: true })
+      .limit(batchSize)
+    if (cursor) query = query.gt('id', cursor)
+
+    const { data: pending, error } = await query
+    if (error) throw new Error(`Failed to read upload logs: ${error.message}`)
+    if (!pending || pending.length === 0) break
+    cursor = pending[pending.length - 1].id as string
+
+    for (const log of pending) {
+      const { stego_seed: seed, ...details } = log.details as Record<string, unknown>
+      try {
+        if (log.resource_id && typeof seed === 'string') {
+          const { data: updated, error: updateError } = await supabase
+            .from('metadata')
+            .update({ legacy_stego_seed: sealLegacySeed(log.resource_id, seed, keyId), stego_seed_key_id: keyId })
+            .eq('id', log.resource_id)
+            .is('stego_salt', null)
+            .is('legacy_stego_seed', null)
+            .select('id')
+          if (updateError) throw updateError
+          if (updated && updated.length > 0) summary.migrated++
+          else summary.skipped++
+        } else {
+          summary.skipped++
+        }
+
+        const { error: scrubError } = await supabase
+          .from('activity_logs')
+          .update({ details })
+          .eq('id', log.id)
+        if (scrubError) throw scrubError
+      } catch (err) {
+        console.error(`[STEGO SEED] Failed to migrate log ${log.id}:`, err instanceof Error ? err.message : err)
+        summary.failed++
+      }
+    }
+
+    if (pending.length < batchSize) break
+  }
+
+  return summary
+}
+
+/**
+ * Execute a STEGO_SEED_MIGRATION job from the `workers` table and record its outcome
+ */
+export async function runStegoSeedMigrationJob(jobId: string): Promise<StegoSeedMigrationSummary | null> {
+  const supabase = createAdminClient()
+
+  const { data: job, error } = await supabase
+    .from('workers')
+    .update({
+      status: 'RUNNING',
+      locked_at: new Date().toISOString(),
+      locked_by: 'stego-seed-migration',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('status', 'PENDING')
+    .select('id, payload, attempts')
+    .single()
+
+  // Already picked up by another invocation
+  if (error || !job) return null
+
+  const payload = job.payload as { actor_user_id: string; batch_size?: number }
+
+  try {
+    const summary = await migrateLegacyStegoSeeds(payload.batch_size)
+
+    await supabase
+      .from('workers')
+      .update({
+        status: summary.failed > 0 ? 'FAILED' : 'COMPLETED',
+        attempts: (job.attempts || 0) + 1,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        payload: { ...payload, summary },
+        last_error: summary.failed > 0 ? `${summary.failed} seed(s) could not be migrated` : null,
+      })
+      .eq('id', jobId)
+
+    return summary
+  } catch (err) {
+    await supabase
+      .from('workers')
+      .update({
+        status: 'FAILED',
+        attempts: (job.attempts || 0) + 1,
+        failed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        last_error: err instanceof Error ? err.message : String(err),
+      })
+      .eq('id', jobId)
+    throw err
+  }
+}
@@ -0,0 +1,138 @@
+// ============================================
+// HSDC Multi-Carrier Sharding
+// Splits one ciphertext across several carriers, with optional XOR parity
+// ============================================
+//
+// Each carrier holds an ordinary stego frame (HSDC / HSDR, so CRC and error
+// correction apply per carrier) whose payload is one shard:
+//
+//   "HSDS" || set ID (16) || index (u8) || data shards (u8) || total shards (u8)
+//   || ciphertext length (u32) || shard data
+//
+// Data shards are equal slices of the ciphertext, the last one zero-padded.
+// The optional parity shard is the XOR of all data shards, so any single
+// missing carrier can be rebuilt. Shards reassemble in any order.
+import crypto from 'crypto'
+
+const SHARD_MAGIC = Buffer.from('HSDS', 'ascii')
+const SET_ID_BYTES = 16
+const SHARD_HEADER_SIZE = SHARD_MAGIC.length + SET_ID_BYTES + 3 + 4
+export const MAX_SHARD_CARRIERS = 16
+
+export interface StegoShard {
+  setId: string
+  index: number
+  dataShards: number
+  totalShards: number
+  payloadLength: number
+  data: Buffer
+}
+
+/**
+ * Frame payload bytes each carrier needs to hold its shard
+ */
+export function shardPayloadSize(payloadLength: number, dataShards: number): number {
+  return SHARD_HEADER_SIZE + Math.ceil(payloadLength / dataShards)
+}
+
+/**
+ * Split a payload into `dataShards` shards plus `parityShards` (0 or 1) parity,
+ * each ready to embed as the payload of its own stego frame
+ */
+export function splitShards(
+  payload: Buffer,
+  dataShards: number,
+  parityShards: number,
+): { setId: string; shards: Buffer[] } {
+  const totalShards = dataShards + parityShards
+  if (!Number.isInteger(dataShards) || dataShards < 1) throw new Error('At least one data shard is required')
+  if (parityShards !== 0 && parityShards !== 1) throw new Error('Only a single parity shard is supported')
+  if (totalShards > MAX_SHARD_CARRIERS) throw new Error(`A shard set spans at most ${MAX_SHARD_CARRIERS} carriers`)
+
+  const setId = crypto.randomBytes(SET_ID_BYTES)
+  const size = Math.ceil(payload.length / dataShards)
+  const slices: Buffer[] = Array.from({ length: dataShards }, (_, i) => {
+    const slice = Buffer.alloc(size)
+    payload.copy(slice, 0, i * size, (i + 1) * size)
+    return slice
+  })
+  if (parityShards) slices.push(xorAll(slices, size))
+
+  const shards = slices.map((data, index) => {
+    const header = Buffer.alloc(SHARD_HEADER_SIZE)
+    SHARD_MAGIC.copy(header, 0)
+    setId.copy(header, SHARD_MAGIC.length)
+    let offset = SHARD_MAGIC.length + SET_ID_BYTES
+    header[offset++] = index
+    header[offset++] = dataShards
+    header[offset++] = totalShards
+    header.writeUInt32BE(payload.length, offset)
+    return Buffer.concat([header, data])
+  })
+  return { setId: setId.toString('hex'), shards }
+}
+
+/**
+ * Parse the shard carried in an extracted frame payload
+ */
+export function parseShard(frame: Buffer): StegoShard {
+  if (frame.length < SHARD_HEADER_SIZE || !frame.subarray(0, SHARD_MAGIC.length).equals(SHARD_MAGIC)) {
+    throw new Error('Carrier does not hold a shard of a multi-carrier set')
+  }
+  let offset = SHARD_MAGIC.length
+  const setId = frame.subarray(offset, (offset += SET_ID_BYTES)).toString('hex')
+  const index = frame[offset++]
+  const dataShards = frame[offset++]
+  const totalShards = frame[offset++]
+  const payloadLength = frame.readUInt32BE(offset)
+  if (dataShards < 1 || totalShards < dataShards || totalShards > dataShards + 1 || index >= totalShards) {
+    throw new Error('Corrupt shard header')
+  }
+  return { setId, index, dataShards, totalShards, payloadLength, data: frame.subarray(SHARD_HEADER_SIZE) }
+}
+
+/**
+ * Reassemble the payload of set `setId` from shards in any order. Shards of
+ * other sets and duplicates are ignored; with a parity shard one data shard
+ * may be missing.
+ */
+export function joinShards(shards: StegoShard[], setId: string): Buffer {
+  const byIndex = new Map<number, StegoShard>()
+  for (const shard of shards) {
+    if (shard.setId === setId && !byIndex.has(shard.index)) byIndex.set(shard.index, shard)
+  }
+  const first = byIndex.values().next().value
+  if (!first) throw new Error('No shard of this file was found in the supplied carriers')
+
+  const { dataShards, totalShards, payloadLength } = first
+  const size = Math.ceil(payloadLength / dataShards)
+  for (const shard of byIndex.values()) {
+    if (shard.dataShards !== dataShards || shard.totalShards !== totalShards || shard.payloadLength !== payloadLength) {
+      throw new Error('Shard headers of this set disagree')
+    }
+    if (shard.data.length !== size) throw new Error('Shard has the wrong length')
+  }
+
+  const missing: number[] = []
+  for (let i = 0; i < dataShards; i++) if (!byIndex.has(i)) missing.push(i)
+
+  const slices: Buffer[] = []
+  for (let i = 0; i < dataShards; i++) slices.push(byIndex.get(i)?.data ?? Buffer.alloc(0))
+  if (missing.length > 0) {
+    const parity = byIndex.get(dataShards)
+    if (missing.length > 1 || !parity) {
+      throw new Error(`${missing.length} of ${dataShards} data shards are missing and cannot be rebuilt`)
+    }
+    slices[missing[0]] = xorAll([parity.data, ...slices.filter((_, i) => i !== missing[0])], size)
+  }
+
+  return Buffer.concat(slices).subarray(0, payloadLength)
+}
+
+function xorAll(buffers: Buffer[], size: number): Buffer {
+  const out = Buffer.alloc(size)
+  for (const buffer of buffers) {
+    for (let i = 0; i < size; i++) out[i] ^= buffer[i]
+  }
+  return out
+}
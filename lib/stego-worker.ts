@@ -0,0 +1,35 @@
+// ============================================
+// HSDC Stego Worker
+// Worker thread entry point for lib/stego-pool.ts
+// ============================================
+import { parentPort, type TransferListItem } from 'worker_threads'
+import { collectBuffers, reviveBuffers, STEGO_JOBS, transferList, type StegoJobKind } from './stego-jobs'
+
+interface JobMessage {
+  id: number
+  kind: StegoJobKind
+  input: unknown
+}
+
+const port = parentPort
+if (!port) throw new Error('lib/stego-worker.ts must run as a worker thread')
+
+port.on('message', async ({ id, kind, input }: JobMessage) => {
+  let output: unknown
+  try {
+    output = await (STEGO_JOBS[kind] as (input: unknown) => Promise<unknown>)(reviveBuffers(input))
+  } catch (err) {
+    port.postMessage({ id, error: err instanceof Error ? err.message : 'Stego job failed' })
+    return
+  }
+
+  // Results move back without a copy where Node allows it
+  try {
+    port.postMessage({ id, output }, transferList(collectBuffers(output)) as TransferListItem[])
+  } catch {
+    port.postMessage({ id, output })
+  }
+})
+
+// The job modules loaded: the pool may start sending work
+port.postMessage({ ready: true })
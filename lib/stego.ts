@@ -3,7 +3,10 @@
 // PRNG LSB Implementation (Cryptographically Synchronized)
 // ============================================
 import crypto from 'crypto'
-import type { StegoEmbedResult, StegoExtractResult } from './types'
+import { rsDecode, rsEncode, MAX_CODEWORD } from './reed-solomon'
+import { CHANNEL_OFFSETS, LEGACY_STEGO_PROFILE, rawCapacityBytes, usablePixels } from './stego-profile'
+import { measureCarrierQuality } from './carrier-quality'
+import type { StegoEmbedResult, StegoExtractResult, StegoProfile, StegoVersion } from './types'
 
 const HSDC_MAGIC = Buffer.from('HSDC', 'ascii')
 const LENGTH_BYTES = 4
@@ -13,6 +16,62 @@ const CRC_BYTES = 4
 const PREFIX_SIZE = HSDC_MAGIC.length + LENGTH_BYTES 
 const HEADER_SIZE = PREFIX_SIZE + CRC_BYTES // Total overhead (12 bytes)
 
+// Error-corrected frames (see encodeEccFrame):
+//   header codeword = "HSDR" || payload length (u32) || parity per block (u8) || 16 parity bytes
+//   body            = interleaved RS codewords over payload || CRC32
+const ECC_MAGIC = Buffer.from('HSDR', 'ascii')
+const ECC_HEADER_DATA = ECC_MAGIC.length + LENGTH_BYTES + 1
+const ECC_HEADER_PARITY = 16
+const ECC_HEADER_SIZE = ECC_HEADER_DATA + ECC_HEADER_PARITY
+const MAX_ECC_SYMBOLS = 128
+
+// Parity bytes per 255-byte block: each level corrects half as many bytes per block
+export const ECC_LEVELS = { off: 0, low: 16, medium: 32, high: 64 } as const
+export type EccLevel = keyof typeof ECC_LEVELS
+
+export interface StegoFrameOptions {
+  eccSymbols?: number
+  profile?: StegoProfile // defaults to the legacy 2 LSBs of R, G and B over every pixel
+}
+
+// Deniable second frame: its own payload and seed, the decoy's ECC level and profile
+export interface HiddenFrameOptions {
+  payload: Buffer
+  seed: string
+}
+
+export interface StegoEmbedOptions extends StegoFrameOptions {
+  hidden?: HiddenFrameOptions
+}
+
+// Pixel order versions. The version is stored on the metadata record, since
+// the frame itself can only be found once the order is known.
+export const STEGO_VERSION_LCG: StegoVersion = 1
+export const STEGO_VERSION_KEYED: StegoVersion = 2
+export const STEGO_VERSION_FEISTEL: StegoVersion = 3
+export const CURRENT_STEGO_VERSION: StegoVersion = STEGO_VERSION_FEISTEL
+
+const KEYSTREAM_CHUNK = 64 * 1024
+const UINT32_RANGE = 0x100000000
+const FEISTEL_ROUNDS = 8
+const MAX_HALF_BITS = 16
+
+// Position in the embedding order -> pixel index
+export interface PixelOrder {
+  at(position: number): number
+}
+
+// v1 and v2 are Fisher-Yates shuffles, so the whole order has to be built
+// before the first position is known
+class ShuffledOrder implements PixelOrder {
+  constructor(private readonly indices: Uint32Array) {}
+
+  at(position: number): number {
+    return this.indices[position]
+  }
+}
+
+// Legacy (v1): only 2^32 possible orders - kept so older images still extract
 class SeededPRNG {
   private state: number
 
@@ -26,8 +85,9 @@ class SeededPRNG {
     return this.state
   }
 
-  shuffleIndices(length: number): number[] {
-    const indices = Array.from({ length }, (_, i) => i)
+  shuffleIndices(length: number): Uint32Array {
+    const indices = new Uint32Array(length)
+    for (let i = 0; i < length; i++) indices[i] = i
     for (let i = length - 1; i > 0; i--) {
       const j = this.next() % (i + 1)
       const temp = indices[i]
@@ -38,6 +98,112 @@ class SeededPRNG {
   }
 }
 
+function keystreamCipher(seed: string, label: string) {
+  const key = crypto.createHmac('sha256', seed).update(label).digest()
+  return crypto.createCipheriv('aes-256-ctr', key, Buffer.alloc(16))
+}
+
+// v2: Fisher-Yates driven by an AES-256-CTR keystream under a key derived
+// from the full seed. Indices are drawn by rejection sampling, so every
+// order is equally likely.
+class KeyedShuffle {
+  private cipher: ReturnType<typeof crypto.createCipheriv>
+  private zeros = Buffer.alloc(KEYSTREAM_CHUNK)
+  private block = Buffer.alloc(0)
+  private offset = 0
+
+  constructor(seed: string) {
+    this.cipher = keystreamCipher(seed, 'hsdc-pixel-order-v2')
+  }
+
+  private next(): number {
+    if (this.offset + 4 > this.block.length) {
+      this.block = this.cipher.update(this.zeros)
+      this.offset = 0
+    }
+    const value = this.block.readUInt32BE(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  // Uniform integer in [0, bound)
+  private below(bound: number): number {
+    const limit = UINT32_RANGE - (UINT32_RANGE % bound)
+    let value = this.next()
+    while (value >= limit) value = this.next()
+    return value % bound
+  }
+
+  shuffleIndices(length: number): Uint32Array {
+    const indices = new Uint32Array(length)
+    for (let i = 0; i < length; i++) indices[i] = i
+    for (let i = length - 1; i > 0; i--) {
+      const j = this.below(i + 1)
+      const temp = indices[i]
+      indices[i] = indices[j]
+      indices[j] = temp
+    }
+    return indices
+  }
+}
+
+// v3: keyed permutation of [0, length) evaluated one position at a time.
+// A balanced Feistel network permutes the smallest even-width bit domain
+// covering `length`; outputs beyond the image are walked forward until they
+// land inside it (cycle-walking, at most 4 steps expected). Round functions
+// are lookup tables filled from an AES-256-CTR keystream, so memory is
+// FEISTEL_ROUNDS * 2^halfBits words (256 KB for a 40 MP carrier) and the
+// cost of an embed or extract scales with the payload, not the image.
+class FeistelPermutation implements PixelOrder {
+  private readonly halfBits: number
+  private readonly halfMask: number
+  private readonly roundTables: Uint32Array[]
+
+  constructor(seed: string, private readonly length: number) {
+    let bits = 2
+    while (2 ** bits < length) bits += 2
+    this.halfBits = bits / 2
+    if (this.halfBits > MAX_HALF_BITS) throw new Error('Carrier has too many pixels')
+    this.halfMask = (1 << this.halfBits) - 1
+
+    const size = 1 << this.halfBits
+    const cipher = keystreamCipher(seed, 'hsdc-pixel-order-v3')
+    const keystream = cipher.update(Buffer.alloc(FEISTEL_ROUNDS * size * 4))
+    this.roundTables = Array.from({ length: FEISTEL_ROUNDS }, (_, round) => {
+      const table = new Uint32Array(size)
+      for (let i = 0; i < size; i++) table[i] = keystream.readUInt32BE((round * size + i) * 4) & this.halfMask
+      return table
+    })
+  }
+
+  private encrypt(value: number): number {
+    let left = Math.floor(value / (this.halfMask + 1))
+    let right = value & this.halfMask
+    for (const table of this.roundTables) {
+      const next = left ^ table[right]
+      left = right
+      right = next
+    }
+    return left * (this.halfMask + 1) + right
+  }
+
+  at(position: number): number {
+    let value = this.encrypt(position)
+    while (value >= this.length) value = this.encrypt(value)
+    return value
+  }
+}
+
+/**
+ * Keyed embedding order over `totalPixels` slots (pixels, or DCT coefficients for JPEG carriers)
+ */
+export function pixelOrderFor(seed: string, version: StegoVersion, totalPixels: number): PixelOrder {
+  if (version === STEGO_VERSION_LCG) return new ShuffledOrder(new SeededPRNG(seed).shuffleIndices(totalPixels))
+  if (version === STEGO_VERSION_KEYED) return new ShuffledOrder(new KeyedShuffle(seed).shuffleIndices(totalPixels))
+  if (version === STEGO_VERSION_FEISTEL) return new FeistelPermutation(seed, totalPixels)
+  throw new Error(`Unsupported steganography version: ${version}`)
+}
+
 function crc32(data: Buffer): number {
   let crc = 0xffffffff
   const table = getCRC32Table()
@@ -61,23 +227,152 @@ function getCRC32Table(): Uint32Array {
   return crc32Table
 }
 
-export function calculateCapacity(width: number, height: number, channels: number): number {
-  const usableChannels = Math.min(channels, 3) 
-  const totalBits = width * height * usableChannels * 2 
-  const totalBytes = Math.floor(totalBits / 8)
-  return Math.max(0, totalBytes - HEADER_SIZE)
+function assertEccSymbols(eccSymbols: number) {
+  if (!Number.isInteger(eccSymbols) || eccSymbols < 2 || eccSymbols > MAX_ECC_SYMBOLS || eccSymbols % 2 !== 0) {
+    throw new Error(`Error correction must use an even number of parity bytes up to ${MAX_ECC_SYMBOLS}`)
+  }
 }
 
-export async function embed(
-  imageData: Buffer,
+// Data bytes per codeword, spread as evenly as possible over the fewest blocks
+function eccBlockSizes(dataLength: number, eccSymbols: number): number[] {
+  const blocks = Math.ceil(dataLength / (MAX_CODEWORD - eccSymbols))
+  const base = Math.floor(dataLength / blocks)
+  const extra = dataLength % blocks
+  return Array.from({ length: blocks }, (_, i) => base + (i < extra ? 1 : 0))
+}
+
+function eccFrameSize(payloadLength: number, eccSymbols: number): number {
+  const dataLength = payloadLength + CRC_BYTES
+  return ECC_HEADER_SIZE + dataLength + eccBlockSizes(dataLength, eccSymbols).length * eccSymbols
+}
+
+// Codewords are written column by column, so a run of damaged frame bytes is
+// spread over many blocks instead of exhausting the parity of one
+function interleave(codewords: Buffer[]): Buffer {
+  const out = Buffer.alloc(codewords.reduce((n, cw) => n + cw.length, 0))
+  const longest = Math.max(...codewords.map((cw) => cw.length))
+  let offset = 0
+  for (let col = 0; col < longest; col++) {
+    for (const cw of codewords) {
+      if (col < cw.length) out[offset++] = cw[col]
+    }
+  }
+  return out
+}
+
+function deinterleave(body: Buffer, lengths: number[]): Buffer[] {
+  const codewords = lengths.map((length) => Buffer.alloc(length))
+  const longest = Math.max(...lengths)
+  let offset = 0
+  for (let col = 0; col < longest; col++) {
+    for (const cw of codewords) {
+      if (col < cw.length) cw[col] = body[offset++]
+    }
+  }
+  return codewords
+}
+
+function encodeEccFrame(payload: Buffer, eccSymbols: number): Buffer {
+  const header = Buffer.alloc(ECC_HEADER_DATA)
+  ECC_MAGIC.copy(header, 0)
+  header.writeUInt32BE(payload.length, ECC_MAGIC.length)
+  header[ECC_MAGIC.length + LENGTH_BYTES] = eccSymbols
+
+  const crcBuf = Buffer.alloc(CRC_BYTES)
+  crcBuf.writeUInt32BE(crc32(payload), 0)
+  const data = Buffer.concat([payload, crcBuf])
+
+  let offset = 0
+  const codewords = eccBlockSizes(data.length, eccSymbols).map((size) => {
+    const block = data.subarray(offset, offset + size)
+    offset += size
+    return Buffer.concat([block, rsEncode(block, eccSymbols)])
+  })
+
+  return Buffer.concat([header, rsEncode(header, ECC_HEADER_PARITY), interleave(codewords)])
+}
+
+// Repairs what it can; a block beyond repair is left as read and fails the CRC
+function decodeEccBody(body: Buffer, payloadLength: number, eccSymbols: number) {
+  const sizes = eccBlockSizes(payloadLength + CRC_BYTES, eccSymbols)
+  const codewords = deinterleave(body, sizes.map((size) => size + eccSymbols))
+
+  let correctedSymbols = 0
+  const blocks = codewords.map((cw, i) => {
+    try {
+      const { data, corrected } = rsDecode(cw, eccSymbols)
+      correctedSymbols += corrected
+      return data
+    } catch {
+      return cw.subarray(0, sizes[i])
+    }
+  })
+
+  const data = Buffer.concat(blocks)
+  return {
+    payload: data.subarray(0, payloadLength),
+    storedCRC: data.readUInt32BE(payloadLength),
+    correctedSymbols,
+  }
+}
+
+export function calculateCapacity(
   width: number,
   height: number,
   channels: number,
-  payload: Buffer,
-  seed: string,
-): Promise<StegoEmbedResult> {
-  const capacity = calculateCapacity(width, height, channels)
-  if (payload.length > capacity) throw new Error(`Payload exceeds capacity`)
+  options: StegoFrameOptions = {},
+): number {
+  const { eccSymbols = 0, profile = LEGACY_STEGO_PROFILE } = options
+  channelOffsets(profile, channels)
+  return payloadCapacity(rawCapacityBytes(width, height, profile), eccSymbols)
+}
+
+/**
+ * Largest hidden payload that fits beside a decoy payload of `decoyLength` bytes
+ */
+export function calculateHiddenCapacity(
+  width: number,
+  height: number,
+  channels: number,
+  decoyLength: number,
+  options: StegoFrameOptions = {},
+): number {
+  const { eccSymbols = 0, profile = LEGACY_STEGO_PROFILE } = options
+  channelOffsets(profile, channels)
+  const freePixels = usablePixels(width, height, profile) - framePixels(frameSize(decoyLength, eccSymbols), profile)
+  if (freePixels <= 0) return 0
+  return payloadCapacity(Math.floor((freePixels * profile.channels.length * profile.bitsPerChannel) / 8), eccSymbols)
+}
+
+function frameSize(payloadLength: number, eccSymbols: number): number {
+  return eccSymbols > 0 ? eccFrameSize(payloadLength, eccSymbols) : HEADER_SIZE + payloadLength
+}
+
+// Pixels a frame of `frameBytes` bytes occupies under a profile
+function framePixels(frameBytes: number, profile: StegoProfile): number {
+  return Math.ceil((frameBytes * 8) / (profile.channels.length * profile.bitsPerChannel))
+}
+
+/**
+ * Largest payload whose frame fits in `totalBytes` of carrier capacity
+ */
+export function payloadCapacity(totalBytes: number, eccSymbols = 0): number {
+  if (eccSymbols === 0) return Math.max(0, totalBytes - HEADER_SIZE)
+
+  // Whole blocks first, then whatever data fits beside the parity of a last short block
+  assertEccSymbols(eccSymbols)
+  const available = totalBytes - ECC_HEADER_SIZE
+  const fullBlocks = Math.floor(available / MAX_CODEWORD)
+  const remainder = available - fullBlocks * MAX_CODEWORD
+  const dataBytes = fullBlocks * (MAX_CODEWORD - eccSymbols) + Math.max(0, remainder - eccSymbols)
+  return Math.max(0, dataBytes - CRC_BYTES)
+}
+
+/**
+ * Frame a payload: plain (magic, length, payload, CRC32) or error-corrected
+ */
+export function encodeFrame(payload: Buffer, eccSymbols = 0): Buffer {
+  if (eccSymbols > 0) return encodeEccFrame(payload, eccSymbols)
 
   const lengthBuf = Buffer.alloc(LENGTH_BYTES)
   lengthBuf.writeUInt32BE(payload.length, 0)
@@ -86,141 +381,396 @@ export async function embed(
   const crcBuf = Buffer.alloc(CRC_BYTES)
   crcBuf.writeUInt32BE(crcValue, 0)
 
-  const frame = Buffer.concat([HSDC_MAGIC, lengthBuf, payload, crcBuf])
-  const output = Buffer.from(imageData)
-  const usableChannels = Math.min(channels, 3)
+  return Buffer.concat([HSDC_MAGIC, lengthBuf, payload, crcBuf])
+}
 
+function channelOffsets(profile: StegoProfile, channels: number): number[] {
+  return profile.channels.map((channel) => {
+    const offset = CHANNEL_OFFSETS[channel]
+    if (offset >= channels) throw new Error(`Carrier has no ${channel.toUpperCase()} channel`)
+    return offset
+  })
+}
+
+function assertOpaque(imageData: Buffer, totalPixels: number, channels: number) {
+  for (let p = 0; p < totalPixels; p++) {
+    if (imageData[p * channels + 3] !== 255) {
+      throw new Error('Alpha channel embedding requires a fully opaque carrier')
+    }
+  }
+}
+
+// ============================================
+// Content-adaptive selection
+// ============================================
+//
+// Adaptive profiles only use the most textured share (`density`) of the
+// carrier, where LSB changes hide in local variation instead of standing out
+// on flat areas. Texture is measured with the profile's LSBs masked off, so
+// the cost map - and the pixel selection - computed from the stego image is
+// identical to the one computed from the cover.
+
+const MAX_TEXTURE = 4 * 255
+
+/**
+ * Embedding cost per pixel: low where the masked luminance differs strongly
+ * from its four neighbours, high on flat regions
+ */
+export function buildCostMap(
+  imageData: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  bitsPerChannel: number,
+): Uint16Array {
+  const mask = 0xff & ~((1 << bitsPerChannel) - 1)
   const totalPixels = width * height
-  const prng = new SeededPRNG(seed)
-  const pixelOrder = prng.shuffleIndices(totalPixels)
-
-  let pixelsModified = 0
-  let frameByteIdx = 0
-  let frameBitIdx = 0
-
-  for (let p = 0; p < pixelOrder.length && frameByteIdx < frame.length; p++) {
-    const pixelIdx = pixelOrder[p]
-    const baseOffset = pixelIdx * channels
-    let modified = false
-
-    for (let c = 0; c < usableChannels && frameByteIdx < frame.length; c++) {
-      const byteOffset = baseOffset + c
-      let byte = output[byteOffset]
-
-      if (frameBitIdx < 8) {
-        const bit0 = (frame[frameByteIdx] >> (7 - frameBitIdx)) & 1
-        byte = (byte & 0xfe) | bit0 
-        frameBitIdx++
-        modified = true
-      }
+  const luma = new Uint8Array(totalPixels)
+  for (let p = 0; p < totalPixels; p++) {
+    const o = p * channels
+    luma[p] = channels >= 3
+      ? ((imageData[o] & mask) * 77 + (imageData[o + 1] & mask) * 150 + (imageData[o + 2] & mask) * 29) >> 8
+      : imageData[o] & mask
+  }
 
-      if (frameBitIdx === 8) {
-        frameByteIdx++
-        frameBitIdx = 0
-        if (frameByteIdx >= frame.length) break
+  const cost = new Uint16Array(totalPixels)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const l = luma[i]
+      let texture = 0
+      if (x > 0) texture += Math.abs(l - luma[i - 1])
+      if (x < width - 1) texture += Math.abs(l - luma[i + 1])
+      if (y > 0) texture += Math.abs(l - luma[i - width])
+      if (y < height - 1) texture += Math.abs(l - luma[i + width])
+      cost[i] = MAX_TEXTURE - texture
+    }
+  }
+  return cost
+}
+
+// The `target` cheapest pixels; ties at the cut-off are all included, so the
+// selection depends on the cost map alone
+function selectLowCost(costMap: Uint16Array, target: number): Uint8Array {
+  const histogram = new Uint32Array(MAX_TEXTURE + 1)
+  for (let i = 0; i < costMap.length; i++) histogram[costMap[i]]++
+
+  let threshold = 0
+  let count = histogram[0]
+  while (count < target && threshold < MAX_TEXTURE) count += histogram[++threshold]
+
+  const eligible = new Uint8Array(costMap.length)
+  for (let i = 0; i < costMap.length; i++) {
+    if (costMap[i] <= threshold) eligible[i] = 1
+  }
+  return eligible
+}
+
+interface FrameLayout {
+  order: PixelOrder
+  totalPixels: number
+  pixelLimit: number      // pixels the frame may occupy
+  stride: number          // bytes per pixel
+  offsets: number[]       // channel offsets within a pixel
+  depth: number           // LSBs per channel
+  eligible?: Uint8Array   // adaptive profiles: pixels the frame may use
+}
+
+function frameLayout(
+  imageData: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  seed: string,
+  version: StegoVersion,
+  profile: StegoProfile,
+): FrameLayout {
+  const totalPixels = width * height
+  const pixelLimit = usablePixels(width, height, profile)
+  return {
+    order: pixelOrderFor(seed, version, totalPixels),
+    totalPixels,
+    pixelLimit,
+    stride: channels,
+    offsets: channelOffsets(profile, channels),
+    depth: profile.bitsPerChannel,
+    eligible: profile.adaptive
+      ? selectLowCost(buildCostMap(imageData, width, height, channels, profile.bitsPerChannel), pixelLimit)
+      : undefined,
+  }
+}
+
+// Walks the frame bit by bit through the profile: pixel order (skipping
+// pixels an adaptive profile excludes), then the profile's channels, then
+// LSBs from bit 0 upwards
+class FrameCursor {
+  private position = 0
+  private used = 0
+  private channel = 0
+  private pixelBase = -1
+  protected bit = 0
+
+  constructor(protected readonly layout: FrameLayout) {}
+
+  // Byte holding the next frame bit; `bit` is its position within that byte
+  protected locate(): number {
+    const { order, totalPixels, pixelLimit, stride, offsets, eligible } = this.layout
+    if (this.pixelBase < 0) {
+      if (this.used >= pixelLimit) throw new Error('Image does not contain a complete payload')
+      let pixel: number
+      do {
+        if (this.position >= totalPixels) throw new Error('Image does not contain a complete payload')
+        pixel = order.at(this.position++)
+      } while (eligible && !eligible[pixel])
+      this.pixelBase = pixel * stride
+    }
+    return this.pixelBase + offsets[this.channel]
+  }
+
+  protected advance() {
+    if (++this.bit === this.layout.depth) {
+      this.bit = 0
+      if (++this.channel === this.layout.offsets.length) {
+        this.channel = 0
+        this.used++
+        this.pixelBase = -1
       }
+    }
+  }
+
+  get pixelsTouched(): number {
+    return this.used + (this.channel > 0 || this.bit > 0 ? 1 : 0)
+  }
+}
 
-      if (frameBitIdx < 8) {
-        const bit1 = (frame[frameByteIdx] >> (7 - frameBitIdx)) & 1
-        byte = (byte & 0xfd) | (bit1 << 1) 
-        frameBitIdx++
+class FrameWriter extends FrameCursor {
+  write(output: Buffer, frame: Buffer) {
+    for (let i = 0; i < frame.length; i++) {
+      for (let b = 7; b >= 0; b--) {
+        const offset = this.locate()
+        output[offset] = (output[offset] & ~(1 << this.bit)) | (((frame[i] >> b) & 1) << this.bit)
+        this.advance()
       }
+    }
+  }
+}
+
+// Records which pixels a frame of `bits` bits occupies, without touching them
+class FrameMarker extends FrameCursor {
+  mark(bits: number): Uint8Array {
+    const taken = new Uint8Array(this.layout.totalPixels)
+    for (let i = 0; i < bits; i++) {
+      taken[Math.floor(this.locate() / this.layout.stride)] = 1
+      this.advance()
+    }
+    return taken
+  }
+}
+
+// ============================================
+// Deniable dual payload
+// ============================================
+//
+// A hidden frame is written under its own seed into the pixels the decoy
+// frame leaves untouched: its order is the hidden seed's permutation with
+// every decoy pixel (and, for adaptive profiles, every pixel outside the
+// textured share) skipped. The decoy frame is embedded exactly as it would
+// be alone, so extracting with the decoy seed - or computing the decoy's
+// capacity - reveals nothing. Finding the hidden frame needs both seeds,
+// since the decoy frame decides which pixels are free.
+function hiddenLayout(decoy: FrameLayout, decoyFrameBytes: number, seed: string, version: StegoVersion): FrameLayout {
+  const taken = new FrameMarker(decoy).mark(decoyFrameBytes * 8)
+  const eligible = new Uint8Array(decoy.totalPixels)
+  let takenPixels = 0
+  for (let p = 0; p < decoy.totalPixels; p++) {
+    if (taken[p]) takenPixels++
+    else if (!decoy.eligible || decoy.eligible[p]) eligible[p] = 1
+  }
+  return {
+    ...decoy,
+    order: pixelOrderFor(seed, version, decoy.totalPixels),
+    pixelLimit: decoy.pixelLimit - takenPixels,
+    eligible,
+  }
+}
 
-      if (frameBitIdx === 8) {
-        frameByteIdx++
-        frameBitIdx = 0
+class FrameReader extends FrameCursor {
+  constructor(private readonly imageData: Buffer, layout: FrameLayout) {
+    super(layout)
+  }
+
+  read(count: number): Buffer {
+    const out = Buffer.alloc(count)
+    for (let i = 0; i < count; i++) {
+      let byte = 0
+      for (let b = 0; b < 8; b++) {
+        byte = (byte << 1) | ((this.imageData[this.locate()] >> this.bit) & 1)
+        this.advance()
       }
+      out[i] = byte
+    }
+    return out
+  }
+}
 
-      output[byteOffset] = byte
+export async function embed(
+  imageData: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  payload: Buffer,
+  seed: string,
+  version: StegoVersion = CURRENT_STEGO_VERSION,
+  options: StegoEmbedOptions = {},
+): Promise<StegoEmbedResult> {
+  const { eccSymbols = 0, profile = LEGACY_STEGO_PROFILE, hidden } = options
+  const capacity = calculateCapacity(width, height, channels, options)
+  if (payload.length > capacity) throw new Error(`Payload exceeds capacity`)
+  const hiddenCapacity = hidden ? calculateHiddenCapacity(width, height, channels, payload.length, options) : 0
+  if (hidden && hidden.payload.length > hiddenCapacity) throw new Error('Hidden payload exceeds capacity')
+
+  const frame = encodeFrame(payload, eccSymbols)
+  const totalPixels = width * height
+  if (profile.channels.includes('a')) assertOpaque(imageData, totalPixels, channels)
+
+  const output = Buffer.from(imageData)
+  const layout = frameLayout(imageData, width, height, channels, seed, version, profile)
+  const writer = new FrameWriter(layout)
+  writer.write(output, frame)
+  const pixelsModified = writer.pixelsTouched
+
+  let hiddenResult: StegoEmbedResult['hidden']
+  if (hidden) {
+    // The hidden frame only writes pixels the decoy frame left alone, so this
+    // snapshot is exactly what the decoy frame would give on its own
+    const decoyImageBuffer = Buffer.from(output)
+    const hiddenWriter = new FrameWriter(hiddenLayout(layout, frame.length, hidden.seed, version))
+    hiddenWriter.write(output, encodeFrame(hidden.payload, eccSymbols))
+    hiddenResult = {
+      capacityUsed: hidden.payload.length,
+      capacityTotal: hiddenCapacity,
+      pixelsModified: hiddenWriter.pixelsTouched,
+      decoyImageBuffer,
     }
-    if (modified) pixelsModified++
   }
 
   return {
     stegoImageBuffer: output,
+    stegoVersion: version,
+    eccSymbols,
     capacityUsed: payload.length,
     capacityTotal: capacity,
     pixelsModified,
+    quality: measureCarrierQuality(imageData, output, width, height, channels),
+    ...(hiddenResult ? { hidden: hiddenResult } : {}),
   }
 }
 
+/**
+ * Read the frame back out of a carrier. Plain HSDC frames are checked by
+ * CRC only; HSDR frames are repaired block by block before the CRC check.
+ */
 export function extract(
   imageData: Buffer,
   width: number,
   height: number,
   channels: number,
   seed: string,
+  version: StegoVersion = CURRENT_STEGO_VERSION,
+  profile: StegoProfile = LEGACY_STEGO_PROFILE,
 ): StegoExtractResult {
-  const totalPixels = width * height
-  const prng = new SeededPRNG(seed)
-  const pixelOrder = prng.shuffleIndices(totalPixels)
-  const usableChannels = Math.min(channels, 3)
-  
-  const maxBytes = calculateCapacity(width, height, channels) + HEADER_SIZE
-  const extractedBytes = Buffer.alloc(maxBytes)
-  
-  let byteIdx = 0
-  let bitIdx = 0
-  let currentByte = 0
-  
-  let extractedLength = 0
-  let isHeaderParsed = false
-  let targetSize = PREFIX_SIZE // We initially only need the first 8 bytes to parse the header
-
-  for (let p = 0; p < pixelOrder.length; p++) {
-    const pixelIdx = pixelOrder[p]
-    const baseOffset = pixelIdx * channels
-
-    for (let c = 0; c < usableChannels; c++) {
-      const byte = imageData[baseOffset + c]
-
-      for (let bit = 0; bit < 2; bit++) {
-        const extractedBit = (byte >> bit) & 1
-        currentByte = (currentByte << 1) | extractedBit
-        bitIdx++
-
-        if (bitIdx === 8) {
-          extractedBytes[byteIdx++] = currentByte
-          currentByte = 0
-          bitIdx = 0
-
-          // Dynamic header validation - triggers exactly when byte 8 is reached
-          if (!isHeaderParsed && byteIdx === PREFIX_SIZE) {
-            const magic = extractedBytes.subarray(0, HSDC_MAGIC.length)
-            if (!magic.equals(HSDC_MAGIC)) {
-              throw new Error('No HSDC data found in this image (magic header mismatch)')
-            }
-            extractedLength = extractedBytes.readUInt32BE(HSDC_MAGIC.length)
-            if (extractedLength <= 0 || extractedLength > maxBytes - HEADER_SIZE) {
-              throw new Error('Invalid payload length detected')
-            }
-            // Now we know the length, we target the full frame
-            targetSize = PREFIX_SIZE + extractedLength + CRC_BYTES
-            isHeaderParsed = true
-          }
-        }
-        if (isHeaderParsed && byteIdx === targetSize) break
-      }
-      if (isHeaderParsed && byteIdx === targetSize) break
+  const reader = new FrameReader(imageData, frameLayout(imageData, width, height, channels, seed, version, profile))
+  return decodeFrame((length) => reader.read(length), rawCapacityBytes(width, height, profile))
+}
+
+/**
+ * Read the hidden frame embed() wrote beside a decoy. The decoy frame is
+ * read first (with its own seed) to learn which pixels it occupies.
+ */
+export function extractHidden(
+  imageData: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  decoySeed: string,
+  hiddenSeed: string,
+  version: StegoVersion = CURRENT_STEGO_VERSION,
+  profile: StegoProfile = LEGACY_STEGO_PROFILE,
+): StegoExtractResult {
+  const totalBytes = rawCapacityBytes(width, height, profile)
+  const decoy = frameLayout(imageData, width, height, channels, decoySeed, version, profile)
+  const decoyReader = new FrameReader(imageData, decoy)
+  let decoyFrameBytes = 0
+  decodeFrame((length) => {
+    decoyFrameBytes += length
+    return decoyReader.read(length)
+  }, totalBytes)
+
+  const reader = new FrameReader(imageData, hiddenLayout(decoy, decoyFrameBytes, hiddenSeed, version))
+  return decodeFrame((length) => reader.read(length), totalBytes)
+}
+
+/**
+ * Read a frame of either kind from a carrier's byte stream. `totalBytes` is
+ * the carrier's capacity, used to reject implausible lengths.
+ */
+export function decodeFrame(read: (length: number) => Buffer, totalBytes: number): StegoExtractResult {
+  const prefix = read(PREFIX_SIZE)
+
+  if (prefix.subarray(0, HSDC_MAGIC.length).equals(HSDC_MAGIC)) {
+    const extractedLength = prefix.readUInt32BE(HSDC_MAGIC.length)
+    if (extractedLength <= 0 || extractedLength > totalBytes - HEADER_SIZE) {
+      throw new Error('Invalid payload length detected')
+    }
+
+    const rest = read(extractedLength + CRC_BYTES)
+    const payload = rest.subarray(0, extractedLength)
+    const storedCRC = rest.readUInt32BE(extractedLength)
+
+    return {
+      extractedData: Buffer.from(payload),
+      dataLength: extractedLength,
+      integrityValid: storedCRC === crc32(payload),
+      eccSymbols: 0,
+      correctedSymbols: 0,
     }
-    if (isHeaderParsed && byteIdx === targetSize) break
   }
 
-  if (byteIdx < targetSize) {
-    throw new Error('Image does not contain a complete payload')
+  // Not a plain frame: try the error-corrected header codeword
+  let header: Buffer | null = null
+  let headerCorrected = 0
+  if (totalBytes >= ECC_HEADER_SIZE) {
+    try {
+      const decoded = rsDecode(Buffer.concat([prefix, read(ECC_HEADER_SIZE - PREFIX_SIZE)]), ECC_HEADER_PARITY)
+      header = decoded.data
+      headerCorrected = decoded.corrected
+    } catch {
+      header = null
+    }
+  }
+  if (!header || !header.subarray(0, ECC_MAGIC.length).equals(ECC_MAGIC)) {
+    throw new Error('No HSDC data found in this image (magic header mismatch)')
   }
 
-  // BUG FIXED: We slice the payload starting at Byte 8 (PREFIX_SIZE), not Byte 12!
-  const payloadStart = PREFIX_SIZE
-  const payload = extractedBytes.subarray(payloadStart, payloadStart + extractedLength)
-  const storedCRC = extractedBytes.readUInt32BE(payloadStart + extractedLength)
+  const extractedLength = header.readUInt32BE(ECC_MAGIC.length)
+  const eccSymbols = header[ECC_MAGIC.length + LENGTH_BYTES]
+  try {
+    assertEccSymbols(eccSymbols)
+  } catch {
+    throw new Error('Invalid error correction level detected')
+  }
+  if (extractedLength <= 0 || eccFrameSize(extractedLength, eccSymbols) > totalBytes) {
+    throw new Error('Invalid payload length detected')
+  }
 
-  const computedCRC = crc32(payload)
-  const integrityValid = storedCRC === computedCRC
+  const body = read(eccFrameSize(extractedLength, eccSymbols) - ECC_HEADER_SIZE)
+  const { payload, storedCRC, correctedSymbols } = decodeEccBody(body, extractedLength, eccSymbols)
 
   return {
     extractedData: Buffer.from(payload),
     dataLength: extractedLength,
-    integrityValid,
+    integrityValid: storedCRC === crc32(payload),
+    eccSymbols,
+    correctedSymbols: headerCorrected + correctedSymbols,
   }
 }
@@ -0,0 +1,374 @@
+// ============================================
+// HSDC Streaming Cipher
+// Segmented AES-256-GCM (STREAM construction) with truncation detection
+// ============================================
+//
+// Layout:
+//   header  = version(1) || segmentSize(u32 BE) || noncePrefix(7)
+//   segment = AEAD(key, nonce_i, plaintext_i, aad = context || header) || tag(16)
+//   nonce_i = noncePrefix(7) || i(u32 BE) || lastFlag(1)
+//
+// AEAD is AES-256-GCM or ChaCha20-Poly1305 (both 12-byte nonce, 16-byte tag);
+// the choice is made by the caller, normally from the envelope header.
+//
+// Every segment except the last carries exactly `segmentSize` plaintext bytes.
+// The last segment is sealed with lastFlag = 1, so dropping trailing segments
+// (or appending any) fails authentication instead of yielding a short file.
+import crypto from 'crypto'
+import { Readable, Transform, type TransformCallback } from 'stream'
+
+export const STREAM_FORMAT_VERSION = 1
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024
+
+export type SegmentCipher = 'aes-256-gcm' | 'chacha20-poly1305'
+
+const NONCE_PREFIX_BYTES = 7
+const TAG_BYTES = 16
+const STREAM_HEADER_SIZE = 1 + 4 + NONCE_PREFIX_BYTES
+const MAX_SEGMENTS = 0xffffffff
+
+/**
+ * Accumulates incoming chunks without re-concatenating on every write.
+ * Only ever holds about one batch of segments, so memory stays flat.
+ */
+class ChunkQueue {
+  private chunks: Buffer[] = []
+  length = 0
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk)
+    this.length += chunk.length
+  }
+
+  take(size: number): Buffer {
+    const out = Buffer.allocUnsafe(size)
+    let offset = 0
+    while (offset < size) {
+      const head = this.chunks[0]
+      const needed = size - offset
+      if (head.length <= needed) {
+        head.copy(out, offset)
+        offset += head.length
+        this.chunks.shift()
+      } else {
+        head.copy(out, offset, 0, needed)
+        this.chunks[0] = head.subarray(needed)
+        offset += needed
+      }
+    }
+    this.length -= size
+    return out
+  }
+}
+
+function segmentNonce(prefix: Buffer, index: number, last: boolean): Buffer {
+  if (index > MAX_SEGMENTS) throw new Error('Stream exceeds maximum segment count')
+  const nonce = Buffer.alloc(NONCE_PREFIX_BYTES + 5)
+  prefix.copy(nonce, 0)
+  nonce.writeUInt32BE(index, NONCE_PREFIX_BYTES)
+  nonce[NONCE_PREFIX_BYTES + 4] = last ? 1 : 0
+  return nonce
+}
+
+/**
+ * A run of consecutive segments sealed or opened in one call, so the AEAD can
+ * run on a worker thread (see CryptoExecutor in lib/crypto.ts)
+ */
+export interface SegmentBatch {
+  cipher: SegmentCipher
+  key: Buffer
+  aad: Buffer          // caller context || stream header
+  noncePrefix: Buffer
+  firstIndex: number
+  segmentSize: number  // plaintext bytes per segment
+  data: Buffer         // whole segments; only a final one may be short
+  last: boolean        // data ends with the stream's last segment
+}
+
+export type SegmentBatchRunner = (batch: SegmentBatch) => Promise<Buffer>
+
+// Segments per batch: 1 MB of plaintext at the default segment size
+const DEFAULT_BATCH_SEGMENTS = 16
+
+interface SegmentStreamOptions {
+  cipher?: SegmentCipher // defaults to AES-256-GCM
+  aad?: Buffer           // extra context authenticated with every segment
+  runBatch?: SegmentBatchRunner // defaults to sealSegments / openSegments on this thread
+}
+
+function pieceCount(length: number, pieceSize: number): number {
+  return Math.max(1, Math.ceil(length / pieceSize))
+}
+
+/**
+ * Seal a batch of plaintext segments. The result is each segment's
+ * ciphertext followed by its tag.
+ */
+export function sealSegments(batch: SegmentBatch): Buffer {
+  const { key, aad, noncePrefix, firstIndex, segmentSize, data, last } = batch
+  const count = pieceCount(data.length, segmentSize)
+  const sealed: Buffer[] = []
+  for (let i = 0; i < count; i++) {
+    const nonce = segmentNonce(noncePrefix, firstIndex + i, last && i === count - 1)
+    // ChaCha20-Poly1305 exposes the same AAD/tag API as GCM
+    const cipher = crypto.createCipheriv(batch.cipher as crypto.CipherGCMTypes, key, nonce, {
+      authTagLength: TAG_BYTES,
+    })
+    cipher.setAAD(aad)
+    sealed.push(cipher.update(data.subarray(i * segmentSize, (i + 1) * segmentSize)), cipher.final(), cipher.getAuthTag())
+  }
+  return Buffer.concat(sealed)
+}
+
+/**
+ * Open a batch of sealed segments, failing on the first one that does not
+ * authenticate
+ */
+export function openSegments(batch: SegmentBatch): Buffer {
+  const { key, aad, noncePrefix, firstIndex, segmentSize, data, last } = batch
+  const sealedSize = segmentSize + TAG_BYTES
+  const count = pieceCount(data.length, sealedSize)
+  const opened: Buffer[] = []
+  for (let i = 0; i < count; i++) {
+    const sealed = data.subarray(i * sealedSize, (i + 1) * sealedSize)
+    if (sealed.length < TAG_BYTES) throw new Error('Truncated stream segment')
+    const decipher = crypto.createDecipheriv(
+      batch.cipher as crypto.CipherGCMTypes,
+      key,
+      segmentNonce(noncePrefix, firstIndex + i, last && i === count - 1),
+      { authTagLength: TAG_BYTES },
+    )
+    decipher.setAAD(aad)
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES))
+    opened.push(decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final())
+  }
+  return Buffer.concat(opened)
+}
+
+const sealInline: SegmentBatchRunner = async (batch) => sealSegments(batch)
+const openInline: SegmentBatchRunner = async (batch) => openSegments(batch)
+
+interface SegmentEncryptOptions extends SegmentStreamOptions {
+  segmentSize?: number
+  prelude?: Buffer // bytes emitted ahead of the stream header (e.g. an envelope header)
+}
+
+/**
+ * Encrypting transform: plaintext in, segmented ciphertext (with header) out.
+ * `finalTag` holds the hex tag of the last segment once the stream ends.
+ */
+export class SegmentEncryptStream extends Transform {
+  readonly noncePrefix: Buffer
+  finalTag: string | null = null
+
+  private readonly header: Buffer
+  private readonly aad: Buffer
+  private readonly cipherName: SegmentCipher
+  private readonly segmentSize: number
+  private readonly runBatch: SegmentBatchRunner
+  private readonly pending = new ChunkQueue()
+  private segmentIndex = 0
+
+  constructor(
+    private readonly key: Buffer,
+    options: SegmentEncryptOptions = {},
+  ) {
+    super()
+    this.cipherName = options.cipher || 'aes-256-gcm'
+    this.segmentSize = options.segmentSize || DEFAULT_SEGMENT_SIZE
+    this.runBatch = options.runBatch || sealInline
+    this.noncePrefix = crypto.randomBytes(NONCE_PREFIX_BYTES)
+    this.header = Buffer.alloc(STREAM_HEADER_SIZE)
+    this.header[0] = STREAM_FORMAT_VERSION
+    this.header.writeUInt32BE(this.segmentSize, 1)
+    this.noncePrefix.copy(this.header, 5)
+    this.aad = options.aad ? Buffer.concat([options.aad, this.header]) : this.header
+    if (options.prelude) this.push(options.prelude)
+    this.push(this.header)
+  }
+
+  private async seal(data: Buffer, last: boolean): Promise<Buffer> {
+    const firstIndex = this.segmentIndex
+    this.segmentIndex += pieceCount(data.length, this.segmentSize)
+    const sealed = await this.runBatch({
+      cipher: this.cipherName,
+      key: this.key,
+      aad: this.aad,
+      noncePrefix: this.noncePrefix,
+      firstIndex,
+      segmentSize: this.segmentSize,
+      data,
+      last,
+    })
+    if (last) this.finalTag = sealed.subarray(sealed.length - TAG_BYTES).toString('hex')
+    return sealed
+  }
+
+  private async sealFullBatches(): Promise<void> {
+    const batchSize = this.segmentSize * DEFAULT_BATCH_SEGMENTS
+    // Strictly greater: a full segment may still turn out to be the last one
+    while (this.pending.length > batchSize) {
+      this.push(await this.seal(this.pending.take(batchSize), false))
+    }
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending.push(chunk)
+    this.sealFullBatches().then(() => callback(), callback)
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.seal(this.pending.take(this.pending.length), true).then((sealed) => {
+      this.push(sealed)
+      callback()
+    }, callback)
+  }
+}
+
+/**
+ * Decrypting transform: segmented ciphertext in, plaintext out.
+ * Emits plaintext one batch of authenticated segments at a time and fails the
+ * stream if any segment is modified, reordered, dropped or appended.
+ */
+export class SegmentDecryptStream extends Transform {
+  private header: Buffer | null = null
+  private aad: Buffer | null = null
+  private noncePrefix: Buffer | null = null
+  private segmentSize = 0
+  private readonly cipherName: SegmentCipher
+  private readonly runBatch: SegmentBatchRunner
+  private readonly pending = new ChunkQueue()
+  private segmentIndex = 0
+
+  constructor(
+    private readonly key: Buffer,
+    private readonly options: SegmentStreamOptions = {},
+  ) {
+    super()
+    this.cipherName = options.cipher || 'aes-256-gcm'
+    this.runBatch = options.runBatch || openInline
+  }
+
+  private readHeader(): boolean {
+    if (this.header) return true
+    if (this.pending.length < STREAM_HEADER_SIZE) return false
+
+    const header = this.pending.take(STREAM_HEADER_SIZE)
+    if (header[0] !== STREAM_FORMAT_VERSION) {
+      throw new Error(`Unsupported stream format version ${header[0]}`)
+    }
+    this.segmentSize = header.readUInt32BE(1)
+    if (this.segmentSize === 0) throw new Error('Invalid stream segment size')
+    this.noncePrefix = header.subarray(5, 5 + NONCE_PREFIX_BYTES)
+    this.header = header
+    this.aad = this.options.aad ? Buffer.concat([this.options.aad, header]) : header
+    return true
+  }
+
+  private open(data: Buffer, last: boolean): Promise<Buffer> {
+    const firstIndex = this.segmentIndex
+    this.segmentIndex += pieceCount(data.length, this.segmentSize + TAG_BYTES)
+    return this.runBatch({
+      cipher: this.cipherName,
+      key: this.key,
+      aad: this.aad!,
+      noncePrefix: this.noncePrefix!,
+      firstIndex,
+      segmentSize: this.segmentSize,
+      data,
+      last,
+    })
+  }
+
+  private async openFullBatches(): Promise<void> {
+    if (!this.readHeader()) return
+    const batchSize = (this.segmentSize + TAG_BYTES) * DEFAULT_BATCH_SEGMENTS
+    while (this.pending.length > batchSize) {
+      this.push(await this.open(this.pending.take(batchSize), false))
+    }
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending.push(chunk)
+    this.openFullBatches().then(() => callback(), callback)
+  }
+
+  _flush(callback: TransformCallback): void {
+    const opened = this.readHeader()
+      ? this.open(this.pending.take(this.pending.length), true)
+      : Promise.reject(new Error('Truncated stream header'))
+    opened.then((plaintext) => {
+      this.push(plaintext)
+      callback()
+    }, callback)
+  }
+}
+
+export interface PlaintextStreamOptions {
+  onData?: (chunk: Buffer) => void
+  onError?: (error: Error) => void
+}
+
+/**
+ * Feeds segmented ciphertext through the decryptor and resolves with a web
+ * stream of the plaintext, but only once the first batch has authenticated:
+ * a wrong key or a record damaged near the start rejects here, before any
+ * response is committed. Later failures error the web stream instead, so the
+ * client sees an aborted body rather than a short file.
+ */
+export async function openPlaintextStream(
+  decipher: SegmentDecryptStream,
+  ciphertext: Buffer,
+  options: PlaintextStreamOptions = {},
+): Promise<ReadableStream<Uint8Array>> {
+  function* segments() {
+    for (let offset = 0; offset < ciphertext.length; offset += DEFAULT_SEGMENT_SIZE) {
+      yield ciphertext.subarray(offset, offset + DEFAULT_SEGMENT_SIZE)
+    }
+  }
+
+  const batches: AsyncIterator<Buffer> = Readable.from(segments()).pipe(decipher)[Symbol.asyncIterator]()
+  const next = async (): Promise<IteratorResult<Buffer>> => {
+    try {
+      const result = await batches.next()
+      if (!result.done) options.onData?.(result.value)
+      return result
+    } catch (error) {
+      options.onError?.(error as Error)
+      throw error
+    }
+  }
+
+  const first = await next()
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) controller.close()
+      else controller.enqueue(new Uint8Array(first.value))
+    },
+    async pull(controller) {
+      try {
+        const result = await next()
+        if (result.done) controller.close()
+        else controller.enqueue(new Uint8Array(result.value))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await batches.return?.()
+    },
+  })
+}
+
+/**
+ * Exact ciphertext size (excluding any prelude) for a plaintext of the given
+ * length, so carrier capacity can be checked before any data is read.
+ */
+export function segmentedCiphertextLength(
+  plaintextLength: number,
+  segmentSize: number = DEFAULT_SEGMENT_SIZE,
+): number {
+  const segments = Math.max(1, Math.ceil(plaintextLength / segmentSize))
+  return STREAM_HEADER_SIZE + plaintextLength + segments * TAG_BYTES
+}
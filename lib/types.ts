@@ -6,28 +6,230 @@ export interface EncryptionResult {
   encryptedData: Buffer
   iv: string           // hex-encoded IV
   authTag: string      // hex-encoded GCM auth tag
-  encryptedKey: string // base64-encoded RSA-wrapped AES key
-  algorithm: 'AES-256-GCM'
+  encryptedKey: string // base64-encoded wrapped AES key
+  keyId: string        // wrapping key ID within the provider
+  keyProvider: string  // key wrap provider name (local-rsa, softhsm, http-kms)
+  algorithm: string    // cipher suite label, e.g. AES-256-GCM or CHACHA20-POLY1305-STREAM
+  custodyShares?: CustodyShare[] // set instead of a wrapped key under M-of-N custody
 }
 
-export interface DecryptionInput {
+/**
+ * M-of-N custody: the data key is split into Shamir shares, one per custodian,
+ * and no wrapped copy is kept. Recovery needs `threshold` custodians to approve.
+ */
+export interface CustodyPolicy {
+  threshold: number
+  custodians: { id: string; publicKey: string }[] // PEM RSA public keys
+}
+
+export interface CustodyShare {
+  custodianId: string
+  shareIndex: number
+  wrappedShare: string // base64 RSA-OAEP(SHA-256) of index(1) || share bytes
+  shareHash: string    // hex SHA-256 of the unwrapped payload, checked on submission
+}
+
+export interface CustodyStatus {
+  threshold: number
+  request: { id: string; status: string; createdAt: string } | null
+  custodians: {
+    id: string
+    displayName: string
+    shareIndex: number
+    approvedAt: string | null
+  }[]
+}
+
+export interface CustodianTask {
+  requestId: string
+  metadataId: string
+  originalFilename: string
+  requestedAt: string
+  shareIndex: number
+  wrappedShare: string
+}
+
+export interface KeyReference {
+  encryptedKey: string
+  keyId?: string | null       // null for rows written before key versioning
+  keyProvider?: string | null // null for rows written before providers existed
+}
+
+/**
+ * Record the ciphertext belongs to, authenticated as AAD so a ciphertext
+ * moved to another metadata row (or another owner) refuses to decrypt
+ */
+export interface EncryptionContext {
+  metadataId: string
+  userId: string
+  filename: string
+}
+
+export interface DecryptionInput extends KeyReference {
   encryptedData: Buffer
   iv: string
   authTag: string
+  algorithm?: string | null   // only consulted for pre-envelope ciphertext
+  context?: EncryptionContext
+  requireContext?: boolean    // reject ciphertext that is not context-bound
+  dataKey?: Buffer            // already-recovered data key (custody records)
+}
+
+export interface StreamEncryptionSession {
+  stream: import('stream').Transform & { noncePrefix: Buffer; finalTag: string | null }
+  headerLength: number // envelope header bytes emitted ahead of the segments
   encryptedKey: string
+  keyId: string
+  keyProvider: string
+  algorithm: string
+  custodyShares?: CustodyShare[]
+}
+
+// 1 = MD5-seeded LCG shuffle (legacy), 2 = AES-256-CTR keyed shuffle,
+// 3 = lazy Feistel permutation
+export type StegoVersion = 1 | 2 | 3
+
+export type StegoChannel = 'r' | 'g' | 'b' | 'a'
+
+// Embedding path, detected from the file's signature (see lib/carrier.ts):
+// lossless image pixels, JPEG DCT coefficients or WAV samples
+export type CarrierType = 'image' | 'jpeg' | 'wav'
+
+// Per-file embedding profile (see lib/stego-profile.ts)
+export interface StegoProfile {
+  bitsPerChannel: number   // LSBs written per channel, 1-4
+  channels: StegoChannel[] // alpha only on fully opaque carriers
+  density: number          // share of pixels available to the frame, 0.05-1
+  adaptive?: boolean       // use only the most textured `density` share of pixels
+}
+
+// Multi-carrier records (metadata.stego_shards, see lib/stego-shards.ts):
+// shard i of the ciphertext is embedded in the carrier stored at keys[i]
+export interface StegoShardSet {
+  setId: string        // hex, repeated in every shard header
+  dataShards: number
+  parityShards: number // 0 or 1 XOR parity shard, stored last
+  keys: string[]       // S3 keys in shard index order
 }
 
 export interface StegoEmbedResult {
   stegoImageBuffer: Buffer
+  stegoVersion: StegoVersion
+  eccSymbols: number    // Reed-Solomon parity bytes per block, 0 = no error correction
   capacityUsed: number  // bytes embedded
   capacityTotal: number // max bytes available
   pixelsModified: number
+  quality?: CarrierQualityMetrics // cover vs stego, for image carriers
+  hidden?: {            // deniable second frame, when one was embedded
+    capacityUsed: number
+    capacityTotal: number
+    pixelsModified: number
+    decoyImageBuffer?: Buffer // the carrier with only the decoy frame written
+  }
 }
 
 export interface StegoExtractResult {
   extractedData: Buffer
   dataLength: number
   integrityValid: boolean
+  eccSymbols: number
+  correctedSymbols: number // bytes repaired by Reed-Solomon before the CRC check
+}
+
+// Blind LSB-replacement detectors (see lib/steganalysis.ts), run on image
+// pixels and WAV samples; rates are 0-1
+export interface DetectorEstimates {
+  chiSquare: { pValue: number; estimatedRate: number }
+  rs: { estimatedRate: number }
+  spa: { estimatedRate: number }
+}
+
+// F5 histogram attack on JPEG DCT coefficients; the rate is the estimated
+// share of non-zero coefficients changed
+export interface DctHistogramEstimates {
+  f5: { estimatedRate: number }
+}
+
+export interface SteganalysisResult {
+  cover: DetectorEstimates | DctHistogramEstimates
+  stego: DetectorEstimates | DctHistogramEstimates
+  detectability: number // largest rise in estimated rate from cover to stego
+}
+
+export interface CarrierQualityMetrics {
+  psnr: number | null // dB over the colour channels; null when nothing changed
+  ssim: number        // mean structural similarity of the luma, 0-1
+  maxDelta: number    // largest change to any channel value
+}
+
+// Side-by-side preview of one carrier, as PNG data URLs
+export interface CarrierPreview {
+  cover: string
+  stego: string
+  heatmap: string // amplified difference
+}
+
+export interface LatencySummary {
+  p50: number // milliseconds, over the most recent jobs
+  p95: number
+  max: number
+}
+
+export interface StegoPoolMetrics {
+  mode: 'threads' | 'inline' | 'degraded' // degraded: fewer threads than configured, maybe none
+  degradedReason: string | null
+  configuredWorkers: number
+  workers: number    // 0 = jobs run inline on the request thread
+  busy: number
+  queued: number
+  queueLimit: number
+  completed: number
+  failed: number
+  rejected: number   // refused because the queue was full
+  timedOut: number
+  cancelled: number
+  waitMs: LatencySummary // queued until a worker picked the job up
+  runMs: LatencySummary
+}
+
+// PENDING: queued for the next Merkle batch; BATCHING: claimed by a batcher
+// whose root is being anchored; ANCHORED: on the ledger
+export type BlockchainAnchorStatus = 'PENDING' | 'BATCHING' | 'ANCHORED'
+
+export interface MerkleProofStep {
+  hash: string // sibling node, hex
+  position: 'left' | 'right' // the sibling's side when the pair is hashed
+}
+
+/**
+ * Proof that a hash is a leaf of a batch whose Merkle root was anchored
+ */
+export interface MerkleInclusionProof {
+  batchId: string
+  root: string
+  leafIndex: number
+  leafCount: number
+  siblings: MerkleProofStep[] // from the leaf up to the root
+  txId: string // transaction that anchored the root
+  blockNumber: number
+  network: string
+}
+
+export interface LedgerValidationProblem {
+  height: number
+  problem: string
+}
+
+/**
+ * Result of walking the local ledger from genesis to its tip
+ */
+export interface LedgerValidationReport {
+  valid: boolean
+  blocks: number
+  entries: number
+  tipHash: string | null
+  problems: LedgerValidationProblem[] // the first ones found, if any
+  checkedAt: string
 }
 
 export interface BlockchainHashRecord {
@@ -37,7 +239,89 @@ export interface BlockchainHashRecord {
   network: string
   timestamp: string
   blockNumber?: number
+  confirmations?: number // blocks from the anchoring block to the head, both included
   verified: boolean
+  status?: BlockchainAnchorStatus // absent: anchored when stored
+  filename?: string // of the file the hash belongs to, in listings
+  proof?: MerkleInclusionProof // for hashes anchored in a batch
+}
+
+// Outcome of checking a metadata row against its ledger. UNVERIFIED: the
+// ledger has the anchor but does not vouch for it (too few confirmations, or
+// a block failing its checks); MISSING: the row says anchored, the ledger
+// has no such anchor; DRIFT: both have it but disagree on its details.
+export type BlockchainReverifyStatus = 'VERIFIED' | 'UNVERIFIED' | 'PENDING' | 'MISSING' | 'DRIFT' | 'ERROR'
+
+export interface BlockchainDrift {
+  field: 'txId' | 'network' | 'blockNumber'
+  recorded: string | number | null // in the metadata row
+  onLedger: string | number | null
+}
+
+export interface BlockchainReverifyResult {
+  id: string // metadata row
+  hash: string
+  backend: string
+  status: BlockchainReverifyStatus
+  confirmations?: number
+  drift: BlockchainDrift[]
+  error?: string
+}
+
+export interface BlockchainDriftReport {
+  checked: number
+  counts: Record<BlockchainReverifyStatus, number>
+  results: BlockchainReverifyResult[] // one per row, in listing order
+  checkedAt: string
+}
+
+export interface BlockchainExplorerRecord extends BlockchainHashRecord {
+  backend: string
+}
+
+export interface BlockchainExplorerPage {
+  records: BlockchainExplorerRecord[]
+  page: number
+  pageSize: number
+  total: number
+  unavailableBackends: string[] // not configured here: their rows are listed but cannot be re-verified
+}
+
+/**
+ * Signed statement that a file's integrity hash is anchored, checkable
+ * without an HSDC account (lib/receipt-verifier.ts)
+ */
+export interface VerificationReceipt {
+  version: 1
+  receiptId: string
+  issuedAt: string
+  integrityHash: string // SHA-256 of the embedded ciphertext
+  carriers: string[] // SHA-256 of each stego image as stored, in shard order
+  anchor: {
+    backend: string
+    network: string
+    txId: string
+    blockNumber: number | null
+    timestamp: string
+    proof: MerkleInclusionProof | null // null: the integrity hash itself was anchored
+  }
+  signer: { algorithm: 'Ed25519'; keyId: string; publicKey: string } // SPKI PEM
+  signature: string // base64, over the canonical JSON of every other field
+}
+
+export interface ReceiptImageCheck {
+  sha256: string
+  carrierIndex: number | null // the carrier it matches, if any
+}
+
+export interface ReceiptVerificationResult {
+  valid: boolean // signature, signer, proof and every supplied image check out
+  signatureValid: boolean
+  trustedSigner: boolean // signed by one of the caller's trusted keys
+  proofValid: boolean
+  anchoredValue: string // what the ledger must hold: the batch root, or the hash itself
+  images: ReceiptImageCheck[]
+  problems: string[]
 }
 
 export interface FileMetadata {
@@ -52,6 +336,9 @@ export interface FileMetadata {
   iv: string
   authTag: string
   encryptedKey: string
+  keyId: string
+  keyProvider: string
+  clientEncrypted: boolean // zero-knowledge upload, decrypted only in the browser
   blockchainHash?: string
   blockchainTxId?: string
   blockchainNetwork?: string
@@ -61,6 +348,47 @@ export interface FileMetadata {
   updatedAt: string
 }
 
+// A metadata row as the database returns it; null columns predate the
+// migration that added them, or do not apply to the record
+export interface MetadataRow {
+  id: string
+  user_id: string
+  original_filename: string
+  stego_filename: string | null // S3 key of the carrier, or of the first shard
+  stego_shards: StegoShardSet | null
+  stego_hashes: string[] | null
+  file_size: number
+  mime_type: string
+  encryption_algo: string
+  iv: string
+  auth_tag: string
+  encrypted_key: string
+  key_id: string
+  key_provider: string
+  context_bound: boolean
+  client_encrypted: boolean
+  custody_threshold: number | null
+  stego_salt: string | null
+  stego_seed_key_id: string | null
+  legacy_stego_seed: string | null
+  stego_version: StegoVersion
+  stego_profile: StegoProfile | null
+  steganalysis: SteganalysisResult | null
+  stego_quality: CarrierQualityMetrics | null
+  blockchain_hash: string | null
+  blockchain_tx_id: string | null
+  blockchain_backend: string
+  blockchain_network: string | null
+  blockchain_block_number: number | null
+  blockchain_status: BlockchainAnchorStatus
+  blockchain_batch_id: string | null
+  blockchain_claimed_at: string | null
+  blockchain_proof: MerkleInclusionProof | null
+  integrity_hash: string
+  status: FileMetadata['status']
+  created_at: string
+}
+
 export interface UploadProgress {
   stage: 'validating' | 'encrypting' | 'embedding' | 'hashing' | 'storing' | 'complete' | 'error'
   progress: number // 0-100
@@ -0,0 +1,78 @@
+// ============================================
+// HSDC WAV Reader
+// Locates the PCM samples of a RIFF/WAVE file
+// ============================================
+//
+// Samples are modified in place in a copy of the file, so every other chunk
+// and the container layout survive byte for byte and the output is as
+// lossless as the input.
+
+const RIFF = Buffer.from('RIFF', 'ascii')
+const WAVE = Buffer.from('WAVE', 'ascii')
+const FLAC = Buffer.from('fLaC', 'ascii')
+const FORMAT_PCM = 1
+const FORMAT_EXTENSIBLE = 0xfffe
+
+export interface WavInfo {
+  channels: number
+  sampleRate: number
+  bitsPerSample: number
+  bytesPerSample: number // container size; the least significant byte comes first
+  dataOffset: number
+  sampleCount: number // across all channels
+}
+
+/**
+ * True for a RIFF/WAVE file
+ */
+export function isWav(data: Buffer): boolean {
+  return data.length >= 12 && data.subarray(0, 4).equals(RIFF) && data.subarray(8, 12).equals(WAVE)
+}
+
+/**
+ * True for a native FLAC stream
+ */
+export function isFlac(data: Buffer): boolean {
+  return data.length >= 4 && data.subarray(0, 4).equals(FLAC)
+}
+
+/**
+ * Parse the format and data chunks of an integer PCM WAV file
+ */
+export function readWav(data: Buffer): WavInfo {
+  if (!isWav(data)) throw new Error('Not a WAV file')
+
+  let format: Omit<WavInfo, 'dataOffset' | 'sampleCount'> | null = null
+  let offset = 12
+  while (offset + 8 <= data.length) {
+    const id = data.toString('ascii', offset, offset + 4)
+    const size = data.readUInt32LE(offset + 4)
+    const body = offset + 8
+
+    if (id === 'fmt ') {
+      let code = data.readUInt16LE(body)
+      if (code === FORMAT_EXTENSIBLE && size >= 40) code = data.readUInt16LE(body + 24)
+      if (code !== FORMAT_PCM) throw new Error('Only integer PCM WAV carriers are supported')
+
+      const channels = data.readUInt16LE(body + 2)
+      const blockAlign = data.readUInt16LE(body + 12)
+      const bitsPerSample = data.readUInt16LE(body + 14)
+      if (!channels || blockAlign % channels !== 0) throw new Error('Corrupt WAV format chunk')
+      format = {
+        channels,
+        sampleRate: data.readUInt32LE(body + 4),
+        bitsPerSample,
+        bytesPerSample: blockAlign / channels,
+      }
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk precedes its format chunk')
+      const length = Math.min(size, data.length - body)
+      return { ...format, dataOffset: body, sampleCount: Math.floor(length / format.bytesPerSample) }
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size & 1)
+  }
+
+  throw new Error('WAV file has no audio data')
+}
@@ -6,11 +6,17 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
-  // Experimental settings: configure Server Actions body size limit
+  // Experimental settings: configure Server Actions body size limit.
+  // Uploads carry the secret and every carrier in one request; the secret is
+  // further bounded by the carriers' capacity (MAX_REQUEST_MB in app/upload)
   experimental: {
     serverActions: {
-      bodySizeLimit: '50mb',
+      bodySizeLimit: '200mb',
     },
+    // proxy.ts matches every route, and Next buffers proxied request bodies
+    // only up to this size (10 MB by default) before silently truncating
+    // them, so it has to match bodySizeLimit above.
+    proxyClientMaxBodySize: '200mb',
   },
 
   // Security headers for HSDC application
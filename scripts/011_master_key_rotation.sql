@@ -0,0 +1,10 @@
+-- Versioned master keys for AES key wrapping
+-- Rows written before key versioning were wrapped with the legacy key ('v1')
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS key_id TEXT NOT NULL DEFAULT 'v1';
+
+CREATE INDEX IF NOT EXISTS idx_metadata_key_id ON public.metadata(key_id);
+
+-- Rotation jobs are tracked in the workers queue
+CREATE INDEX IF NOT EXISTS idx_workers_job_type_created ON workers(job_type, created_at DESC);
@@ -0,0 +1,8 @@
+-- Record which key wrap provider holds the key-encryption key for each file
+-- Rows written before providers were configurable used in-process RSA
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS key_provider TEXT NOT NULL DEFAULT 'local-rsa'
+  CHECK (key_provider IN ('local-rsa', 'softhsm', 'http-kms'));
+
+CREATE INDEX IF NOT EXISTS idx_metadata_key_provider ON public.metadata(key_provider, key_id);
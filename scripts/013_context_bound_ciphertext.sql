@@ -0,0 +1,6 @@
+-- Mark records whose ciphertext authenticates its own metadata context
+-- (record ID, owner, filename hash, envelope version) as AEAD associated data.
+-- Existing rows stay unbound and keep decrypting without context.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS context_bound BOOLEAN NOT NULL DEFAULT false;
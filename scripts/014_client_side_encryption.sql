@@ -0,0 +1,11 @@
+-- Zero-knowledge uploads: the browser encrypts under a passphrase-derived key
+-- and the server only embeds the ciphertext. No wrapped key is stored for
+-- these rows and server-side decryption is never attempted.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS client_encrypted BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.metadata DROP CONSTRAINT IF EXISTS metadata_key_provider_check;
+ALTER TABLE public.metadata
+  ADD CONSTRAINT metadata_key_provider_check
+  CHECK (key_provider IN ('local-rsa', 'softhsm', 'http-kms', 'passphrase'));
@@ -0,0 +1,67 @@
+-- M-of-N custodian recovery: the data key of a custody record is split into
+-- Shamir shares, each RSA-OAEP wrapped for one custodian. No wrapped copy of
+-- the data key is stored; recovery needs `custody_threshold` approvals.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS custody_threshold SMALLINT;
+
+ALTER TABLE public.metadata DROP CONSTRAINT IF EXISTS metadata_key_provider_check;
+ALTER TABLE public.metadata
+  ADD CONSTRAINT metadata_key_provider_check
+  CHECK (key_provider IN ('local-rsa', 'softhsm', 'http-kms', 'passphrase', 'custody'));
+
+-- Users who can hold shares, with the RSA public key shares are wrapped for
+CREATE TABLE IF NOT EXISTS custodians (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS custody_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  metadata_id UUID NOT NULL REFERENCES public.metadata(id) ON DELETE CASCADE,
+  custodian_id UUID NOT NULL REFERENCES custodians(user_id),
+  share_index SMALLINT NOT NULL CHECK (share_index BETWEEN 1 AND 255),
+  wrapped_share TEXT NOT NULL,
+  share_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (metadata_id, custodian_id),
+  UNIQUE (metadata_id, share_index)
+);
+
+-- A recovery attempt by the file owner; approvals are collected per request
+CREATE TABLE IF NOT EXISTS custody_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  metadata_id UUID NOT NULL REFERENCES public.metadata(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'FULFILLED', 'CANCELLED')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  fulfilled_at TIMESTAMPTZ
+);
+
+-- Submitted shares, sealed under the server key wrap provider until the
+-- request is fulfilled
+CREATE TABLE IF NOT EXISTS custody_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES custody_requests(id) ON DELETE CASCADE,
+  custodian_id UUID NOT NULL REFERENCES custodians(user_id),
+  share_index SMALLINT NOT NULL,
+  sealed_share TEXT NOT NULL,
+  key_id TEXT NOT NULL,
+  key_provider TEXT NOT NULL,
+  approved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (request_id, custodian_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custody_shares_custodian ON custody_shares(custodian_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custody_requests_open
+  ON custody_requests(metadata_id) WHERE status = 'OPEN';
+CREATE INDEX IF NOT EXISTS idx_custody_approvals_request ON custody_approvals(request_id);
+
+-- Custody tables are only accessed through the service role in server actions
+ALTER TABLE custodians ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custody_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custody_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custody_approvals ENABLE ROW LEVEL SECURITY;
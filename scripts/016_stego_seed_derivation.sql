@@ -0,0 +1,8 @@
+-- Stego seeds are derived with HKDF-SHA256 from a server secret and a per-file
+-- salt instead of being written to the UPLOAD activity log.
+-- legacy_stego_seed holds log-era seeds sealed by the admin seed migration,
+-- after which the plaintext seed is removed from activity_logs.details.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS stego_salt TEXT,
+  ADD COLUMN IF NOT EXISTS legacy_stego_seed TEXT;
@@ -0,0 +1,8 @@
+-- Pixel order version used to embed each record:
+--   1 = MD5-seeded 32-bit LCG shuffle (every row embedded before this migration)
+--   2 = AES-256-CTR keyed shuffle
+-- New uploads write the version explicitly.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS stego_version SMALLINT NOT NULL DEFAULT 1
+    CHECK (stego_version IN (1, 2));
@@ -0,0 +1,8 @@
+-- Pixel order version 3: lazy Feistel permutation with cycle-walking.
+-- Versions 1 and 2 remain valid for records embedded before it.
+
+ALTER TABLE public.metadata
+  DROP CONSTRAINT IF EXISTS metadata_stego_version_check;
+
+ALTER TABLE public.metadata
+  ADD CONSTRAINT metadata_stego_version_check CHECK (stego_version IN (1, 2, 3));
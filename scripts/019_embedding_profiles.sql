@@ -0,0 +1,6 @@
+-- Per-file embedding profile: LSB depth, channels and density cap, e.g.
+--   {"bitsPerChannel": 2, "channels": ["r", "g", "b"], "density": 1}
+-- NULL means the legacy profile (2 LSBs of R, G and B over every pixel).
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS stego_profile JSONB;
@@ -0,0 +1,8 @@
+-- Steganalysis self-check run at upload (lib/steganalysis.ts): chi-square,
+-- RS and sample pair estimates for the cover and the stego image, e.g.
+--   {"cover": {...}, "stego": {"chiSquare": {"pValue": 0.41, "estimatedRate": 0.25},
+--    "rs": {"estimatedRate": 0.08}, "spa": {"estimatedRate": 0.07}}, "detectability": 0.06}
+-- NULL for records uploaded before the check existed.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS steganalysis JSONB;
@@ -0,0 +1,8 @@
+-- Multi-carrier records (lib/stego-shards.ts): the ciphertext is split into
+-- shards, one stego file each, optionally with one XOR parity shard, e.g.
+--   {"setId": "9f2c...", "dataShards": 3, "parityShards": 1,
+--    "keys": ["<user>/stego_a.png", "<user>/stego_b.jpg", "<user>/stego_c.png", "<user>/stego_d.wav"]}
+-- stego_filename keeps the first key. NULL for single-carrier records.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS stego_shards JSONB;
@@ -0,0 +1,33 @@
+-- Deniable hidden payloads (lib/hidden-payload.ts): a second frame sharing a
+-- decoy record's carrier, sealed in the browser under its own passphrase.
+-- Rows carry no user ID and are found by decoy record + SHA-256 of the
+-- locator the browser derives from the hidden passphrase. Nothing here is
+-- shown in the decoy owner's dashboard, recovery list or activity log.
+
+CREATE TABLE IF NOT EXISTS hidden_payloads (
+  id UUID PRIMARY KEY,
+  decoy_metadata_id UUID NOT NULL REFERENCES public.metadata(id) ON DELETE CASCADE,
+  locator_hash TEXT NOT NULL,
+  original_filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  file_size BIGINT NOT NULL,
+  stego_salt TEXT NOT NULL,
+  integrity_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (decoy_metadata_id, locator_hash)
+);
+
+-- Audit trail of hidden payloads, kept apart from activity_logs
+CREATE TABLE IF NOT EXISTS hidden_payload_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hidden_payload_id UUID NOT NULL REFERENCES hidden_payloads(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('UPLOAD', 'RECOVERY')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hidden_payload_logs_payload ON hidden_payload_logs(hidden_payload_id);
+
+-- Hidden payload tables are only accessed through the service role in server actions
+ALTER TABLE hidden_payloads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hidden_payload_logs ENABLE ROW LEVEL SECURITY;
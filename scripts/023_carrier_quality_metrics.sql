@@ -0,0 +1,9 @@
+-- Carrier quality measured at upload (lib/carrier-quality.ts): PSNR and SSIM
+-- over the colour channels and the largest change to any channel value, e.g.
+--   {"psnr": 51.14, "ssim": 0.999412, "maxDelta": 3}
+-- psnr is null when the embedding changed nothing. For a multi-carrier set
+-- the carrier with the lowest PSNR is kept. NULL for WAV carriers and for
+-- records uploaded before the metrics existed.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS stego_quality JSONB;
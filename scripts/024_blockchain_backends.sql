@@ -0,0 +1,15 @@
+-- Record which blockchain backend (lib/blockchain/) anchored each file's
+-- integrity hash, so it is verified against the same ledger after the active
+-- backend changes. Rows anchored before backends were configurable used the
+-- mock. Network and block number come from the anchoring record, e.g.
+-- 'evm-31337' and the block that mined the registry transaction.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS blockchain_backend TEXT NOT NULL DEFAULT 'mock'
+  CHECK (blockchain_backend IN ('mock', 'evm'));
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS blockchain_network TEXT,
+  ADD COLUMN IF NOT EXISTS blockchain_block_number BIGINT;
+
+CREATE INDEX IF NOT EXISTS idx_metadata_blockchain_hash ON public.metadata(blockchain_hash);
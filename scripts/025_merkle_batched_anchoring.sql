@@ -0,0 +1,22 @@
+-- Merkle-batched anchoring (lib/blockchain/evm.ts). New EVM records are
+-- queued as PENDING; a batcher claims them (BATCHING, with its batch ID and
+-- claim time), anchors the Merkle root of the batch and marks them ANCHORED
+-- with an inclusion proof, e.g.
+--   {"batchId": "...", "root": "9f2c...", "leafIndex": 2, "leafCount": 5,
+--    "siblings": [{"hash": "41be...", "position": "right"}, ...],
+--    "txId": "0x...", "blockNumber": 1234, "network": "evm-31337"}
+-- Rows anchored one by one and mock records are ANCHORED with no proof.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS blockchain_status TEXT NOT NULL DEFAULT 'ANCHORED'
+  CHECK (blockchain_status IN ('PENDING', 'BATCHING', 'ANCHORED'));
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS blockchain_batch_id UUID,
+  ADD COLUMN IF NOT EXISTS blockchain_claimed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS blockchain_proof JSONB;
+
+-- The batcher's queue scan
+CREATE INDEX IF NOT EXISTS idx_metadata_blockchain_queue
+  ON public.metadata(blockchain_backend, blockchain_status, created_at)
+  WHERE blockchain_status <> 'ANCHORED';
@@ -0,0 +1,102 @@
+-- Local hash-chained ledger (lib/blockchain/ledger.ts), the default
+-- blockchain backend. Each block holds the Merkle root of its entries, the
+-- previous block's hash and its timestamp; block_hash is the SHA-256 of
+--   'hsdc-ledger-v1|<height>|<prev_hash>|<merkle_root>|<created_at in epoch ms>|<entry_count>'
+-- signed with the server's Ed25519 key (HSDC_LEDGER_SIGNING_KEY). Genesis
+-- links to 64 zeros. Only the service role writes, through
+-- append_ledger_block(); rows can never be updated or deleted.
+
+CREATE TABLE IF NOT EXISTS public.ledger_blocks (
+  height BIGINT PRIMARY KEY CHECK (height >= 0),
+  prev_hash TEXT NOT NULL,
+  merkle_root TEXT NOT NULL,
+  entry_count INTEGER NOT NULL CHECK (entry_count > 0),
+  created_at TIMESTAMPTZ NOT NULL,
+  block_hash TEXT NOT NULL UNIQUE,
+  signature TEXT NOT NULL,
+  signer_key_id TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  block_height BIGINT NOT NULL REFERENCES public.ledger_blocks(height),
+  entry_index INTEGER NOT NULL CHECK (entry_index >= 0),
+  hash TEXT NOT NULL,
+  user_id UUID, -- who stored it; no foreign key, entries outlive their users
+  PRIMARY KEY (block_height, entry_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_hash ON public.ledger_entries(hash);
+
+ALTER TABLE public.ledger_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Append-only
+CREATE OR REPLACE FUNCTION public.ledger_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The ledger is append-only: % on % is not allowed', TG_OP, TG_TABLE_NAME;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_blocks_append_only ON public.ledger_blocks;
+CREATE TRIGGER ledger_blocks_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ledger_append_only();
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ledger_append_only();
+
+-- A block and its entries in one transaction, only on top of the current tip.
+-- A writer that lost the race gets 40001 (or 23505) and retries on the new tip.
+CREATE OR REPLACE FUNCTION public.append_ledger_block(
+  p_height BIGINT,
+  p_prev_hash TEXT,
+  p_merkle_root TEXT,
+  p_created_at TIMESTAMPTZ,
+  p_block_hash TEXT,
+  p_signature TEXT,
+  p_signer_key_id TEXT,
+  p_entries JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  tip RECORD;
+BEGIN
+  SELECT height, block_hash INTO tip FROM public.ledger_blocks ORDER BY height DESC LIMIT 1 FOR UPDATE;
+
+  IF (tip IS NULL AND p_height <> 0)
+     OR (tip IS NOT NULL AND (p_height <> tip.height + 1 OR p_prev_hash <> tip.block_hash)) THEN
+    RAISE EXCEPTION 'Ledger tip moved' USING ERRCODE = '40001';
+  END IF;
+
+  INSERT INTO public.ledger_blocks
+    (height, prev_hash, merkle_root, entry_count, created_at, block_hash, signature, signer_key_id)
+  VALUES
+    (p_height, p_prev_hash, p_merkle_root, jsonb_array_length(p_entries), p_created_at, p_block_hash, p_signature, p_signer_key_id);
+
+  INSERT INTO public.ledger_entries (block_height, entry_index, hash, user_id)
+  SELECT p_height, (e.ordinality - 1)::INTEGER, e.value ->> 'hash', (e.value ->> 'user_id')::UUID
+  FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS e(value, ordinality);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.append_ledger_block(BIGINT, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_ledger_block(BIGINT, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB) TO service_role;
+
+-- Records may now be anchored in the ledger
+ALTER TABLE public.metadata DROP CONSTRAINT IF EXISTS metadata_blockchain_backend_check;
+ALTER TABLE public.metadata
+  ADD CONSTRAINT metadata_blockchain_backend_check
+  CHECK (blockchain_backend IN ('mock', 'ledger', 'evm'));
+
+-- The Phase 1 mock table was never written; the ledger replaces it
+DROP TABLE IF EXISTS public.blockchain_mock;
@@ -0,0 +1,8 @@
+-- Verification receipts (lib/receipts.ts). A receipt names the SHA-256 of
+-- every stego image of a record, so an auditor holding an image can tell it
+-- is the one that was anchored without extracting anything from it. Uploads
+-- record the digests here, in shard order; rows from before this migration
+-- are filled in from the vault copies when their first receipt is issued.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS stego_hashes TEXT[];
@@ -0,0 +1,10 @@
+-- Stego seed keys are versioned (lib/stego-seed.ts). Each record names the
+-- seed key its pixel order was derived under, so the key can be rotated
+-- without losing older stego images. NULL means the legacy key 'v1'
+-- (HSDC_STEGO_SEED_KEY), which every row from before this migration used.
+
+ALTER TABLE public.metadata
+  ADD COLUMN IF NOT EXISTS stego_seed_key_id TEXT;
+
+ALTER TABLE public.hidden_payloads
+  ADD COLUMN IF NOT EXISTS stego_seed_key_id TEXT;
@@ -0,0 +1,81 @@
+// ============================================
+// HSDC Local KMS Stand-in
+// Implements the wrap/unwrap contract of HttpKmsKeyWrapProvider for local testing.
+//
+//   KMS_DEV_PORT=8200 KMS_DEV_TOKEN=dev-token node scripts/kms-dev-server.mjs
+//
+// Then run the app with:
+//   HSDC_KEY_PROVIDER=http-kms HSDC_KMS_URL=http://127.0.0.1:8200
+//   HSDC_KMS_KEY_ID=dev-kek-1 HSDC_KMS_TOKEN=dev-token
+//
+// Keys live in memory only - restarting the server makes wrapped keys unrecoverable.
+// ============================================
+import http from 'node:http'
+import crypto from 'node:crypto'
+
+const PORT = Number(process.env.KMS_DEV_PORT || 8200)
+const TOKEN = process.env.KMS_DEV_TOKEN || ''
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+const keks = new Map()
+
+function getKek(keyId) {
+  if (!keks.has(keyId)) keks.set(keyId, crypto.randomBytes(32))
+  return keks.get(keyId)
+}
+
+function wrap(keyId, plaintext) {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKek(keyId), iv, { authTagLength: TAG_BYTES })
+  cipher.setAAD(Buffer.from(keyId, 'utf8'))
+  const body = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), body])
+}
+
+function unwrap(keyId, ciphertext) {
+  if (!keks.has(keyId)) throw new Error(`Unknown key ${keyId}`)
+  const decipher = crypto.createDecipheriv('aes-256-gcm', keks.get(keyId), ciphertext.subarray(0, IV_BYTES), {
+    authTagLength: TAG_BYTES,
+  })
+  decipher.setAAD(Buffer.from(keyId, 'utf8'))
+  decipher.setAuthTag(ciphertext.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+  return Buffer.concat([decipher.update(ciphertext.subarray(IV_BYTES + TAG_BYTES)), decipher.final()])
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || (req.url !== '/wrap' && req.url !== '/unwrap')) {
+    return send(res, 404, { error: 'Not found' })
+  }
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: 'Unauthorized' })
+  }
+
+  const chunks = []
+  req.on('data', (chunk) => chunks.push(chunk))
+  req.on('end', () => {
+    try {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+      if (!body.keyId) return send(res, 400, { error: 'keyId is required' })
+
+      if (req.url === '/wrap') {
+        const ciphertext = wrap(body.keyId, Buffer.from(body.plaintext, 'base64'))
+        return send(res, 200, { keyId: body.keyId, ciphertext: ciphertext.toString('base64') })
+      }
+
+      const plaintext = unwrap(body.keyId, Buffer.from(body.ciphertext, 'base64'))
+      return send(res, 200, { plaintext: plaintext.toString('base64') })
+    } catch (err) {
+      return send(res, 400, { error: err instanceof Error ? err.message : 'Bad request' })
+    }
+  })
+})
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`[KMS DEV] listening on http://127.0.0.1:${PORT}`)
+})
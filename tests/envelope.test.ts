@@ -0,0 +1,123 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import {
+  CIPHER_SUITES,
+  encodeEnvelopeHeader,
+  envelopeAad,
+  hasEnvelope,
+  parseEnvelope,
+  suiteCipher,
+  type CipherSuite,
+  type EnvelopeHeader,
+} from '@/lib/envelope'
+
+const KEY = crypto.randomBytes(32)
+
+// Seal a plaintext the way lib/crypto.ts does: header fields as AAD, tag last
+function seal(suite: CipherSuite, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(12)
+  const header: EnvelopeHeader = {
+    version: 1,
+    suite,
+    segmented: false,
+    kdf: { id: 'hkdf-sha256', salt: crypto.randomBytes(16), info: 'hsdc-test' },
+    keyId: 'v2',
+    keyProvider: 'local-rsa',
+    iv,
+    wrappedKey: crypto.randomBytes(256),
+    contextHash: crypto.randomBytes(32),
+  }
+  const cipher = crypto.createCipheriv(suiteCipher(suite) as crypto.CipherGCMTypes, KEY, iv, { authTagLength: 16 })
+  cipher.setAAD(envelopeAad(header))
+  const body = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([encodeEnvelopeHeader({ ...header, authTag: cipher.getAuthTag() }), body])
+}
+
+function open(data: Buffer): Buffer {
+  const parsed = parseEnvelope(data)
+  if (!parsed) throw new Error('No envelope')
+  const { header, aad, body } = parsed
+  const decipher = crypto.createDecipheriv(suiteCipher(header.suite) as crypto.CipherGCMTypes, KEY, header.iv!, {
+    authTagLength: 16,
+  })
+  decipher.setAAD(aad)
+  decipher.setAuthTag(header.authTag!)
+  return Buffer.concat([decipher.update(body), decipher.final()])
+}
+
+describe('envelope', () => {
+  const plaintext = crypto.randomBytes(1000)
+
+  for (const suite of Object.keys(CIPHER_SUITES) as CipherSuite[]) {
+    it(`round-trips a ${suite} record`, () => {
+      expect(open(seal(suite, plaintext))).toEqual(plaintext)
+    })
+  }
+
+  it('parses back every header field', () => {
+    const header: EnvelopeHeader = {
+      version: 1,
+      suite: 'CHACHA20-POLY1305',
+      segmented: true,
+      kdf: { id: 'pbkdf2-sha256', salt: crypto.randomBytes(16), iterations: 600_000 },
+      keyId: 'kms-key-7',
+      keyProvider: 'http-kms',
+      iv: crypto.randomBytes(12),
+      wrappedKey: crypto.randomBytes(64),
+      contextHash: crypto.randomBytes(32),
+      authTag: crypto.randomBytes(16),
+    }
+    const body = crypto.randomBytes(40)
+    const parsed = parseEnvelope(Buffer.concat([encodeEnvelopeHeader(header), body]))
+    expect(parsed?.header).toEqual(header)
+    expect(parsed?.body).toEqual(body)
+    expect(parsed?.aad).toEqual(envelopeAad(header))
+  })
+
+  it('authenticates every header byte before the tag', () => {
+    const sealed = seal('AES-256-GCM', plaintext)
+    const { aad } = parseEnvelope(sealed)!
+    // Skip the magic, which would only turn the record into a legacy one
+    for (let i = 4; i < aad.length; i++) {
+      const tampered = Buffer.from(sealed)
+      tampered[i] ^= 0x01
+      expect(() => open(tampered), `header byte ${i}`).toThrow()
+    }
+  })
+
+  it('authenticates the body', () => {
+    const sealed = seal('AES-256-GCM', plaintext)
+    const tampered = Buffer.from(sealed)
+    tampered[tampered.length - 1] ^= 0x01
+    expect(() => open(tampered)).toThrow()
+    expect(() => open(sealed.subarray(0, sealed.length - 1))).toThrow()
+  })
+
+  it('leaves pre-envelope ciphertext to the legacy paths', () => {
+    const legacy = crypto.randomBytes(64)
+    expect(hasEnvelope(legacy)).toBe(false)
+    expect(parseEnvelope(legacy)).toBeNull()
+  })
+
+  it('rejects unknown versions and suites, truncated headers and a tag before other fields', () => {
+    const sealed = seal('AES-256-GCM', plaintext)
+
+    const version = Buffer.from(sealed)
+    version[4] = 2
+    expect(() => parseEnvelope(version)).toThrow('Unsupported envelope version')
+
+    const suite = Buffer.from(sealed)
+    suite[5] = 0x7f
+    expect(() => parseEnvelope(suite)).toThrow('Unsupported envelope cipher suite')
+
+    const { aad } = parseEnvelope(sealed)!
+    expect(() => parseEnvelope(sealed.subarray(0, aad.length))).toThrow('Truncated envelope header')
+
+    // A tag field followed by a key ID field
+    const tagFirst = encodeEnvelopeHeader({ version: 1, suite: 'AES-256-GCM', segmented: false, kdf: { id: 'none' } })
+    const fields = Buffer.from([0xff, 0x00, 0x01, 0xaa, 0x02, 0x00, 0x01, 0x61])
+    const header = Buffer.concat([tagFirst, fields])
+    header.writeUInt16BE(header.length - 9, 7) // fields length, after the 9-byte fixed header
+    expect(() => parseEnvelope(header)).toThrow('auth tag must be the last field')
+  })
+})
@@ -0,0 +1,98 @@
+// Integration test against a local EVM node. Opt in with
+//
+//   anvil &
+//   HSDC_TEST_EVM_RPC_URL=http://127.0.0.1:8545 npm test
+//
+// HSDC_TEST_EVM_PRIVATE_KEY defaults to Anvil's first funded dev account.
+// Never point it at a chain whose funds matter: the test deploys contracts.
+import crypto from 'crypto'
+import { Contract, ContractFactory, JsonRpcProvider, NonceManager, Wallet } from 'ethers'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { EvmBlockchainService } from '@/lib/blockchain/evm'
+import { HASH_REGISTRY_ABI, HASH_REGISTRY_BYTECODE } from '@/lib/blockchain/hash-registry'
+import { buildMerkleTree } from '@/lib/blockchain/merkle'
+import type { MerkleInclusionProof } from '@/lib/types'
+
+const RPC_URL = process.env.HSDC_TEST_EVM_RPC_URL
+const PRIVATE_KEY =
+  process.env.HSDC_TEST_EVM_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+
+function integrityHash(): string {
+  return crypto.randomBytes(32).toString('hex')
+}
+
+function service(registryAddress?: string, privateKey = PRIVATE_KEY): EvmBlockchainService {
+  return new EvmBlockchainService({
+    rpcUrl: RPC_URL!,
+    privateKey,
+    registryAddress,
+    confirmations: 1,
+    network: 'anvil-test',
+    batchIntervalMs: 60 * 60_000, // the test anchors by hand
+    batchSize: 100,
+  })
+}
+
+describe.skipIf(!RPC_URL)('EvmBlockchainService on a local node', () => {
+  let registry: Contract
+  let registryAddress: string
+
+  beforeAll(async () => {
+    const wallet = new NonceManager(new Wallet(PRIVATE_KEY, new JsonRpcProvider(RPC_URL)))
+    const deployed = await new ContractFactory(HASH_REGISTRY_ABI, HASH_REGISTRY_BYTECODE, wallet).deploy()
+    await deployed.waitForDeployment()
+    registryAddress = await deployed.getAddress()
+    registry = new Contract(registryAddress, HASH_REGISTRY_ABI, wallet)
+  })
+
+  async function anchor(hash: string) {
+    const receipt = await (await registry.anchor(`0x${hash}`)).wait()
+    return { txId: receipt.hash as string, blockNumber: receipt.blockNumber as number }
+  }
+
+  it('verifies a hash anchored on its own, and not one that was never anchored', async () => {
+    const hash = integrityHash()
+    const { txId, blockNumber } = await anchor(hash)
+    const evm = service(registryAddress)
+
+    const record = await evm.verifyHash(hash)
+    expect(record).toMatchObject({ hash, txId, blockNumber, network: 'anvil-test', verified: true })
+    expect(await evm.verifyHash(integrityHash())).toBeNull()
+    expect(await evm.getHeadBlockNumber()).toBeGreaterThanOrEqual(blockNumber)
+  })
+
+  it('verifies every hash of an anchored Merkle batch by its proof', async () => {
+    const hashes = [integrityHash(), integrityHash(), integrityHash()]
+    const tree = buildMerkleTree(hashes)
+    const { txId, blockNumber } = await anchor(tree.root)
+    const evm = service(registryAddress)
+
+    for (const [leafIndex, hash] of hashes.entries()) {
+      const proof: MerkleInclusionProof = {
+        batchId: crypto.randomUUID(),
+        root: tree.root,
+        leafIndex,
+        leafCount: hashes.length,
+        siblings: tree.proofs[leafIndex],
+        txId,
+        blockNumber,
+        network: 'anvil-test',
+      }
+      expect(await evm.verifyHash(hash, proof)).toMatchObject({ hash, txId, verified: true })
+      // A proof for another leaf, or a root nobody anchored, does not verify
+      expect(await evm.verifyHash(integrityHash(), proof)).toBeNull()
+      expect(await evm.verifyHash(hash, { ...proof, root: integrityHash() })).toBeNull()
+    }
+  })
+
+  it('deploys its own registry when none is configured', async () => {
+    const hash = integrityHash()
+    const evm = service()
+    expect(await evm.verifyHash(hash)).toBeNull()
+  })
+
+  it('refuses a registry owned by another key', async () => {
+    const stranger = Wallet.createRandom().privateKey
+    await expect(service(registryAddress, stranger).verifyHash(integrityHash())).rejects.toThrow('is owned by')
+  })
+})
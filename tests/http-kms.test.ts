@@ -0,0 +1,70 @@
+import { spawn, type ChildProcess } from 'child_process'
+import crypto from 'crypto'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { HttpKmsKeyWrapProvider } from '@/lib/key-wrap/http-kms'
+
+const TOKEN = 'test-token'
+const PORT = 20000 + crypto.randomInt(20000)
+const BASE_URL = `http://127.0.0.1:${PORT}`
+
+// Start scripts/kms-dev-server.mjs and wait until it listens
+function startStandIn(): Promise<ChildProcess> {
+  const server = spawn(process.execPath, [path.resolve(__dirname, '../scripts/kms-dev-server.mjs')], {
+    env: { ...process.env, KMS_DEV_PORT: String(PORT), KMS_DEV_TOKEN: TOKEN },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  })
+  return new Promise((resolve, reject) => {
+    server.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve(server)
+    })
+    server.on('error', reject)
+    server.on('exit', (code) => reject(new Error(`KMS stand-in exited with code ${code}`)))
+  })
+}
+
+describe('HttpKmsKeyWrapProvider against the local KMS stand-in', () => {
+  let server: ChildProcess
+  const kms = new HttpKmsKeyWrapProvider({ baseUrl: BASE_URL, keyId: 'test-kek-1', token: TOKEN })
+
+  beforeAll(async () => {
+    server = await startStandIn()
+  })
+
+  afterAll(() => {
+    server?.kill()
+  })
+
+  it('round-trips a data key under the active key', async () => {
+    const dataKey = crypto.randomBytes(32)
+    const wrapped = await kms.wrap(dataKey)
+    expect(wrapped.keyId).toBe('test-kek-1')
+    expect(Buffer.from(wrapped.wrappedKey, 'base64').includes(dataKey)).toBe(false)
+    expect(await kms.unwrap(wrapped.wrappedKey, wrapped.keyId)).toEqual(dataKey)
+  })
+
+  it('round-trips a data key under a named key', async () => {
+    const dataKey = crypto.randomBytes(32)
+    const wrapped = await kms.wrap(dataKey, 'test-kek-2')
+    expect(wrapped.keyId).toBe('test-kek-2')
+    expect(await kms.unwrap(wrapped.wrappedKey, 'test-kek-2')).toEqual(dataKey)
+  })
+
+  it('refuses a tampered wrapped key', async () => {
+    const wrapped = await kms.wrap(crypto.randomBytes(32))
+    const tampered = Buffer.from(wrapped.wrappedKey, 'base64')
+    tampered[tampered.length - 1] ^= 0x01
+    await expect(kms.unwrap(tampered.toString('base64'), wrapped.keyId)).rejects.toThrow('HTTP 400')
+  })
+
+  it('refuses to unwrap under a different key', async () => {
+    const wrapped = await kms.wrap(crypto.randomBytes(32), 'test-kek-1')
+    await kms.wrap(crypto.randomBytes(32), 'test-kek-3')
+    await expect(kms.unwrap(wrapped.wrappedKey, 'test-kek-3')).rejects.toThrow('HTTP 400')
+  })
+
+  it('refuses a caller without the token', async () => {
+    const anonymous = new HttpKmsKeyWrapProvider({ baseUrl: BASE_URL, keyId: 'test-kek-1' })
+    await expect(anonymous.wrap(crypto.randomBytes(32))).rejects.toThrow('HTTP 401')
+  })
+})
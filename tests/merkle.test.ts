@@ -0,0 +1,57 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { buildMerkleTree, merkleRootFromProof } from '@/lib/blockchain/merkle'
+
+function integrityHashes(count: number): string[] {
+  return Array.from({ length: count }, () => crypto.randomBytes(32).toString('hex'))
+}
+
+describe('Merkle batches', () => {
+  // Odd sizes leave nodes without a partner on some level
+  for (const size of [1, 2, 3, 5, 8, 13]) {
+    it(`proves every leaf of a ${size}-hash batch`, () => {
+      const hashes = integrityHashes(size)
+      const tree = buildMerkleTree(hashes)
+      expect(tree.proofs).toHaveLength(size)
+      hashes.forEach((hash, i) => expect(merkleRootFromProof(hash, tree.proofs[i])).toBe(tree.root))
+    })
+  }
+
+  it('commits to the order and content of the batch', () => {
+    const hashes = integrityHashes(4)
+    const { root } = buildMerkleTree(hashes)
+    expect(buildMerkleTree([hashes[1], hashes[0], hashes[2], hashes[3]]).root).not.toBe(root)
+    expect(buildMerkleTree(hashes.slice(0, 3)).root).not.toBe(root)
+  })
+
+  it('rejects a tampered hash, sibling or position', () => {
+    const hashes = integrityHashes(6)
+    const tree = buildMerkleTree(hashes)
+    const proof = tree.proofs[2]
+
+    expect(merkleRootFromProof(integrityHashes(1)[0], proof)).not.toBe(tree.root)
+
+    const sibling = proof.map((step, i) => (i === 0 ? { ...step, hash: integrityHashes(1)[0] } : step))
+    expect(merkleRootFromProof(hashes[2], sibling)).not.toBe(tree.root)
+
+    const flipped = proof.map((step, i) =>
+      i === 0 ? { ...step, position: step.position === 'left' ? ('right' as const) : ('left' as const) } : step,
+    )
+    expect(merkleRootFromProof(hashes[2], flipped)).not.toBe(tree.root)
+
+    expect(merkleRootFromProof(hashes[2], proof.slice(1))).not.toBe(tree.root)
+  })
+
+  it('does not accept an interior node as a leaf', () => {
+    const hashes = integrityHashes(4)
+    const tree = buildMerkleTree(hashes)
+    // The second steps of the proofs of leaves 2 and 0: the nodes over 0-1 and 2-3
+    const left = tree.proofs[2][1]
+    const right = tree.proofs[0][1]
+    expect(merkleRootFromProof(left.hash, [right])).not.toBe(tree.root)
+  })
+
+  it('refuses an empty batch', () => {
+    expect(() => buildMerkleTree([])).toThrow('at least one hash')
+  })
+})
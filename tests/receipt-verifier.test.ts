@@ -0,0 +1,118 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { buildMerkleTree } from '@/lib/blockchain/merkle'
+import { createLedgerSigner, type LedgerSigner } from '@/lib/blockchain/signing'
+import { receiptSigningInput, verifyReceipt } from '@/lib/receipt-verifier'
+import type { VerificationReceipt } from '@/lib/types'
+
+function newSigner(): LedgerSigner {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519')
+  return createLedgerSigner(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString())
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+// Sign a receipt the way lib/receipts.ts issues one
+function sign(signer: LedgerSigner, body: Omit<VerificationReceipt, 'signature' | 'signer'>): VerificationReceipt {
+  const unsigned = {
+    ...body,
+    signer: { algorithm: 'Ed25519' as const, keyId: signer.keyId, publicKey: signer.publicKeyPem },
+  }
+  return { ...unsigned, signature: signer.sign(receiptSigningInput(unsigned)) }
+}
+
+describe('verifyReceipt', () => {
+  const signer = newSigner()
+  const images = [crypto.randomBytes(500), crypto.randomBytes(700)]
+  const batch = Array.from({ length: 5 }, () => crypto.randomBytes(32).toString('hex'))
+  const tree = buildMerkleTree(batch)
+
+  const receipt = sign(signer, {
+    version: 1,
+    receiptId: crypto.randomUUID(),
+    issuedAt: '2026-10-19T12:00:00.000Z',
+    integrityHash: batch[3],
+    carriers: images.map(sha256),
+    anchor: {
+      backend: 'ledger',
+      network: 'hsdc-ledger',
+      txId: 'block-42',
+      blockNumber: 42,
+      timestamp: '2026-10-19T11:59:00.000Z',
+      proof: {
+        batchId: crypto.randomUUID(),
+        root: tree.root,
+        leafIndex: 3,
+        leafCount: batch.length,
+        siblings: tree.proofs[3],
+        txId: 'block-42',
+        blockNumber: 42,
+        network: 'hsdc-ledger',
+      },
+    },
+  })
+
+  it('accepts a receipt signed by a trusted key, with its images in any order', () => {
+    const result = verifyReceipt(receipt, { trustedKeys: [signer.publicKeyPem], images: [images[1], images[0]] })
+    expect(result.problems).toEqual([])
+    expect(result.valid).toBe(true)
+    expect(result.trustedSigner).toBe(true)
+    expect(result.anchoredValue).toBe(tree.root)
+    expect(result.images.map((image) => image.carrierIndex)).toEqual([1, 0])
+  })
+
+  it('survives a JSON round trip with reordered keys', () => {
+    const copy = JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(receipt).reverse())))
+    expect(verifyReceipt(copy, { trustedKeys: [signer.publicKeyPem] }).valid).toBe(true)
+  })
+
+  it('accepts a receipt for a hash anchored on its own', () => {
+    const single = sign(signer, { ...receipt, anchor: { ...receipt.anchor, proof: null } })
+    const result = verifyReceipt(single, { trustedKeys: [signer.publicKeyPem] })
+    expect(result.valid).toBe(true)
+    expect(result.anchoredValue).toBe(batch[3])
+  })
+
+  it('rejects a tampered field', () => {
+    const tampered = { ...receipt, integrityHash: batch[2] }
+    const result = verifyReceipt(tampered, { trustedKeys: [signer.publicKeyPem] })
+    expect(result.valid).toBe(false)
+    expect(result.signatureValid).toBe(false)
+    expect(result.problems).toContain('Receipt signature is invalid')
+  })
+
+  it('rejects a receipt signed by an untrusted key', () => {
+    const other = newSigner()
+    const result = verifyReceipt(receipt, { trustedKeys: [other.publicKeyPem] })
+    expect(result.valid).toBe(false)
+    expect(result.signatureValid).toBe(true)
+    expect(result.trustedSigner).toBe(false)
+  })
+
+  it('rejects a signer key that does not match its key ID', () => {
+    const other = newSigner()
+    const swapped = { ...receipt, signer: { ...receipt.signer, publicKey: other.publicKeyPem } }
+    expect(verifyReceipt(swapped).problems).toContain('Receipt key ID does not match its public key')
+  })
+
+  it('rejects a proof that does not lead to the anchored root, even when signed', () => {
+    const proof = receipt.anchor.proof!
+    const wrongLeaf = sign(signer, { ...receipt, integrityHash: batch[1] })
+    expect(verifyReceipt(wrongLeaf).problems).toContain('Inclusion proof does not lead to the anchored root')
+
+    const otherTx = sign(signer, { ...receipt, anchor: { ...receipt.anchor, proof: { ...proof, txId: 'block-43' } } })
+    expect(verifyReceipt(otherTx).problems).toContain('Inclusion proof names a different anchoring transaction')
+  })
+
+  it('rejects an image the receipt does not cover', () => {
+    const result = verifyReceipt(receipt, { trustedKeys: [signer.publicKeyPem], images: [crypto.randomBytes(500)] })
+    expect(result.valid).toBe(false)
+    expect(result.images[0].carrierIndex).toBeNull()
+  })
+
+  it('rejects anything but a version 1 receipt', () => {
+    expect(verifyReceipt({ ...receipt, version: 2 } as unknown as VerificationReceipt).valid).toBe(false)
+  })
+})
@@ -0,0 +1,56 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { MAX_CODEWORD, rsDecode, rsEncode } from '@/lib/reed-solomon'
+
+function codeword(data: Buffer, nsym: number): Buffer {
+  return Buffer.concat([data, rsEncode(data, nsym)])
+}
+
+// Corrupt `count` distinct bytes of a copy
+function corrupt(word: Buffer, count: number): Buffer {
+  const damaged = Buffer.from(word)
+  const positions = new Set<number>()
+  while (positions.size < count) positions.add(crypto.randomInt(damaged.length))
+  for (const position of positions) damaged[position] ^= 1 + crypto.randomInt(255)
+  return damaged
+}
+
+describe('Reed-Solomon', () => {
+  it('decodes an intact codeword unchanged', () => {
+    const data = crypto.randomBytes(100)
+    expect(rsDecode(codeword(data, 16), 16)).toEqual({ data, corrected: 0 })
+  })
+
+  for (const nsym of [2, 16, 64, 128]) {
+    it(`repairs up to ${nsym / 2} damaged bytes with ${nsym} parity bytes`, () => {
+      const data = crypto.randomBytes(MAX_CODEWORD - nsym)
+      for (let errors = 1; errors <= nsym / 2; errors = errors * 2 + 1) {
+        const decoded = rsDecode(corrupt(codeword(data, nsym), errors), nsym)
+        expect(decoded.data).toEqual(data)
+        expect(decoded.corrected).toBe(errors)
+      }
+      const decoded = rsDecode(corrupt(codeword(data, nsym), nsym / 2), nsym)
+      expect(decoded.data).toEqual(data)
+    })
+  }
+
+  it('repairs damage in the parity bytes', () => {
+    const data = crypto.randomBytes(50)
+    const damaged = codeword(data, 16)
+    damaged[damaged.length - 1] ^= 0xff
+    damaged[damaged.length - 5] ^= 0x0f
+    expect(rsDecode(damaged, 16)).toEqual({ data, corrected: 2 })
+  })
+
+  it('refuses damage past its limit', () => {
+    const data = Buffer.from(Array.from({ length: 200 }, (_, i) => (i * 37) & 0xff))
+    const damaged = codeword(data, 16)
+    for (let i = 0; i < 20; i++) damaged[i * 11] ^= 0x5a
+    expect(() => rsDecode(damaged, 16)).toThrow()
+  })
+
+  it('rejects codewords longer than the field allows', () => {
+    expect(() => rsEncode(Buffer.alloc(MAX_CODEWORD), 16)).toThrow(`limited to ${MAX_CODEWORD} bytes`)
+    expect(() => rsDecode(Buffer.alloc(MAX_CODEWORD + 1), 16)).toThrow(`limited to ${MAX_CODEWORD} bytes`)
+  })
+})
@@ -0,0 +1,55 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { combineShares, MAX_SHARES, splitSecret } from '@/lib/shamir'
+
+describe('Shamir secret sharing', () => {
+  const secret = crypto.randomBytes(32)
+
+  it('rebuilds the secret from every threshold-sized subset', () => {
+    const shares = splitSecret(secret, 3, 5)
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          expect(combineShares([shares[a], shares[b], shares[c]])).toEqual(secret)
+        }
+      }
+    }
+  })
+
+  it('rebuilds the secret from more shares than the threshold, in any order', () => {
+    const shares = splitSecret(secret, 2, 4)
+    expect(combineShares([shares[3], shares[0], shares[2]])).toEqual(secret)
+  })
+
+  it('supports the largest share count', () => {
+    const shares = splitSecret(secret, 2, MAX_SHARES)
+    expect(combineShares([shares[0], shares[MAX_SHARES - 1]])).toEqual(secret)
+  })
+
+  it('does not rebuild the secret from fewer shares than the threshold', () => {
+    const shares = splitSecret(secret, 3, 5)
+    expect(combineShares([shares[0], shares[1]])).not.toEqual(secret)
+  })
+
+  it('does not rebuild the secret from a tampered share', () => {
+    const shares = splitSecret(secret, 2, 3)
+    const tampered = { index: shares[1].index, value: Buffer.from(shares[1].value) }
+    tampered.value[0] ^= 0x01
+    expect(combineShares([shares[0], tampered])).not.toEqual(secret)
+  })
+
+  it('rejects duplicate, out-of-range and mismatched shares', () => {
+    const shares = splitSecret(secret, 2, 3)
+    expect(() => combineShares([shares[0], shares[0]])).toThrow('Duplicate share index')
+    expect(() => combineShares([shares[0], { index: 0, value: shares[1].value }])).toThrow('Invalid share index')
+    expect(() => combineShares([shares[0], { index: 2, value: shares[1].value.subarray(1) }])).toThrow(
+      'different lengths',
+    )
+  })
+
+  it('rejects invalid share counts', () => {
+    expect(() => splitSecret(secret, 1, 3)).toThrow('at least 2')
+    expect(() => splitSecret(secret, 4, 3)).toThrow('at least the threshold')
+    expect(() => splitSecret(secret, 2, MAX_SHARES + 1)).toThrow(`At most ${MAX_SHARES}`)
+  })
+})
@@ -0,0 +1,102 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import {
+  CURRENT_STEGO_VERSION,
+  decodeFrame,
+  embed,
+  encodeFrame,
+  extract,
+  extractHidden,
+  STEGO_VERSION_KEYED,
+  STEGO_VERSION_LCG,
+} from '@/lib/stego'
+import type { StegoVersion } from '@/lib/types'
+
+// The frame as decodeFrame reads it from a carrier, byte stream in order
+function decode(frame: Buffer, totalBytes = frame.length + 64) {
+  let offset = 0
+  const stream = Buffer.concat([frame, Buffer.alloc(Math.max(0, totalBytes - frame.length))])
+  return decodeFrame((length) => stream.subarray(offset, (offset += length)), totalBytes)
+}
+
+// An opaque RGBA carrier with some texture
+function carrier(width: number, height: number): Buffer {
+  const pixels = crypto.randomBytes(width * height * 4)
+  for (let p = 3; p < pixels.length; p += 4) pixels[p] = 255
+  return pixels
+}
+
+describe('stego frame', () => {
+  const payload = crypto.randomBytes(600)
+
+  it('round-trips a plain frame', () => {
+    const result = decode(encodeFrame(payload))
+    expect(result.extractedData).toEqual(payload)
+    expect(result.integrityValid).toBe(true)
+    expect(result.eccSymbols).toBe(0)
+  })
+
+  it('flags a tampered plain frame by its CRC', () => {
+    const frame = encodeFrame(payload)
+    frame[100] ^= 0x01
+    expect(decode(frame).integrityValid).toBe(false)
+  })
+
+  it('round-trips an error-corrected frame', () => {
+    const result = decode(encodeFrame(payload, 32))
+    expect(result.extractedData).toEqual(payload)
+    expect(result.integrityValid).toBe(true)
+    expect(result.eccSymbols).toBe(32)
+    expect(result.correctedSymbols).toBe(0)
+  })
+
+  it('repairs damage to the header and body of an error-corrected frame', () => {
+    const frame = encodeFrame(payload, 32)
+    frame[0] ^= 0xff // header magic
+    frame[6] ^= 0x10 // header length
+    for (let i = 40; i < frame.length; i += 97) frame[i] ^= 0x01
+    const result = decode(frame)
+    expect(result.extractedData).toEqual(payload)
+    expect(result.integrityValid).toBe(true)
+    expect(result.correctedSymbols).toBeGreaterThanOrEqual(2)
+  })
+
+  it('flags an error-corrected frame damaged past repair', () => {
+    const frame = encodeFrame(payload, 16)
+    for (let i = 40; i < frame.length; i++) frame[i] ^= 0x01
+    expect(decode(frame).integrityValid).toBe(false)
+  })
+
+  it('refuses data that is not a frame, or a length the carrier cannot hold', () => {
+    expect(() => decode(crypto.randomBytes(100))).toThrow('magic header mismatch')
+    const frame = encodeFrame(payload)
+    expect(() => decode(frame, frame.length - 1)).toThrow('Invalid payload length')
+  })
+
+  const versions: [string, StegoVersion][] = [
+    ['LCG', STEGO_VERSION_LCG],
+    ['keyed', STEGO_VERSION_KEYED],
+    ['Feistel', CURRENT_STEGO_VERSION],
+  ]
+  for (const [name, version] of versions) {
+    it(`embeds and extracts through the ${name} pixel order`, async () => {
+      const cover = carrier(64, 64)
+      const { stegoImageBuffer } = await embed(cover, 64, 64, 4, payload, 'seed-a', version, { eccSymbols: 16 })
+      const result = extract(stegoImageBuffer, 64, 64, 4, 'seed-a', version)
+      expect(result.extractedData).toEqual(payload)
+      expect(result.integrityValid).toBe(true)
+      expect(() => extract(stegoImageBuffer, 64, 64, 4, 'seed-b', version)).toThrow()
+    })
+  }
+
+  it('extracts a hidden frame only with both seeds', async () => {
+    const hidden = crypto.randomBytes(200)
+    const cover = carrier(64, 64)
+    const { stegoImageBuffer } = await embed(cover, 64, 64, 4, payload, 'decoy', CURRENT_STEGO_VERSION, {
+      hidden: { payload: hidden, seed: 'hidden' },
+    })
+    expect(extract(stegoImageBuffer, 64, 64, 4, 'decoy').extractedData).toEqual(payload)
+    expect(extractHidden(stegoImageBuffer, 64, 64, 4, 'decoy', 'hidden').extractedData).toEqual(hidden)
+    expect(() => extractHidden(stegoImageBuffer, 64, 64, 4, 'decoy', 'other')).toThrow()
+  })
+})
@@ -0,0 +1,94 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SEGMENT_SIZE,
+  SegmentDecryptStream,
+  SegmentEncryptStream,
+  openPlaintextStream,
+  type SegmentCipher,
+} from '@/lib/stream-crypto'
+
+const SEGMENT_SIZE = 1024
+// The decryptor emits 16 segments per batch
+const BATCH_BYTES = SEGMENT_SIZE * 16
+const SEALED_SEGMENT = SEGMENT_SIZE + 16
+
+async function seal(
+  key: Buffer,
+  plaintext: Buffer,
+  options: { cipher?: SegmentCipher; segmentSize?: number } = {},
+): Promise<Buffer> {
+  const stream = new SegmentEncryptStream(key, { segmentSize: SEGMENT_SIZE, ...options })
+  const chunks: Buffer[] = []
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+  const done = new Promise((resolve, reject) => {
+    stream.on('end', resolve)
+    stream.on('error', reject)
+  })
+  stream.end(plaintext)
+  await done
+  return Buffer.concat(chunks)
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks)
+}
+
+describe('openPlaintextStream', () => {
+  const key = crypto.randomBytes(32)
+
+  it.each([0, 1, SEGMENT_SIZE, BATCH_BYTES, BATCH_BYTES + 1, BATCH_BYTES * 3 + 17])(
+    'round-trips %i bytes',
+    async (size) => {
+      const plaintext = crypto.randomBytes(size)
+      const stream = await openPlaintextStream(new SegmentDecryptStream(key), await seal(key, plaintext))
+      expect((await readAll(stream)).equals(plaintext)).toBe(true)
+    },
+  )
+
+  it('rejects before returning a stream when the first batch is tampered', async () => {
+    const sealed = await seal(key, crypto.randomBytes(BATCH_BYTES * 2))
+    sealed[20] ^= 0x01
+    await expect(openPlaintextStream(new SegmentDecryptStream(key), sealed)).rejects.toThrow()
+  })
+
+  it('rejects before returning a stream when a single-batch record is truncated', async () => {
+    const sealed = await seal(key, crypto.randomBytes(SEGMENT_SIZE * 3))
+    const truncated = sealed.subarray(0, sealed.length - SEALED_SEGMENT)
+    await expect(openPlaintextStream(new SegmentDecryptStream(key), truncated)).rejects.toThrow()
+  })
+
+  it('rejects a wrong key up front', async () => {
+    const sealed = await seal(key, crypto.randomBytes(100))
+    await expect(openPlaintextStream(new SegmentDecryptStream(crypto.randomBytes(32)), sealed)).rejects.toThrow()
+  })
+
+  // Later failures need a record larger than the decryptor's read-ahead, so
+  // these use full-size segments (1 MB batches)
+  const LARGE = DEFAULT_SEGMENT_SIZE * 16 * 4
+
+  it('errors the web stream when a later batch is tampered', async () => {
+    const sealed = await seal(key, crypto.randomBytes(LARGE), { segmentSize: DEFAULT_SEGMENT_SIZE })
+    sealed[sealed.length - 100] ^= 0x01
+    const errors: Error[] = []
+    const stream = await openPlaintextStream(new SegmentDecryptStream(key), sealed, {
+      onError: (error) => errors.push(error),
+    })
+    await expect(readAll(stream)).rejects.toThrow()
+    expect(errors).toHaveLength(1)
+  })
+
+  it('errors the web stream when trailing segments are dropped', async () => {
+    const sealed = await seal(key, crypto.randomBytes(LARGE), { segmentSize: DEFAULT_SEGMENT_SIZE })
+    const truncated = sealed.subarray(0, sealed.length - (DEFAULT_SEGMENT_SIZE + 16))
+    let sent = 0
+    const stream = await openPlaintextStream(new SegmentDecryptStream(key), truncated, {
+      onData: (chunk) => { sent += chunk.length },
+    })
+    await expect(readAll(stream)).rejects.toThrow()
+    expect(sent).toBeGreaterThan(0)
+    expect(sent).toBeLessThan(LARGE)
+  })
+})